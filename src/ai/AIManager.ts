@@ -1,22 +1,110 @@
-import { BaseAIProvider } from './providers/BaseProvider';
+import { BaseAIProvider, AITaskType, RequestOptions, StreamOptions } from './providers/BaseProvider';
 import { GeminiProvider } from './providers/GeminiProvider';
 import { OpenAIProvider } from './providers/OpenAIProvider';
 import { DeepSeekProvider } from './providers/DeepSeekProvider';
+import { OpenAICompatibleProvider } from './providers/OpenAICompatibleProvider';
+import { AnthropicProvider } from './providers/AnthropicProvider';
 import { MockProvider } from './providers/MockProvider';
+import { ReplayProvider } from './providers/ReplayProvider';
+import { ResponseCache } from './ResponseCache';
+import { UsageLedger } from './UsageLedger';
+import { Cassette, CassetteKind } from './Cassette';
+import { Redactor, Redaction, PLACEHOLDER_NOTE } from './Redactor';
+import { AuditLog, AuditTarget } from './AuditLog';
+import { AIAbortError, BudgetExceededError } from './errors';
 import { ConfigManager } from '../core/config/ConfigManager';
+import { LocalMatchScorer } from '../core/match/LocalMatchScorer';
 import { AIProvider, ProjectAnalysis, Resume, JobRequirement } from '../models';
 import { Logger } from '../utils/Logger';
+import { z } from 'zod';
+import { parseStructuredOutput } from './schemas';
+
+/**
+ * A task's preferred provider and, optionally, a model other than the
+ * provider's configured default. Stored as `ai.routing.<task>`.
+ */
+export interface ModelRoute {
+  provider: AIProvider;
+  model?: string;
+}
+
+/**
+ * How match scores are calculated, stored as `ai.matchScoring`: by the AI
+ * provider, by the offline LocalMatchScorer, or the average of both.
+ */
+export type MatchScoringMode = 'llm' | 'local' | 'hybrid';
+
+/**
+ * How many alternative answers to request at once and how to spread them.
+ * Temperatures and providers are assigned round-robin, so three variants
+ * over `[0.3, 0.9]` run at 0.3, 0.9, 0.3. Stored as `ai.variants`.
+ */
+export interface VariantOptions {
+  count: number;
+  temperatures?: number[];
+  providers?: AIProvider[];
+  signal?: AbortSignal;
+}
+
+/**
+ * One alternative answer and where it came from.
+ */
+export interface Variant<T> {
+  data: T;
+  provider: AIProvider;
+  model: string;
+  temperature?: number;
+}
+
+export const DEFAULT_VARIANT_COUNT = 3;
+export const MAX_VARIANTS = 5;
+
+/**
+ * Seconds a single request may take before it is aborted, including
+ * retries. Users override these with `ai.timeouts.<task>`; 0 disables.
+ */
+export const DEFAULT_TIMEOUTS: Record<AITaskType | 'default', number> = {
+  default: 180,
+  analyze: 120,
+  generate: 300,
+  update: 180,
+  match: 120,
+  polish: 180,
+  tailor: 180,
+  translate: 180,
+  prompt: 180,
+};
 
 export class AIManager {
   private static instance: AIManager;
   private providers: Map<AIProvider, BaseAIProvider> = new Map();
-  private primaryProvider: BaseAIProvider | null = null;
+  private providerOrder: AIProvider[] = [];
+  private lastUsedProvider: AIProvider | null = null;
+  private routing: Partial<Record<AITaskType, ModelRoute>> = {};
+  // Instances for routes whose model differs from the initialized provider's
+  private routedProviders: Map<string, BaseAIProvider> = new Map();
+  // Routes whose provider failed its availability check, so it isn't repeated per request
+  private unavailableRoutes: Set<string> = new Set();
+  // The `ai` config the providers were probed with; null until the first probe
+  private loadedConfig: string | null = null;
   private logger: Logger;
   private configManager: ConfigManager;
+  private responseCache: ResponseCache;
+  private usageLedger: UsageLedger;
+  private cassette: Cassette;
+  private redactor: Redactor;
+  private auditLog: AuditLog;
+  private localScorer: LocalMatchScorer;
 
   private constructor() {
     this.logger = new Logger('AIManager');
     this.configManager = ConfigManager.getInstance();
+    this.responseCache = ResponseCache.getInstance();
+    this.usageLedger = UsageLedger.getInstance();
+    this.cassette = Cassette.getInstance();
+    this.redactor = Redactor.getInstance();
+    this.auditLog = AuditLog.getInstance();
+    this.localScorer = LocalMatchScorer.getInstance();
   }
 
   static getInstance(): AIManager {
@@ -26,7 +114,23 @@ export class AIManager {
     return AIManager.instance;
   }
 
+  /**
+   * Probes the configured providers. Commands call this before every AI
+   * request, so the probe only runs again when the `ai` config has changed
+   * since the last one.
+   */
   async initialize(): Promise<void> {
+    // A replayed session needs no keys or network, so it replaces every provider
+    if (this.cassette.isReplaying()) {
+      this.loadedConfig = null;
+      this.providers.clear();
+      this.providers.set('replay' as AIProvider, new ReplayProvider(this.cassette));
+      this.providerOrder = ['replay' as AIProvider];
+      this.routing = {};
+      this.logger.info(`Replaying AI responses from ${this.cassette.getPath()}`);
+      return;
+    }
+
     const config = await this.configManager.load();
     const aiConfig = config.ai;
 
@@ -35,6 +139,13 @@ export class AIManager {
       return;
     }
 
+    const snapshot = JSON.stringify(aiConfig);
+    if (snapshot === this.loadedConfig) {
+      return;
+    }
+    this.loadedConfig = snapshot;
+    this.providers.clear();
+
     // Initialize configured providers
     await this.initializeProvider(aiConfig.provider);
 
@@ -45,9 +156,17 @@ export class AIManager {
       }
     }
 
+    // Primary first, then fallbacks in the order the user configured them
+    this.providerOrder = [aiConfig.provider, ...(aiConfig.fallbacks || [])].filter(
+      (p: AIProvider, i: number, all: AIProvider[]) => all.indexOf(p) === i
+    );
+
+    this.routing = aiConfig.routing || {};
+    this.routedProviders.clear();
+    this.unavailableRoutes.clear();
+
     // Set primary provider
     if (this.providers.has(aiConfig.provider)) {
-      this.primaryProvider = this.providers.get(aiConfig.provider)!;
       this.logger.info(`Primary AI provider set to: ${aiConfig.provider}`);
     }
   }
@@ -64,6 +183,12 @@ export class AIManager {
       return;
     }
 
+    // Local OpenAI-compatible servers usually run without an API key
+    if (provider === 'openai-compatible') {
+      await this.initializeOpenAICompatible();
+      return;
+    }
+
     const apiKey = this.configManager.getAIApiKey(provider as AIProvider);
     
     if (!apiKey) {
@@ -75,67 +200,116 @@ export class AIManager {
       return;
     }
 
-    // Get model from config if specified for this provider
-    const config = await this.configManager.get('ai');
-    const providerModel = config?.models?.[provider];
+    const providerInstance = await this.createProvider(provider as AIProvider);
+    if (!providerInstance) {
+      return;
+    }
+
+    // Test availability
+    const isAvailable = await providerInstance.isAvailable();
     
-    let providerInstance: BaseAIProvider;
+    if (isAvailable) {
+      this.providers.set(provider, providerInstance);
+      this.logger.success(`${provider} provider initialized successfully`);
+    } else {
+      this.logger.warn(`${provider} provider is not available`);
+    }
+  }
+
+  private async initializeOpenAICompatible(): Promise<void> {
+    const provider = 'openai-compatible' as AIProvider;
+    const providerInstance = (await this.createProvider(provider))!;
+
+    if (await providerInstance.isAvailable()) {
+      this.providers.set(provider, providerInstance);
+      this.logger.success(`${provider} provider initialized successfully`);
+    } else {
+      this.logger.warn(`${provider} provider is not available at ${this.getOpenAICompatibleBaseURL()}`);
+    }
+  }
+
+  /**
+   * Builds a provider client. `model` overrides the provider's configured
+   * model, which is how task routes get their own instance. Returns null
+   * when the provider has no API key or is unknown.
+   */
+  private async createProvider(provider: AIProvider, model?: string): Promise<BaseAIProvider | null> {
+    const config = await this.configManager.get('ai');
+    const providerModel = model || config?.models?.[provider];
+
+    // Local OpenAI-compatible servers usually run without an API key
+    if (provider === 'openai-compatible') {
+      const baseURL = this.getOpenAICompatibleBaseURL();
+      const compatibleModel = providerModel || 'llama3.1';
+      this.logger.info(`Using OpenAI-compatible server ${baseURL} with model: ${compatibleModel}`);
+      return new OpenAICompatibleProvider(baseURL, compatibleModel, this.configManager.getAIApiKey(provider));
+    }
+
+    const apiKey = this.configManager.getAIApiKey(provider);
+    if (!apiKey) {
+      return null;
+    }
 
     switch (provider) {
-      case 'gemini':
+      case 'gemini': {
         // Use gemini-2.5-pro as default model
         const geminiModel = providerModel || 'gemini-2.5-pro';
-        providerInstance = new GeminiProvider(apiKey, geminiModel);
         this.logger.info(`Using Gemini with model: ${geminiModel}`);
-        break;
-      case 'openai':
+        return new GeminiProvider(apiKey, geminiModel);
+      }
+      case 'openai': {
         // Use gpt-5 as default model
         const openaiModel = providerModel || 'gpt-5';
-        providerInstance = new OpenAIProvider(apiKey, openaiModel);
         this.logger.info(`Using OpenAI with model: ${openaiModel}`);
-        break;
-      case 'deepseek':
+        return new OpenAIProvider(apiKey, openaiModel);
+      }
+      case 'deepseek': {
         // Use deepseek-reasoner as default model
         const deepseekModel = providerModel || 'deepseek-reasoner';
-        providerInstance = new DeepSeekProvider(apiKey, deepseekModel);
         this.logger.info(`Using DeepSeek with model: ${deepseekModel}`);
-        break;
-      case 'anthropic':
+        return new DeepSeekProvider(apiKey, deepseekModel);
+      }
+      case 'anthropic': {
+        // Use claude-sonnet-4 as default model
+        const anthropicModel = providerModel || 'claude-sonnet-4-20250514';
+        this.logger.info(`Using Anthropic with model: ${anthropicModel}`);
+        return new AnthropicProvider(apiKey, anthropicModel, (config as any)?.maxTokens?.anthropic);
+      }
       case 'azure':
       case 'custom':
         // Placeholder for other providers
         this.logger.warn(`Provider ${provider} not yet fully implemented, using Gemini as fallback`);
-        const fallbackModel = providerModel || 'gemini-2.5-pro';
-        providerInstance = new GeminiProvider(apiKey, fallbackModel);
-        break;
+        return new GeminiProvider(apiKey, providerModel || 'gemini-2.5-pro');
       default:
         this.logger.warn(`Unknown provider: ${provider}`);
-        return;
+        return null;
     }
+  }
 
-    // Test availability
-    const isAvailable = await providerInstance.isAvailable();
-    
-    if (isAvailable) {
-      this.providers.set(provider, providerInstance);
-      this.logger.success(`${provider} provider initialized successfully`);
-    } else {
-      this.logger.warn(`${provider} provider is not available`);
-    }
+  private getOpenAICompatibleBaseURL(): string {
+    // Default to a local Ollama server
+    return this.configManager.getAIBaseURL('openai-compatible' as AIProvider) || 'http://localhost:11434/v1';
   }
 
-  async analyzeProject(project: ProjectAnalysis): Promise<{
+  async analyzeProject(project: ProjectAnalysis, options?: RequestOptions): Promise<{
     summary: string;
     skills: string[];
     highlights: string[];
   }> {
-    const provider = await this.getAvailableProvider();
-    return provider.analyzeProject(project);
+    return this.runWithFallback('analyze', async (provider, name) => {
+      const redaction = await this.redactor.forProvider(name);
+      return this.send(provider, name, 'analyze', (signal) =>
+        this.dispatch(this.auditTarget(provider, name, 'analyze', redaction), redaction, project, (input) => provider.analyzeProject(input, { signal })), {
+        signal: options?.signal,
+        cassette: { kind: 'analyze', request: project },
+      });
+    });
   }
 
   async generateResume(
     projects: ProjectAnalysis[],
-    profile: any
+    profile: any,
+    options?: RequestOptions
   ): Promise<Resume> {
     // Debug log
     this.logger.debug('AIManager generateResume - profile passed:', {
@@ -146,59 +320,565 @@ export class AIManager {
       education: profile.education
     });
     
-    const provider = await this.getAvailableProvider();
-    return provider.generateResume(projects, profile);
+    const resume = await this.runWithFallback('generate', async (provider, name) => {
+      const redaction = await this.redactor.forProvider(name);
+      return this.send(provider, name, 'generate', (signal) =>
+        this.dispatch(this.auditTarget(provider, name, 'generate', redaction), redaction, { projects, profile }, (input) =>
+          provider.generateResume(input.projects, input.profile, { signal })), {
+        signal: options?.signal,
+        cassette: { kind: 'generate', request: { projects, profile } },
+      });
+    });
+    resume.aiProvider = this.lastUsedProvider!;
+    return resume;
   }
 
   async updateResume(
     resume: Resume,
-    changes: Partial<Resume>
+    changes: Partial<Resume>,
+    options?: RequestOptions
   ): Promise<Resume> {
-    const provider = await this.getAvailableProvider();
-    return provider.updateResume(resume, changes);
+    const updated = await this.runWithFallback('update', async (provider, name) => {
+      const redaction = await this.redactor.forProvider(name);
+      return this.send(provider, name, 'update', (signal) =>
+        this.dispatch(this.auditTarget(provider, name, 'update', redaction), redaction, { resume, changes }, (input) =>
+          provider.updateResume(input.resume, input.changes, { signal })), {
+        signal: options?.signal,
+        cassette: { kind: 'update', request: { resume, changes } },
+      });
+    });
+    updated.aiProvider = this.lastUsedProvider!;
+    return updated;
   }
 
+  /**
+   * Scores a resume against a job. Without any configured provider the
+   * local scorer is used, so matching works with no API key at all.
+   */
   async matchScore(
     resume: Resume,
-    job: JobRequirement
+    job: JobRequirement,
+    options?: RequestOptions
   ): Promise<number> {
-    const provider = await this.getAvailableProvider();
-    return provider.matchScore(resume, job);
+    const mode = await this.getMatchScoring();
+    if (mode === 'local' || !(await this.hasProvider('match'))) {
+      return this.localScorer.matchScore(resume, job);
+    }
+
+    const score = await this.llmMatchScore(resume, job, options);
+    if (mode === 'hybrid') {
+      return Math.round((score + (await this.localScorer.matchScore(resume, job))) / 2);
+    }
+    return score;
   }
 
-  async processPrompt(prompt: string): Promise<string> {
-    const provider = await this.getAvailableProvider();
-    // Use the provider's internal method to process general prompts
-    return provider.processGeneralPrompt(prompt);
+  /**
+   * Whether any initialized or routed provider can take `task`.
+   */
+  async hasProvider(task: AITaskType): Promise<boolean> {
+    return (await this.getProviderChain(task)).length > 0;
   }
 
-  private async getAvailableProvider(): Promise<BaseAIProvider> {
-    // Try primary provider first
-    if (this.primaryProvider) {
-      const isAvailable = await this.primaryProvider.isAvailable();
-      if (isAvailable) {
-        return this.primaryProvider;
+  async getMatchScoring(): Promise<MatchScoringMode> {
+    const aiConfig: any = await this.configManager.get('ai');
+    const mode = aiConfig?.matchScoring;
+    return mode === 'local' || mode === 'hybrid' ? mode : 'llm';
+  }
+
+  private async llmMatchScore(
+    resume: Resume,
+    job: JobRequirement,
+    options?: RequestOptions
+  ): Promise<number> {
+    return this.runWithFallback('match', async (provider, name) => {
+      const redaction = await this.redactor.forProvider(name);
+      return this.send(provider, name, 'match', (signal) =>
+        this.dispatch(this.auditTarget(provider, name, 'match', redaction), redaction, { resume, job }, (input) =>
+          provider.matchScore(input.resume, input.job, { signal })), {
+        signal: options?.signal,
+        cassette: { kind: 'match', request: { resume, job } },
+      });
+    });
+  }
+
+  /**
+   * Sends a free-form prompt. With `onChunk` the response is streamed from
+   * providers that support it; a cache hit is delivered as one chunk.
+   */
+  async processPrompt(
+    prompt: string,
+    options?: { bypassCache?: boolean; task?: AITaskType } & StreamOptions
+  ): Promise<string> {
+    const tracker = this.trackStream(options);
+    const task = options?.task || 'prompt';
+
+    return this.runWithFallback(task, async (provider, name) => {
+      const cacheKey = this.responseCache.key(name, provider.getModel(), prompt);
+
+      if (!options?.bypassCache) {
+        const cached = await this.responseCache.get(cacheKey);
+        if (cached !== null) {
+          this.logger.debug(`Serving ${name} response from cache`);
+          tracker.stream?.onChunk?.(cached);
+          await this.cassette.record('prompt', prompt, cached, name, provider.getModel());
+          return cached;
+        }
+      }
+
+      // Use the provider's internal method to process general prompts
+      const redaction = await this.redactor.forProvider(name);
+      const response = await this.send(provider, name, task, (signal) =>
+        this.dispatchPrompt(this.auditTarget(provider, name, task, redaction), redaction, prompt, tracker.stream, (outgoing, stream) =>
+          stream
+            ? provider.streamToString(outgoing, { ...stream, signal })
+            : provider.processGeneralPrompt(outgoing, { signal })),
+        { prompt, signal: options?.signal, cassette: { kind: 'prompt', request: prompt } }
+      );
+      await this.responseCache.set(cacheKey, name, provider.getModel(), response);
+      return response;
+    }, tracker.canFallback);
+  }
+
+  /**
+   * Runs a prompt whose answer must match `schema`. Validated results are
+   * cached as JSON, so a cache hit never needs re-validation by the model.
+   */
+  async processStructured<T>(
+    prompt: string,
+    schema: z.ZodType<T>,
+    task: AITaskType,
+    stream?: StreamOptions
+  ): Promise<T> {
+    const tracker = this.trackStream(stream);
+
+    return this.runWithFallback(task, async (provider, name) => {
+      // Separate namespace from plain-text responses to the same prompt
+      const model = `${provider.getModel()}#json`;
+      const cacheKey = this.responseCache.key(name, model, prompt);
+
+      const cached = await this.responseCache.get(cacheKey);
+      if (cached !== null) {
+        const parsed = parseStructuredOutput(cached, schema);
+        if (parsed.success) {
+          this.logger.debug(`Serving ${name} ${task} result from cache`);
+          await this.cassette.record('json', prompt, parsed.data, name, provider.getModel());
+          return parsed.data!;
+        }
+      }
+
+      const redaction = await this.redactor.forProvider(name);
+      const result = await this.send(provider, name, task, (signal) =>
+        this.dispatchPrompt(this.auditTarget(provider, name, task, redaction), redaction, prompt, tracker.stream, (outgoing, stream) =>
+          provider.generateStructured(outgoing, schema, task, { ...stream, signal })),
+        { prompt, signal: stream?.signal, cassette: { kind: 'json', request: prompt } }
+      );
+      await this.responseCache.set(cacheKey, name, model, JSON.stringify(result));
+      return result;
+    }, tracker.canFallback);
+  }
+
+  /**
+   * Asks for several alternative answers to the same structured prompt.
+   * Variants always bypass the cache, since identical answers would defeat
+   * the purpose. A variant that fails is dropped; only when every variant
+   * fails is the first error thrown.
+   */
+  async processStructuredVariants<T>(
+    prompt: string,
+    schema: z.ZodType<T>,
+    task: AITaskType,
+    options: VariantOptions
+  ): Promise<Array<Variant<T>>> {
+    return this.generateVariants(task, prompt, 'json', options, (provider, outgoing, request) =>
+      provider.generateStructured(outgoing, schema, task, request));
+  }
+
+  /**
+   * Free-form counterpart of processStructuredVariants.
+   */
+  async processPromptVariants(prompt: string, task: AITaskType, options: VariantOptions): Promise<Array<Variant<string>>> {
+    return this.generateVariants(task, prompt, 'prompt', options, (provider, outgoing, request) =>
+      provider.processGeneralPrompt(outgoing, request));
+  }
+
+  /**
+   * The user's default spread for variants, from `ai.variants`.
+   */
+  async getVariantOptions(): Promise<VariantOptions> {
+    const aiConfig: any = await this.configManager.get('ai');
+    const configured = aiConfig?.variants || {};
+    return {
+      count: Number(configured.count) || DEFAULT_VARIANT_COUNT,
+      temperatures: Array.isArray(configured.temperatures) ? configured.temperatures : undefined,
+      providers: Array.isArray(configured.providers) ? configured.providers : undefined,
+    };
+  }
+
+  private async generateVariants<T>(
+    task: AITaskType,
+    prompt: string,
+    kind: CassetteKind,
+    options: VariantOptions,
+    call: (provider: BaseAIProvider, prompt: string, request: RequestOptions) => Promise<T>
+  ): Promise<Array<Variant<T>>> {
+    const count = Math.min(Math.max(Math.floor(options.count) || 1, 1), MAX_VARIANTS);
+    // A replayed session has a single provider that stands in for all of them
+    const providers = this.cassette.isReplaying() ? [] : options.providers || [];
+    const temperatures = options.temperatures || [];
+
+    // One at a time, so each request is checked against the budget and its usage recorded separately
+    const variants: Array<Variant<T>> = [];
+    let firstError: unknown;
+    for (let i = 0; i < count; i++) {
+      const temperature = temperatures.length > 0 ? temperatures[i % temperatures.length] : undefined;
+      const run = async (provider: BaseAIProvider, name: AIProvider): Promise<Variant<T>> => {
+        const redaction = await this.redactor.forProvider(name);
+        const data = await this.send(provider, name, task, (signal) =>
+          this.dispatchPrompt(this.auditTarget(provider, name, task, redaction), redaction, prompt, undefined, (outgoing) =>
+            call(provider, outgoing, { signal, temperature })),
+          { prompt, signal: options.signal, cassette: { kind, request: prompt } }
+        );
+        return { data, provider: name, model: provider.getModel(), temperature };
+      };
+
+      try {
+        if (providers.length === 0) {
+          variants.push(await this.runWithFallback(task, run));
+          continue;
+        }
+        const name = providers[i % providers.length];
+        const provider = await this.getNamedProvider(name);
+        if (!provider) {
+          throw new Error(`${name} is not configured`);
+        }
+        variants.push(await run(provider, name));
+      } catch (error: any) {
+        // Cancelling stops the remaining variants too
+        if (options.signal?.aborted || error instanceof BudgetExceededError) {
+          throw error;
+        }
+        firstError ??= error;
+        this.logger.warn(`${task} variant ${i + 1} failed: ${error.message}`);
       }
-      this.logger.warn('Primary provider not available, trying fallbacks');
     }
 
-    // Try fallback providers
-    for (const [_name, provider] of this.providers) {
-      const isAvailable = await provider.isAvailable();
-      if (isAvailable) {
-        this.logger.info(`Using fallback provider: ${_name}`);
-        return provider;
+    if (variants.length === 0) {
+      throw firstError;
+    }
+    return variants;
+  }
+
+  /**
+   * An initialized provider by name, or a new instance for one that has a
+   * key configured but isn't in the fallback chain.
+   */
+  private async getNamedProvider(name: AIProvider): Promise<BaseAIProvider | null> {
+    const existing = this.providers.get(name);
+    if (existing) {
+      return existing;
+    }
+
+    const key = `${name}:`;
+    let instance = this.routedProviders.get(key) || null;
+    if (!instance) {
+      instance = await this.createProvider(name);
+      if (instance) {
+        this.routedProviders.set(key, instance);
+      }
+    }
+    return instance;
+  }
+
+  /**
+   * Hands `input` to the provider with the user's personal data replaced by
+   * placeholders, audits exactly what was sent and what came back, then
+   * puts the real values back into the result.
+   */
+  private async dispatch<I, T>(
+    target: AuditTarget,
+    redaction: Redaction | null,
+    input: I,
+    call: (input: I) => Promise<T>
+  ): Promise<T> {
+    const outgoing = redaction ? redaction.apply(input) : input;
+
+    let result: T;
+    try {
+      result = await call(outgoing);
+    } catch (error) {
+      await this.auditLog.record(target, outgoing, undefined, error);
+      throw error;
+    }
+
+    await this.auditLog.record(target, outgoing, result);
+    return redaction ? redaction.restore(result) : result;
+  }
+
+  /**
+   * Prompt variant of `dispatch`: tells the model to keep placeholders
+   * intact and restores them in streamed chunks before they are shown.
+   */
+  private async dispatchPrompt<T>(
+    target: AuditTarget,
+    redaction: Redaction | null,
+    prompt: string,
+    stream: StreamOptions | undefined,
+    call: (prompt: string, stream?: StreamOptions) => Promise<T>
+  ): Promise<T> {
+    let outgoing = redaction ? redaction.apply(prompt) : prompt;
+    if (outgoing !== prompt) {
+      outgoing = `${outgoing}\n\n${PLACEHOLDER_NOTE}`;
+    }
+
+    const restorer = redaction && stream?.onChunk ? redaction.restoreStream(stream.onChunk) : null;
+    const result = await this.dispatch(target, null, outgoing, (text) =>
+      call(text, restorer ? { ...stream, onChunk: restorer.onChunk } : stream)
+    );
+    restorer?.flush();
+    return redaction ? redaction.restore(result) : result;
+  }
+
+  private auditTarget(provider: BaseAIProvider, name: AIProvider, task: AITaskType, redaction: Redaction | null): AuditTarget {
+    return { provider: name, model: provider.getModel(), task, redacted: redaction !== null };
+  }
+
+  /**
+   * Wraps the caller's stream callbacks to note whether any text reached
+   * them. Once output is on screen, falling back to another provider would
+   * print a second answer after the first, so the error is surfaced instead.
+   */
+  private trackStream(options?: StreamOptions): { stream?: StreamOptions; canFallback: () => boolean } {
+    if (!options?.onChunk) {
+      return { canFallback: () => true };
+    }
+
+    let started = false;
+    const onChunk = options.onChunk;
+    return {
+      stream: {
+        signal: options.signal,
+        onChunk: (text: string) => {
+          started = true;
+          onChunk(text);
+        },
+      },
+      canFallback: () => !started,
+    };
+  }
+
+  /**
+   * The provider that produced the most recent successful result, so callers
+   * of string-returning methods like processPrompt can record it.
+   */
+  getLastUsedProvider(): AIProvider | null {
+    return this.lastUsedProvider;
+  }
+
+  /**
+   * Sends one request to a provider: checks the monthly budget first, then
+   * records the tokens it used. Providers that don't report usage get an
+   * estimate from the text length (roughly four characters per token).
+   *
+   * The call is aborted when the caller's signal fires or the task timeout
+   * elapses; either way it rejects with an AIAbortError. Successful results
+   * are written to the cassette when recording.
+   */
+  private async send<T>(
+    provider: BaseAIProvider,
+    name: AIProvider,
+    task: AITaskType,
+    call: (signal: AbortSignal) => Promise<T>,
+    context: { prompt?: string; signal?: AbortSignal; cassette?: { kind: CassetteKind; request: unknown } } = {}
+  ): Promise<T> {
+    await this.enforceBudget();
+
+    const timeoutMs = await this.getTimeoutMs(task);
+    const controller = new AbortController();
+    const timer = timeoutMs > 0
+      ? setTimeout(() => controller.abort(new AIAbortError('timeout', task, timeoutMs)), timeoutMs)
+      : undefined;
+    const onCancel = () => controller.abort(new AIAbortError('cancelled', task));
+    if (context.signal?.aborted) {
+      onCancel();
+    } else {
+      context.signal?.addEventListener('abort', onCancel, { once: true });
+    }
+
+    // Don't rely on every SDK honouring the signal; stop waiting either way
+    const aborted = new Promise<never>((_, reject) => {
+      if (controller.signal.aborted) {
+        reject(controller.signal.reason);
+      }
+      controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+    });
+
+    let result: T | undefined;
+    try {
+      result = await Promise.race([call(controller.signal), aborted]);
+      if (context.cassette) {
+        await this.cassette.record(context.cassette.kind, context.cassette.request, result, name, provider.getModel());
+      }
+      return result;
+    } catch (error) {
+      throw controller.signal.aborted ? controller.signal.reason : error;
+    } finally {
+      clearTimeout(timer);
+      context.signal?.removeEventListener('abort', onCancel);
+
+      // Failed requests may still have been billed (e.g. a rejected repair attempt)
+      const usage = provider.takeUsage();
+      if (usage) {
+        await this.usageLedger.record({ provider: name, model: provider.getModel(), task, ...usage });
+      } else if (result !== undefined) {
+        const output = typeof result === 'string' ? result : JSON.stringify(result);
+        await this.usageLedger.record({
+          provider: name,
+          model: provider.getModel(),
+          task,
+          promptTokens: Math.ceil((context.prompt || '').length / 4),
+          completionTokens: Math.ceil(output.length / 4),
+          estimated: true,
+        });
       }
     }
+  }
+
+  /**
+   * Timeout for a task in milliseconds, or 0 when disabled.
+   */
+  async getTimeoutMs(task: AITaskType): Promise<number> {
+    const aiConfig: any = await this.configManager.get('ai');
+    const timeouts = aiConfig?.timeouts || {};
+    const seconds = Number(timeouts[task] ?? timeouts.default ?? DEFAULT_TIMEOUTS[task] ?? DEFAULT_TIMEOUTS.default);
+    return seconds > 0 ? seconds * 1000 : 0;
+  }
+
+  private async enforceBudget(): Promise<void> {
+    const budget = await this.usageLedger.getMonthlyBudget();
+    if (budget === undefined) {
+      return;
+    }
+
+    const spent = await this.usageLedger.monthToDateCost();
+    if (spent >= budget) {
+      throw new BudgetExceededError(spent, budget);
+    }
+  }
+
+  /**
+   * Runs an operation against the primary provider and walks down the
+   * fallback chain on rate-limit or auth errors. Any other error is
+   * surfaced immediately since another provider is unlikely to fix it.
+   * Availability is checked once when a provider is set up, not per
+   * request: for local servers the check is a network round trip.
+   */
+  private async runWithFallback<T>(
+    task: AITaskType,
+    operation: (provider: BaseAIProvider, name: AIProvider) => Promise<T>,
+    canFallback: () => boolean = () => true
+  ): Promise<T> {
+    let lastError: any;
+    let attempted = false;
+
+    for (const [name, provider] of await this.getProviderChain(task)) {
+      attempted = true;
+      try {
+        const result = await operation(provider, name);
+        this.lastUsedProvider = name;
+        return result;
+      } catch (error: any) {
+        if (error instanceof AIAbortError || !provider.shouldFallback(error) || !canFallback()) {
+          throw error;
+        }
+        lastError = error;
+        this.logger.warn(`${name} failed (${error.message}), falling back to next provider`);
+      }
+    }
+
+    if (!attempted) {
+      throw new Error('No AI provider available. Please configure your API keys.');
+    }
+    throw lastError;
+  }
+
+  /**
+   * Providers to try for a task: its route first, if one is configured,
+   * then the usual primary-and-fallbacks order.
+   */
+  private async getProviderChain(task: AITaskType): Promise<Array<[AIProvider, BaseAIProvider]>> {
+    const chain: Array<[AIProvider, BaseAIProvider]> = [];
+
+    const routed = await this.getRoutedProvider(task);
+    if (routed) {
+      chain.push(routed);
+    }
+
+    for (const name of this.providerOrder) {
+      const provider = this.providers.get(name);
+      if (provider && provider !== routed?.[1]) {
+        chain.push([name, provider]);
+      }
+    }
+
+    // Anything initialized outside the configured order (e.g. mock) goes last
+    for (const [name, provider] of this.providers) {
+      if (!this.providerOrder.includes(name) && provider !== routed?.[1]) {
+        chain.push([name, provider]);
+      }
+    }
+
+    return chain;
+  }
+
+  /**
+   * The provider a task is routed to, built on first use. A route to the
+   * model an initialized provider already uses shares that instance.
+   */
+  private async getRoutedProvider(task: AITaskType): Promise<[AIProvider, BaseAIProvider] | null> {
+    const route = this.routing[task];
+    if (!route?.provider) {
+      return null;
+    }
+
+    const existing = this.providers.get(route.provider);
+    if (existing && (!route.model || existing.getModel() === route.model)) {
+      return [route.provider, existing];
+    }
+
+    const key = `${route.provider}:${route.model || ''}`;
+    if (this.unavailableRoutes.has(key)) {
+      return null;
+    }
+    let instance = this.routedProviders.get(key);
+    if (!instance) {
+      const created = await this.createProvider(route.provider, route.model);
+      if (!created) {
+        this.logger.warn(`Cannot route ${task} to ${route.provider}: no API key configured`);
+        return null;
+      }
+      if (!(await created.isAvailable())) {
+        this.logger.warn(`Cannot route ${task} to ${route.provider}: provider not available`);
+        this.unavailableRoutes.add(key);
+        return null;
+      }
+      instance = created;
+      this.routedProviders.set(key, instance);
+    }
+    return [route.provider, instance];
+  }
 
-    throw new Error('No AI provider available. Please configure your API keys.');
+  /**
+   * The provider and model each task is currently routed to, as configured.
+   */
+  getRouting(): Partial<Record<AITaskType, ModelRoute>> {
+    return { ...this.routing };
   }
 
   async setProvider(provider: AIProvider, _apiKey: string): Promise<void> {
     await this.initializeProvider(provider);
     
     if (this.providers.has(provider)) {
-      this.primaryProvider = this.providers.get(provider)!;
+      this.providerOrder = [provider, ...this.providerOrder.filter((p) => p !== provider)];
       await this.configManager.setNested('ai.provider', provider);
       this.logger.success(`Switched to ${provider} provider`);
     } else {
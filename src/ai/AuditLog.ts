@@ -0,0 +1,183 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import CryptoJS from 'crypto-js';
+import { ConfigManager } from '../core/config/ConfigManager';
+import { Logger } from '../utils/Logger';
+import { AITaskType } from './providers/BaseProvider';
+
+export interface AuditEntry {
+  timestamp: string;
+  command: string;
+  provider: string;
+  model: string;
+  task: AITaskType;
+  // Whether personal data was replaced with placeholders before sending
+  redacted: boolean;
+  // Field paths of structured requests, e.g. "profile.email" or "projects[].name"
+  fields?: string[];
+  // Exactly what left the machine, after redaction
+  request: string;
+  // SHA-256 of the raw response, so it can be matched without storing it
+  responseDigest?: string;
+  responseLength?: number;
+  error?: string;
+}
+
+export interface AuditTarget {
+  provider: string;
+  model: string;
+  task: AITaskType;
+  redacted: boolean;
+}
+
+export interface AuditFilter {
+  provider?: string;
+  task?: string;
+  command?: string;
+  since?: Date;
+}
+
+const AUDIT_FILE = 'audit.jsonl';
+
+/**
+ * Opt-in, append-only record of every request sent to an AI provider,
+ * stored as JSON lines in ~/.faj/audit.jsonl. Entries are never rewritten;
+ * their 1-based line number serves as the id shown by `faj audit`.
+ */
+export class AuditLog {
+  private static instance: AuditLog;
+  private auditPath: string;
+  private command: string = 'interactive';
+  private logger: Logger;
+  private configManager: ConfigManager;
+
+  private constructor() {
+    this.logger = new Logger('AuditLog');
+    this.auditPath = path.join(os.homedir(), '.faj', AUDIT_FILE);
+    this.configManager = ConfigManager.getInstance();
+  }
+
+  static getInstance(): AuditLog {
+    if (!AuditLog.instance) {
+      AuditLog.instance = new AuditLog();
+    }
+    return AuditLog.instance;
+  }
+
+  setCommand(command: string): void {
+    this.command = command;
+  }
+
+  getPath(): string {
+    return this.auditPath;
+  }
+
+  async isEnabled(): Promise<boolean> {
+    const aiConfig: any = await this.configManager.get('ai');
+    return aiConfig?.audit?.enabled === true;
+  }
+
+  async setEnabled(enabled: boolean): Promise<void> {
+    await this.configManager.setNested('ai.audit.enabled', enabled);
+  }
+
+  async record(target: AuditTarget, request: unknown, response?: unknown, error?: unknown): Promise<void> {
+    if (!(await this.isEnabled())) {
+      return;
+    }
+
+    const entry: AuditEntry = {
+      timestamp: new Date().toISOString(),
+      command: this.command,
+      ...target,
+      request: this.serialize(request),
+    };
+
+    if (typeof request !== 'string') {
+      entry.fields = this.fieldPaths(request);
+    }
+    if (response !== undefined) {
+      const text = this.serialize(response);
+      entry.responseDigest = CryptoJS.SHA256(text).toString();
+      entry.responseLength = text.length;
+    }
+    if (error !== undefined) {
+      entry.error = (error as Error)?.message || String(error);
+    }
+
+    try {
+      await fs.mkdir(path.dirname(this.auditPath), { recursive: true });
+      await fs.appendFile(this.auditPath, JSON.stringify(entry) + '\n', 'utf-8');
+    } catch (writeError) {
+      // Compliance needs to know when the trail has gaps
+      this.logger.error('Failed to write audit entry', writeError);
+    }
+  }
+
+  /**
+   * Entries matching `filter`, each paired with its id.
+   */
+  async entries(filter: AuditFilter = {}): Promise<Array<{ id: number; entry: AuditEntry }>> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.auditPath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const results: Array<{ id: number; entry: AuditEntry }> = [];
+    content.split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        const entry: AuditEntry = JSON.parse(line);
+        if (this.matches(entry, filter)) {
+          results.push({ id: index + 1, entry });
+        }
+      } catch {
+        // Skip a partially written line
+      }
+    });
+    return results;
+  }
+
+  async get(id: number): Promise<AuditEntry | null> {
+    const all = await this.entries();
+    return all.find((e) => e.id === id)?.entry || null;
+  }
+
+  private matches(entry: AuditEntry, filter: AuditFilter): boolean {
+    if (filter.provider && entry.provider !== filter.provider) return false;
+    if (filter.task && entry.task !== filter.task) return false;
+    if (filter.command && !entry.command.startsWith(filter.command)) return false;
+    if (filter.since && new Date(entry.timestamp) < filter.since) return false;
+    return true;
+  }
+
+  private serialize(value: unknown): string {
+    if (typeof value === 'string') {
+      return value;
+    }
+    return JSON.stringify(value, (_key, item) => (item instanceof Map ? Object.fromEntries(item) : item)) ?? '';
+  }
+
+  /**
+   * Leaf field paths of a structured request, with array indices collapsed
+   * so forty projects don't produce forty copies of each field.
+   */
+  private fieldPaths(value: unknown, prefix = '', paths = new Set<string>()): string[] {
+    if (Array.isArray(value)) {
+      value.forEach((item) => this.fieldPaths(item, `${prefix}[]`, paths));
+    } else if (value instanceof Map) {
+      paths.add(prefix);
+    } else if (value && typeof value === 'object' && !(value instanceof Date)) {
+      for (const [key, item] of Object.entries(value)) {
+        if (item === undefined || item === null || item === '') continue;
+        this.fieldPaths(item, prefix ? `${prefix}.${key}` : key, paths);
+      }
+    } else if (prefix) {
+      paths.add(prefix);
+    }
+    return Array.from(paths).sort();
+  }
+}
@@ -0,0 +1,177 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import CryptoJS from 'crypto-js';
+import { Logger } from '../utils/Logger';
+
+/**
+ * What kind of AIManager call an interaction came from. High-level
+ * operations are keyed by their inputs since the prompt is built inside
+ * the provider; `prompt` and `json` are keyed by the prompt text itself.
+ */
+export type CassetteKind = 'analyze' | 'generate' | 'update' | 'match' | 'prompt' | 'json';
+
+export interface CassetteEntry {
+  key: string;
+  kind: CassetteKind;
+  provider: string;
+  model: string;
+  recordedAt: string;
+  // The prompt, or the serialized inputs for high-level operations
+  request: string;
+  // Plain text for `prompt`, JSON for everything else
+  response: string;
+}
+
+type CassetteMode = 'off' | 'record' | 'replay';
+
+/**
+ * Record/replay store for AI interactions. While recording, every request
+ * that goes through AIManager is appended to a JSON-lines cassette file;
+ * while replaying, ReplayProvider answers from that file by request hash,
+ * so a session can be reproduced without API keys or network.
+ *
+ * Enabled with `--record <file>` / `--replay <file>` or the FAJ_RECORD /
+ * FAJ_REPLAY environment variables.
+ */
+export class Cassette {
+  private static instance: Cassette;
+  private mode: CassetteMode = 'off';
+  private filePath?: string;
+  private entries?: Map<string, CassetteEntry>;
+  private logger: Logger;
+
+  private constructor() {
+    this.logger = new Logger('Cassette');
+
+    if (process.env.FAJ_REPLAY) {
+      this.startReplay(process.env.FAJ_REPLAY);
+    } else if (process.env.FAJ_RECORD) {
+      this.startRecording(process.env.FAJ_RECORD);
+    }
+  }
+
+  static getInstance(): Cassette {
+    if (!Cassette.instance) {
+      Cassette.instance = new Cassette();
+    }
+    return Cassette.instance;
+  }
+
+  /**
+   * Appends subsequent interactions to `filePath`. An existing cassette is
+   * extended rather than overwritten so several runs can share one file.
+   */
+  startRecording(filePath: string): void {
+    this.mode = 'record';
+    this.filePath = path.resolve(filePath);
+    this.entries = undefined;
+  }
+
+  startReplay(filePath: string): void {
+    this.mode = 'replay';
+    this.filePath = path.resolve(filePath);
+    this.entries = undefined;
+  }
+
+  isRecording(): boolean {
+    return this.mode === 'record';
+  }
+
+  isReplaying(): boolean {
+    return this.mode === 'replay';
+  }
+
+  getPath(): string | undefined {
+    return this.filePath;
+  }
+
+  key(kind: CassetteKind, request: unknown): string {
+    return CryptoJS.SHA256(`${kind}\u0000${this.serialize(request)}`).toString();
+  }
+
+  async record(
+    kind: CassetteKind,
+    request: unknown,
+    response: unknown,
+    provider: string,
+    model: string
+  ): Promise<void> {
+    if (!this.isRecording() || !this.filePath) {
+      return;
+    }
+
+    const serialized = this.serialize(request);
+    const entry: CassetteEntry = {
+      key: this.key(kind, serialized),
+      kind,
+      provider,
+      model,
+      recordedAt: new Date().toISOString(),
+      request: serialized,
+      response: typeof response === 'string' ? response : JSON.stringify(response),
+    };
+
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf-8');
+    } catch (error) {
+      // A failed write should not fail the AI call being recorded
+      this.logger.warn('Failed to write cassette entry', error);
+    }
+  }
+
+  /**
+   * The recorded response for a request, or null when the cassette has no
+   * matching interaction. Later recordings of the same request win.
+   */
+  async lookup(kind: CassetteKind, request: unknown): Promise<CassetteEntry | null> {
+    const entries = await this.load();
+    return entries.get(this.key(kind, request)) || null;
+  }
+
+  private async load(): Promise<Map<string, CassetteEntry>> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    const entries = new Map<string, CassetteEntry>();
+    let content = '';
+    try {
+      content = await fs.readFile(this.filePath!, 'utf-8');
+    } catch (error) {
+      this.logger.warn(`Cassette not found: ${this.filePath}`, error);
+    }
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry: CassetteEntry = JSON.parse(line);
+        entries.set(entry.key, entry);
+      } catch {
+        // Skip a partially written line
+      }
+    }
+
+    this.entries = entries;
+    return entries;
+  }
+
+  /**
+   * Strings are used as-is; anything else becomes JSON with sorted keys and
+   * Maps expanded, so equal inputs always hash the same.
+   */
+  private serialize(value: unknown): string {
+    if (typeof value === 'string') {
+      return value;
+    }
+    return JSON.stringify(value, (_key, item) => {
+      if (item instanceof Map) {
+        return Object.fromEntries(item);
+      }
+      if (item && typeof item === 'object' && !Array.isArray(item)) {
+        return Object.fromEntries(Object.keys(item).sort().map((k) => [k, item[k]]));
+      }
+      return item;
+    }) ?? '';
+  }
+}
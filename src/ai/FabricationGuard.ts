@@ -0,0 +1,228 @@
+import { ConfigManager } from '../core/config/ConfigManager';
+import { Logger } from '../utils/Logger';
+import { PolishResult } from './schemas';
+import { FabricationError } from './errors';
+import { Variant } from './AIManager';
+
+export type FabricationMode = 'off' | 'warn' | 'strict';
+
+export interface UnsupportedClaim {
+  kind: 'number' | 'organization' | 'technology';
+  value: string;
+  // Where the claim appeared, e.g. "description" or "highlights[2]"
+  field: string;
+}
+
+/**
+ * What the user actually told us. AI output is only allowed to restate
+ * facts found here; the job description is deliberately never a source.
+ */
+export interface VerificationSource {
+  texts: Array<string | undefined | null>;
+  technologies?: string[];
+  numbers?: number[];
+}
+
+/**
+ * One of several alternative polish results, with its own unsupported
+ * claims so the user can weigh them when choosing.
+ */
+export type PolishCandidate = Variant<PolishResult> & { unverifiedClaims: UnsupportedClaim[] };
+
+const DEFAULT_MODE: FabricationMode = 'warn';
+
+// Integers, decimals, percentages, thousands separators and k/M/万/亿
+// multipliers. Digits glued to letters (ES6, EC2, 3D) are version or
+// product names, not claims.
+const NUMBER_PATTERN = /(?<![\w.])\d[\d,.]*(?:[kKmM]\b|万|亿|%)?(?!\w)/g;
+const MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6, '万': 1e4, '亿': 1e8 };
+
+// Proper names introduced by "at", "for", "with"… or carrying a company suffix
+const NAME_AFTER_CUE = /\b(?:[Aa]t|for|with|from|by|including|like|such as)\s+((?:[A-Z][\w&'.-]*)(?:\s+(?:[A-Z][\w&'.-]*|&|of))*)/g;
+const NAME_WITH_SUFFIX = /\b((?:[A-Z][\w&'.-]*\s+)+(?:Inc|Corp|Corporation|Ltd|LLC|GmbH|Co)\b\.?)/g;
+const CHINESE_ORGANIZATION = /([一-龥]{2,}(?:公司|集团|银行|大学))/g;
+
+/**
+ * Compares AI-polished content with the user's source material and lists
+ * numbers, organization names and technologies the model introduced on its
+ * own. In `warn` mode the claims are returned for the CLI to show before the
+ * user accepts; in `strict` mode the result is rejected outright.
+ */
+export class FabricationGuard {
+  private static instance: FabricationGuard;
+  private logger: Logger;
+  private configManager: ConfigManager;
+
+  private constructor() {
+    this.logger = new Logger('FabricationGuard');
+    this.configManager = ConfigManager.getInstance();
+  }
+
+  static getInstance(): FabricationGuard {
+    if (!FabricationGuard.instance) {
+      FabricationGuard.instance = new FabricationGuard();
+    }
+    return FabricationGuard.instance;
+  }
+
+  async getMode(): Promise<FabricationMode> {
+    const aiConfig: any = await this.configManager.get('ai');
+    const mode = aiConfig?.fabricationGuard;
+    return mode === 'off' || mode === 'strict' ? mode : DEFAULT_MODE;
+  }
+
+  /**
+   * Verifies `output` according to the configured mode. Returns the
+   * unsupported claims, or throws FabricationError in strict mode.
+   */
+  async check(output: PolishResult, source: VerificationSource, subject: string): Promise<UnsupportedClaim[]> {
+    const mode = await this.getMode();
+    if (mode === 'off') {
+      return [];
+    }
+
+    const claims = this.verify(output, source);
+    if (claims.length > 0) {
+      this.logger.warn(`${claims.length} unsupported claim(s) in AI output for ${subject}`);
+      if (mode === 'strict') {
+        throw new FabricationError(subject, claims);
+      }
+    }
+    return claims;
+  }
+
+  /**
+   * `check` for alternative outputs of the same request. In strict mode a
+   * rejected variant is dropped instead of failing the others; only when
+   * every variant is rejected is the first rejection thrown.
+   */
+  async checkVariants(
+    variants: Array<Variant<PolishResult>>,
+    source: VerificationSource,
+    subject: string
+  ): Promise<PolishCandidate[]> {
+    const candidates: PolishCandidate[] = [];
+    let rejection: FabricationError | undefined;
+    for (const variant of variants) {
+      try {
+        candidates.push({ ...variant, unverifiedClaims: await this.check(variant.data, source, subject) });
+      } catch (error) {
+        if (!(error instanceof FabricationError)) {
+          throw error;
+        }
+        rejection ??= error;
+      }
+    }
+    if (candidates.length === 0 && rejection) {
+      throw rejection;
+    }
+    return candidates;
+  }
+
+  verify(output: PolishResult, source: VerificationSource): UnsupportedClaim[] {
+    const corpus = source.texts.filter(Boolean).join('\n');
+    const withTechnologies = `${corpus}\n${(source.technologies || []).join('\n')}`;
+    const haystack = withTechnologies.toLowerCase();
+    const compactHaystack = this.compact(withTechnologies);
+
+    const sourceNumbers = [...this.extractNumbers(corpus), ...(source.numbers || [])];
+    const claims: UnsupportedClaim[] = [];
+    const seen = new Set<string>();
+    const add = (claim: UnsupportedClaim) => {
+      const key = claim.value.toLowerCase();
+      if (!seen.has(key)) {
+        seen.add(key);
+        claims.push(claim);
+      }
+    };
+
+    const fields: Array<[string, string]> = [
+      ['description', output.description],
+      ...output.highlights.map((h, i): [string, string] => [`highlights[${i}]`, h]),
+    ];
+
+    for (const [field, text] of fields) {
+      for (const match of text.match(NUMBER_PATTERN) || []) {
+        const value = this.parseNumber(match);
+        // 0 and 1 are too common in ordinary phrasing to be meaningful
+        if (value === null || value <= 1) continue;
+        if (!sourceNumbers.some((n) => this.numbersMatch(value, n))) {
+          add({ kind: 'number', value: match.replace(/[.,]+$/, ''), field });
+        }
+      }
+
+      for (const name of this.extractOrganizations(text)) {
+        if (!this.nameSupported(name, haystack)) {
+          add({ kind: 'organization', value: name, field });
+        }
+      }
+    }
+
+    for (const technology of output.technologies || []) {
+      const compact = this.compact(technology);
+      if (compact && !compactHaystack.includes(compact)) {
+        add({ kind: 'technology', value: technology, field: 'technologies' });
+      }
+    }
+
+    return claims;
+  }
+
+  private extractNumbers(text: string): number[] {
+    return (text.match(NUMBER_PATTERN) || [])
+      .map((match) => this.parseNumber(match))
+      .filter((n): n is number => n !== null);
+  }
+
+  private parseNumber(match: string): number | null {
+    const suffix = match.match(/([kKmM]|万|亿)$/)?.[1];
+    const digits = match.replace(/([kKmM]|万|亿|%)$/, '').replace(/[.,]+$/, '').replace(/,/g, '');
+    const value = parseFloat(digits);
+    if (isNaN(value)) {
+      return null;
+    }
+    return suffix ? value * MULTIPLIERS[suffix.toLowerCase()] : value;
+  }
+
+  /**
+   * Large figures are allowed to be rounded ("12K+ lines" for 12,345) but
+   * small ones must match exactly.
+   */
+  private numbersMatch(claimed: number, known: number): boolean {
+    if (claimed === known) {
+      return true;
+    }
+    return claimed >= 100 && known >= 100 && Math.abs(claimed - known) / known <= 0.1;
+  }
+
+  private extractOrganizations(text: string): string[] {
+    const names: string[] = [];
+    for (const pattern of [NAME_AFTER_CUE, NAME_WITH_SUFFIX, CHINESE_ORGANIZATION]) {
+      for (const match of text.matchAll(pattern)) {
+        const name = match[1]
+          .replace(/'s$/, '')
+          .replace(/[\s&.]+$/, '')
+          .replace(/\s+of$/, '')
+          // Leading prepositions get swallowed by the Chinese pattern
+          .replace(/^[在于为和与给从对向]+/, '');
+        if (name.length >= 2) {
+          names.push(name);
+        }
+      }
+    }
+    return names;
+  }
+
+  private nameSupported(name: string, haystack: string): boolean {
+    if (haystack.includes(name.toLowerCase())) {
+      return true;
+    }
+    // "Acme Payments" is fine when the user wrote "Acme"
+    const first = name.replace(/^The\s+/, '').split(/\s+/)[0].toLowerCase();
+    return first.length >= 3 && haystack.includes(first);
+  }
+
+  private compact(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9一-龥+#]/g, '');
+  }
+}
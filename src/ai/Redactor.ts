@@ -0,0 +1,265 @@
+import { ConfigManager } from '../core/config/ConfigManager';
+import { ExperienceManager } from '../core/experience/ExperienceManager';
+import { Logger } from '../utils/Logger';
+
+export interface RedactionSettings {
+  // Replace the user's name, contact details and profile links
+  enabled: boolean;
+  // Also replace employer names from work experience
+  companies: boolean;
+}
+
+const DEFAULT_SETTINGS: RedactionSettings = { enabled: true, companies: false };
+
+// Providers that never see a real request
+const EXEMPT_PROVIDERS = ['mock', 'replay'];
+
+// Servers the user runs themselves; redaction is off unless turned on for the provider
+const LOCAL_PROVIDERS = ['openai-compatible'];
+
+// Profile fields that identify the user, with the placeholder label for each
+const PROFILE_FIELDS: Array<[string, string]> = [
+  ['name', 'NAME'],
+  ['email', 'EMAIL'],
+  ['phone', 'PHONE'],
+  ['birthDate', 'BIRTHDATE'],
+  ['githubUrl', 'URL'],
+  ['linkedinUrl', 'URL'],
+  ['portfolioUrl', 'URL'],
+  ['githubUsername', 'USERNAME'],
+];
+
+// Contact details that turn up in pasted text such as job descriptions
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const PHONE_PATTERN = /\+\d{1,3}[\s-]?\d[\d\s-]{6,}\d|(?<!\d)1[3-9]\d{9}(?!\d)/g;
+
+const PLACEHOLDER_PATTERN = /\[\[[A-Z]+_\d+\]\]/g;
+
+// A city is an ordinary word elsewhere, e.g. in a job description, so it is
+// only replaced as the value of one of these fields
+const LOCATION_FIELDS = ['location'];
+
+interface RedactionPattern {
+  pattern: RegExp;
+  placeholder: string;
+  // For values replaced only where they fill a field: the field, and the
+  // pattern that finds the value after the field's label in text
+  field?: string;
+  labelled?: RegExp;
+}
+
+export const PLACEHOLDER_NOTE =
+  'Text like [[NAME_1]] is a placeholder for redacted personal data. Copy placeholders into your answer exactly as written and never invent a value for them.';
+
+/**
+ * One request's substitutions. `apply` swaps identifiers for numbered
+ * placeholders in strings or whole objects; `restore` swaps them back in
+ * the response so callers never see a placeholder.
+ */
+export class Redaction {
+  private forward = new Map<string, string>();
+  private backward = new Map<string, string>();
+  private counters = new Map<string, number>();
+  private fields = new Map<string, string>();
+  private patterns: RedactionPattern[] = [];
+
+  constructor(private detectContacts: boolean) {}
+
+  /**
+   * Registers a known value to replace. Longer values are matched first so
+   * "Acme Cloud" wins over "Acme". With `field`, the value is replaced
+   * only where it fills that field: under that key in an object, or after
+   * `field:` or `"field": "` in text.
+   */
+  add(value: string | undefined | null, label: string, field?: string): void {
+    const trimmed = value?.trim();
+    if (!trimmed || trimmed.length < 2 || this.forward.has(trimmed)) {
+      return;
+    }
+    this.placeholderFor(trimmed, label);
+    if (field) {
+      this.fields.set(trimmed, field);
+    }
+    this.rebuildPatterns();
+  }
+
+  apply<T>(value: T): T {
+    return this.transform(value, (text, key) => this.redactText(text, key));
+  }
+
+  restore<T>(value: T): T {
+    return this.transform(value, (text) => this.restoreText(text));
+  }
+
+  /**
+   * Wraps a stream callback so placeholders are restored before display.
+   * A trailing `[[…` that may be completed by the next chunk is held back
+   * until `flush`.
+   */
+  restoreStream(onChunk: (text: string) => void): { onChunk: (text: string) => void; flush: () => void } {
+    let pending = '';
+    return {
+      onChunk: (text: string) => {
+        pending += text;
+        const open = pending.lastIndexOf('[[');
+        const cut = open !== -1 && pending.indexOf(']]', open) === -1 ? open : pending.length;
+        const ready = pending.slice(0, cut);
+        pending = pending.slice(cut);
+        if (ready) onChunk(this.restoreText(ready));
+      },
+      flush: () => {
+        if (pending) onChunk(this.restoreText(pending));
+        pending = '';
+      },
+    };
+  }
+
+  private redactText(text: string, key?: string): string {
+    let result = text;
+    for (const { pattern, placeholder, field, labelled } of this.patterns) {
+      result = result.replace(labelled && key !== field ? labelled : pattern, placeholder);
+    }
+    if (this.detectContacts) {
+      result = result
+        .replace(EMAIL_PATTERN, (match) => this.placeholderFor(match, 'EMAIL'))
+        .replace(PHONE_PATTERN, (match) => this.placeholderFor(match, 'PHONE'));
+    }
+    return result;
+  }
+
+  private restoreText(text: string): string {
+    return text.replace(PLACEHOLDER_PATTERN, (match) => this.backward.get(match) ?? match);
+  }
+
+  private placeholderFor(value: string, label: string): string {
+    const existing = this.forward.get(value);
+    if (existing) {
+      return existing;
+    }
+    const count = (this.counters.get(label) || 0) + 1;
+    this.counters.set(label, count);
+    const placeholder = `[[${label}_${count}]]`;
+    this.forward.set(value, placeholder);
+    this.backward.set(placeholder, value);
+    return placeholder;
+  }
+
+  private rebuildPatterns(): void {
+    this.patterns = Array.from(this.forward.entries())
+      .sort(([a], [b]) => b.length - a.length)
+      .map(([value, placeholder]) => {
+        const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        // Word boundaries keep a short name like "Li" from matching inside "Linux"
+        const start = /^\w/.test(value) ? '(?<!\\w)' : '';
+        const end = /\w$/.test(value) ? '(?!\\w)' : '';
+        const pattern: RedactionPattern = { pattern: new RegExp(`${start}${escaped}${end}`, 'gi'), placeholder };
+        const field = this.fields.get(value);
+        if (field) {
+          pattern.field = field;
+          pattern.labelled = new RegExp(`(?<=(?:"${field}"\\s*:\\s*"|\\b${field}\\s*[:：]\\s*))${start}${escaped}${end}`, 'gi');
+        }
+        return pattern;
+      });
+  }
+
+  // `key` is the object key the value sits under, for field-scoped values
+  private transform<T>(value: T, fn: (text: string, key?: string) => string, key?: string): T {
+    if (typeof value === 'string') {
+      return fn(value, key) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.transform(item, fn, key)) as T;
+    }
+    if (value instanceof Map) {
+      return new Map(Array.from(value.entries()).map(([k, v]) => [k, this.transform(v, fn, String(k))])) as T;
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, this.transform(v, fn, k)])
+      ) as T;
+    }
+    return value;
+  }
+}
+
+/**
+ * Builds per-request redactions from the user's profile and work history
+ * according to `ai.redaction`, which can be overridden per provider:
+ *
+ *   ai.redaction = { enabled: true, companies: false,
+ *                    providers: { deepseek: { companies: true } } }
+ *
+ * Local providers ignore the global settings and are only redacted when
+ * configured under `providers`.
+ */
+export class Redactor {
+  private static instance: Redactor;
+  private logger: Logger;
+  private configManager: ConfigManager;
+
+  private constructor() {
+    this.logger = new Logger('Redactor');
+    this.configManager = ConfigManager.getInstance();
+  }
+
+  static getInstance(): Redactor {
+    if (!Redactor.instance) {
+      Redactor.instance = new Redactor();
+    }
+    return Redactor.instance;
+  }
+
+  async getSettings(provider: string): Promise<RedactionSettings> {
+    const aiConfig: any = await this.configManager.get('ai');
+    const { providers, ...global } = aiConfig?.redaction || {};
+    if (LOCAL_PROVIDERS.includes(provider)) {
+      return { enabled: false, companies: false, ...(providers?.[provider] || {}) };
+    }
+    return { ...DEFAULT_SETTINGS, ...global, ...(providers?.[provider] || {}) };
+  }
+
+  /**
+   * A redaction for one request to `provider`, or null when the provider is
+   * exempt or redaction is disabled for it.
+   */
+  async forProvider(provider: string): Promise<Redaction | null> {
+    if (EXEMPT_PROVIDERS.includes(provider)) {
+      return null;
+    }
+
+    const settings = await this.getSettings(provider);
+    if (!settings.enabled && !settings.companies) {
+      return null;
+    }
+
+    const redaction = new Redaction(settings.enabled);
+
+    if (settings.enabled) {
+      const profile: any = (await this.configManager.get('profile')) || {};
+      for (const [field, label] of PROFILE_FIELDS) {
+        if (typeof profile[field] === 'string') {
+          redaction.add(profile[field], label);
+        }
+      }
+      for (const field of LOCATION_FIELDS) {
+        if (typeof profile[field] === 'string') {
+          redaction.add(profile[field], 'LOCATION', field);
+        }
+      }
+    }
+
+    if (settings.companies) {
+      try {
+        const experienceManager = ExperienceManager.getInstance();
+        await experienceManager.load();
+        for (const experience of await experienceManager.getAll()) {
+          redaction.add(experience.company, 'COMPANY');
+        }
+      } catch (error) {
+        this.logger.warn('Could not load company names for redaction', error);
+      }
+    }
+
+    return redaction;
+  }
+}
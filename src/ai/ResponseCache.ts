@@ -0,0 +1,268 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import CryptoJS from 'crypto-js';
+import { ConfigManager } from '../core/config/ConfigManager';
+import { Logger } from '../utils/Logger';
+
+export interface CacheEntry {
+  provider: string;
+  model: string;
+  createdAt: string;
+  response: string;
+}
+
+export interface CacheStats {
+  entries: number;
+  expired: number;
+  totalBytes: number;
+  hits: number;
+  misses: number;
+  oldest?: Date;
+  newest?: Date;
+  ttlHours: number;
+  maxSizeMB: number;
+  enabled: boolean;
+}
+
+interface CacheSettings {
+  enabled: boolean;
+  ttlHours: number;
+  maxSizeMB: number;
+}
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+const DEFAULT_MAX_SIZE_MB = 50;
+const STATS_FILE = 'stats.json';
+
+/**
+ * Content-addressed store for AI responses. Entries are keyed by a hash of
+ * provider, model and prompt, so a byte-identical prompt sent to the same
+ * model is served from disk instead of the API.
+ */
+export class ResponseCache {
+  private static instance: ResponseCache;
+  private cacheDir: string;
+  private logger: Logger;
+  private configManager: ConfigManager;
+
+  private constructor() {
+    this.logger = new Logger('ResponseCache');
+    this.cacheDir = path.join(os.homedir(), '.faj', 'cache');
+    this.configManager = ConfigManager.getInstance();
+  }
+
+  static getInstance(): ResponseCache {
+    if (!ResponseCache.instance) {
+      ResponseCache.instance = new ResponseCache();
+    }
+    return ResponseCache.instance;
+  }
+
+  key(provider: string, model: string, prompt: string): string {
+    // NUL separators keep "a" + "bc" and "ab" + "c" from colliding
+    return CryptoJS.SHA256(`${provider}\u0000${model}\u0000${prompt}`).toString();
+  }
+
+  async get(key: string): Promise<string | null> {
+    const settings = await this.getSettings();
+    if (!settings.enabled) {
+      return null;
+    }
+
+    const entryPath = this.entryPath(key);
+    try {
+      const entry: CacheEntry = JSON.parse(await fs.readFile(entryPath, 'utf-8'));
+
+      if (this.isExpired(entry, settings)) {
+        await fs.rm(entryPath, { force: true });
+        await this.recordLookup(false);
+        return null;
+      }
+
+      // Touch the file so size-based eviction drops least recently used entries first
+      const now = new Date();
+      await fs.utimes(entryPath, now, now);
+      await this.recordLookup(true);
+      this.logger.debug(`Cache hit for ${entry.provider}/${entry.model}`);
+      return entry.response;
+    } catch {
+      await this.recordLookup(false);
+      return null;
+    }
+  }
+
+  async set(key: string, provider: string, model: string, response: string): Promise<void> {
+    const settings = await this.getSettings();
+    if (!settings.enabled) {
+      return;
+    }
+
+    const entry: CacheEntry = {
+      provider,
+      model,
+      createdAt: new Date().toISOString(),
+      response,
+    };
+
+    try {
+      await this.ensureCacheDir();
+      await fs.writeFile(this.entryPath(key), JSON.stringify(entry), 'utf-8');
+      await this.enforceSizeLimit(settings);
+    } catch (error) {
+      // A cache write failure should never fail the AI call itself
+      this.logger.warn('Failed to write AI response cache entry', error);
+    }
+  }
+
+  async stats(): Promise<CacheStats> {
+    const settings = await this.getSettings();
+    const files = await this.listEntries();
+    const counters = await this.readCounters();
+
+    const result: CacheStats = {
+      entries: files.length,
+      expired: 0,
+      totalBytes: 0,
+      hits: counters.hits,
+      misses: counters.misses,
+      ttlHours: settings.ttlHours,
+      maxSizeMB: settings.maxSizeMB,
+      enabled: settings.enabled,
+    };
+
+    for (const file of files) {
+      result.totalBytes += file.size;
+      try {
+        const entry: CacheEntry = JSON.parse(await fs.readFile(file.path, 'utf-8'));
+        const createdAt = new Date(entry.createdAt);
+        if (this.isExpired(entry, settings)) result.expired++;
+        if (!result.oldest || createdAt < result.oldest) result.oldest = createdAt;
+        if (!result.newest || createdAt > result.newest) result.newest = createdAt;
+      } catch {
+        // Unreadable entries are counted but otherwise ignored
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Removes cache entries. With `expiredOnly` only entries past their TTL
+   * are dropped. Returns the number of entries removed.
+   */
+  async clear(expiredOnly: boolean = false): Promise<number> {
+    const settings = await this.getSettings();
+    const files = await this.listEntries();
+    let removed = 0;
+
+    for (const file of files) {
+      if (expiredOnly) {
+        try {
+          const entry: CacheEntry = JSON.parse(await fs.readFile(file.path, 'utf-8'));
+          if (!this.isExpired(entry, settings)) continue;
+        } catch {
+          // Corrupt entries are always removed
+        }
+      }
+      await fs.rm(file.path, { force: true });
+      removed++;
+    }
+
+    if (!expiredOnly) {
+      await fs.rm(path.join(this.cacheDir, STATS_FILE), { force: true });
+    }
+
+    this.logger.info(`Removed ${removed} cache entries`);
+    return removed;
+  }
+
+  private async getSettings(): Promise<CacheSettings> {
+    const aiConfig: any = await this.configManager.get('ai');
+    const cacheConfig = aiConfig?.cache || {};
+
+    return {
+      enabled: process.env.FAJ_NO_CACHE ? false : cacheConfig.enabled !== false,
+      ttlHours: Number(cacheConfig.ttlHours) || DEFAULT_TTL_HOURS,
+      maxSizeMB: Number(cacheConfig.maxSizeMB) || DEFAULT_MAX_SIZE_MB,
+    };
+  }
+
+  private isExpired(entry: CacheEntry, settings: CacheSettings): boolean {
+    const age = Date.now() - new Date(entry.createdAt).getTime();
+    return age > settings.ttlHours * 60 * 60 * 1000;
+  }
+
+  private async enforceSizeLimit(settings: CacheSettings): Promise<void> {
+    const maxBytes = settings.maxSizeMB * 1024 * 1024;
+    const files = await this.listEntries();
+    let total = files.reduce((sum, f) => sum + f.size, 0);
+
+    if (total <= maxBytes) {
+      return;
+    }
+
+    // Oldest access first
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    for (const file of files) {
+      if (total <= maxBytes) break;
+      await fs.rm(file.path, { force: true });
+      total -= file.size;
+    }
+  }
+
+  private async listEntries(): Promise<Array<{ path: string; size: number; mtimeMs: number }>> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.cacheDir);
+    } catch {
+      return [];
+    }
+
+    const entries = [];
+    for (const name of names) {
+      if (!name.endsWith('.json') || name === STATS_FILE) continue;
+      const entryPath = path.join(this.cacheDir, name);
+      try {
+        const stat = await fs.stat(entryPath);
+        entries.push({ path: entryPath, size: stat.size, mtimeMs: stat.mtimeMs });
+      } catch {
+        // Removed concurrently
+      }
+    }
+    return entries;
+  }
+
+  private async readCounters(): Promise<{ hits: number; misses: number }> {
+    try {
+      const data = JSON.parse(await fs.readFile(path.join(this.cacheDir, STATS_FILE), 'utf-8'));
+      return { hits: data.hits || 0, misses: data.misses || 0 };
+    } catch {
+      return { hits: 0, misses: 0 };
+    }
+  }
+
+  private async recordLookup(hit: boolean): Promise<void> {
+    try {
+      const counters = await this.readCounters();
+      if (hit) counters.hits++;
+      else counters.misses++;
+      await this.ensureCacheDir();
+      await fs.writeFile(path.join(this.cacheDir, STATS_FILE), JSON.stringify(counters), 'utf-8');
+    } catch {
+      // Stats are best effort
+    }
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.cacheDir, `${key}.json`);
+  }
+
+  private async ensureCacheDir(): Promise<void> {
+    try {
+      await fs.access(this.cacheDir);
+    } catch {
+      await fs.mkdir(this.cacheDir, { recursive: true });
+    }
+  }
+}
@@ -0,0 +1,199 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { ConfigManager } from '../core/config/ConfigManager';
+import { Logger } from '../utils/Logger';
+import { AITaskType } from './providers/BaseProvider';
+
+export interface UsageEntry {
+  timestamp: string;
+  provider: string;
+  model: string;
+  task: AITaskType;
+  command: string;
+  promptTokens: number;
+  completionTokens: number;
+  // True when the provider didn't report usage and tokens were estimated from text length
+  estimated?: boolean;
+}
+
+/** USD per one million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface UsageTotals {
+  key: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export type UsageGrouping = 'day' | 'provider' | 'model' | 'command' | 'task';
+
+/**
+ * List prices at the time of writing. Users override or extend these with
+ * `ai.pricing` in config; anything not listed is treated as free.
+ */
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'deepseek-chat': { input: 0.27, output: 1.1 },
+  'deepseek-reasoner': { input: 0.55, output: 2.19 },
+  'claude-sonnet-4-20250514': { input: 3, output: 15 },
+  'claude-opus-4-1-20250805': { input: 15, output: 75 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+};
+
+const LEDGER_FILE = 'usage.jsonl';
+
+/**
+ * Append-only record of tokens spent per AI request, stored as JSON lines
+ * in ~/.faj/usage.jsonl. Costs are derived at read time from the current
+ * price table so correcting a price fixes historical reports too.
+ */
+export class UsageLedger {
+  private static instance: UsageLedger;
+  private ledgerPath: string;
+  private command: string = 'interactive';
+  private logger: Logger;
+  private configManager: ConfigManager;
+
+  private constructor() {
+    this.logger = new Logger('UsageLedger');
+    this.ledgerPath = path.join(os.homedir(), '.faj', LEDGER_FILE);
+    this.configManager = ConfigManager.getInstance();
+  }
+
+  static getInstance(): UsageLedger {
+    if (!UsageLedger.instance) {
+      UsageLedger.instance = new UsageLedger();
+    }
+    return UsageLedger.instance;
+  }
+
+  /**
+   * Sets the CLI command that subsequent requests are attributed to.
+   */
+  setCommand(command: string): void {
+    this.command = command;
+  }
+
+  async record(entry: Omit<UsageEntry, 'timestamp' | 'command'>): Promise<void> {
+    const line: UsageEntry = {
+      timestamp: new Date().toISOString(),
+      command: this.command,
+      ...entry,
+    };
+
+    try {
+      await fs.mkdir(path.dirname(this.ledgerPath), { recursive: true });
+      await fs.appendFile(this.ledgerPath, JSON.stringify(line) + '\n', 'utf-8');
+    } catch (error) {
+      // Losing a ledger line should never fail the AI call itself
+      this.logger.warn('Failed to record AI usage', error);
+    }
+  }
+
+  async entries(since?: Date): Promise<UsageEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.ledgerPath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: UsageEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry: UsageEntry = JSON.parse(line);
+        if (!since || new Date(entry.timestamp) >= since) {
+          entries.push(entry);
+        }
+      } catch {
+        // Skip a partially written line
+      }
+    }
+    return entries;
+  }
+
+  async summarize(groupBy: UsageGrouping, since?: Date): Promise<UsageTotals[]> {
+    const prices = await this.getPrices();
+    const groups = new Map<string, UsageTotals>();
+
+    for (const entry of await this.entries(since)) {
+      const key = this.groupKey(entry, groupBy);
+      const totals = groups.get(key) || { key, requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+      totals.requests++;
+      totals.promptTokens += entry.promptTokens;
+      totals.completionTokens += entry.completionTokens;
+      totals.cost += this.cost(entry, prices);
+      groups.set(key, totals);
+    }
+
+    return Array.from(groups.values()).sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Total spend in USD since the first day of the current month (local time).
+   */
+  async monthToDateCost(): Promise<number> {
+    const now = new Date();
+    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+    const prices = await this.getPrices();
+    const entries = await this.entries(startOfMonth);
+    return entries.reduce((sum, entry) => sum + this.cost(entry, prices), 0);
+  }
+
+  async getMonthlyBudget(): Promise<number | undefined> {
+    const aiConfig: any = await this.configManager.get('ai');
+    const budget = Number(aiConfig?.budget?.monthlyUSD);
+    return budget > 0 ? budget : undefined;
+  }
+
+  /**
+   * Default price table merged with the user's `ai.pricing` overrides.
+   */
+  async getPrices(): Promise<Record<string, ModelPrice>> {
+    const aiConfig: any = await this.configManager.get('ai');
+    return { ...DEFAULT_PRICES, ...(aiConfig?.pricing || {}) };
+  }
+
+  private cost(entry: UsageEntry, prices: Record<string, ModelPrice>): number {
+    const price = prices[entry.model];
+    if (!price) {
+      return 0;
+    }
+    return (entry.promptTokens * price.input + entry.completionTokens * price.output) / 1_000_000;
+  }
+
+  private groupKey(entry: UsageEntry, groupBy: UsageGrouping): string {
+    switch (groupBy) {
+      case 'day':
+        return this.localDate(new Date(entry.timestamp));
+      case 'provider':
+        return entry.provider;
+      case 'model':
+        return `${entry.provider}/${entry.model}`;
+      case 'command':
+        return entry.command;
+      case 'task':
+        return entry.task;
+    }
+  }
+
+  private localDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
@@ -0,0 +1,77 @@
+import { UnsupportedClaim } from './FabricationGuard';
+
+/**
+ * Raised when a provider's response still doesn't match the task schema
+ * after the automatic repair re-prompt.
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly task: string,
+    public readonly issues: string[],
+    public readonly rawResponse: string
+  ) {
+    super(`AI response for "${task}" did not match the expected format: ${issues.join('; ')}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Raised before a request is sent when this month's recorded spend has
+ * already reached the configured budget.
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly spentUSD: number,
+    public readonly budgetUSD: number
+  ) {
+    super(`Monthly AI budget of $${budgetUSD.toFixed(2)} reached ($${spentUSD.toFixed(2)} spent). Raise it with: faj usage budget <amount>`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Raised when an AI request is cancelled by the user or exceeds its task
+ * timeout, so the CLI can tell these apart from provider failures.
+ */
+export class AIAbortError extends Error {
+  constructor(
+    public readonly reason: 'cancelled' | 'timeout',
+    public readonly task: string,
+    public readonly timeoutMs?: number
+  ) {
+    super(
+      reason === 'timeout'
+        ? `AI ${task} request timed out after ${Math.round((timeoutMs || 0) / 1000)}s`
+        : `AI ${task} request was cancelled`
+    );
+    this.name = 'AIAbortError';
+  }
+}
+
+/**
+ * Raised in replay mode when the cassette has no recorded response for a
+ * request, usually because the inputs changed since it was recorded.
+ */
+export class CassetteMissError extends Error {
+  constructor(
+    public readonly kind: string,
+    public readonly cassettePath: string
+  ) {
+    super(`No recorded ${kind} response in ${cassettePath}. Re-record the session with --record`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+/**
+ * Raised in strict fabrication-guard mode when AI output contains claims
+ * that aren't backed by the user's own description.
+ */
+export class FabricationError extends Error {
+  constructor(
+    public readonly subject: string,
+    public readonly claims: UnsupportedClaim[]
+  ) {
+    super(`AI output for ${subject} contains unsupported claims: ${claims.map((c) => c.value).join(', ')}`);
+    this.name = 'FabricationError';
+  }
+}
@@ -0,0 +1,128 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { Logger } from '../../utils/Logger';
+import { DEFAULT_TEMPLATES, PromptTemplate } from './templates';
+
+export interface PromptTemplateInfo extends PromptTemplate {
+  name: string;
+  overridden: boolean;
+  overridePath: string;
+}
+
+export type PromptVariables = Record<string, string | number | undefined | null>;
+
+const HOUSE_STYLE = 'house-style';
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Named prompt templates with `{{variable}}` placeholders. Users override a
+ * template by dropping `<name>.txt` into ~/.faj/prompts/; the `house-style`
+ * template, when non-empty, is appended to every rendered prompt.
+ */
+export class PromptRegistry {
+  private static instance: PromptRegistry;
+  private promptsDir: string;
+  private logger: Logger;
+
+  private constructor() {
+    this.logger = new Logger('PromptRegistry');
+    this.promptsDir = path.join(os.homedir(), '.faj', 'prompts');
+  }
+
+  static getInstance(): PromptRegistry {
+    if (!PromptRegistry.instance) {
+      PromptRegistry.instance = new PromptRegistry();
+    }
+    return PromptRegistry.instance;
+  }
+
+  has(name: string): boolean {
+    return name in DEFAULT_TEMPLATES;
+  }
+
+  async list(): Promise<PromptTemplateInfo[]> {
+    const names = Object.keys(DEFAULT_TEMPLATES).sort();
+    return Promise.all(names.map((name) => this.get(name)));
+  }
+
+  async get(name: string): Promise<PromptTemplateInfo> {
+    const builtIn = DEFAULT_TEMPLATES[name];
+    if (!builtIn) {
+      throw new Error(`Unknown prompt template: ${name}`);
+    }
+
+    const overridePath = this.overridePath(name);
+    const override = await this.readOverride(overridePath);
+
+    return {
+      name,
+      ...builtIn,
+      template: override ?? builtIn.template,
+      overridden: override !== null,
+      overridePath,
+    };
+  }
+
+  async render(name: string, variables: PromptVariables = {}): Promise<string> {
+    const { template } = await this.get(name);
+    const rendered = this.substitute(name, template, variables);
+
+    const houseStyle = (await this.get(HOUSE_STYLE)).template.trim();
+    if (!houseStyle) {
+      return rendered;
+    }
+    return `${rendered}\n\nHOUSE STYLE RULES (always follow these):\n${houseStyle}`;
+  }
+
+  /**
+   * Writes the built-in template to the override location so it can be
+   * edited. Existing overrides are left untouched.
+   */
+  async customize(name: string): Promise<string> {
+    const info = await this.get(name);
+    if (!info.overridden) {
+      await fs.mkdir(this.promptsDir, { recursive: true });
+      await fs.writeFile(info.overridePath, DEFAULT_TEMPLATES[name].template, 'utf-8');
+    }
+    return info.overridePath;
+  }
+
+  /**
+   * Removes the user's override so the built-in template applies again.
+   * Returns false when there was nothing to reset.
+   */
+  async reset(name: string): Promise<boolean> {
+    const info = await this.get(name);
+    if (!info.overridden) {
+      return false;
+    }
+    await fs.rm(info.overridePath, { force: true });
+    this.logger.info(`Reset prompt template ${name}`);
+    return true;
+  }
+
+  private substitute(name: string, template: string, variables: PromptVariables): string {
+    return template.replace(PLACEHOLDER, (match, key: string) => {
+      if (!(key in variables)) {
+        // Usually a typo in a user override; leave it visible rather than silently dropping it
+        this.logger.warn(`Prompt template ${name} references unknown variable ${key}`);
+        return match;
+      }
+      const value = variables[key];
+      return value === undefined || value === null ? '' : String(value);
+    });
+  }
+
+  private overridePath(name: string): string {
+    return path.join(this.promptsDir, `${name}.txt`);
+  }
+
+  private async readOverride(filePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+}
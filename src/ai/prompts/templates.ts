@@ -0,0 +1,1093 @@
+export interface PromptTemplate {
+  description: string;
+  variables: string[];
+  template: string;
+}
+
+/**
+ * Built-in prompt templates. Placeholders use `{{name}}` syntax; any
+ * template can be replaced by a file of the same name in ~/.faj/prompts/.
+ */
+export const DEFAULT_TEMPLATES: Record<string, PromptTemplate> = {
+  'house-style': {
+    description: 'Rules appended to every prompt (empty by default)',
+    variables: [],
+    template: '',
+  },
+
+  'experience.polish': {
+    description: 'Polish a work experience from the user\'s raw description',
+    variables: ['company', 'title', 'startDate', 'endDate', 'technologies', 'rawDescription', 'languageName'],
+    template: `You are a professional resume writer. Polish the following work experience description based on ACTUAL information provided.
+
+ACTUAL WORK EXPERIENCE DATA:
+- Company: {{company}}
+- Position: {{title}}
+- Duration: {{startDate}} - {{endDate}}
+- Current Technologies: {{technologies}}
+
+User's Raw Description (this is the ONLY source of truth for achievements):
+{{rawDescription}}
+
+STRICT RULES:
+1. Base EVERYTHING on the raw description provided - DO NOT invent achievements, metrics, or responsibilities
+2. If the raw description doesn't mention specific numbers, DO NOT make them up
+3. Only mention technologies that are either:
+   - Already listed in the current technologies
+   - Explicitly mentioned in the raw description
+4. DO NOT add generic achievements like "improved performance by X%" unless explicitly stated in the raw description
+5. Focus on reorganizing and polishing the ACTUAL content provided, not inventing new content
+
+Please provide:
+1. A professional 2-3 sentence summary of the role based ONLY on the raw description
+2. 4-6 bullet points that reorganize the raw description content (use numbers ONLY if they exist in the raw description)
+3. List of technologies (ONLY those mentioned in the data or raw description)
+
+Requirements:
+- Use action verbs for existing achievements
+- Maintain factual accuracy - no speculation
+- Professional language while staying true to the original content
+- If no specific metrics exist in the raw description, focus on responsibilities and technical work
+
+IMPORTANT: Generate ALL content in {{languageName}} language.
+Base everything on the raw description - NO INVENTION of metrics or achievements.
+
+Format as JSON:
+{
+  "description": "...",
+  "highlights": ["actual achievement 1", "actual achievement 2", ...],
+  "technologies": ["only real tech 1", "only real tech 2", ...]
+}`,
+  },
+
+  'experience.polish-with-job': {
+    description: 'Polish a work experience while emphasizing parts relevant to a job description',
+    variables: ['company', 'title', 'startDate', 'endDate', 'technologies', 'rawDescription', 'jobDescription', 'languageName'],
+    template: `You are a professional resume writer helping to polish and optimize work experiences.
+
+USER'S ACTUAL WORK (PRIMARY FOCUS - 70%):
+{{rawDescription}}
+
+Work Context:
+- Company: {{company}}
+- Position: {{title}}
+- Duration: {{startDate}} - {{endDate}}
+- Technologies used: {{technologies}}
+
+TARGET JOB DESCRIPTION (For reference - 30%):
+{{jobDescription}}
+
+OPTIMIZATION STRATEGY:
+1. START with the user's actual work description - this is the foundation
+2. Polish and enhance the user's real experiences professionally
+3. Identify which parts of their ACTUAL work align with the JD
+4. Highlight and emphasize those naturally overlapping areas
+5. Use JD keywords ONLY where they genuinely apply to the user's work
+6. Add minor enhancements that are reasonable for their actual role
+
+ENHANCEMENT APPROACH:
+- Base 70% on what the user actually did and described
+- Use JD to identify which of their real experiences to emphasize
+- Enhance metrics with reasonable estimates based on their description
+- Add standard practices that someone in their specific role would do
+- Include technologies they mentioned plus closely related ones they likely used
+- Structure to highlight JD-relevant parts of their REAL experience
+
+IMPORTANT BOUNDARIES:
+- The user's actual work is the core - don't overshadow it with JD requirements
+- Only add skills/tasks that naturally fit with what they described
+- Don't force JD requirements that don't match their experience
+- Keep the authenticity of their unique experience at this company
+- Enhance but don't transform - it should still feel like their story
+
+OUTPUT:
+1. A professional summary based on their actual role, with JD-relevant aspects highlighted
+2. 5-6 bullet points: primarily their real work, with relevant ones emphasized for JD
+3. Technologies: what they used + reasonable additions from their ecosystem
+
+IMPORTANT: Generate ALL content in {{languageName}} language.
+Polish their real experience while highlighting JD-relevant aspects.
+
+Format as JSON:
+{
+  "description": "professional summary of their actual work with relevant aspects emphasized",
+  "highlights": ["their actual achievement 1", "their actual achievement 2 (relevant to JD)", ...],
+  "technologies": ["their mentioned tech", "related tools they likely used", ...]
+}`,
+  },
+
+  'experience.tailor': {
+    description: 'Refine an existing work experience towards a job description',
+    variables: ['company', 'title', 'startDate', 'endDate', 'description', 'highlights', 'technologies', 'originalDescription', 'jobDescription', 'languageName'],
+    template: `You are a professional resume writer helping to refine existing work experiences.
+
+EXISTING WORK EXPERIENCE (CORE CONTENT - 70%):
+- Company: {{company}}
+- Position: {{title}}
+- Duration: {{startDate}} - {{endDate}}
+- Current Description: {{description}}
+- Key Achievements: {{highlights}}
+- Technologies: {{technologies}}
+{{originalDescription}}
+
+TARGET JOB REFERENCE (GUIDANCE - 30%):
+{{jobDescription}}
+
+REFINEMENT STRATEGY:
+1. Keep the user's existing experience as the foundation
+2. Identify natural connections between their work and the JD
+3. Adjust presentation to highlight relevant aspects they already have
+4. Use JD keywords where they authentically apply to their experience
+5. Reorder content to feature JD-relevant work prominently (but keep all content)
+6. Polish language while maintaining their authentic experience
+
+ENHANCEMENT GUIDELINES:
+- Preserve the core of what they actually did
+- Highlight existing achievements that happen to match JD needs
+- Add reasonable details based on their role and company context
+- Include related technologies they likely used in their ecosystem
+- Improve metrics clarity where their description allows
+- Use professional language that reflects both their work and JD terms
+
+IMPORTANT LIMITS:
+- Don't add responsibilities they didn't have
+- Don't force-fit JD requirements that don't match
+- Keep their unique experience authentic
+- Maintain the truth of their actual contributions
+- Enhance presentation, not substance
+
+OUTPUT:
+1. A refined summary of their actual experience, with relevant aspects naturally emphasized
+2. 5-7 bullet points: all their real work, ordered to highlight JD-relevant items first
+3. Technologies: their actual stack plus reasonable ecosystem tools
+
+IMPORTANT: Generate ALL content in {{languageName}} language.
+Refine their real experience with subtle JD alignment.
+
+Format as JSON:
+{
+  "description": "polished version of their actual experience",
+  "highlights": ["their refined achievement 1", "their achievement 2 (happens to match JD)", ...],
+  "technologies": ["their actual tech", "ecosystem tools", ...]
+}`,
+  },
+
+  'experience.describe': {
+    description: 'Polish a work experience entered with `faj describe`',
+    variables: ['company', 'position', 'duration', 'rawDescription', 'keyAchievements', 'technologies', 'languageName'],
+    template: `You are a professional resume writer. Polish the following work experience description.
+
+Company: {{company}}
+Position: {{position}}
+Duration: {{duration}}
+
+Original Description:
+{{rawDescription}}
+
+Key Achievements:
+{{keyAchievements}}
+
+Technologies:
+{{technologies}}
+
+Please provide:
+1. A polished, professional description (3-4 sentences) that highlights the role's scope and impact
+2. 8-10 bullet points with specific metrics and achievements (each must contain numbers)
+3. Improved technology list with proper categorization
+
+Requirements:
+- Use action verbs
+- Include specific numbers and percentages
+- Highlight technical achievements
+- Show business impact
+- Use professional language
+- Language: {{languageName}}
+
+Format as JSON:
+{
+  "description": "...",
+  "highlights": ["bullet1", "bullet2", ...],
+  "technologies": ["tech1", "tech2", ...],
+  "suggestions": ["improvement1", "improvement2", ...]
+}`,
+  },
+
+  'project.polish': {
+    description: 'Enhance a project description using only its analyzed data',
+    variables: ['name', 'description', 'technologies', 'technologyCount', 'technologiesJSON', 'filesCount', 'linesOfCode', 'details', 'languageName'],
+    template: `
+Based on this ACTUAL project data, enhance the project description in {{languageName}}:
+
+ACTUAL PROJECT DATA (DO NOT INVENT METRICS):
+- Project Name: {{name}}
+- Current Description: {{description}}
+- Actual Technologies Used: {{technologies}}
+- Actual File Count: {{filesCount}} files
+- Actual Lines of Code: {{linesOfCode}} lines
+{{details}}
+
+STRICT RULES:
+1. Use ONLY the metrics provided above - DO NOT invent performance numbers, user counts, or other metrics
+2. Focus on the actual technical implementation based on the technologies listed
+3. Describe architecture and code organization based on the file/line count
+4. DO NOT make up features, improvements, or achievements not evident from the data
+5. Base everything on the actual code statistics and technologies detected
+
+Generate:
+1. A refined 2-3 sentence description based on the actual project scope
+2. 3-5 highlights using ONLY the real metrics (e.g., "Built with {{filesCount}} well-organized files", "Leverages {{technologyCount}} key technologies")
+3. Keep the same technologies list, just clean/organize if needed
+
+IMPORTANT: Generate ALL content in {{languageName}} language.
+NO SPECULATION - use only the provided data.
+
+Return the response in JSON format:
+{
+  "description": "...",
+  "highlights": ["fact-based highlight 1", "fact-based highlight 2", ...],
+  "technologies": [{{technologiesJSON}}]
+}`,
+  },
+
+  'project.tailor': {
+    description: 'Tailor a project towards a job description',
+    variables: ['name', 'description', 'technologies', 'filesCount', 'linesOfCode', 'highlights', 'details', 'jobDescription', 'languageName'],
+    template: `
+You are a professional resume writer. Tailor this project to match the job description while maintaining factual accuracy.
+
+JOB DESCRIPTION TO MATCH:
+{{jobDescription}}
+
+ACTUAL PROJECT DATA (DO NOT INVENT):
+- Project Name: {{name}}
+- Current Description: {{description}}
+- Actual Technologies: {{technologies}}
+- Actual Metrics: {{filesCount}} files, {{linesOfCode}} lines of code
+- Current Highlights: {{highlights}}
+{{details}}
+
+STRICT RULES:
+1. NEVER invent features, metrics, or technologies not in the actual data
+2. Emphasize aspects of the project most relevant to the job description
+3. Reorder highlights to put the most job-relevant ones first
+4. Use job description keywords ONLY where they truthfully apply to this project
+5. If project technologies match job requirements, emphasize them
+6. Maintain complete factual accuracy - no speculation
+7. If job requirements aren't demonstrated by this project, DO NOT fabricate them
+
+TAILORING STRATEGY:
+- Identify key technologies and skills from the job description
+- Map existing project features to job requirements where truthful
+- Emphasize how the project demonstrates relevant skills
+- Adjust language to mirror job terminology where appropriate
+- Prioritize the most relevant technical achievements
+
+IMPORTANT: Generate ALL content in {{languageName}} language.
+Base everything on actual project data - NO INVENTION.
+
+Return the response in JSON format:
+{
+  "description": "tailored description emphasizing job-relevant aspects",
+  "highlights": ["most job-relevant highlight", "next relevant highlight", ...],
+  "technologies": ["prioritize matching technologies", "other real technologies", ...]
+}`,
+  },
+
+  'project.describe': {
+    description: 'Describe an analyzed project from its metrics and the user\'s notes',
+    variables: ['name', 'languages', 'languageDistribution', 'primaryLanguage', 'filesCount', 'linesOfCode', 'frameworks', 'libraries', 'complexity', 'role', 'description', 'languageName'],
+    template: `Based on this ACTUAL project analysis data, generate a professional project description in {{languageName}}:
+
+ACTUAL PROJECT DATA (DO NOT INVENT ANY OTHER METRICS):
+- Project Name: {{name}}
+- Programming Languages Used: {{languages}}
+- Language Distribution: {{languageDistribution}}
+- Total Files: {{filesCount}}
+- Total Lines of Code: {{linesOfCode}}
+- Frameworks: {{frameworks}}
+- Libraries: {{libraries}}
+- Complexity: {{complexity}}
+- Your Role: {{role}}
+- User's Description: {{description}}
+
+STRICT RULES:
+1. ONLY use the metrics provided above - DO NOT invent any performance numbers, user counts, or other metrics
+2. Base descriptions on the actual technologies and code statistics provided
+3. Focus on the technical stack and architecture evident from the code analysis
+4. Describe what the project does based on the technologies used and user's description
+5. DO NOT make up features that aren't evident from the data
+
+Generate:
+1. A 2-3 sentence description based on the actual project data
+2. 3-5 highlights based on ACTUAL metrics (e.g., "Implemented with {{filesCount}} files and {{linesOfCode}} lines of {{primaryLanguage}} code")
+3. Technical focus areas based on the detected languages and frameworks
+
+IMPORTANT: Generate ALL content in {{languageName}} language.
+Use ONLY the data provided - no speculation or invention.
+
+Format as JSON:
+{
+  "description": "...",
+  "highlights": ["highlight1", "highlight2", ...],
+  "technologies": ["tech1", "tech2", ...]
+}`,
+  },
+
+  'resume.summary': {
+    description: 'Write a resume\'s professional summary from the profile',
+    variables: ['yearsOfExperience', 'title', 'company', 'technologies', 'projectCount', 'degree', 'field', 'languageName'],
+    template: `Generate a professional summary in {{languageName}} for a software engineer with the following profile:
+
+Years of Experience: {{yearsOfExperience}}
+Current Role: {{title}}
+Current Company: {{company}}
+Key Technologies: {{technologies}}
+Number of Projects: {{projectCount}}
+Education: {{degree}} in {{field}}
+
+Requirements:
+1. 2-3 sentence professional summary
+2. Highlight technical expertise and key achievements
+3. Include career objectives
+4. Professional and engaging
+
+IMPORTANT: Generate the ENTIRE summary in {{languageName}} language.`,
+  },
+
+  'resume.tailor-summary': {
+    description: 'Tailor the resume summary to a job description',
+    variables: ['jobDescription', 'summary', 'name', 'experience', 'skills', 'languages', 'language'],
+    template: `
+Tailor this professional summary to match the job description while maintaining truthfulness:
+
+JOB DESCRIPTION:
+{{jobDescription}}
+
+CURRENT SUMMARY:
+{{summary}}
+
+CANDIDATE PROFILE:
+- Name: {{name}}
+- Years of Experience: {{experience}}
+- Skills: {{skills}}
+- Languages: {{languages}}
+
+RULES:
+1. Keep the summary concise (2-3 sentences)
+2. Emphasize relevant skills and experience that match the job
+3. Use keywords from the job description where they truthfully apply
+4. Maintain factual accuracy - do not invent experience
+5. Keep a professional tone
+
+Generate the tailored summary in {{language}}.`,
+  },
+
+  'match.report': {
+    description: 'Assess a resume against a job requirement by requirement',
+    variables: ['job', 'resume'],
+    template: `
+You are a technical recruiter. Assess how well this candidate's resume meets the job, one requirement at a time.
+
+JOB:
+{{job}}
+
+RESUME (each section is tagged with an id such as [E1] or [P2]):
+{{resume}}
+
+RULES:
+1. List every requirement of the job separately: each required skill, the years of experience, education and any other stated qualification
+2. Mark a requirement "matched" when the resume clearly demonstrates it, "partial" when it shows something related or less than asked, and "missing" otherwise
+3. Evidence must be the ids of the resume sections that support the status - never cite a section that doesn't mention it
+4. A "missing" requirement has no evidence
+5. List the 10-20 keywords and technologies an applicant tracking system would look for in this job, using the job's wording
+6. Score skills and experience from 0 to 100 on their own merits
+
+Return the response in JSON format:
+{
+  "requirements": [
+    { "requirement": "3+ years of TypeScript", "status": "matched", "evidence": ["E1", "P2"], "reason": "short explanation" }
+  ],
+  "keywords": ["TypeScript", "REST APIs", ...],
+  "skillsScore": 80,
+  "experienceScore": 70
+}`,
+  },
+
+  'resume.chat': {
+    description: 'Turn a chat message into structured edits of the resume content',
+    variables: ['resume', 'history', 'message'],
+    template: `
+You are editing a candidate's resume together with them, one message at a time.
+
+CURRENT RESUME CONTENT (JSON):
+{{resume}}
+
+CONVERSATION SO FAR:
+{{history}}
+
+USER MESSAGE:
+{{message}}
+
+RULES:
+1. Change only what the user asks for; leave every other field exactly as it is
+2. Never invent employers, dates, numbers, metrics or technologies that are not already in the resume
+3. Paths are relative to the resume content: "summary", "skills[0].name", "experience[1].description", "experience[1].highlights[2]", "projects[0].technologies"
+4. Indices are 0-based: "the second job" is experience[1]
+5. Use "set" to replace a value, "insert" to add an item to an array (path ends at the new index, or at the array to append) and "remove" to delete an item or field
+6. Prefer several small edits over replacing a whole section
+7. If the message is a question or nothing should change, return an empty edits list
+8. Write the reply as one or two sentences describing what you changed, in the language the user wrote in
+
+Return the response in JSON format:
+{
+  "reply": "Refocused the second job on backend work and shortened the summary to two lines.",
+  "edits": [
+    { "op": "set", "path": "summary", "value": "..." },
+    { "op": "set", "path": "experience[1].highlights[0]", "value": "..." }
+  ]
+}`,
+  },
+
+  'resume.translate': {
+    description: 'Translate one resume entry into another language',
+    variables: ['language', 'section', 'entry'],
+    template: `
+You are a professional translator specializing in resumes. Translate this {{section}} entry of a resume into {{language}}.
+
+ENTRY (JSON):
+{{entry}}
+
+RULES:
+1. Translate every human-readable text value; keep all keys exactly as they are
+2. Keep the same structure: the same fields, and lists with the same number of items in the same order
+3. Do not translate ids, dates, URLs, email addresses, numbers, or names of technologies, products and programming languages
+4. Company and school names stay in their original form unless they have a well-known official name in {{language}}
+5. Use the natural register of a resume written in {{language}}; do not add, remove or embellish any facts
+
+Return the response in JSON format:
+{
+  "entry": <the translated entry, with the same JSON type as the input>
+}`,
+  },
+
+  'resume.import': {
+    description: 'Read the text of an existing resume file into structured entries',
+    variables: ['document'],
+    template: `
+You are reading the text extracted from a candidate's existing resume (PDF or Word). Turn it into structured data.
+
+RESUME TEXT:
+{{document}}
+
+RULES:
+1. Copy names, titles, employers, schools, dates and numbers exactly as they appear; never invent, infer or embellish anything
+2. Dates use "YYYY-MM", or "YYYY" when the text gives no month; for an ongoing position leave endDate out and set current to true
+3. Bulleted lines of an entry become its highlights; other lines become its description
+4. List each skill once, without category labels such as "Languages:"
+5. The text may have lost its layout: columns can be interleaved and lines broken in odd places
+6. In "uncertain", list the fields of an entry you could not read reliably, e.g. ["title", "company"] when the position and the employer cannot be told apart
+7. Leave out fields the text does not have
+
+Return the response in JSON format:
+{
+  "basicInfo": { "name": "...", "email": "...", "phone": "...", "location": "...", "githubUrl": "...", "linkedinUrl": "...", "portfolioUrl": "..." },
+  "summary": "...",
+  "experience": [
+    { "title": "...", "company": "...", "location": "...", "startDate": "2020-01", "endDate": "2023-06", "current": false, "description": "...", "highlights": ["..."], "technologies": ["..."], "uncertain": [] }
+  ],
+  "projects": [
+    { "name": "...", "description": "...", "highlights": ["..."], "technologies": ["..."], "url": "...", "startDate": "2021-03", "endDate": "2021-09", "uncertain": [] }
+  ],
+  "education": [
+    { "institution": "...", "degree": "...", "field": "...", "startDate": "2012", "endDate": "2016", "uncertain": [] }
+  ],
+  "skills": ["..."]
+}`,
+  },
+
+  'gemini.analyze': {
+    description: 'Project analysis prompt used by the Gemini provider',
+    variables: ['name', 'path', 'description', 'type', 'languages', 'frameworks', 'libraries', 'complexity', 'linesOfCode', 'filesCount'],
+    template: `Analyze the following software project and provide a COMPREHENSIVE professional analysis.
+
+Project Details:
+- Name: {{name}}
+- Path/URL: {{path}}
+- Description: {{description}}
+- Type: {{type}}
+- Languages: {{languages}}
+- Frameworks: {{frameworks}}
+- Libraries: {{libraries}}
+- Complexity: {{complexity}}
+- Lines of Code: {{linesOfCode}}
+- Files: {{filesCount}}
+
+IMPORTANT: Be comprehensive and detailed. This is a sophisticated project that demonstrates advanced skills.
+
+Please provide:
+1. A detailed summary (3-4 sentences) explaining the project's purpose, architecture, and value
+2. A comprehensive list of 10+ technical skills (include detected AND implied/related technologies)
+3. 5-7 impressive highlight points that showcase technical expertise
+
+For TypeScript/JavaScript projects, also include related skills like:
+- Package managers (npm, yarn, pnpm)
+- Build tools (Webpack, Vite, Rollup, ESBuild)
+- Testing (Jest, Mocha, Vitest, Cypress)
+- Version Control (Git, GitHub/GitLab)
+- CI/CD tools
+- Database technologies
+- Cloud services
+- Development methodologies
+
+Format your response as JSON:
+{
+  "summary": "...",
+  "skills": ["skill1", "skill2", ...at least 10-15 skills],
+  "highlights": ["highlight1", "highlight2", ...at least 5-7 highlights]
+}`,
+  },
+
+  'gemini.resume': {
+    description: 'Full resume generation prompt used by the Gemini provider',
+    variables: [
+      'languageInstructions', 'name', 'email', 'phone', 'location', 'experience', 'languages', 'education',
+      'careerObjective', 'github', 'linkedin', 'realExperiences', 'projectCount', 'projects',
+      'workExperienceRule', 'firstProjectName', 'firstProjectDescription', 'linesOfCode', 'filesCount',
+      'primaryLanguage', 'frameworkCount', 'libraryCount', 'complexity', 'workExperiencePlan', 'educationPlan',
+    ],
+    template: `You are an expert resume writer for software developers. Generate a COMPREHENSIVE and DETAILED professional developer resume.
+
+{{languageInstructions}}
+
+Profile Information:
+- Name: {{name}}
+- Email: {{email}}
+- Phone: {{phone}}
+- Location: {{location}}
+- Years of Experience: {{experience}}
+- Languages: {{languages}}
+- Education: {{education}}
+- Career Objective: {{careerObjective}}
+- GitHub: {{github}}
+- LinkedIn: {{linkedin}}
+
+{{realExperiences}}
+
+Projects Analyzed (Total: {{projectCount}}):
+{{projects}}
+
+CRITICAL REQUIREMENTS - YOU MUST FOLLOW THESE EXACTLY:
+1. RESUME ORDER: Basic Info → Work Experience → Project Experience → Technical Skills → Education
+2. WORK EXPERIENCE: {{workExperienceRule}}
+3. PROJECTS: Use ONLY the actual projects provided - DO NOT make up fictional projects
+4. For the project "{{firstProjectName}}", use the exact description: "{{firstProjectDescription}}"
+5. SKILLS: Extract from BOTH work experiences and projects, remove duplicates
+6. Include specific numbers and metrics in ALL sections
+
+SPECIFIC PROJECT REQUIREMENTS:
+- Include the actual FAJ project if it was analyzed (decentralized job matching platform)
+- Use the real project names, not generic names
+- Use the actual technologies detected in the analysis
+- Describe the actual functionality implemented in these projects
+- Each project should have 8-10 detailed bullet points
+- Include specific metrics: {{linesOfCode}} lines of code, {{filesCount}} files
+
+METRICS TO INCLUDE (use actual numbers from the project):
+- Lines of code: {{linesOfCode}}
+- Number of files: {{filesCount}}
+- Primary language percentage: {{primaryLanguage}} (use actual percentage)
+- Number of frameworks used: {{frameworkCount}}
+- Number of libraries integrated: {{libraryCount}}
+- Code complexity: {{complexity}}
+
+IMPORTANT REQUIREMENTS:
+- Be EXTREMELY detailed and comprehensive in all sections
+- Generate AT LEAST 15-20 technical skills based on the ACTUAL project analysis
+- Include both the detected technologies AND related/implied technologies
+- Create 2-3 VERY detailed projects with 8-10 bullet points each
+- Professional experience should have 6-8 bullet points with specific metrics
+- Include specific numbers in EVERY bullet point (percentages, counts, time improvements, etc.)
+- Make the summary 5-6 sentences with quantifiable achievements
+- Skills should include languages, frameworks, tools, databases, cloud services, methodologies, etc.
+
+For a project using TypeScript/JavaScript, also infer and include:
+- Related tools (npm, yarn, webpack, babel, etc.)
+- Testing frameworks (Jest, Mocha, Cypress, etc.)
+- Version control (Git, GitHub)
+- Development practices (Agile, CI/CD, TDD)
+- Relevant databases (MongoDB, PostgreSQL, Redis)
+- Cloud/deployment (Docker, AWS, Vercel, etc.)
+
+Create a comprehensive resume following this EXACT order:
+1. Professional summary (3-4 sentences, incorporating career objective if provided)
+2. Work Experience section: {{workExperiencePlan}}
+3. Project Experience section: Include the {{projectCount}} analyzed projects with 6-8 bullet points each
+4. Technical Skills section: Extract from work experiences AND projects (15-20 skills, categorized)
+5. Education section: {{educationPlan}}
+
+BULLET POINT REQUIREMENTS:
+- EVERY bullet point MUST contain at least one specific number (percentage, count, time, etc.)
+- Use action verbs: 开发了, 实现了, 优化了, 提升了, 减少了, 负责了, 设计了, 集成了, 构建了, 部署了, 重构了
+- Include technical details about implementation
+- Mention specific modules, features, or components created
+- Highlight performance improvements with percentages
+- Show scale and impact with concrete numbers
+
+EXAMPLES OF METRICS TO INCLUDE IN BULLET POINTS:
+- "开发了包含15个API端点的RESTful服务，处理每日10,000+请求"
+- "优化算法性能，将响应时间从2秒降低到200毫秒，提升90%"
+- "编写了300+单元测试，代码覆盖率达到95%"
+- "管理包含{{linesOfCode}}行代码的项目，涉及{{filesCount}}个文件"
+- "集成了{{libraryCount}}个第三方库，提升开发效率40%"
+- "将部署时间从3小时缩短到15分钟，效率提升92%"
+- "设计了支持1000并发用户的系统架构"
+- "减少了60%的代码重复，通过创建20个可复用组件"
+
+Format the response as JSON following this structure:
+{
+  "summary": "...",
+  "skills": [
+    {
+      "name": "...",
+      "level": "beginner|intermediate|advanced|expert",
+      "category": "language|framework|tool|database|other"
+    }
+  ],
+  "projects": [
+    {
+      "name": "...",
+      "description": "... (2-3 sentences describing the project purpose and impact)",
+      "role": "...",
+      "technologies": ["... at least 8-10 technologies"],
+      "highlights": ["... at least 8-10 detailed bullet points, each with specific numbers"]
+    }
+  ],
+  "experience": [
+    {
+      "title": "...",
+      "company": "...",
+      "startDate": "...",
+      "endDate": "...",
+      "current": false,
+      "description": "... (2-3 sentences with specific project scope and team size)",
+      "highlights": ["... at least 6-8 bullet points, each with metrics and numbers"],
+      "technologies": ["... at least 8-10 technologies used"]
+    }
+  ],
+  "education": [
+    {
+      "degree": "...",
+      "field": "...",
+      "institution": "...",
+      "startDate": "...",
+      "endDate": "...",
+      "current": false
+    }
+  ]
+}`,
+  },
+
+  'gemini.update': {
+    description: 'Resume update prompt used by the Gemini provider',
+    variables: ['resume', 'changes'],
+    template: `Update the following resume with the specified changes.
+
+Current Resume:
+{{resume}}
+
+Requested Changes:
+{{changes}}
+
+Provide the updated resume in the same JSON format, incorporating the changes while maintaining consistency and professionalism.`,
+  },
+
+  'gemini.match': {
+    description: 'Match score prompt used by the Gemini provider',
+    variables: ['skills', 'requiredSkills', 'requiredExperience', 'jobType'],
+    template: `Calculate a match score (0-100) between this resume and job requirement.
+
+Resume Skills:
+{{skills}}
+
+Job Requirements:
+- Required Skills: {{requiredSkills}}
+- Required Experience: {{requiredExperience}} years
+- Job Type: {{jobType}}
+
+Provide a score from 0-100 and breakdown:
+{
+  "totalScore": 85,
+  "breakdown": {
+    "skillMatch": 90,
+    "experienceMatch": 80,
+    "overallFit": 85
+  }
+}`,
+  },
+
+  'openai.analyze': {
+    description: 'Project analysis prompt used by the OpenAI provider',
+    variables: ['name', 'description', 'technologies', 'frameworks', 'filesCount', 'linesOfCode'],
+    template: `Analyze this software project and provide:
+1. A concise professional summary (2-3 sentences)
+2. List of technical skills used
+3. 3-5 key highlights/achievements
+
+Project: {{name}}
+Description: {{description}}
+Technologies: {{technologies}}
+Frameworks: {{frameworks}}
+Code metrics: {{filesCount}} files, {{linesOfCode}} lines of code
+
+Provide the response in this JSON format:
+{
+  "summary": "...",
+  "skills": ["skill1", "skill2", ...],
+  "highlights": ["highlight1", "highlight2", ...]
+}`,
+  },
+
+  'openai.polish': {
+    description: 'Work experience polish prompt used by the OpenAI provider',
+    variables: ['title', 'company', 'rawDescription'],
+    template: `Transform this work experience into a comprehensive and impressive resume entry:
+
+Position: {{title}}
+Company: {{company}}
+User's Input: {{rawDescription}}
+
+Your task is to expand and enhance this experience while keeping it authentic and realistic. 
+
+IMPORTANT GUIDELINES:
+1. Create a DETAILED professional description (4-6 sentences minimum) that:
+   - Starts with a strong action verb describing the primary role
+   - Includes specific responsibilities and scope of work
+   - Mentions team size, project scale, or impact when relevant
+   - Highlights the technologies, methodologies, or tools used
+   - Shows progression or growth in the role
+   - Quantifies achievements with realistic metrics when possible
+
+2. Generate 5-7 specific achievements that:
+   - Begin with strong action verbs (Led, Developed, Implemented, Optimized, etc.)
+   - Include quantifiable results when appropriate (improved by X%, reduced by Y hours, etc.)
+   - Show technical skills and business impact
+   - Demonstrate leadership, collaboration, or innovation
+   - Are relevant to the {{title}} role at a company like {{company}}
+
+3. Make reasonable inferences based on:
+   - The job title and typical responsibilities for that role
+   - The company type and industry standards
+   - Technologies mentioned or commonly used in such positions
+   - Common challenges and achievements in similar roles
+
+4. Keep the content:
+   - Professional and credible
+   - Specific enough to be impressive but not unbelievable
+   - Relevant to modern industry practices
+   - Rich with industry-appropriate keywords
+
+Format as JSON:
+{
+  "description": "A comprehensive 4-6 sentence description...",
+  "highlights": [
+    "Detailed achievement with metrics...",
+    "Specific technical accomplishment...",
+    "Leadership or collaboration example...",
+    "Process improvement with results...",
+    "Innovation or problem-solving instance...",
+    "At least 5 bullet points total..."
+  ]
+}`,
+  },
+
+  'openai.resume': {
+    description: 'Resume generation prompt used by the OpenAI provider',
+    variables: ['profile', 'projects'],
+    template: `Create a professional resume based on this profile:
+
+{{profile}}
+
+Projects Analyzed:
+{{projects}}
+
+Use ONLY the work experiences in the profile and the projects provided. Format the response as JSON:
+{
+  "summary": "...",
+  "skills": [{ "name": "...", "level": "beginner|intermediate|advanced|expert", "category": "language|framework|tool|database|other" }],
+  "projects": [{ "name": "...", "description": "...", "role": "...", "technologies": ["..."], "highlights": ["..."] }],
+  "experience": [{ "title": "...", "company": "...", "startDate": "...", "endDate": "...", "current": false, "description": "...", "highlights": ["..."], "technologies": ["..."] }]
+}`,
+  },
+
+  'openai.update': {
+    description: 'Resume update prompt used by the OpenAI provider',
+    variables: ['resume', 'changes'],
+    template: `Update this resume with the following changes:
+
+Current resume: {{resume}}
+Changes to apply: {{changes}}
+
+Return the full updated resume content as a JSON object with the same structure as the current resume.`,
+  },
+
+  'openai.match': {
+    description: 'Match score prompt used by the OpenAI provider',
+    variables: ['resume', 'requirements'],
+    template: `Calculate a match score (0-100) for this resume against the job requirements:
+
+Resume: {{resume}}
+Job Requirements: {{requirements}}
+
+Format the response as JSON:
+{
+  "totalScore": 85
+}`,
+  },
+
+  'openai.match-report': {
+    description: 'Match strengths, gaps and suggestions prompt used by the OpenAI provider',
+    variables: ['resume', 'requirements'],
+    template: `Analyze how well this resume matches the job requirements:
+
+Resume: {{resume}}
+Job Requirements: {{requirements}}
+
+Provide:
+1. Match score (0-100)
+2. Key strengths that match requirements
+3. Gaps or missing qualifications
+4. Suggestions for improvement
+
+Format as JSON:
+{
+  "score": 85,
+  "strengths": ["strength1", "strength2"],
+  "gaps": ["gap1", "gap2"],
+  "suggestions": ["suggestion1", "suggestion2"]
+}`,
+  },
+
+  'anthropic.analyze': {
+    description: 'Project analysis prompt used by the Anthropic provider',
+    variables: ['name', 'description', 'type', 'languages', 'frameworks', 'libraries', 'complexity', 'linesOfCode', 'filesCount'],
+    template: `Analyze the following software project and provide a professional analysis.
+
+Project Details:
+- Name: {{name}}
+- Description: {{description}}
+- Type: {{type}}
+- Languages: {{languages}}
+- Frameworks: {{frameworks}}
+- Libraries: {{libraries}}
+- Complexity: {{complexity}}
+- Lines of Code: {{linesOfCode}}
+- Files: {{filesCount}}
+
+Please provide:
+1. A concise summary (2-3 sentences) of the project's purpose and architecture
+2. A list of technical skills demonstrated
+3. 3-5 highlights based on the actual project data
+
+Respond with JSON only:
+{
+  "summary": "...",
+  "skills": ["skill1", "skill2", ...],
+  "highlights": ["highlight1", "highlight2", ...]
+}`,
+  },
+
+  'anthropic.resume': {
+    description: 'Resume generation prompt used by the Anthropic provider',
+    variables: ['languageInstructions', 'name', 'location', 'experience', 'careerObjective', 'realExperiences', 'projects'],
+    template: `You are an expert resume writer for software developers. Generate a professional developer resume.
+
+{{languageInstructions}}
+
+Profile Information:
+- Name: {{name}}
+- Location: {{location}}
+- Years of Experience: {{experience}}
+- Career Objective: {{careerObjective}}
+
+{{realExperiences}}
+
+Projects Analyzed:
+{{projects}}
+
+Use ONLY the projects and experiences provided. Respond with JSON only:
+{
+  "summary": "...",
+  "skills": [{ "name": "...", "level": "beginner|intermediate|advanced|expert", "category": "language|framework|tool|database|other" }],
+  "projects": [{ "name": "...", "description": "...", "role": "...", "technologies": ["..."], "highlights": ["..."] }],
+  "experience": [{ "title": "...", "company": "...", "startDate": "...", "endDate": "...", "current": false, "description": "...", "highlights": ["..."], "technologies": ["..."] }]
+}`,
+  },
+
+  'anthropic.update': {
+    description: 'Resume update prompt used by the Anthropic provider',
+    variables: ['resume', 'changes'],
+    template: `Update the following resume with the specified changes.
+
+Current Resume:
+{{resume}}
+
+Requested Changes:
+{{changes}}
+
+Return the full updated resume content as JSON only, using the same structure as the current resume.`,
+  },
+
+  'anthropic.match': {
+    description: 'Match score prompt used by the Anthropic provider',
+    variables: ['skills', 'requiredSkills', 'requiredExperience', 'jobType'],
+    template: `Calculate a match score (0-100) between this resume and job requirement.
+
+Resume Skills:
+{{skills}}
+
+Job Requirements:
+- Required Skills: {{requiredSkills}}
+- Required Experience: {{requiredExperience}} years
+- Job Type: {{jobType}}
+
+Respond with JSON only:
+{
+  "totalScore": 85,
+  "breakdown": {
+    "skillMatch": 90,
+    "experienceMatch": 80,
+    "overallFit": 85
+  }
+}`,
+  },
+
+  'openai-compatible.analyze': {
+    description: 'Project analysis prompt used by OpenAI-compatible servers',
+    variables: ['name', 'description', 'technologies', 'frameworks', 'filesCount', 'linesOfCode'],
+    template: `Analyze this software project and provide:
+1. A concise professional summary (2-3 sentences)
+2. List of technical skills used
+3. 3-5 key highlights/achievements
+
+Project: {{name}}
+Description: {{description}}
+Technologies: {{technologies}}
+Frameworks: {{frameworks}}
+Code metrics: {{filesCount}} files, {{linesOfCode}} lines of code
+
+Provide the response in this JSON format:
+{
+  "summary": "...",
+  "skills": ["skill1", "skill2", ...],
+  "highlights": ["highlight1", "highlight2", ...]
+}`,
+  },
+
+  'openai-compatible.resume': {
+    description: 'Resume summary prompt used by OpenAI-compatible servers',
+    variables: ['name', 'location', 'languages', 'experience', 'projects'],
+    template: `Generate a professional resume summary based on these projects and profile:
+
+Profile:
+- Name: {{name}}
+- Location: {{location}}
+- Languages: {{languages}}
+{{experience}}
+Projects: {{projects}}
+
+Write a 2-3 sentence professional summary and format the response as JSON:
+{
+  "summary": "..."
+}`,
+  },
+
+  'openai-compatible.match': {
+    description: 'Match score prompt used by OpenAI-compatible servers',
+    variables: ['skills', 'job'],
+    template: `Calculate match score between this resume and job requirement.
+Resume skills: {{skills}}
+Job requirements: {{job}}
+Respond with JSON containing a score between 0-100:
+{
+  "totalScore": 85
+}`,
+  },
+
+  'gemini.polish': {
+    description: 'Work experience polish prompt used by the Gemini provider',
+    variables: ['languageInstructions', 'company', 'title', 'startDate', 'endDate', 'description', 'highlights'],
+    template: `You are an elite resume writer specializing in transforming brief work descriptions into comprehensive, impressive career narratives.
+
+{{languageInstructions}}
+
+WORK EXPERIENCE TO ENHANCE:
+Company: {{company}}
+Position: {{title}}
+Duration: {{startDate}} to {{endDate}}
+User's Brief Input: {{description}}
+Current Highlights (if any): {{highlights}}
+
+YOUR MISSION - Create an EXCEPTIONAL and COMPREHENSIVE experience entry:
+
+1. CRAFT A RICH DESCRIPTION (6-8 sentences minimum):
+   • Open with a powerful statement about the role's strategic importance and scope
+   • Detail primary responsibilities and areas of ownership (technical leadership, system architecture, team collaboration)
+   • Describe the technical environment (technologies, tools, methodologies, scale of systems)
+   • Highlight cross-functional collaboration and stakeholder management
+   • Include team dynamics (team size, mentoring, leading initiatives)
+   • Quantify the business impact and value delivered (revenue, cost savings, efficiency gains)
+   • Show career progression and skill expansion during this role
+   • Add context about the company's industry position and your role's contribution to it
+
+2. CREATE 7-10 ACHIEVEMENT BULLET POINTS that showcase:
+   • Start each with dynamic action verbs (Architected, Pioneered, Orchestrated, Revolutionized, Spearheaded, Transformed)
+   • Include hard metrics in EVERY bullet (percentages, dollar amounts, time savings, scale)
+   • Technical achievements (system architecture, performance optimization, innovation)
+   • Leadership accomplishments (team building, mentoring, process improvement)
+   • Business impact (revenue generation, cost reduction, efficiency gains)
+   • Problem-solving examples (critical issues resolved, technical challenges overcome)
+   • Innovation and initiatives (new tools introduced, processes created, standards established)
+   • Cross-team collaboration and influence
+   • Recognition and awards received
+
+3. APPLY INTELLIGENT REASONING to enhance the content:
+   • Based on the title "{{title}}", infer typical high-level responsibilities
+   • Consider industry best practices and methodologies relevant to this role
+   • Add reasonable metrics based on typical achievements in similar positions:
+     - Senior roles: 20-40% improvements, $1M+ impact, 10+ team members
+     - Mid-level: 15-30% improvements, $100K-1M impact, 5-10 team members
+     - Junior: 10-20% improvements, measurable but smaller scale impact
+   • Expand the technical stack based on mentioned technologies and their ecosystems
+   • Include relevant soft skills and leadership qualities demonstrated
+
+4. METRICS AND QUANTIFICATION GUIDELINES:
+   • Performance improvements: "Optimized API response time by 75%, from 800ms to 200ms"
+   • Scale indicators: "Managed microservices handling 50M+ daily requests"
+   • Team impact: "Led cross-functional team of 12 engineers across 3 time zones"
+   • Cost savings: "Reduced infrastructure costs by $2.5M annually through optimization"
+   • Productivity gains: "Increased deployment frequency by 300% through CI/CD implementation"
+   • Quality metrics: "Achieved 99.9% uptime SLA for critical services"
+   • Growth indicators: "Scaled platform from 10K to 1M+ active users"
+
+5. PROFESSIONAL TONE AND KEYWORDS:
+   • Use industry-specific terminology and acronyms appropriately
+   • Include keywords relevant for ATS (Applicant Tracking Systems)
+   • Balance technical depth with business understanding
+   • Demonstrate both individual contribution and team collaboration
+   • Show progression from technical execution to strategic thinking
+
+Provide the enhanced experience in JSON format:
+{
+  "description": "A comprehensive 6-8 sentence description showcasing the full scope and impact of the role...",
+  "highlights": [
+    "Architected and deployed scalable microservices handling 10M+ daily transactions with 99.99% uptime...",
+    "Led cross-functional team of 15 engineers to deliver $3M revenue-generating platform 2 months ahead of schedule...",
+    "Optimized database queries reducing response time by 85% and saving $500K annually in infrastructure costs...",
+    "Pioneered automated testing framework increasing code coverage from 45% to 95% and reducing bugs by 70%...",
+    "Mentored 8 junior developers, with 100% promotion rate within 18 months...",
+    "Implemented DevOps best practices reducing deployment time from 4 hours to 15 minutes...",
+    "At least 7-10 impressive, metric-rich bullet points total..."
+  ]
+}`,
+  },
+};
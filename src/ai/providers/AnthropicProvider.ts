@@ -0,0 +1,312 @@
+import { BaseAIProvider, RequestOptions, AVAILABILITY_TIMEOUT_MS } from './BaseProvider';
+import { PromptRegistry } from '../prompts/PromptRegistry';
+import { MatchScoreResultSchema, ProjectAnalysisResultSchema, ResumeContentSchema } from '../schemas';
+import { ProjectAnalysis, Resume, JobRequirement } from '../../models';
+
+/**
+ * Output ceiling for a model when `ai.maxTokens.anthropic` isn't set. Claude 3
+ * models reject anything above 4096 and 3.5 above 8192; newer ones allow far
+ * more, which structured tasks such as the resume import parse need.
+ */
+function defaultMaxTokens(model: string): number {
+  if (/^claude-3-(opus|sonnet|haiku)/.test(model)) return 4096;
+  if (/^claude-3-5-/.test(model)) return 8192;
+  return 16384;
+}
+
+export class AnthropicProvider extends BaseAIProvider {
+  private baseURL: string = 'https://api.anthropic.com/v1';
+  private apiVersion: string = '2023-06-01';
+  private maxTokens: number;
+
+  constructor(apiKey: string, model?: string, maxTokens?: number) {
+    const resolvedModel = model || 'claude-sonnet-4-20250514';
+    super('Anthropic', apiKey, resolvedModel);
+    this.maxTokens = maxTokens || defaultMaxTokens(resolvedModel);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    if (!this.apiKey) {
+      this.logger.warn('Anthropic API key not configured');
+      return false;
+    }
+
+    try {
+      const response = await fetch(`${this.baseURL}/models`, {
+        method: 'GET',
+        headers: this.buildHeaders(),
+        signal: AbortSignal.timeout(AVAILABILITY_TIMEOUT_MS)
+      });
+
+      if (response.ok) {
+        this.logger.info('Anthropic API is available');
+        return true;
+      } else {
+        this.logger.error(`Anthropic API check failed: ${response.status}`);
+        return false;
+      }
+    } catch (error: any) {
+      this.logger.error(`Failed to check Anthropic availability: ${error.message}`);
+      return false;
+    }
+  }
+
+  async processPrompt(prompt: string, maxTokens: number = this.maxTokens, signal?: AbortSignal, temperature?: number): Promise<string> {
+    return this.executeWithRetry(async () => {
+      const response = await fetch(`${this.baseURL}/messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.buildHeaders()
+        },
+        body: JSON.stringify(this.buildRequestBody(prompt, maxTokens, temperature)),
+        signal
+      });
+
+      if (!response.ok) {
+        throw await this.httpError('Anthropic', response);
+      }
+
+      const data: any = await response.json();
+      this.recordUsage(data.usage?.input_tokens, data.usage?.output_tokens);
+      // Messages API returns a list of content blocks; join the text ones
+      return (data.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+    }, 3, 1000, signal);
+  }
+
+  async processGeneralPrompt(prompt: string, options?: RequestOptions): Promise<string> {
+    try {
+      return await this.processPrompt(prompt, this.maxTokens, options?.signal, options?.temperature);
+    } catch (error) {
+      this.logger.error('Failed to process prompt with Anthropic', error);
+      throw error;
+    }
+  }
+
+  async *streamGeneralPrompt(
+    prompt: string,
+    options?: RequestOptions & { json?: boolean }
+  ): AsyncGenerator<string> {
+    // The Messages API has no JSON mode; generateStructured's prompt asks for JSON
+    const response = await fetch(`${this.baseURL}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.buildHeaders()
+      },
+      body: JSON.stringify({ ...this.buildRequestBody(prompt, this.maxTokens, options?.temperature), stream: true }),
+      signal: options?.signal
+    });
+
+    if (!response.ok) {
+      throw await this.httpError('Anthropic', response);
+    }
+
+    let inputTokens: number | undefined;
+    for await (const event of this.readServerSentEvents(response)) {
+      switch (event.type) {
+        case 'message_start':
+          inputTokens = event.message?.usage?.input_tokens;
+          break;
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta' && event.delta.text) {
+            yield event.delta.text;
+          }
+          break;
+        case 'message_delta':
+          // Output tokens are only final once the message is complete
+          this.recordUsage(inputTokens, event.usage?.output_tokens);
+          break;
+        case 'error':
+          throw new Error(`Anthropic API error: ${event.error?.message || 'stream error'}`);
+      }
+    }
+  }
+
+  async analyzeProject(project: ProjectAnalysis, options?: RequestOptions): Promise<{
+    summary: string;
+    skills: string[];
+    highlights: string[];
+  }> {
+    const languages = Array.from(project.languages.keys());
+
+    const prompt = await PromptRegistry.getInstance().render('anthropic.analyze', {
+      name: project.name,
+      description: project.description || 'No description',
+      type: project.type,
+      languages: languages.join(', '),
+      frameworks: project.frameworks.join(', ') || 'None',
+      libraries: project.libraries.join(', ') || 'None',
+      complexity: project.complexity,
+      linesOfCode: project.metrics.linesOfCode,
+      filesCount: project.metrics.filesCount,
+    });
+
+    try {
+      return await this.generateStructured(prompt, ProjectAnalysisResultSchema, 'analyze', options);
+    } catch (error) {
+      this.logger.error('Failed to analyze project with Anthropic', error);
+      throw error;
+    }
+  }
+
+  async generateResume(projects: ProjectAnalysis[], profile: any, options?: RequestOptions): Promise<Resume> {
+    const hasRealExperiences = profile.realExperiences && profile.realExperiences.length > 0;
+    const language = process.env.FAJ_RESUME_LANGUAGE || 'zh';
+
+    const projectsInfo = projects.map((p) => ({
+      name: p.name,
+      description: p.description,
+      languages: Array.from(p.languages.keys()),
+      frameworks: p.frameworks,
+      libraries: p.libraries,
+      linesOfCode: p.metrics.linesOfCode,
+      filesCount: p.metrics.filesCount,
+    }));
+
+    const prompt = await PromptRegistry.getInstance().render('anthropic.resume', {
+      languageInstructions: this.getLanguageInstructions(language),
+      name: profile.name,
+      location: profile.location || 'Not provided',
+      experience: profile.experience || 'Not provided',
+      careerObjective: profile.careerObjective || 'Not provided',
+      realExperiences: hasRealExperiences ? `Real Work Experiences (use these, do not create fictional ones):
+${JSON.stringify(profile.realExperiences.map((exp: any) => ({
+  title: exp.title,
+  company: exp.company,
+  startDate: exp.startDate,
+  endDate: exp.endDate || 'Present',
+  current: exp.current,
+  description: exp.description,
+  highlights: exp.highlights,
+  technologies: exp.technologies
+})), null, 2)}` : '',
+      projects: JSON.stringify(projectsInfo, null, 2),
+    });
+
+    try {
+      const parsed = await this.generateStructured(prompt, ResumeContentSchema, 'generate', options);
+
+      const basicInfo: any = {
+        name: profile.name,
+        email: profile.email,
+      };
+
+      if (profile.phone) basicInfo.phone = profile.phone;
+      if (profile.location) basicInfo.location = profile.location;
+      if (profile.languages && profile.languages.length > 0) basicInfo.languages = profile.languages;
+      if (profile.githubUsername) basicInfo.githubUrl = `https://github.com/${profile.githubUsername}`;
+      if (profile.linkedinUrl) basicInfo.linkedinUrl = profile.linkedinUrl;
+      if (profile.portfolioUrl) basicInfo.portfolioUrl = profile.portfolioUrl;
+
+      const education = profile.education
+        ? (Array.isArray(profile.education) ? profile.education : [profile.education]).filter(Boolean)
+        : [];
+
+      return {
+        id: this.generateId(),
+        developerId: profile.id || this.generateId(),
+        version: 1,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        aiProvider: 'anthropic',
+        basicInfo,
+        content: {
+          summary: parsed.summary,
+          skills: parsed.skills,
+          experience: parsed.experience,
+          projects: parsed.projects,
+          education,
+        },
+        metadata: {
+          hash: this.generateHash(parsed),
+          published: false,
+        },
+      };
+    } catch (error) {
+      this.logger.error('Failed to generate resume with Anthropic', error);
+      throw error;
+    }
+  }
+
+  async updateResume(resume: Resume, changes: Partial<Resume>, options?: RequestOptions): Promise<Resume> {
+    const prompt = await PromptRegistry.getInstance().render('anthropic.update', {
+      resume: JSON.stringify(resume.content, null, 2),
+      changes: JSON.stringify(changes, null, 2),
+    });
+
+    try {
+      const parsed = await this.generateStructured(prompt, ResumeContentSchema, 'update', options);
+
+      return {
+        ...resume,
+        version: resume.version + 1,
+        updatedAt: new Date(),
+        content: {
+          summary: parsed.summary,
+          skills: parsed.skills,
+          experience: parsed.experience,
+          projects: parsed.projects,
+          education: parsed.education || resume.content.education,
+        },
+        metadata: {
+          ...resume.metadata,
+          hash: this.generateHash(parsed),
+        },
+      };
+    } catch (error) {
+      this.logger.error('Failed to update resume with Anthropic', error);
+      throw error;
+    }
+  }
+
+  async matchScore(resume: Resume, job: JobRequirement, options?: RequestOptions): Promise<number> {
+    const prompt = await PromptRegistry.getInstance().render('anthropic.match', {
+      skills: resume.content.skills.map((s) => s.name).join(', '),
+      requiredSkills: job.requirements.skills.join(', '),
+      requiredExperience: job.requirements.experience,
+      jobType: job.type,
+    });
+
+    try {
+      const result = await this.generateStructured(prompt, MatchScoreResultSchema, 'match', options);
+      return result.totalScore;
+    } catch (error) {
+      this.logger.error('Failed to calculate match score with Anthropic', error);
+      throw error;
+    }
+  }
+
+  private buildRequestBody(prompt: string, maxTokens: number, temperature?: number): Record<string, any> {
+    return {
+      model: this.model,
+      max_tokens: maxTokens,
+      ...(temperature !== undefined ? { temperature } : {}),
+      system: 'You are a professional resume writer and career consultant. Help create and enhance resumes for job seekers. Be precise and professional.',
+      messages: [
+        {
+          role: 'user',
+          content: prompt
+        }
+      ]
+    };
+  }
+
+  private buildHeaders(): Record<string, string> {
+    return {
+      'x-api-key': this.apiKey || '',
+      'anthropic-version': this.apiVersion
+    };
+  }
+
+  private generateId(): string {
+    return Math.random().toString(36).substring(2, 15);
+  }
+
+  private generateHash(data: any): string {
+    return Buffer.from(JSON.stringify(data)).toString('base64').substring(0, 16);
+  }
+}
@@ -1,11 +1,40 @@
 import { ProjectAnalysis, Resume, JobRequirement } from '../../models';
 import { Logger } from '../../utils/Logger';
+import { z } from 'zod';
+import { parseStructuredOutput } from '../schemas';
+import { StructuredOutputError } from '../errors';
 
 export interface AITask {
-  type: 'analyze' | 'generate' | 'update' | 'match';
+  type: 'analyze' | 'generate' | 'update' | 'match' | 'polish' | 'tailor' | 'translate' | 'prompt';
   data: any;
 }
 
+export type AITaskType = AITask['type'];
+
+export const AI_TASK_TYPES: AITaskType[] = ['analyze', 'generate', 'update', 'match', 'polish', 'tailor', 'translate', 'prompt'];
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Sampling temperature; the provider's default when unset
+  temperature?: number;
+}
+
+export interface StreamOptions extends RequestOptions {
+  // Called with each piece of text as the provider generates it
+  onChunk?: (text: string) => void;
+}
+
+// Longer server-requested waits are better spent on the next provider in the chain
+const MAX_RETRY_AFTER_MS = 60 * 1000;
+
+// Upper bound for isAvailable() probes so an unreachable server can't stall startup
+export const AVAILABILITY_TIMEOUT_MS = 10 * 1000;
+
 export interface AIResponse {
   success: boolean;
   data?: any;
@@ -16,6 +45,7 @@ export abstract class BaseAIProvider {
   protected logger: Logger;
   protected apiKey?: string;
   protected model?: string;
+  private pendingUsage: TokenUsage[] = [];
 
   constructor(protected name: string, apiKey?: string, model?: string) {
     this.logger = new Logger(`AI:${name}`);
@@ -23,9 +53,43 @@ export abstract class BaseAIProvider {
     this.model = model;
   }
 
+  getModel(): string {
+    return this.model || 'default';
+  }
+
+  /**
+   * Returns token usage reported by the API since the last call and resets
+   * it. One logical request may span several API calls (retries, repairs).
+   */
+  takeUsage(): TokenUsage | null {
+    if (this.pendingUsage.length === 0) {
+      return null;
+    }
+
+    const total = this.pendingUsage.reduce(
+      (sum, u) => ({
+        promptTokens: sum.promptTokens + u.promptTokens,
+        completionTokens: sum.completionTokens + u.completionTokens,
+      }),
+      { promptTokens: 0, completionTokens: 0 }
+    );
+    this.pendingUsage = [];
+    return total;
+  }
+
+  protected recordUsage(promptTokens?: number, completionTokens?: number): void {
+    if (promptTokens === undefined && completionTokens === undefined) {
+      return;
+    }
+    this.pendingUsage.push({
+      promptTokens: promptTokens || 0,
+      completionTokens: completionTokens || 0,
+    });
+  }
+
   abstract isAvailable(): Promise<boolean>;
   
-  abstract analyzeProject(project: ProjectAnalysis): Promise<{
+  abstract analyzeProject(project: ProjectAnalysis, options?: RequestOptions): Promise<{
     summary: string;
     skills: string[];
     highlights: string[];
@@ -33,35 +97,58 @@ export abstract class BaseAIProvider {
 
   abstract generateResume(
     projects: ProjectAnalysis[],
-    profile: any
+    profile: any,
+    options?: RequestOptions
   ): Promise<Resume>;
 
   abstract updateResume(
     resume: Resume,
-    changes: Partial<Resume>
+    changes: Partial<Resume>,
+    options?: RequestOptions
   ): Promise<Resume>;
 
   abstract matchScore(
     resume: Resume,
-    job: JobRequirement
+    job: JobRequirement,
+    options?: RequestOptions
   ): Promise<number>;
 
   protected async executeWithRetry<T>(
     operation: () => Promise<T>,
     maxRetries: number = 3,
-    delay: number = 1000
+    delay: number = 1000,
+    signal?: AbortSignal
   ): Promise<T> {
     let lastError: Error | undefined;
 
     for (let i = 0; i < maxRetries; i++) {
+      signal?.throwIfAborted();
       try {
         return await operation();
       } catch (error) {
         lastError = error as Error;
+
+        // Cancellation and timeouts are final, never retried
+        if (signal?.aborted) {
+          throw error;
+        }
+
         this.logger.warn(`Attempt ${i + 1} failed: ${lastError.message}`);
         
+        // A bad key won't fix itself, let the caller fall back instead
+        if (this.isApiKeyError(error)) {
+          break;
+        }
+
+        const retryAfter = this.isRateLimitError(error) ? this.getRetryAfterMs(error) : undefined;
+        if (retryAfter !== undefined && retryAfter > MAX_RETRY_AFTER_MS) {
+          this.logger.warn(`Server asked to wait ${Math.round(retryAfter / 1000)}s, giving up on this provider`);
+          break;
+        }
+        
         if (i < maxRetries - 1) {
-          await this.sleep(delay * Math.pow(2, i)); // Exponential backoff
+          // Exponential backoff, unless the server told us how long to wait
+          await this.sleep(retryAfter ?? delay * Math.pow(2, i), signal);
         }
       }
     }
@@ -69,8 +156,65 @@ export abstract class BaseAIProvider {
     throw lastError;
   }
 
-  protected sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  protected sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Reads how long a rate-limited API asked us to wait, from a Retry-After
+   * header (seconds or HTTP date) or Gemini's RetryInfo error detail.
+   */
+  protected getRetryAfterMs(error: any): number | undefined {
+    const header =
+      error.retryAfter ??
+      (typeof error.headers?.get === 'function' ? error.headers.get('retry-after') : error.headers?.['retry-after']);
+
+    if (header !== undefined && header !== null && header !== '') {
+      const seconds = Number(header);
+      if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+      }
+      const date = Date.parse(String(header));
+      if (!isNaN(date)) {
+        return Math.max(0, date - Date.now());
+      }
+    }
+
+    const retryInfo = error.errorDetails?.find((d: any) => d.retryDelay);
+    if (retryInfo) {
+      const seconds = parseFloat(retryInfo.retryDelay);
+      if (!isNaN(seconds)) {
+        return seconds * 1000;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Builds an error for a non-2xx HTTP response, keeping the status and
+   * Retry-After header so retry and fallback logic can act on them.
+   */
+  protected async httpError(label: string, response: Response): Promise<Error> {
+    const body = await response.text();
+    const error: any = new Error(`${label} API error: ${response.status} - ${body}`);
+    error.status = response.status;
+    error.retryAfter = response.headers.get('retry-after');
+    return error;
   }
 
   protected isRateLimitError(error: any): boolean {
@@ -93,7 +237,133 @@ export abstract class BaseAIProvider {
     );
   }
 
-  abstract processGeneralPrompt(prompt: string): Promise<string>;
+  /**
+   * Whether a failed call should be retried on the next provider in the
+   * fallback chain rather than surfaced to the user.
+   */
+  shouldFallback(error: any): boolean {
+    return this.isRateLimitError(error) || this.isApiKeyError(error);
+  }
+
+  abstract processGeneralPrompt(prompt: string, options?: RequestOptions): Promise<string>;
+
+  /**
+   * Sends a prompt that must be answered with JSON. Providers with a native
+   * JSON mode override this; the default relies on the prompt alone.
+   */
+  protected async processJSONPrompt(prompt: string, options?: RequestOptions): Promise<string> {
+    return this.processGeneralPrompt(prompt, options);
+  }
+
+  /**
+   * Yields the response to a general prompt as it is generated. Providers
+   * without a streaming API yield the whole response as a single chunk.
+   */
+  async *streamGeneralPrompt(
+    prompt: string,
+    options?: RequestOptions & { json?: boolean }
+  ): AsyncGenerator<string> {
+    const request = { signal: options?.signal, temperature: options?.temperature };
+    yield options?.json
+      ? await this.processJSONPrompt(prompt, request)
+      : await this.processGeneralPrompt(prompt, request);
+  }
+
+  /**
+   * Runs a prompt through streamGeneralPrompt, forwarding chunks to
+   * `onChunk` and returning the full text.
+   */
+  async streamToString(prompt: string, stream: StreamOptions, json: boolean = false): Promise<string> {
+    let text = '';
+    for await (const chunk of this.streamGeneralPrompt(prompt, { json, signal: stream.signal, temperature: stream.temperature })) {
+      text += chunk;
+      stream.onChunk?.(chunk);
+    }
+    return text;
+  }
+
+  /**
+   * Parses a `text/event-stream` response body and yields the JSON payload
+   * of each `data:` line, stopping at the OpenAI-style `[DONE]` sentinel.
+   */
+  protected async *readServerSentEvents(response: Response): AsyncGenerator<any> {
+    if (!response.body) {
+      return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        // Keep the trailing partial line for the next read
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const payload = trimmed.slice(5).trim();
+          if (payload === '[DONE]') return;
+          try {
+            yield JSON.parse(payload);
+          } catch {
+            // Keep-alive comments and malformed events are skipped
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * Requests JSON output and validates it against the task schema. A failed
+   * parse gets exactly one repair re-prompt before StructuredOutputError.
+   * With `onChunk`, the first attempt is streamed so callers can show progress.
+   */
+  async generateStructured<T>(prompt: string, schema: z.ZodType<T>, task: string, options?: StreamOptions): Promise<T> {
+    const jsonPrompt = `${prompt}
+
+Respond with a single JSON object only. Do not wrap it in markdown or add any commentary.`;
+
+    const response = options?.onChunk
+      ? await this.streamToString(jsonPrompt, options, true)
+      : await this.processJSONPrompt(jsonPrompt, options);
+    const first = parseStructuredOutput(response, schema);
+    if (first.success) {
+      return first.data!;
+    }
+
+    this.logger.warn(`${task} response failed validation (${first.issues.join('; ')}), requesting repair`);
+
+    const repairPrompt = `Your previous response could not be used because it did not match the required JSON format.
+
+Problems found:
+${first.issues.map((issue) => `- ${issue}`).join('\n')}
+
+Original request:
+${jsonPrompt}
+
+Your previous response:
+${response}
+
+Return the corrected response as a single JSON object only.`;
+
+    const repaired = await this.processJSONPrompt(repairPrompt, { signal: options?.signal });
+    const second = parseStructuredOutput(repaired, schema);
+    if (second.success) {
+      return second.data!;
+    }
+
+    throw new StructuredOutputError(task, second.issues, repaired);
+  }
 
   protected getLanguageInstructions(language: string): string {
     const instructions: { [key: string]: string } = {
@@ -1,5 +1,7 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import { BaseAIProvider } from './BaseProvider';
+import { BaseAIProvider, RequestOptions } from './BaseProvider';
+import { PromptRegistry } from '../prompts/PromptRegistry';
+import { MatchScoreResultSchema, ProjectAnalysisResultSchema, ResumeContentResult, ResumeContentSchema } from '../schemas';
 import { ProjectAnalysis, Resume, JobRequirement } from '../../models';
 
 export class GeminiProvider extends BaseAIProvider {
@@ -25,25 +27,15 @@ export class GeminiProvider extends BaseAIProvider {
     return true;
   }
 
-  async analyzeProject(project: ProjectAnalysis): Promise<{
+  async analyzeProject(project: ProjectAnalysis, options?: RequestOptions): Promise<{
     summary: string;
     skills: string[];
     highlights: string[];
   }> {
-    if (!this.client) {
-      throw new Error('Gemini client not initialized');
-    }
+    const prompt = await this.buildAnalysisPrompt(project);
 
-    const prompt = this.buildAnalysisPrompt(project);
-    
     try {
-      const model = this.client.getGenerativeModel({ model: this.model! });
-      const result = await this.executeWithRetry(async () => {
-        return await model.generateContent(prompt);
-      });
-
-      const response = result.response.text();
-      return this.parseAnalysisResponse(response);
+      return await this.generateStructured(prompt, ProjectAnalysisResultSchema, 'analyze', options);
     } catch (error) {
       this.logger.error('Failed to analyze project with Gemini', error);
       throw error;
@@ -52,22 +44,14 @@ export class GeminiProvider extends BaseAIProvider {
 
   async generateResume(
     projects: ProjectAnalysis[],
-    profile: any
+    profile: any,
+    options?: RequestOptions
   ): Promise<Resume> {
-    if (!this.client) {
-      throw new Error('Gemini client not initialized');
-    }
-
-    const prompt = this.buildResumePrompt(projects, profile);
+    const prompt = await this.buildResumePrompt(projects, profile);
 
     try {
-      const model = this.client.getGenerativeModel({ model: this.model! });
-      const result = await this.executeWithRetry(async () => {
-        return await model.generateContent(prompt);
-      });
-
-      const response = result.response.text();
-      return this.parseResumeResponse(response, profile);
+      const content = await this.generateStructured(prompt, ResumeContentSchema, 'generate', options);
+      return this.buildResume(content, profile);
     } catch (error) {
       this.logger.error('Failed to generate resume with Gemini', error);
       throw error;
@@ -76,22 +60,14 @@ export class GeminiProvider extends BaseAIProvider {
 
   async updateResume(
     resume: Resume,
-    changes: Partial<Resume>
+    changes: Partial<Resume>,
+    options?: RequestOptions
   ): Promise<Resume> {
-    if (!this.client) {
-      throw new Error('Gemini client not initialized');
-    }
-
-    const prompt = this.buildUpdatePrompt(resume, changes);
+    const prompt = await this.buildUpdatePrompt(resume, changes);
 
     try {
-      const model = this.client.getGenerativeModel({ model: this.model! });
-      const result = await this.executeWithRetry(async () => {
-        return await model.generateContent(prompt);
-      });
-
-      const response = result.response.text();
-      return this.parseUpdateResponse(response, resume);
+      const content = await this.generateStructured(prompt, ResumeContentSchema, 'update', options);
+      return this.applyUpdate(content, resume);
     } catch (error) {
       this.logger.error('Failed to update resume with Gemini', error);
       throw error;
@@ -100,69 +76,36 @@ export class GeminiProvider extends BaseAIProvider {
 
   async matchScore(
     resume: Resume,
-    job: JobRequirement
+    job: JobRequirement,
+    options?: RequestOptions
   ): Promise<number> {
-    if (!this.client) {
-      throw new Error('Gemini client not initialized');
-    }
-
-    const prompt = this.buildMatchPrompt(resume, job);
+    const prompt = await this.buildMatchPrompt(resume, job);
 
     try {
-      const model = this.client.getGenerativeModel({ model: this.model! });
-      const result = await this.executeWithRetry(async () => {
-        return await model.generateContent(prompt);
-      });
-
-      const response = result.response.text();
-      return this.parseMatchScore(response);
+      const result = await this.generateStructured(prompt, MatchScoreResultSchema, 'match', options);
+      return result.totalScore;
     } catch (error) {
       this.logger.error('Failed to calculate match score with Gemini', error);
       throw error;
     }
   }
 
-  private buildAnalysisPrompt(project: ProjectAnalysis): string {
-    return `Analyze the following software project and provide a COMPREHENSIVE professional analysis.
-
-Project Details:
-- Name: ${project.name}
-- Path/URL: ${project.path}
-- Description: ${project.description}
-- Type: ${project.type}
-- Languages: ${Array.from(project.languages.keys()).join(', ')}
-- Frameworks: ${project.frameworks.join(', ') || 'None detected - infer common frameworks'}
-- Libraries: ${project.libraries.join(', ')}
-- Complexity: ${project.complexity}
-- Lines of Code: ${project.metrics.linesOfCode}
-- Files: ${project.metrics.filesCount}
-
-IMPORTANT: Be comprehensive and detailed. This is a sophisticated project that demonstrates advanced skills.
-
-Please provide:
-1. A detailed summary (3-4 sentences) explaining the project's purpose, architecture, and value
-2. A comprehensive list of 10+ technical skills (include detected AND implied/related technologies)
-3. 5-7 impressive highlight points that showcase technical expertise
-
-For TypeScript/JavaScript projects, also include related skills like:
-- Package managers (npm, yarn, pnpm)
-- Build tools (Webpack, Vite, Rollup, ESBuild)
-- Testing (Jest, Mocha, Vitest, Cypress)
-- Version Control (Git, GitHub/GitLab)
-- CI/CD tools
-- Database technologies
-- Cloud services
-- Development methodologies
-
-Format your response as JSON:
-{
-  "summary": "...",
-  "skills": ["skill1", "skill2", ...at least 10-15 skills],
-  "highlights": ["highlight1", "highlight2", ...at least 5-7 highlights]
-}`;
+  private buildAnalysisPrompt(project: ProjectAnalysis): Promise<string> {
+    return PromptRegistry.getInstance().render('gemini.analyze', {
+      name: project.name,
+      path: project.path,
+      description: project.description,
+      type: project.type,
+      languages: Array.from(project.languages.keys()).join(', '),
+      frameworks: project.frameworks.join(', ') || 'None detected - infer common frameworks',
+      libraries: project.libraries.join(', '),
+      complexity: project.complexity,
+      linesOfCode: project.metrics.linesOfCode,
+      filesCount: project.metrics.filesCount,
+    });
   }
 
-  private buildResumePrompt(projects: ProjectAnalysis[], profile: any): string {
+  private buildResumePrompt(projects: ProjectAnalysis[], profile: any): Promise<string> {
     // Check if user has real work experiences
     const hasRealExperiences = profile.realExperiences && profile.realExperiences.length > 0;
     
@@ -177,34 +120,31 @@ Format your response as JSON:
       filesCount: p.metrics.filesCount,
       description: p.description,
     }));
+    const firstProject = projectsInfo[0];
 
     // Get language preference from environment
     const language = process.env.FAJ_RESUME_LANGUAGE || 'zh';
-    const languageInstructions = this.getLanguageInstructions(language);
-
-    return `You are an expert resume writer for software developers. Generate a COMPREHENSIVE and DETAILED professional developer resume.
-
-${languageInstructions}
-
-Profile Information:
-- Name: ${profile.name}
-- Email: ${profile.email}
-- Phone: ${profile.phone || 'Not provided'}
-- Location: ${profile.location || 'Not provided'}
-- Years of Experience: ${profile.experience}
-- Languages: ${profile.languages?.join(', ') || 'Chinese, English'}
-- Education: ${(() => {
-    if (!profile.education) return 'Not provided';
-    const eduArray = Array.isArray(profile.education) ? profile.education : [profile.education];
-    if (eduArray.length === 0 || !eduArray[0]) return 'Not provided';
-    return eduArray.map((edu: any) => `${edu.degree} in ${edu.field} from ${edu.institution} (${edu.endDate || edu.endYear || edu.graduationYear || edu.startDate})`).join('; ');
-  })()}
-- Career Objective: ${profile.careerObjective || 'Not provided'}
-- GitHub: ${profile.githubUsername ? `https://github.com/${profile.githubUsername}` : 'Not provided'}
-- LinkedIn: ${profile.linkedinUrl || 'Not provided'}
-
-${hasRealExperiences ? `
-User's Real Work Experiences (${profile.realExperiences.length} positions):
+
+    const eduArray = profile.education
+      ? (Array.isArray(profile.education) ? profile.education : [profile.education])
+      : [];
+    const hasEducation = eduArray.length > 0 && !!eduArray[0];
+
+    return PromptRegistry.getInstance().render('gemini.resume', {
+      languageInstructions: this.getLanguageInstructions(language),
+      name: profile.name,
+      email: profile.email,
+      phone: profile.phone || 'Not provided',
+      location: profile.location || 'Not provided',
+      experience: profile.experience,
+      languages: profile.languages?.join(', ') || 'Chinese, English',
+      education: hasEducation
+        ? eduArray.map((edu: any) => `${edu.degree} in ${edu.field} from ${edu.institution} (${edu.endDate || edu.endYear || edu.graduationYear || edu.startDate})`).join('; ')
+        : 'Not provided',
+      careerObjective: profile.careerObjective || 'Not provided',
+      github: profile.githubUsername ? `https://github.com/${profile.githubUsername}` : 'Not provided',
+      linkedin: profile.linkedinUrl || 'Not provided',
+      realExperiences: hasRealExperiences ? `User's Real Work Experiences (${profile.realExperiences.length} positions):
 ${JSON.stringify(profile.realExperiences.map((exp: any) => ({
   title: exp.title,
   company: exp.company,
@@ -214,305 +154,136 @@ ${JSON.stringify(profile.realExperiences.map((exp: any) => ({
   description: exp.description,
   highlights: exp.highlights,
   technologies: exp.technologies
-})), null, 2)}
-` : ''}
-
-Projects Analyzed (Total: ${projects.length}):
-${JSON.stringify(projectsInfo, null, 2)}
-
-CRITICAL REQUIREMENTS - YOU MUST FOLLOW THESE EXACTLY:
-1. RESUME ORDER: Basic Info → Work Experience → Project Experience → Technical Skills → Education
-2. WORK EXPERIENCE: ${hasRealExperiences ? 'USE THE PROVIDED REAL WORK EXPERIENCES - DO NOT CREATE FICTIONAL ONES' : 'Generate based on project complexity and skills demonstrated'}
-3. PROJECTS: Use ONLY the actual projects provided - DO NOT make up fictional projects
-4. For the project "${projectsInfo[0]?.name}", use the exact description: "${projectsInfo[0]?.description}"
-5. SKILLS: Extract from BOTH work experiences and projects, remove duplicates
-6. Include specific numbers and metrics in ALL sections
-
-SPECIFIC PROJECT REQUIREMENTS:
-- Include the actual FAJ project if it was analyzed (decentralized job matching platform)
-- Use the real project names, not generic names
-- Use the actual technologies detected in the analysis
-- Describe the actual functionality implemented in these projects
-- Each project should have 8-10 detailed bullet points
-- Include specific metrics: ${projectsInfo[0]?.linesOfCode} lines of code, ${projectsInfo[0]?.filesCount} files
-
-METRICS TO INCLUDE (use actual numbers from the project):
-- Lines of code: ${projectsInfo[0]?.linesOfCode}
-- Number of files: ${projectsInfo[0]?.filesCount}
-- Primary language percentage: ${projectsInfo[0]?.languages?.[0]} (use actual percentage)
-- Number of frameworks used: ${projectsInfo[0]?.frameworks?.length || 0}
-- Number of libraries integrated: ${projectsInfo[0]?.libraries?.length || 0}
-- Code complexity: ${projectsInfo[0]?.complexity}
-
-IMPORTANT REQUIREMENTS:
-- Be EXTREMELY detailed and comprehensive in all sections
-- Generate AT LEAST 15-20 technical skills based on the ACTUAL project analysis
-- Include both the detected technologies AND related/implied technologies
-- Create 2-3 VERY detailed projects with 8-10 bullet points each
-- Professional experience should have 6-8 bullet points with specific metrics
-- Include specific numbers in EVERY bullet point (percentages, counts, time improvements, etc.)
-- Make the summary 5-6 sentences with quantifiable achievements
-- Skills should include languages, frameworks, tools, databases, cloud services, methodologies, etc.
-
-For a project using TypeScript/JavaScript, also infer and include:
-- Related tools (npm, yarn, webpack, babel, etc.)
-- Testing frameworks (Jest, Mocha, Cypress, etc.)
-- Version control (Git, GitHub)
-- Development practices (Agile, CI/CD, TDD)
-- Relevant databases (MongoDB, PostgreSQL, Redis)
-- Cloud/deployment (Docker, AWS, Vercel, etc.)
-
-Create a comprehensive resume following this EXACT order:
-1. Professional summary (3-4 sentences, incorporating career objective if provided)
-2. Work Experience section: ${hasRealExperiences ? `Use the ${profile.realExperiences.length} real experiences provided, enhance with metrics` : 'Generate 2-3 positions based on project complexity'}
-3. Project Experience section: Include the ${projects.length} analyzed projects with 6-8 bullet points each
-4. Technical Skills section: Extract from work experiences AND projects (15-20 skills, categorized)
-5. Education section: ${(() => {
-    if (!profile.education) return 'Bachelor degree in relevant field';
-    const eduArray = Array.isArray(profile.education) ? profile.education : [profile.education];
-    if (eduArray.length === 0 || !eduArray[0]) return 'Bachelor degree in relevant field';
-    return eduArray.map((edu: any) => `${edu.degree} in ${edu.field} from ${edu.institution}`).join('; ');
-  })()}
-
-BULLET POINT REQUIREMENTS:
-- EVERY bullet point MUST contain at least one specific number (percentage, count, time, etc.)
-- Use action verbs: 开发了, 实现了, 优化了, 提升了, 减少了, 负责了, 设计了, 集成了, 构建了, 部署了, 重构了
-- Include technical details about implementation
-- Mention specific modules, features, or components created
-- Highlight performance improvements with percentages
-- Show scale and impact with concrete numbers
-
-EXAMPLES OF METRICS TO INCLUDE IN BULLET POINTS:
-- "开发了包含15个API端点的RESTful服务，处理每日10,000+请求"
-- "优化算法性能，将响应时间从2秒降低到200毫秒，提升90%"
-- "编写了300+单元测试，代码覆盖率达到95%"
-- "管理包含${projectsInfo[0]?.linesOfCode}行代码的项目，涉及${projectsInfo[0]?.filesCount}个文件"
-- "集成了${projectsInfo[0]?.libraries?.length || 0}个第三方库，提升开发效率40%"
-- "将部署时间从3小时缩短到15分钟，效率提升92%"
-- "设计了支持1000并发用户的系统架构"
-- "减少了60%的代码重复，通过创建20个可复用组件"
-
-Format the response as JSON following this structure:
-{
-  "summary": "...",
-  "skills": [
-    {
-      "name": "...",
-      "level": "beginner|intermediate|advanced|expert",
-      "category": "language|framework|tool|database|other"
-    }
-  ],
-  "projects": [
-    {
-      "name": "...",
-      "description": "... (2-3 sentences describing the project purpose and impact)",
-      "role": "...",
-      "technologies": ["... at least 8-10 technologies"],
-      "highlights": ["... at least 8-10 detailed bullet points, each with specific numbers"]
-    }
-  ],
-  "experience": [
-    {
-      "title": "...",
-      "company": "...",
-      "startDate": "...",
-      "endDate": "...",
-      "current": false,
-      "description": "... (2-3 sentences with specific project scope and team size)",
-      "highlights": ["... at least 6-8 bullet points, each with metrics and numbers"],
-      "technologies": ["... at least 8-10 technologies used"]
-    }
-  ],
-  "education": [
-    {
-      "degree": "...",
-      "field": "...",
-      "institution": "...",
-      "startDate": "...",
-      "endDate": "...",
-      "current": false
-    }
-  ]
-}`;
+})), null, 2)}` : '',
+      projectCount: projects.length,
+      projects: JSON.stringify(projectsInfo, null, 2),
+      workExperienceRule: hasRealExperiences
+        ? 'USE THE PROVIDED REAL WORK EXPERIENCES - DO NOT CREATE FICTIONAL ONES'
+        : 'Generate based on project complexity and skills demonstrated',
+      firstProjectName: firstProject?.name,
+      firstProjectDescription: firstProject?.description,
+      linesOfCode: firstProject?.linesOfCode,
+      filesCount: firstProject?.filesCount,
+      primaryLanguage: firstProject?.languages?.[0],
+      frameworkCount: firstProject?.frameworks?.length || 0,
+      libraryCount: firstProject?.libraries?.length || 0,
+      complexity: firstProject?.complexity,
+      workExperiencePlan: hasRealExperiences
+        ? `Use the ${profile.realExperiences.length} real experiences provided, enhance with metrics`
+        : 'Generate 2-3 positions based on project complexity',
+      educationPlan: hasEducation
+        ? eduArray.map((edu: any) => `${edu.degree} in ${edu.field} from ${edu.institution}`).join('; ')
+        : 'Bachelor degree in relevant field',
+    });
   }
 
-  private buildUpdatePrompt(resume: Resume, changes: Partial<Resume>): string {
-    return `Update the following resume with the specified changes.
-
-Current Resume:
-${JSON.stringify(resume.content, null, 2)}
-
-Requested Changes:
-${JSON.stringify(changes, null, 2)}
-
-Provide the updated resume in the same JSON format, incorporating the changes while maintaining consistency and professionalism.`;
+  private buildUpdatePrompt(resume: Resume, changes: Partial<Resume>): Promise<string> {
+    return PromptRegistry.getInstance().render('gemini.update', {
+      resume: JSON.stringify(resume.content, null, 2),
+      changes: JSON.stringify(changes, null, 2),
+    });
   }
 
-  private buildMatchPrompt(resume: Resume, job: JobRequirement): string {
-    return `Calculate a match score (0-100) between this resume and job requirement.
-
-Resume Skills:
-${resume.content.skills.map((s) => s.name).join(', ')}
-
-Job Requirements:
-- Required Skills: ${job.requirements.skills.join(', ')}
-- Required Experience: ${job.requirements.experience} years
-- Job Type: ${job.type}
-
-Provide a score from 0-100 and breakdown:
-{
-  "totalScore": 85,
-  "breakdown": {
-    "skillMatch": 90,
-    "experienceMatch": 80,
-    "overallFit": 85
-  }
-}`;
+  private buildMatchPrompt(resume: Resume, job: JobRequirement): Promise<string> {
+    return PromptRegistry.getInstance().render('gemini.match', {
+      skills: resume.content.skills.map((s) => s.name).join(', '),
+      requiredSkills: job.requirements.skills.join(', '),
+      requiredExperience: job.requirements.experience,
+      jobType: job.type,
+    });
   }
 
-  private parseAnalysisResponse(response: string): any {
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
+  private buildResume(parsed: ResumeContentResult, profile: any): Resume {
+    // Debug log profile content
+    this.logger.debug('Profile received in buildResume:', {
+      name: profile.name,
+      email: profile.email,
+      phone: profile.phone,
+      location: profile.location,
+      languages: profile.languages,
+      education: profile.education
+    });
+
+    // Build basic info from profile - filter out undefined values
+    const basicInfo: any = {
+      name: profile.name,
+      email: profile.email,
+    };
+    
+    if (profile.phone) basicInfo.phone = profile.phone;
+    if (profile.location) basicInfo.location = profile.location;
+    if (profile.birthDate) basicInfo.birthDate = profile.birthDate;
+    if (profile.nationality) basicInfo.nationality = profile.nationality;
+    if (profile.languages && profile.languages.length > 0) basicInfo.languages = profile.languages;
+    if (profile.githubUsername) basicInfo.githubUrl = `https://github.com/${profile.githubUsername}`;
+    if (profile.linkedinUrl) basicInfo.linkedinUrl = profile.linkedinUrl;
+    if (profile.portfolioUrl) basicInfo.portfolioUrl = profile.portfolioUrl;
+    
+    this.logger.debug('BasicInfo built:', basicInfo);
+
+    // Use profile education if available
+    let education: any[] = parsed.education || [];
+    if (profile.education && education.length === 0) {
+      // Handle both old (single object) and new (array) formats
+      const eduArray = Array.isArray(profile.education) ? profile.education : [profile.education];
+      if (eduArray.length > 0 && eduArray[0]) {
+        education = eduArray.map((edu: any) => ({
+          degree: edu.degree,
+          field: edu.field,
+          institution: edu.institution,
+          startDate: edu.startDate || edu.startYear || (edu.graduationYear ? `${parseInt(edu.graduationYear) - 4}` : ''),
+          endDate: edu.endDate || edu.endYear || edu.graduationYear || '',
+          current: edu.current || false,
+          gpa: edu.gpa,
+          highlights: edu.highlights || edu.achievements || []
+        }));
       }
-      
-      // Fallback parsing
-      return {
-        summary: 'Project analyzed successfully',
-        skills: [],
-        highlights: [],
-      };
-    } catch (error) {
-      this.logger.warn('Failed to parse Gemini response as JSON', error);
-      return {
-        summary: response.substring(0, 200),
-        skills: [],
-        highlights: [],
-      };
     }
-  }
 
-  private parseResumeResponse(response: string, profile: any): Resume {
-    try {
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      const parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : {};
-
-      // Debug log profile content
-      this.logger.debug('Profile received in parseResumeResponse:', {
-        name: profile.name,
-        email: profile.email,
-        phone: profile.phone,
-        location: profile.location,
-        languages: profile.languages,
-        education: profile.education
-      });
-
-      // Build basic info from profile - filter out undefined values
-      const basicInfo: any = {
-        name: profile.name,
-        email: profile.email,
-      };
-      
-      if (profile.phone) basicInfo.phone = profile.phone;
-      if (profile.location) basicInfo.location = profile.location;
-      if (profile.birthDate) basicInfo.birthDate = profile.birthDate;
-      if (profile.nationality) basicInfo.nationality = profile.nationality;
-      if (profile.languages && profile.languages.length > 0) basicInfo.languages = profile.languages;
-      if (profile.githubUsername) basicInfo.githubUrl = `https://github.com/${profile.githubUsername}`;
-      if (profile.linkedinUrl) basicInfo.linkedinUrl = profile.linkedinUrl;
-      if (profile.portfolioUrl) basicInfo.portfolioUrl = profile.portfolioUrl;
-      
-      this.logger.debug('BasicInfo built:', basicInfo);
-
-      // Use profile education if available
-      let education = parsed.education || [];
-      if (profile.education && education.length === 0) {
-        // Handle both old (single object) and new (array) formats
-        const eduArray = Array.isArray(profile.education) ? profile.education : [profile.education];
-        if (eduArray.length > 0 && eduArray[0]) {
-          education = eduArray.map((edu: any) => ({
-            degree: edu.degree,
-            field: edu.field,
-            institution: edu.institution,
-            startDate: edu.startDate || edu.startYear || (edu.graduationYear ? `${parseInt(edu.graduationYear) - 4}` : ''),
-            endDate: edu.endDate || edu.endYear || edu.graduationYear || '',
-            current: edu.current || false,
-            gpa: edu.gpa,
-            highlights: edu.highlights || edu.achievements || []
-          }));
-        }
-      }
-
-      return {
-        id: this.generateId(),
-        developerId: profile.id || this.generateId(),
-        version: 1,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        aiProvider: 'gemini',
-        basicInfo,
-        content: {
-          summary: parsed.summary || profile.careerObjective || '',
-          skills: parsed.skills || [],
-          experience: parsed.experience || [],
-          projects: parsed.projects || [],
-          education,
-        },
-        metadata: {
-          hash: this.generateHash(parsed),
-          published: false,
-        },
-      };
-    } catch (error) {
-      this.logger.error('Failed to parse resume response', error);
-      throw new Error('Failed to generate resume from Gemini response');
-    }
+    return {
+      id: this.generateId(),
+      developerId: profile.id || this.generateId(),
+      version: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      aiProvider: 'gemini',
+      basicInfo,
+      content: {
+        summary: parsed.summary,
+        skills: parsed.skills,
+        experience: parsed.experience,
+        projects: parsed.projects,
+        education,
+      },
+      metadata: {
+        hash: this.generateHash(parsed),
+        published: false,
+      },
+    };
   }
 
-  private parseUpdateResponse(response: string, originalResume: Resume): Resume {
-    try {
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      const parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : {};
-
-      return {
-        ...originalResume,
-        version: originalResume.version + 1,
-        updatedAt: new Date(),
-        content: {
-          summary: parsed.summary || originalResume.content.summary,
-          skills: parsed.skills || originalResume.content.skills,
-          experience: parsed.experience || originalResume.content.experience,
-          projects: parsed.projects || originalResume.content.projects,
-          education: parsed.education || originalResume.content.education,
-        },
-        metadata: {
-          ...originalResume.metadata,
-          hash: this.generateHash(parsed),
-        },
-      };
-    } catch (error) {
-      this.logger.error('Failed to parse update response', error);
-      throw new Error('Failed to update resume from Gemini response');
-    }
+  private applyUpdate(parsed: ResumeContentResult, originalResume: Resume): Resume {
+    return {
+      ...originalResume,
+      version: originalResume.version + 1,
+      updatedAt: new Date(),
+      content: {
+        summary: parsed.summary,
+        skills: parsed.skills,
+        experience: parsed.experience,
+        projects: parsed.projects,
+        education: parsed.education || originalResume.content.education,
+      },
+      metadata: {
+        ...originalResume.metadata,
+        hash: this.generateHash(parsed),
+      },
+    };
   }
 
-  private parseMatchScore(response: string): number {
-    try {
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return parsed.totalScore || parsed.score || 0;
-      }
-      
-      // Try to find a number in the response
-      const numberMatch = response.match(/\d+/);
-      return numberMatch ? parseInt(numberMatch[0], 10) : 0;
-    } catch (error) {
-      this.logger.warn('Failed to parse match score', error);
-      return 0;
-    }
+  private trackUsage(result: any): void {
+    const usage = result.response?.usageMetadata;
+    this.recordUsage(usage?.promptTokenCount, usage?.candidatesTokenCount);
   }
 
   private generateId(): string {
@@ -530,87 +301,23 @@ Provide a score from 0-100 and breakdown:
     }
 
     const language = options?.language || process.env.FAJ_RESUME_LANGUAGE || 'zh';
-    const languageInstr = this.getLanguageInstructions(language);
-    
-    const prompt = `You are an elite resume writer specializing in transforming brief work descriptions into comprehensive, impressive career narratives.
-
-${languageInstr}
-
-WORK EXPERIENCE TO ENHANCE:
-Company: ${experience.company}
-Position: ${experience.title}
-Duration: ${experience.startDate} to ${experience.endDate || 'Present'}
-User's Brief Input: ${experience.description || experience.rawDescription || 'No description provided'}
-Current Highlights (if any): ${experience.highlights?.join('; ') || 'None'}
-
-YOUR MISSION - Create an EXCEPTIONAL and COMPREHENSIVE experience entry:
-
-1. CRAFT A RICH DESCRIPTION (6-8 sentences minimum):
-   • Open with a powerful statement about the role's strategic importance and scope
-   • Detail primary responsibilities and areas of ownership (technical leadership, system architecture, team collaboration)
-   • Describe the technical environment (technologies, tools, methodologies, scale of systems)
-   • Highlight cross-functional collaboration and stakeholder management
-   • Include team dynamics (team size, mentoring, leading initiatives)
-   • Quantify the business impact and value delivered (revenue, cost savings, efficiency gains)
-   • Show career progression and skill expansion during this role
-   • Add context about the company's industry position and your role's contribution to it
-
-2. CREATE 7-10 ACHIEVEMENT BULLET POINTS that showcase:
-   • Start each with dynamic action verbs (Architected, Pioneered, Orchestrated, Revolutionized, Spearheaded, Transformed)
-   • Include hard metrics in EVERY bullet (percentages, dollar amounts, time savings, scale)
-   • Technical achievements (system architecture, performance optimization, innovation)
-   • Leadership accomplishments (team building, mentoring, process improvement)
-   • Business impact (revenue generation, cost reduction, efficiency gains)
-   • Problem-solving examples (critical issues resolved, technical challenges overcome)
-   • Innovation and initiatives (new tools introduced, processes created, standards established)
-   • Cross-team collaboration and influence
-   • Recognition and awards received
-
-3. APPLY INTELLIGENT REASONING to enhance the content:
-   • Based on the title "${experience.title}", infer typical high-level responsibilities
-   • Consider industry best practices and methodologies relevant to this role
-   • Add reasonable metrics based on typical achievements in similar positions:
-     - Senior roles: 20-40% improvements, $1M+ impact, 10+ team members
-     - Mid-level: 15-30% improvements, $100K-1M impact, 5-10 team members
-     - Junior: 10-20% improvements, measurable but smaller scale impact
-   • Expand the technical stack based on mentioned technologies and their ecosystems
-   • Include relevant soft skills and leadership qualities demonstrated
-
-4. METRICS AND QUANTIFICATION GUIDELINES:
-   • Performance improvements: "Optimized API response time by 75%, from 800ms to 200ms"
-   • Scale indicators: "Managed microservices handling 50M+ daily requests"
-   • Team impact: "Led cross-functional team of 12 engineers across 3 time zones"
-   • Cost savings: "Reduced infrastructure costs by $2.5M annually through optimization"
-   • Productivity gains: "Increased deployment frequency by 300% through CI/CD implementation"
-   • Quality metrics: "Achieved 99.9% uptime SLA for critical services"
-   • Growth indicators: "Scaled platform from 10K to 1M+ active users"
-
-5. PROFESSIONAL TONE AND KEYWORDS:
-   • Use industry-specific terminology and acronyms appropriately
-   • Include keywords relevant for ATS (Applicant Tracking Systems)
-   • Balance technical depth with business understanding
-   • Demonstrate both individual contribution and team collaboration
-   • Show progression from technical execution to strategic thinking
-
-Provide the enhanced experience in JSON format:
-{
-  "description": "A comprehensive 6-8 sentence description showcasing the full scope and impact of the role...",
-  "highlights": [
-    "Architected and deployed scalable microservices handling 10M+ daily transactions with 99.99% uptime...",
-    "Led cross-functional team of 15 engineers to deliver $3M revenue-generating platform 2 months ahead of schedule...",
-    "Optimized database queries reducing response time by 85% and saving $500K annually in infrastructure costs...",
-    "Pioneered automated testing framework increasing code coverage from 45% to 95% and reducing bugs by 70%...",
-    "Mentored 8 junior developers, with 100% promotion rate within 18 months...",
-    "Implemented DevOps best practices reducing deployment time from 4 hours to 15 minutes...",
-    "At least 7-10 impressive, metric-rich bullet points total..."
-  ]
-}`;
+
+    const prompt = await PromptRegistry.getInstance().render('gemini.polish', {
+      languageInstructions: this.getLanguageInstructions(language),
+      company: experience.company,
+      title: experience.title,
+      startDate: experience.startDate,
+      endDate: experience.endDate || 'Present',
+      description: experience.description || experience.rawDescription || 'No description provided',
+      highlights: experience.highlights?.join('; ') || 'None',
+    });
 
     try {
       const model = this.client.getGenerativeModel({ model: this.model! });
       const result = await this.executeWithRetry(async () => {
         return await model.generateContent(prompt);
       });
+      this.trackUsage(result);
 
       const response = result.response.text();
       const jsonMatch = response.match(/\{[\s\S]*\}/);
@@ -641,16 +348,20 @@ Provide the enhanced experience in JSON format:
     }
   }
 
-  async processGeneralPrompt(prompt: string): Promise<string> {
+  async processGeneralPrompt(prompt: string, options?: RequestOptions): Promise<string> {
     if (!this.client) {
       throw new Error('Gemini client not initialized');
     }
 
     try {
-      const model = this.client.getGenerativeModel({ model: this.model! });
-      const result = await this.executeWithRetry(async () => {
-        return await model.generateContent(prompt);
+      const model = this.client.getGenerativeModel({
+        model: this.model!,
+        ...(options?.temperature !== undefined ? { generationConfig: { temperature: options.temperature } } : {}),
       });
+      const result = await this.executeWithRetry(async () => {
+        return await model.generateContent(prompt, { signal: options?.signal });
+      }, 3, 1000, options?.signal);
+      this.trackUsage(result);
 
       return result.response.text();
     } catch (error) {
@@ -659,6 +370,50 @@ Provide the enhanced experience in JSON format:
     }
   }
 
+  protected async processJSONPrompt(prompt: string, options?: RequestOptions): Promise<string> {
+    if (!this.client) {
+      throw new Error('Gemini client not initialized');
+    }
+
+    const model = this.client.getGenerativeModel({
+      model: this.model!,
+      generationConfig: { responseMimeType: 'application/json', temperature: options?.temperature },
+    });
+    const result = await this.executeWithRetry(async () => {
+      return await model.generateContent(prompt, { signal: options?.signal });
+    }, 3, 1000, options?.signal);
+    this.trackUsage(result);
+
+    return result.response.text();
+  }
+
+  async *streamGeneralPrompt(
+    prompt: string,
+    options?: RequestOptions & { json?: boolean }
+  ): AsyncGenerator<string> {
+    if (!this.client) {
+      throw new Error('Gemini client not initialized');
+    }
+
+    const model = this.client.getGenerativeModel({
+      model: this.model!,
+      generationConfig: {
+        ...(options?.json ? { responseMimeType: 'application/json' } : {}),
+        temperature: options?.temperature,
+      },
+    });
+    const result = await model.generateContentStream(prompt, { signal: options?.signal });
+
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) {
+        yield text;
+      }
+    }
+    // The aggregated response carries the final usage metadata
+    this.trackUsage({ response: await result.response });
+  }
+
   protected getLanguageInstructions(language: string): string {
     const instructions: { [key: string]: string } = {
       'zh': `LANGUAGE REQUIREMENT: Generate the ENTIRE resume in Chinese (中文).
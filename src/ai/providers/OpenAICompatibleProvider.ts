@@ -0,0 +1,266 @@
+import { BaseAIProvider, RequestOptions, AVAILABILITY_TIMEOUT_MS } from './BaseProvider';
+import { PromptRegistry } from '../prompts/PromptRegistry';
+import { MatchScoreResultSchema, ProjectAnalysisResultSchema, ResumeContentSchema } from '../schemas';
+import { ProjectAnalysis, Resume, JobRequirement, AIProvider } from '../../models';
+
+// Only the summary is generated; everything else comes from the profile and the analysis
+const ResumeSummarySchema = ResumeContentSchema.pick({ summary: true });
+
+/**
+ * Provider for any server speaking the OpenAI chat-completions protocol
+ * (Ollama, llama.cpp server, vLLM, LM Studio...). The API key is optional
+ * since most local servers don't require one. Hosted services with the
+ * same protocol, such as DeepSeek, extend it with a fixed base URL.
+ */
+export class OpenAICompatibleProvider extends BaseAIProvider {
+  protected baseURL: string;
+  // Recorded on generated resumes as the provider that wrote them
+  protected providerId: AIProvider = 'openai-compatible' as AIProvider;
+
+  constructor(baseURL: string, model: string, apiKey?: string, name: string = 'OpenAI-Compatible') {
+    super(name, apiKey, model);
+    // Strip trailing slashes so `${baseURL}/chat/completions` is well-formed
+    this.baseURL = baseURL.replace(/\/+$/, '');
+  }
+
+  async isAvailable(): Promise<boolean> {
+    if (!this.baseURL) {
+      this.logger.warn(`${this.name} base URL not configured`);
+      return false;
+    }
+
+    try {
+      const response = await fetch(`${this.baseURL}/models`, {
+        method: 'GET',
+        headers: this.buildHeaders(),
+        signal: AbortSignal.timeout(AVAILABILITY_TIMEOUT_MS)
+      });
+
+      if (response.ok) {
+        this.logger.info(`${this.name} API is available at ${this.baseURL}`);
+        return true;
+      } else {
+        this.logger.error(`${this.name} API check failed: ${response.status}`);
+        return false;
+      }
+    } catch (error: any) {
+      this.logger.error(`Failed to reach ${this.name} server at ${this.baseURL}: ${error.message}`);
+      return false;
+    }
+  }
+
+  async processPrompt(prompt: string, jsonMode: boolean = false, signal?: AbortSignal, temperature?: number): Promise<string> {
+    try {
+      return await this.executeWithRetry(async () => {
+        const response = await fetch(`${this.baseURL}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...this.buildHeaders()
+          },
+          body: JSON.stringify({ ...this.buildRequestBody(prompt, jsonMode, temperature), stream: false }),
+          signal
+        });
+
+        if (!response.ok) {
+          throw await this.httpError(this.name, response);
+        }
+
+        const data: any = await response.json();
+        this.recordUsage(data.usage?.prompt_tokens, data.usage?.completion_tokens);
+        return data.choices?.[0]?.message?.content || '';
+      }, 3, 1000, signal);
+    } catch (error: any) {
+      this.logger.error(`Failed to process prompt: ${error.message}`);
+      throw error;
+    }
+  }
+
+  async processGeneralPrompt(prompt: string, options?: RequestOptions): Promise<string> {
+    return this.processPrompt(prompt, false, options?.signal, options?.temperature);
+  }
+
+  protected async processJSONPrompt(prompt: string, options?: RequestOptions): Promise<string> {
+    return this.processPrompt(prompt, true, options?.signal, options?.temperature);
+  }
+
+  async *streamGeneralPrompt(
+    prompt: string,
+    options?: RequestOptions & { json?: boolean }
+  ): AsyncGenerator<string> {
+    const response = await fetch(`${this.baseURL}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.buildHeaders()
+      },
+      body: JSON.stringify({ ...this.buildRequestBody(prompt, !!options?.json, options?.temperature), ...this.streamParameters() }),
+      signal: options?.signal
+    });
+
+    if (!response.ok) {
+      throw await this.httpError(this.name, response);
+    }
+
+    for await (const event of this.readServerSentEvents(response)) {
+      if (event.usage) {
+        this.recordUsage(event.usage.prompt_tokens, event.usage.completion_tokens);
+      }
+      // Reasoning models also stream reasoning_content; only the answer is yielded
+      const text = event.choices?.[0]?.delta?.content;
+      if (text) {
+        yield text;
+      }
+    }
+  }
+
+  async analyzeProject(project: ProjectAnalysis, options?: RequestOptions): Promise<{
+    summary: string;
+    skills: string[];
+    highlights: string[];
+  }> {
+    const languages = Array.from(project.languages.keys());
+
+    const prompt = await PromptRegistry.getInstance().render('openai-compatible.analyze', {
+      name: project.name,
+      description: project.description || 'No description',
+      technologies: languages.join(', '),
+      frameworks: project.frameworks.join(', ') || 'None',
+      filesCount: project.metrics.filesCount,
+      linesOfCode: project.metrics.linesOfCode,
+    });
+
+    return this.generateStructured(prompt, ProjectAnalysisResultSchema, 'analyze', options);
+  }
+
+  async generateResume(projects: ProjectAnalysis[], profile: any, options?: RequestOptions): Promise<Resume> {
+    const experiences: any[] = (profile.realExperiences || []).map((exp: any) => ({
+      title: exp.title,
+      company: exp.company,
+      location: exp.location,
+      startDate: exp.startDate,
+      endDate: exp.endDate,
+      current: exp.current,
+      description: exp.description,
+      highlights: exp.highlights || [],
+      technologies: exp.technologies || []
+    }));
+
+    const prompt = await PromptRegistry.getInstance().render('openai-compatible.resume', {
+      name: profile.name,
+      location: profile.location || 'Not specified',
+      languages: profile.languages?.join(', ') || 'English',
+      experience: experiences.length > 0
+        ? `Work experience (real positions, do not invent others): ${JSON.stringify(experiences.map(e => ({
+          title: e.title,
+          company: e.company,
+          startDate: e.startDate,
+          endDate: e.endDate || 'Present',
+          description: e.description
+        })))}`
+        : '',
+      projects: JSON.stringify(projects.map(p => ({
+        name: p.name,
+        description: p.description,
+        technologies: Array.from(p.languages.keys()),
+        metrics: p.metrics
+      }))),
+    });
+
+    const { summary } = await this.generateStructured(prompt, ResumeSummarySchema, 'generate', options);
+
+    const allLanguages = new Set<string>();
+    const allFrameworks = new Set<string>();
+
+    projects.forEach(p => {
+      Array.from(p.languages.keys()).forEach(lang => allLanguages.add(lang));
+      p.frameworks.forEach(fw => allFrameworks.add(fw));
+    });
+
+    return {
+      id: `resume_${Date.now()}`,
+      developerId: profile.id || 'user',
+      version: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      aiProvider: this.providerId,
+      basicInfo: {
+        name: profile.name,
+        email: profile.email,
+        phone: profile.phone || '',
+        location: profile.location || '',
+        languages: profile.languages || ['English'],
+        githubUrl: profile.github || '',
+        linkedinUrl: profile.linkedin || ''
+      },
+      content: {
+        summary,
+        // The user's own positions, as entered; the prompt only asks for a summary
+        experience: experiences,
+        projects: projects.map(p => ({
+          name: p.name,
+          description: p.description || '',
+          role: 'Developer',
+          technologies: Array.from(p.languages.keys()),
+          highlights: p.highlights || [],
+          metrics: {
+            stars: 0,
+            forks: 0,
+            contributors: p.metrics.contributorsCount
+          }
+        })),
+        education: profile.education || [],
+        skills: Array.from(allLanguages).concat(Array.from(allFrameworks)).map(skill => ({
+          name: skill,
+          level: 'intermediate' as const,
+          category: 'language' as const
+        }))
+      },
+      metadata: {
+        hash: `hash_${Date.now()}`,
+        published: false
+      }
+    };
+  }
+
+  async updateResume(resume: Resume, changes: Partial<Resume>): Promise<Resume> {
+    return { ...resume, ...changes };
+  }
+
+  async matchScore(resume: Resume, job: JobRequirement, options?: RequestOptions): Promise<number> {
+    const prompt = await PromptRegistry.getInstance().render('openai-compatible.match', {
+      skills: JSON.stringify(resume.content.skills),
+      job: JSON.stringify(job),
+    });
+
+    const result = await this.generateStructured(prompt, MatchScoreResultSchema, 'match', options);
+    return result.totalScore;
+  }
+
+  protected buildRequestBody(prompt: string, jsonMode: boolean, temperature: number = 0.7): Record<string, any> {
+    return {
+      model: this.model,
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a professional resume writer and career consultant. Help create and enhance resumes for job seekers. Be precise and professional.'
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      temperature,
+      ...(jsonMode ? { response_format: { type: 'json_object' } } : {})
+    };
+  }
+
+  // Extra body fields for streaming requests; not every server reports usage when streaming
+  protected streamParameters(): Record<string, any> {
+    return { stream: true };
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    return this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {};
+  }
+}
@@ -1,5 +1,7 @@
-import { BaseAIProvider } from './BaseProvider';
+import { BaseAIProvider, RequestOptions } from './BaseProvider';
 import { ProjectAnalysis, Resume, JobRequirement } from '../../models';
+import { PromptRegistry } from '../prompts/PromptRegistry';
+import { MatchScoreResultSchema, ProjectAnalysisResultSchema, ResumeContentSchema } from '../schemas';
 import OpenAI from 'openai';
 
 export class OpenAIProvider extends BaseAIProvider {
@@ -24,11 +26,13 @@ export class OpenAIProvider extends BaseAIProvider {
     }
   }
 
-  async processPrompt(prompt: string): Promise<string> {
+  async processPrompt(prompt: string, jsonMode: boolean = false, signal?: AbortSignal, temperature?: number): Promise<string> {
     try {
       // Use chat completions API which should work with both old and new models
       const completion = await this.client.chat.completions.create({
         model: this.model || 'gpt-5',
+        ...(jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+        ...(temperature !== undefined ? { temperature } : {}),
         messages: [
           {
             role: 'system',
@@ -39,8 +43,9 @@ export class OpenAIProvider extends BaseAIProvider {
             content: prompt
           }
         ]
-      });
+      }, { signal });
 
+      this.recordUsage(completion.usage?.prompt_tokens, completion.usage?.completion_tokens);
       return completion.choices[0]?.message?.content || '';
     } catch (error: any) {
       this.logger.error(`Failed to process prompt: ${error.message}`);
@@ -48,12 +53,53 @@ export class OpenAIProvider extends BaseAIProvider {
     }
   }
 
-  async processGeneralPrompt(prompt: string): Promise<string> {
+  async processGeneralPrompt(prompt: string, options?: RequestOptions): Promise<string> {
     // For general prompts, just use processPrompt
-    return this.processPrompt(prompt);
+    return this.processPrompt(prompt, false, options?.signal, options?.temperature);
   }
 
-  async analyzeProject(project: ProjectAnalysis): Promise<{
+  protected async processJSONPrompt(prompt: string, options?: RequestOptions): Promise<string> {
+    return this.processPrompt(prompt, true, options?.signal, options?.temperature);
+  }
+
+  async *streamGeneralPrompt(
+    prompt: string,
+    options?: RequestOptions & { json?: boolean }
+  ): AsyncGenerator<string> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: this.model || 'gpt-5',
+        ...(options?.json ? { response_format: { type: 'json_object' as const } } : {}),
+        ...(options?.temperature !== undefined ? { temperature: options.temperature } : {}),
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a professional resume writer and career consultant. Help create and enhance resumes for job seekers.'
+          },
+          {
+            role: 'user',
+            content: prompt
+          }
+        ],
+        stream: true,
+        stream_options: { include_usage: true }
+      },
+      { signal: options?.signal }
+    );
+
+    for await (const chunk of stream) {
+      // With include_usage the final chunk carries usage and no choices
+      if (chunk.usage) {
+        this.recordUsage(chunk.usage.prompt_tokens, chunk.usage.completion_tokens);
+      }
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) {
+        yield text;
+      }
+    }
+  }
+
+  async analyzeProject(project: ProjectAnalysis, options?: RequestOptions): Promise<{
     summary: string;
     skills: string[];
     highlights: string[];
@@ -61,35 +107,20 @@ export class OpenAIProvider extends BaseAIProvider {
     // Convert Map to array of language names
     const languages = Array.from(project.languages.keys());
     
-    const prompt = `Analyze this software project and provide:
-1. A concise professional summary (2-3 sentences)
-2. List of technical skills used
-3. 3-5 key highlights/achievements
-
-Project: ${project.name}
-Description: ${project.description || 'No description'}
-Technologies: ${languages.join(', ')}
-Frameworks: ${project.frameworks.join(', ') || 'None'}
-Code metrics: ${project.metrics.filesCount} files, ${project.metrics.linesOfCode} lines of code
-
-Provide the response in this JSON format:
-{
-  "summary": "...",
-  "skills": ["skill1", "skill2", ...],
-  "highlights": ["highlight1", "highlight2", ...]
-}`;
+    const prompt = await PromptRegistry.getInstance().render('openai.analyze', {
+      name: project.name,
+      description: project.description || 'No description',
+      technologies: languages.join(', '),
+      frameworks: project.frameworks.join(', ') || 'None',
+      filesCount: project.metrics.filesCount,
+      linesOfCode: project.metrics.linesOfCode,
+    });
 
     try {
-      const response = await this.processPrompt(prompt);
-      return JSON.parse(response);
+      return await this.generateStructured(prompt, ProjectAnalysisResultSchema, 'analyze', options);
     } catch (error) {
       this.logger.error('Failed to analyze project with OpenAI', error);
-      // Return default response if parsing fails
-      return {
-        summary: `${project.name}: A ${languages[0] || 'software'} project with ${project.metrics.filesCount} files.`,
-        skills: languages,
-        highlights: [`${project.metrics.linesOfCode} lines of code`, `Uses ${languages.length} technologies`]
-      };
+      throw error;
     }
   }
 
@@ -101,54 +132,11 @@ Provide the response in this JSON format:
     description: string;
     highlights: string[];
   }> {
-    const prompt = `Transform this work experience into a comprehensive and impressive resume entry:
-
-Position: ${experience.title}
-Company: ${experience.company}
-User's Input: ${experience.rawDescription}
-
-Your task is to expand and enhance this experience while keeping it authentic and realistic. 
-
-IMPORTANT GUIDELINES:
-1. Create a DETAILED professional description (4-6 sentences minimum) that:
-   - Starts with a strong action verb describing the primary role
-   - Includes specific responsibilities and scope of work
-   - Mentions team size, project scale, or impact when relevant
-   - Highlights the technologies, methodologies, or tools used
-   - Shows progression or growth in the role
-   - Quantifies achievements with realistic metrics when possible
-
-2. Generate 5-7 specific achievements that:
-   - Begin with strong action verbs (Led, Developed, Implemented, Optimized, etc.)
-   - Include quantifiable results when appropriate (improved by X%, reduced by Y hours, etc.)
-   - Show technical skills and business impact
-   - Demonstrate leadership, collaboration, or innovation
-   - Are relevant to the ${experience.title} role at a company like ${experience.company}
-
-3. Make reasonable inferences based on:
-   - The job title and typical responsibilities for that role
-   - The company type and industry standards
-   - Technologies mentioned or commonly used in such positions
-   - Common challenges and achievements in similar roles
-
-4. Keep the content:
-   - Professional and credible
-   - Specific enough to be impressive but not unbelievable
-   - Relevant to modern industry practices
-   - Rich with industry-appropriate keywords
-
-Format as JSON:
-{
-  "description": "A comprehensive 4-6 sentence description...",
-  "highlights": [
-    "Detailed achievement with metrics...",
-    "Specific technical accomplishment...",
-    "Leadership or collaboration example...",
-    "Process improvement with results...",
-    "Innovation or problem-solving instance...",
-    "At least 5 bullet points total..."
-  ]
-}`;
+    const prompt = await PromptRegistry.getInstance().render('openai.polish', {
+      title: experience.title,
+      company: experience.company,
+      rawDescription: experience.rawDescription,
+    });
 
     try {
       const response = await this.processPrompt(prompt);
@@ -163,69 +151,116 @@ Format as JSON:
     }
   }
 
-  async generateResume(profile: any, requirements?: JobRequirement): Promise<Resume> {
-    const prompt = `Create a professional resume based on this profile:
+  async generateResume(projects: ProjectAnalysis[], profile: any, options?: RequestOptions): Promise<Resume> {
+    const prompt = await PromptRegistry.getInstance().render('openai.resume', {
+      profile: JSON.stringify(profile, null, 2),
+      projects: JSON.stringify(projects.map((p) => ({
+        name: p.name,
+        description: p.description,
+        languages: Array.from(p.languages.keys()),
+        frameworks: p.frameworks,
+        libraries: p.libraries,
+        linesOfCode: p.metrics.linesOfCode,
+        filesCount: p.metrics.filesCount,
+      })), null, 2),
+    });
 
-${JSON.stringify(profile, null, 2)}
+    try {
+      const parsed = await this.generateStructured(prompt, ResumeContentSchema, 'generate', options);
 
-${requirements ? `Target job requirements: ${JSON.stringify(requirements, null, 2)}` : ''}
+      const basicInfo: any = {
+        name: profile.name,
+        email: profile.email,
+      };
 
-Generate a complete resume in JSON format with:
-- Professional summary
-- Work experiences with highlights
-- Skills categorized by type
-- Projects if applicable
+      if (profile.phone) basicInfo.phone = profile.phone;
+      if (profile.location) basicInfo.location = profile.location;
+      if (profile.languages && profile.languages.length > 0) basicInfo.languages = profile.languages;
+      if (profile.githubUsername) basicInfo.githubUrl = `https://github.com/${profile.githubUsername}`;
+      if (profile.linkedinUrl) basicInfo.linkedinUrl = profile.linkedinUrl;
+      if (profile.portfolioUrl) basicInfo.portfolioUrl = profile.portfolioUrl;
 
-Format the response as a valid JSON object.`;
+      const education = profile.education
+        ? (Array.isArray(profile.education) ? profile.education : [profile.education]).filter(Boolean)
+        : [];
 
-    try {
-      const response = await this.processPrompt(prompt);
-      return JSON.parse(response);
+      return {
+        id: this.generateId(),
+        developerId: profile.id || this.generateId(),
+        version: 1,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        aiProvider: 'openai',
+        basicInfo,
+        content: {
+          summary: parsed.summary,
+          skills: parsed.skills,
+          experience: parsed.experience,
+          projects: parsed.projects,
+          education,
+        },
+        metadata: {
+          hash: this.generateHash(parsed),
+          published: false,
+        },
+      };
     } catch (error) {
       this.logger.error('Failed to generate resume', error);
-      throw new Error('Failed to generate resume with OpenAI');
+      throw error;
     }
   }
 
   async updateResume(
     resume: Resume,
-    changes: Partial<Resume>
+    changes: Partial<Resume>,
+    options?: RequestOptions
   ): Promise<Resume> {
-    const prompt = `Update this resume with the following changes:
-
-Current resume: ${JSON.stringify(resume, null, 2)}
-Changes to apply: ${JSON.stringify(changes, null, 2)}
-
-Return the updated resume as a JSON object.`;
+    const prompt = await PromptRegistry.getInstance().render('openai.update', {
+      resume: JSON.stringify(resume.content, null, 2),
+      changes: JSON.stringify(changes, null, 2),
+    });
 
     try {
-      const response = await this.processPrompt(prompt);
-      return JSON.parse(response);
+      const parsed = await this.generateStructured(prompt, ResumeContentSchema, 'update', options);
+
+      return {
+        ...resume,
+        version: resume.version + 1,
+        updatedAt: new Date(),
+        content: {
+          summary: parsed.summary,
+          skills: parsed.skills,
+          experience: parsed.experience,
+          projects: parsed.projects,
+          education: parsed.education || resume.content.education,
+        },
+        metadata: {
+          ...resume.metadata,
+          hash: this.generateHash(parsed),
+        },
+      };
     } catch (error) {
       this.logger.error('Failed to update resume', error);
-      // Return original resume if update fails
-      return resume;
+      throw error;
     }
   }
 
   async matchScore(
     resume: Resume,
-    requirements: JobRequirement
+    requirements: JobRequirement,
+    options?: RequestOptions
   ): Promise<number> {
-    const prompt = `Calculate a match score (0-100) for this resume against the job requirements:
-
-Resume: ${JSON.stringify(resume, null, 2)}
-Job Requirements: ${JSON.stringify(requirements, null, 2)}
-
-Return only the numerical score.`;
+    const prompt = await PromptRegistry.getInstance().render('openai.match', {
+      resume: JSON.stringify(resume, null, 2),
+      requirements: JSON.stringify(requirements, null, 2),
+    });
 
     try {
-      const response = await this.processPrompt(prompt);
-      const score = parseInt(response.trim(), 10);
-      return isNaN(score) ? 0 : Math.min(100, Math.max(0, score));
+      const result = await this.generateStructured(prompt, MatchScoreResultSchema, 'match', options);
+      return result.totalScore;
     } catch (error) {
       this.logger.error('Failed to calculate match score', error);
-      return 0;
+      throw error;
     }
   }
 
@@ -235,24 +270,10 @@ Return only the numerical score.`;
     gaps: string[];
     suggestions: string[];
   }> {
-    const prompt = `Analyze how well this resume matches the job requirements:
-
-Resume: ${JSON.stringify(resume, null, 2)}
-Job Requirements: ${JSON.stringify(requirements, null, 2)}
-
-Provide:
-1. Match score (0-100)
-2. Key strengths that match requirements
-3. Gaps or missing qualifications
-4. Suggestions for improvement
-
-Format as JSON:
-{
-  "score": 85,
-  "strengths": ["strength1", "strength2"],
-  "gaps": ["gap1", "gap2"],
-  "suggestions": ["suggestion1", "suggestion2"]
-}`;
+    const prompt = await PromptRegistry.getInstance().render('openai.match-report', {
+      resume: JSON.stringify(resume, null, 2),
+      requirements: JSON.stringify(requirements, null, 2),
+    });
 
     try {
       const response = await this.processPrompt(prompt);
@@ -267,4 +288,12 @@ Format as JSON:
       };
     }
   }
-}
\ No newline at end of file
+
+  private generateId(): string {
+    return Math.random().toString(36).substring(2, 15);
+  }
+
+  private generateHash(data: any): string {
+    return Buffer.from(JSON.stringify(data)).toString('base64').substring(0, 16);
+  }
+}
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { BaseAIProvider, StreamOptions } from './BaseProvider';
+import { ProjectAnalysis, Resume, JobRequirement } from '../../models';
+import { Cassette, CassetteKind } from '../Cassette';
+import { CassetteMissError, StructuredOutputError } from '../errors';
+import { parseStructuredOutput } from '../schemas';
+
+/**
+ * Answers every request from a recorded cassette instead of calling an API.
+ * Requests are matched by hash, so the inputs must be identical to the
+ * recorded session.
+ */
+export class ReplayProvider extends BaseAIProvider {
+  constructor(private cassette: Cassette) {
+    super('Replay', undefined, 'cassette');
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async analyzeProject(project: ProjectAnalysis): Promise<{
+    summary: string;
+    skills: string[];
+    highlights: string[];
+  }> {
+    return JSON.parse(await this.replay('analyze', project));
+  }
+
+  async generateResume(projects: ProjectAnalysis[], profile: any): Promise<Resume> {
+    return JSON.parse(await this.replay('generate', { projects, profile }));
+  }
+
+  async updateResume(resume: Resume, changes: Partial<Resume>): Promise<Resume> {
+    return JSON.parse(await this.replay('update', { resume, changes }));
+  }
+
+  async matchScore(resume: Resume, job: JobRequirement): Promise<number> {
+    return Number(JSON.parse(await this.replay('match', { resume, job })));
+  }
+
+  async processGeneralPrompt(prompt: string): Promise<string> {
+    return this.replay('prompt', prompt);
+  }
+
+  /**
+   * Structured results are recorded after validation, so they are parsed
+   * directly without the JSON instructions or repair round-trip.
+   */
+  async generateStructured<T>(prompt: string, schema: z.ZodType<T>, task: string, options?: StreamOptions): Promise<T> {
+    const response = await this.replay('json', prompt);
+    options?.onChunk?.(response);
+
+    const parsed = parseStructuredOutput(response, schema);
+    if (!parsed.success) {
+      throw new StructuredOutputError(task, parsed.issues, response);
+    }
+    return parsed.data!;
+  }
+
+  private async replay(kind: CassetteKind, request: unknown): Promise<string> {
+    const entry = await this.cassette.lookup(kind, request);
+    if (!entry) {
+      throw new CassetteMissError(kind, this.cassette.getPath() || 'cassette');
+    }
+    this.logger.debug(`Replaying ${kind} response recorded from ${entry.provider}/${entry.model}`);
+    return entry.response;
+  }
+}
@@ -0,0 +1,188 @@
+import { z } from 'zod';
+
+// Schemas for every AI task that expects structured output. Providers
+// validate responses against these instead of scraping free-form text.
+
+export const PolishResultSchema = z.object({
+  description: z.string().min(1),
+  highlights: z.array(z.string().min(1)),
+  technologies: z.array(z.string()).optional(),
+});
+
+export type PolishResult = z.infer<typeof PolishResultSchema>;
+
+export const ProjectAnalysisResultSchema = z.object({
+  summary: z.string().min(1),
+  skills: z.array(z.string()),
+  highlights: z.array(z.string()),
+});
+
+export type ProjectAnalysisResult = z.infer<typeof ProjectAnalysisResultSchema>;
+
+export const ResumeContentSchema = z.object({
+  summary: z.string().min(1),
+  skills: z.array(z.object({
+    name: z.string().min(1),
+    level: z.enum(['beginner', 'intermediate', 'advanced', 'expert']),
+    category: z.enum(['language', 'framework', 'tool', 'database', 'other']),
+  })),
+  experience: z.array(z.object({
+    title: z.string().min(1),
+    company: z.string().min(1),
+    location: z.string().optional(),
+    startDate: z.string(),
+    endDate: z.string().optional(),
+    current: z.boolean().optional(),
+    description: z.string(),
+    highlights: z.array(z.string()),
+    technologies: z.array(z.string()).optional(),
+  })),
+  projects: z.array(z.object({
+    name: z.string().min(1),
+    description: z.string(),
+    role: z.string().optional(),
+    technologies: z.array(z.string()),
+    highlights: z.array(z.string()),
+  })),
+  // Left out when the model has nothing to add to the profile's own education
+  education: z.array(z.object({
+    institution: z.string().min(1),
+    degree: z.string().optional(),
+    field: z.string().optional(),
+    startDate: z.string().optional(),
+    endDate: z.string().optional(),
+    current: z.boolean().optional(),
+  })).optional(),
+});
+
+export type ResumeContentResult = z.infer<typeof ResumeContentSchema>;
+
+export const MatchScoreResultSchema = z.object({
+  totalScore: z.number().min(0).max(100),
+  breakdown: z.record(z.number()).optional(),
+});
+
+export type MatchScoreResult = z.infer<typeof MatchScoreResultSchema>;
+
+export const MatchAssessmentSchema = z.object({
+  requirements: z.array(z.object({
+    requirement: z.string().min(1),
+    status: z.enum(['matched', 'partial', 'missing']),
+    // Ids of resume sections, e.g. "E1" or "P2"
+    evidence: z.array(z.string()),
+    reason: z.string().optional(),
+  })).min(1),
+  keywords: z.array(z.string().min(1)),
+  skillsScore: z.number().min(0).max(100),
+  experienceScore: z.number().min(0).max(100),
+});
+
+export type MatchAssessment = z.infer<typeof MatchAssessmentSchema>;
+
+export const ResumeEditSchema = z.object({
+  op: z.enum(['set', 'insert', 'remove']),
+  // Path inside Resume.content, e.g. "summary" or "experience[1].highlights[0]"
+  path: z.string().min(1),
+  value: z.unknown().optional(),
+});
+
+export type ResumeEdit = z.infer<typeof ResumeEditSchema>;
+
+export const ResumeChatReplySchema = z.object({
+  reply: z.string(),
+  edits: z.array(ResumeEditSchema),
+});
+
+export type ResumeChatReply = z.infer<typeof ResumeChatReplySchema>;
+
+export const TranslatedEntrySchema = z.object({
+  entry: z.union([z.string(), z.array(z.unknown()), z.record(z.unknown())]),
+});
+
+export type TranslatedEntry = z.infer<typeof TranslatedEntrySchema>;
+
+// Fields of an entry the model could not read reliably from the document
+const UncertainFieldsSchema = z.array(z.string()).optional();
+
+export const ParsedResumeSchema = z.object({
+  basicInfo: z.object({
+    name: z.string().optional(),
+    email: z.string().optional(),
+    phone: z.string().optional(),
+    location: z.string().optional(),
+    githubUrl: z.string().optional(),
+    linkedinUrl: z.string().optional(),
+    portfolioUrl: z.string().optional(),
+  }).optional(),
+  summary: z.string().optional(),
+  experience: z.array(z.object({
+    title: z.string(),
+    company: z.string(),
+    location: z.string().optional(),
+    startDate: z.string(),
+    endDate: z.string().optional(),
+    current: z.boolean().optional(),
+    description: z.string().optional(),
+    highlights: z.array(z.string()).optional(),
+    technologies: z.array(z.string()).optional(),
+    uncertain: UncertainFieldsSchema,
+  })).optional(),
+  projects: z.array(z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    highlights: z.array(z.string()).optional(),
+    technologies: z.array(z.string()).optional(),
+    url: z.string().optional(),
+    startDate: z.string().optional(),
+    endDate: z.string().optional(),
+    uncertain: UncertainFieldsSchema,
+  })).optional(),
+  education: z.array(z.object({
+    institution: z.string(),
+    degree: z.string().optional(),
+    field: z.string().optional(),
+    startDate: z.string().optional(),
+    endDate: z.string().optional(),
+    gpa: z.number().optional(),
+    uncertain: UncertainFieldsSchema,
+  })).optional(),
+  skills: z.array(z.string()).optional(),
+});
+
+export type ParsedResume = z.infer<typeof ParsedResumeSchema>;
+
+export interface StructuredParseResult<T> {
+  success: boolean;
+  data?: T;
+  issues: string[];
+}
+
+/**
+ * Extracts the JSON object from a model response (tolerating markdown
+ * fences and leading chatter) and validates it against the schema.
+ */
+export function parseStructuredOutput<T>(response: string, schema: z.ZodType<T>): StructuredParseResult<T> {
+  const cleaned = response.replace(/```(?:json)?\s*/g, '').trim();
+  const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
+
+  if (!jsonMatch) {
+    return { success: false, issues: ['response does not contain a JSON object'] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    return { success: false, issues: [`invalid JSON: ${(error as Error).message}`] };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (result.success) {
+    return { success: true, data: result.data, issues: [] };
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+  };
+}
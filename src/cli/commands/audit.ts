@@ -0,0 +1,158 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { AuditLog, AuditEntry, AuditFilter } from '../../ai/AuditLog';
+import { Logger } from '../../utils/Logger';
+
+const DEFAULT_LIMIT = 20;
+
+export class AuditCommand {
+  private logger: Logger;
+  private auditLog: AuditLog;
+
+  constructor() {
+    this.logger = new Logger('AuditCommand');
+    this.auditLog = AuditLog.getInstance();
+  }
+
+  register(program: Command): void {
+    const audit = program
+      .command('audit')
+      .description('List what was sent to AI providers (opt-in audit trail)')
+      .option('--provider <name>', 'Only show requests to this provider')
+      .option('--task <task>', 'Only show this task, e.g. polish or generate')
+      .option('--command <command>', 'Only show requests made by this CLI command')
+      .option('--since <date>', 'Only show requests from this date (YYYY-MM-DD)')
+      .option('--limit <n>', `Show the most recent n entries (default ${DEFAULT_LIMIT})`)
+      .option('--json', 'Print matching entries as JSON lines')
+      .action(async (options) => {
+        try {
+          await this.list(options);
+        } catch (error) {
+          this.logger.error('Failed to read audit log', error);
+          process.exit(1);
+        }
+      });
+
+    audit
+      .command('show <id>')
+      .description('Print one audit entry including the full request')
+      .action(async (id) => {
+        try {
+          await this.show(Number(id));
+        } catch (error) {
+          this.logger.error('Failed to read audit entry', error);
+          process.exit(1);
+        }
+      });
+
+    audit
+      .command('enable')
+      .description('Start recording every AI request')
+      .action(async () => {
+        try {
+          await this.auditLog.setEnabled(true);
+          console.log(chalk.green(`✓ Auditing enabled. Entries are appended to ${this.auditLog.getPath()}`));
+        } catch (error) {
+          this.logger.error('Failed to enable auditing', error);
+          process.exit(1);
+        }
+      });
+
+    audit
+      .command('disable')
+      .description('Stop recording AI requests (existing entries are kept)')
+      .action(async () => {
+        try {
+          await this.auditLog.setEnabled(false);
+          console.log(chalk.green('✓ Auditing disabled'));
+        } catch (error) {
+          this.logger.error('Failed to disable auditing', error);
+          process.exit(1);
+        }
+      });
+  }
+
+  private async list(options: any): Promise<void> {
+    const filter: AuditFilter = {
+      provider: options.provider,
+      task: options.task,
+      command: options.command,
+    };
+    if (options.since) {
+      // Parse as local midnight to match the dates shown in the listing
+      filter.since = new Date(`${options.since}T00:00:00`);
+      if (isNaN(filter.since.getTime())) {
+        console.log(chalk.red(`✗ Invalid date: ${options.since}`));
+        return;
+      }
+    }
+
+    const limit = options.limit ? Number(options.limit) : DEFAULT_LIMIT;
+    if (!(limit > 0)) {
+      console.log(chalk.red(`✗ Invalid limit: ${options.limit}`));
+      return;
+    }
+
+    const entries = (await this.auditLog.entries(filter)).slice(-limit);
+
+    if (options.json) {
+      entries.forEach(({ id, entry }) => console.log(JSON.stringify({ id, ...entry })));
+      return;
+    }
+
+    if (!(await this.auditLog.isEnabled())) {
+      console.log(chalk.yellow('Auditing is disabled. Turn it on with: faj audit enable\n'));
+    }
+    if (entries.length === 0) {
+      console.log(chalk.yellow('No audit entries found.'));
+      return;
+    }
+
+    console.log(chalk.cyan('\n🔍 AI Audit Trail\n'));
+    for (const { id, entry } of entries) {
+      this.printSummary(id, entry);
+    }
+    console.log(chalk.gray('\nShow the full request with: faj audit show <id>'));
+  }
+
+  private printSummary(id: number, entry: AuditEntry): void {
+    const time = new Date(entry.timestamp).toLocaleString();
+    const status = entry.error ? chalk.red('✗') : chalk.green('✓');
+    console.log(
+      `${status} ${chalk.white(`#${id}`)} ${chalk.gray(time)}  ${entry.provider}/${entry.model}  ${chalk.cyan(entry.task)}  ${chalk.gray(entry.command)}`
+    );
+
+    const details = [
+      `${entry.request.length.toLocaleString()} chars sent`,
+      entry.redacted ? 'redacted' : chalk.yellow('not redacted'),
+    ];
+    if (entry.responseDigest) {
+      details.push(`response ${entry.responseDigest.slice(0, 12)}`);
+    }
+    console.log(chalk.gray(`    ${details.join(' · ')}`));
+
+    if (entry.fields?.length) {
+      console.log(chalk.gray(`    fields: ${entry.fields.join(', ')}`));
+    }
+    if (entry.error) {
+      console.log(chalk.red(`    ${entry.error}`));
+    }
+  }
+
+  private async show(id: number): Promise<void> {
+    const entry = await this.auditLog.get(id);
+    if (!entry) {
+      console.log(chalk.red(`✗ No audit entry #${id}`));
+      return;
+    }
+
+    console.log();
+    this.printSummary(id, entry);
+    if (entry.responseDigest) {
+      console.log(chalk.gray(`    response sha256: ${entry.responseDigest} (${entry.responseLength} chars)`));
+    }
+    console.log(chalk.gray('─'.repeat(60)));
+    console.log(entry.request);
+    console.log(chalk.gray('─'.repeat(60)));
+  }
+}
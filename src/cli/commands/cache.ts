@@ -0,0 +1,126 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { ResponseCache } from '../../ai/ResponseCache';
+import { ConfigManager } from '../../core/config/ConfigManager';
+import { Logger } from '../../utils/Logger';
+
+export class CacheCommand {
+  private logger: Logger;
+  private responseCache: ResponseCache;
+  private configManager: ConfigManager;
+
+  constructor() {
+    this.logger = new Logger('CacheCommand');
+    this.responseCache = ResponseCache.getInstance();
+    this.configManager = ConfigManager.getInstance();
+  }
+
+  register(program: Command): void {
+    const cache = program
+      .command('cache')
+      .description('Manage the local AI response cache');
+
+    cache
+      .command('stats')
+      .description('Show AI response cache statistics')
+      .action(async () => {
+        try {
+          await this.showStats();
+        } catch (error) {
+          this.logger.error('Failed to read cache statistics', error);
+          process.exit(1);
+        }
+      });
+
+    cache
+      .command('clear')
+      .description('Remove cached AI responses')
+      .option('--expired', 'Only remove entries past their TTL')
+      .action(async (options) => {
+        try {
+          const removed = await this.responseCache.clear(!!options.expired);
+          console.log(chalk.green(`✓ Removed ${removed} cached response${removed === 1 ? '' : 's'}`));
+        } catch (error) {
+          this.logger.error('Failed to clear cache', error);
+          process.exit(1);
+        }
+      });
+
+    cache
+      .command('config')
+      .description('Change cache limits')
+      .option('--ttl <hours>', 'How long cached responses stay valid')
+      .option('--max-size <mb>', 'Maximum cache size on disk')
+      .option('--enable', 'Enable the cache')
+      .option('--disable', 'Disable the cache')
+      .action(async (options) => {
+        try {
+          await this.configure(options);
+        } catch (error) {
+          this.logger.error('Failed to configure cache', error);
+          process.exit(1);
+        }
+      });
+  }
+
+  private async configure(options: any): Promise<void> {
+    const updates: string[] = [];
+
+    if (options.ttl) {
+      const ttl = Number(options.ttl);
+      if (!(ttl > 0)) {
+        console.log(chalk.red(`✗ Invalid TTL: ${options.ttl}`));
+        return;
+      }
+      await this.configManager.setNested('ai.cache.ttlHours', ttl);
+      updates.push(`TTL set to ${ttl} hours`);
+    }
+
+    if (options.maxSize) {
+      const maxSize = Number(options.maxSize);
+      if (!(maxSize > 0)) {
+        console.log(chalk.red(`✗ Invalid size: ${options.maxSize}`));
+        return;
+      }
+      await this.configManager.setNested('ai.cache.maxSizeMB', maxSize);
+      updates.push(`Max size set to ${maxSize} MB`);
+    }
+
+    if (options.enable || options.disable) {
+      await this.configManager.setNested('ai.cache.enabled', !!options.enable);
+      updates.push(options.enable ? 'Cache enabled' : 'Cache disabled');
+    }
+
+    if (updates.length === 0) {
+      console.log(chalk.yellow('No changes made. See: faj cache config --help'));
+      return;
+    }
+
+    updates.forEach((u) => console.log(chalk.green(`✓ ${u}`)));
+  }
+
+  private async showStats(): Promise<void> {
+    const stats = await this.responseCache.stats();
+    const lookups = stats.hits + stats.misses;
+    const hitRate = lookups > 0 ? Math.round((stats.hits / lookups) * 100) : 0;
+
+    console.log(chalk.cyan('\n🗄️  AI Response Cache\n'));
+    console.log(chalk.white('Status:'), stats.enabled ? chalk.green('enabled') : chalk.yellow('disabled'));
+    console.log(chalk.white('Entries:'), `${stats.entries}${stats.expired ? chalk.gray(` (${stats.expired} expired)`) : ''}`);
+    console.log(chalk.white('Size:'), `${this.formatBytes(stats.totalBytes)} / ${stats.maxSizeMB} MB`);
+    console.log(chalk.white('TTL:'), `${stats.ttlHours} hours`);
+    console.log(chalk.white('Hit rate:'), `${hitRate}% (${stats.hits} hits, ${stats.misses} misses)`);
+    if (stats.oldest && stats.newest) {
+      console.log(chalk.white('Oldest entry:'), stats.oldest.toLocaleString());
+      console.log(chalk.white('Newest entry:'), stats.newest.toLocaleString());
+    }
+    console.log();
+    console.log(chalk.gray('Change limits with: faj cache config --ttl <hours> --max-size <mb>'));
+  }
+
+  private formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+}
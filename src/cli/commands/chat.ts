@@ -0,0 +1,201 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import ora from 'ora';
+import { ResumeChat, ChatProposal } from '../../core/resume/ResumeChat';
+import { FieldChange } from '../../core/resume/FieldDiff';
+import { ResumeManager } from '../../core/resume/ResumeManager';
+import { AIManager } from '../../ai/AIManager';
+import { AIAbortError } from '../../ai/errors';
+import { Logger } from '../../utils/Logger';
+
+const HELP = [
+  ['/undo', 'Revert the last applied change (repeat to go further back)'],
+  ['/show', 'Print the current summary and section sizes'],
+  ['/reset', 'Forget the conversation so far (applied changes stay)'],
+  ['/help', 'Show this help'],
+  ['/exit', 'Leave chat'],
+];
+
+export class ChatCommand {
+  private logger: Logger;
+  private resumeManager: ResumeManager;
+  private aiManager: AIManager;
+
+  constructor() {
+    this.logger = new Logger('ChatCommand');
+    this.resumeManager = ResumeManager.getInstance();
+    this.aiManager = AIManager.getInstance();
+  }
+
+  register(program: Command): void {
+    program
+      .command('chat')
+      .description('Refine your whole resume by chatting with the AI')
+      .action(async () => {
+        try {
+          await this.start();
+        } catch (error) {
+          this.logger.error('Chat session failed', error);
+          process.exit(1);
+        }
+      });
+  }
+
+  private async start(): Promise<void> {
+    const resume = await this.resumeManager.get();
+    if (!resume || !(resume.content.experience?.length || resume.content.projects?.length || resume.content.summary)) {
+      console.log(chalk.yellow('Your resume is empty. Run faj to add experience or projects first.'));
+      return;
+    }
+
+    await this.aiManager.initialize();
+    const chat = new ResumeChat();
+
+    console.log(chalk.cyan('\n💬 Resume chat'));
+    console.log(chalk.gray('Describe a change, e.g. "make the second job sound more backend-focused and cut the summary to two lines".'));
+    console.log(chalk.gray('Every change is shown before it is saved. Type /help for commands.\n'));
+
+    for (;;) {
+      const { message } = await inquirer.prompt([
+        { type: 'input', name: 'message', message: chalk.green('You ›'), prefix: '' },
+      ]);
+      const text = (message as string).trim();
+      if (!text) continue;
+
+      if (text.startsWith('/')) {
+        const command = text.slice(1).toLowerCase();
+        if (command === 'exit' || command === 'quit') break;
+        await this.runCommand(chat, command);
+        continue;
+      }
+
+      const proposal = await this.propose(chat, text);
+      if (!proposal) continue;
+
+      console.log(`\n${chalk.cyan('AI ›')} ${proposal.reply}\n`);
+      this.printRejected(proposal);
+      if (proposal.changes.length === 0) {
+        continue;
+      }
+
+      this.printChanges(proposal.changes);
+      const { apply } = await inquirer.prompt([
+        { type: 'confirm', name: 'apply', message: 'Apply these changes?', default: true },
+      ]);
+      if (apply) {
+        await chat.apply(proposal);
+        console.log(chalk.green(`✓ Saved. /undo to revert (${chat.undoDepth()} change${chat.undoDepth() === 1 ? '' : 's'} this session)\n`));
+      } else {
+        chat.decline();
+        console.log(chalk.gray('Discarded. Tell me what to do differently.\n'));
+      }
+    }
+
+    console.log(chalk.gray('Bye!'));
+  }
+
+  private async propose(chat: ResumeChat, message: string): Promise<ChatProposal | undefined> {
+    const spinner = ora('Thinking...').start();
+    const controller = new AbortController();
+    const onInterrupt = () => controller.abort();
+    process.on('SIGINT', onInterrupt);
+
+    try {
+      const proposal = await chat.propose(message, { signal: controller.signal });
+      spinner.stop();
+      return proposal;
+    } catch (error) {
+      spinner.stop();
+      if (controller.signal.aborted) {
+        console.log(chalk.yellow('✋ Cancelled\n'));
+      } else if (error instanceof AIAbortError) {
+        console.log(chalk.yellow(`⏱️  ${error.message}\n`));
+      } else {
+        console.log(chalk.red(`✗ ${(error as Error).message}\n`));
+      }
+      return undefined;
+    } finally {
+      process.removeListener('SIGINT', onInterrupt);
+    }
+  }
+
+  private async runCommand(chat: ResumeChat, command: string): Promise<void> {
+    switch (command) {
+      case 'undo':
+        if (await chat.undo()) {
+          console.log(chalk.green(`✓ Reverted the last change (${chat.undoDepth()} left to undo)\n`));
+        } else {
+          console.log(chalk.yellow('Nothing to undo in this session.\n'));
+        }
+        break;
+      case 'show':
+        await this.showResume();
+        break;
+      case 'reset':
+        chat.reset();
+        console.log(chalk.green('✓ Conversation cleared\n'));
+        break;
+      case 'help':
+        console.log();
+        HELP.forEach(([name, description]) => console.log(`  ${chalk.cyan(name.padEnd(8))} ${description}`));
+        console.log();
+        break;
+      default:
+        console.log(chalk.yellow(`Unknown command /${command}. Type /help for commands.\n`));
+    }
+  }
+
+  private async showResume(): Promise<void> {
+    const resume = await this.resumeManager.get();
+    const content = resume!.content;
+    console.log(chalk.white.bold('\nSummary'));
+    console.log(content.summary || chalk.gray('(empty)'));
+    console.log(chalk.white.bold('\nExperience'));
+    (content.experience || []).forEach((e: any, i: number) => console.log(`  [${i}] ${e.title} at ${e.company}`));
+    console.log(chalk.white.bold('\nProjects'));
+    (content.projects || []).forEach((p: any, i: number) => console.log(`  [${i}] ${p.name}`));
+    console.log(chalk.gray(`\n${content.skills?.length || 0} skills, ${content.education?.length || 0} education entries\n`));
+  }
+
+  private printChanges(changes: FieldChange[]): void {
+    console.log(chalk.white.bold('Proposed changes:'));
+    for (const change of changes) {
+      console.log(chalk.cyan(`  ${change.path}`));
+
+      // Lists of strings (highlights, technologies) are shown item by item
+      if (Array.isArray(change.before) && Array.isArray(change.after)) {
+        const before = change.before.map(String);
+        const after = change.after.map(String);
+        before.filter((item) => !after.includes(item)).forEach((item) => console.log(chalk.red(`    - ${item}`)));
+        after.filter((item) => !before.includes(item)).forEach((item) => console.log(chalk.green(`    + ${item}`)));
+        if (before.every((item) => after.includes(item)) && after.every((item) => before.includes(item))) {
+          console.log(chalk.gray('    (reordered)'));
+        }
+        continue;
+      }
+
+      if (change.before !== undefined) {
+        console.log(chalk.red(this.indent('- ', change.before)));
+      }
+      if (change.after !== undefined) {
+        console.log(chalk.green(this.indent('+ ', change.after)));
+      }
+    }
+    console.log();
+  }
+
+  private printRejected(proposal: ChatProposal): void {
+    for (const { edit, reason } of proposal.rejected) {
+      console.log(chalk.yellow(`⚠️  Skipped ${edit.op} ${edit.path}: ${reason}`));
+    }
+    if (proposal.rejected.length > 0) {
+      console.log();
+    }
+  }
+
+  private indent(marker: string, value: unknown): string {
+    const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+    return text.split('\n').map((line, i) => `    ${i === 0 ? marker : '  '}${line}`).join('\n');
+  }
+}
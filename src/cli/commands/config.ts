@@ -145,7 +145,7 @@ export class ConfigCommand {
           switch (answers.provider) {
             case 'gemini': return 'gemini-1.5-flash';
             case 'openai': return 'gpt-3.5-turbo';
-            case 'anthropic': return 'claude-3-sonnet';
+            case 'anthropic': return 'claude-sonnet-4-20250514';
             default: return '';
           }
         },
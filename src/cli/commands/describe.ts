@@ -5,6 +5,7 @@ import inquirer from 'inquirer';
 import { Logger } from '../../utils/Logger';
 import { ConfigManager } from '../../core/config/ConfigManager';
 import { AIManager } from '../../ai/AIManager';
+import { PromptRegistry } from '../../ai/prompts/PromptRegistry';
 
 export class DescribeCommand {
   private logger: Logger;
@@ -88,45 +89,17 @@ export class DescribeCommand {
       await this.aiManager.initialize();
       
       // Create prompt for AI polishing
-      const prompt = `
-You are a professional resume writer. Polish the following work experience description.
-
-Company: ${answers.company}
-Position: ${answers.position}
-Duration: ${answers.duration}
-
-Original Description:
-${answers.rawDescription}
-
-Key Achievements:
-${answers.keyAchievements}
-
-Technologies:
-${answers.technologies}
-
-Please provide:
-1. A polished, professional description (3-4 sentences) that highlights the role's scope and impact
-2. 8-10 bullet points with specific metrics and achievements (each must contain numbers)
-3. Improved technology list with proper categorization
-
-Requirements:
-- Use action verbs
-- Include specific numbers and percentages
-- Highlight technical achievements
-- Show business impact
-- Use professional language
-- Language: ${process.env.FAJ_RESUME_LANGUAGE === 'zh' ? 'Chinese' : 'English'}
-
-Format as JSON:
-{
-  "description": "...",
-  "highlights": ["bullet1", "bullet2", ...],
-  "technologies": ["tech1", "tech2", ...],
-  "suggestions": ["improvement1", "improvement2", ...]
-}
-`;
+      const prompt = await PromptRegistry.getInstance().render('experience.describe', {
+        company: answers.company,
+        position: answers.position,
+        duration: answers.duration,
+        rawDescription: answers.rawDescription,
+        keyAchievements: answers.keyAchievements,
+        technologies: answers.technologies,
+        languageName: process.env.FAJ_RESUME_LANGUAGE === 'zh' ? 'Chinese' : 'English',
+      });
 
-      const result = await this.aiManager.processPrompt(prompt);
+      const result = await this.aiManager.processPrompt(prompt, { task: 'polish' });
       
       spinner.succeed('Description polished successfully!');
       
@@ -1,20 +1,27 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import ora from 'ora';
+import ora, { Ora } from 'ora';
 import inquirer from 'inquirer';
+import fs from 'fs/promises';
 import { Logger } from '../../utils/Logger';
 import { ConfigManager } from '../../core/config/ConfigManager';
-import { ExperienceManager } from '../../core/experience/ExperienceManager';
+import { ExperienceManager, WorkExperience } from '../../core/experience/ExperienceManager';
+import { AIManager, VariantOptions } from '../../ai/AIManager';
+import { PolishCandidate } from '../../ai/FabricationGuard';
+import { PromptGuard } from '../../ai/PromptGuard';
+import { CandidatePicker } from '../../utils/CandidatePicker';
 
 export class ExperienceCommand {
   private logger: Logger;
   private configManager: ConfigManager;
   private experienceManager: ExperienceManager;
+  private aiManager: AIManager;
 
   constructor() {
     this.logger = new Logger('ExperienceCommand');
     this.configManager = ConfigManager.getInstance();
     this.experienceManager = ExperienceManager.getInstance();
+    this.aiManager = AIManager.getInstance();
   }
 
   register(program: Command): void {
@@ -77,14 +84,29 @@ export class ExperienceCommand {
     experience
       .command('polish <id>')
       .description('Polish experience description with AI')
-      .action(async (id: string) => {
+      .option('--job <file>', 'Polish with this job description in mind')
+      .option('--variants <n>', 'Generate several versions and pick or mix them')
+      .action(async (id: string, options: any) => {
         try {
-          await this.polish(id);
+          await this.polish(id, options);
         } catch (error) {
           this.logger.error('Failed to polish experience', error);
           process.exit(1);
         }
       });
+
+    experience
+      .command('tailor <id> <job-file>')
+      .description('Rewrite an experience for a job description')
+      .option('--variants <n>', 'Generate several versions and pick or mix them')
+      .action(async (id: string, jobFile: string, options: any) => {
+        try {
+          await this.tailor(id, jobFile, options);
+        } catch (error) {
+          this.logger.error('Failed to tailor experience', error);
+          process.exit(1);
+        }
+      });
   }
 
   private async add(options: any): Promise<void> {
@@ -233,6 +255,7 @@ export class ExperienceCommand {
       if (!jobDescription.trim()) {
         console.log(chalk.yellow('No job description provided. Will use general enhancement.'));
       }
+      this.warnIfInjected(jobDescription);
     }
 
     // Create initial experience object
@@ -478,7 +501,7 @@ export class ExperienceCommand {
     }
   }
 
-  private async polish(id: string): Promise<void> {
+  private async polish(id: string, options: { job?: string; variants?: string }): Promise<void> {
     await this.experienceManager.load();
     const experience = await this.experienceManager.get(id);
 
@@ -514,32 +537,134 @@ export class ExperienceCommand {
       description = newDesc;
     }
 
+    const jobDescription = options.job ? await fs.readFile(options.job, 'utf-8') : undefined;
+    this.warnIfInjected(jobDescription);
     const spinner = ora('Polishing with AI...').start();
     
     try {
-      const polished = await this.experienceManager.polish(id, description);
+      if (options.variants) {
+        const variants = await this.variantOptions(options.variants);
+        const candidates = await this.experienceManager.polishCandidates(id, description, variants, jobDescription);
+        await this.pickAndSave(spinner, id, candidates, description);
+        return;
+      }
+
+      const polished = jobDescription
+        ? await this.experienceManager.polishWithJob(id, description, jobDescription)
+        : await this.experienceManager.polish(id, description);
       
       if (polished) {
         spinner.succeed('Experience polished successfully!');
-        
-        console.log(chalk.cyan('\n📝 Polished Description:\n'));
-        console.log(polished.description);
-        
-        if (polished.highlights.length > 0) {
-          console.log(chalk.cyan('\n📊 Key Achievements:\n'));
-          polished.highlights.forEach((h, i) => {
-            console.log(`${i + 1}. ${h}`);
-          });
-        }
-        
-        if (polished.technologies.length > 0) {
-          console.log(chalk.cyan('\n🔧 Technologies:\n'));
-          console.log(polished.technologies.join(', '));
-        }
+        this.printPolished(polished);
       }
     } catch (error) {
       spinner.fail('Failed to polish experience');
       throw error;
     }
   }
+
+  private async tailor(id: string, jobFile: string, options: { variants?: string }): Promise<void> {
+    await this.experienceManager.load();
+    const experience = await this.experienceManager.get(id);
+
+    if (!experience) {
+      console.log(chalk.red(`\n❌ Experience with ID '${id}' not found.`));
+      return;
+    }
+
+    const jobDescription = await fs.readFile(jobFile, 'utf-8');
+    console.log(chalk.cyan('\n🎯 Tailor Experience to Job\n'));
+    console.log(`${experience.title} at ${experience.company}`);
+    this.warnIfInjected(jobDescription);
+
+    const spinner = ora('Tailoring with AI...').start();
+    try {
+      if (options.variants) {
+        const variants = await this.variantOptions(options.variants);
+        const candidates = await this.experienceManager.tailorCandidates(id, jobDescription, variants);
+        await this.pickAndSave(spinner, id, candidates);
+        return;
+      }
+
+      const tailored = await this.experienceManager.tailorToJob(id, jobDescription);
+      if (tailored) {
+        spinner.succeed('Experience tailored successfully!');
+        this.printPolished(tailored);
+      }
+    } catch (error) {
+      spinner.fail('Failed to tailor experience');
+      throw error;
+    }
+  }
+
+  /**
+   * Points out instruction-like passages in a job description. They are
+   * fenced as untrusted text in the prompt either way.
+   */
+  private warnIfInjected(jobDescription?: string): void {
+    const findings = jobDescription ? PromptGuard.getInstance().scan(jobDescription) : [];
+    if (findings.length === 0) return;
+
+    console.log(chalk.yellow(`\n⚠️  The job description contains ${findings.length} passage(s) that look like instructions to the AI:`));
+    findings.forEach((finding) => {
+      console.log(chalk.yellow(`  • line ${finding.line}: ${finding.rule}`) + chalk.gray(` "${finding.excerpt}"`));
+    });
+    console.log(chalk.gray('They are passed to the AI as untrusted text; check the result before keeping it.\n'));
+  }
+
+  /**
+   * The configured variant spread with the count from the command line.
+   */
+  private async variantOptions(count: string): Promise<VariantOptions> {
+    const n = parseInt(count, 10);
+    if (isNaN(n) || n < 1) {
+      throw new Error(`--variants must be a positive number, got ${count}`);
+    }
+    return { ...(await this.aiManager.getVariantOptions()), count: n };
+  }
+
+  /**
+   * Lets the user choose among candidates and saves the result. Pass the
+   * raw description for polish candidates, omit it for tailored ones.
+   */
+  private async pickAndSave(spinner: Ora, id: string, candidates: PolishCandidate[], rawDescription?: string): Promise<void> {
+    if (candidates.length === 0) {
+      spinner.fail('No versions were generated');
+      return;
+    }
+    spinner.succeed(`Generated ${candidates.length} version${candidates.length === 1 ? '' : 's'}`);
+
+    const picked = await CandidatePicker.pickPolish(candidates);
+    if (!picked) {
+      console.log(chalk.gray('Kept the current version.'));
+      return;
+    }
+
+    const saved = await this.experienceManager.applyPolish(id, picked.result, { rawDescription, provider: picked.provider });
+    if (saved) {
+      console.log(chalk.green('\n✓ Experience updated!'));
+      this.printPolished(saved);
+    }
+  }
+
+  private printPolished(polished: WorkExperience): void {
+    console.log(chalk.cyan('\n📝 Polished Description:\n'));
+    console.log(polished.description);
+    
+    if (polished.highlights.length > 0) {
+      console.log(chalk.cyan('\n📊 Key Achievements:\n'));
+      polished.highlights.forEach((h, i) => {
+        console.log(`${i + 1}. ${h}`);
+      });
+    }
+    
+    if (polished.technologies.length > 0) {
+      console.log(chalk.cyan('\n🔧 Technologies:\n'));
+      console.log(polished.technologies.join(', '));
+    }
+
+    if (polished.unverifiedClaims?.length) {
+      console.log(chalk.yellow(`\n⚠️  Not found in your own description: ${polished.unverifiedClaims.map((c) => c.value).join(', ')}`));
+    }
+  }
 }
\ No newline at end of file
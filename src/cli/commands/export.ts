@@ -3,6 +3,7 @@ import chalk from 'chalk';
 import inquirer from 'inquirer';
 import ora from 'ora';
 import { ResumeManager } from '../../core/resume/ResumeManager';
+import { TranslationManager } from '../../core/resume/TranslationManager';
 import { Logger } from '../../utils/Logger';
 import fs from 'fs/promises';
 
@@ -19,12 +20,13 @@ export class ExportCommand {
     program
       .command('export [format] [filename]')
       .description('Export your resume (default: markdown)')
-      .action(async (format?: string, filename?: string) => {
-        await this.execute(format, filename);
+      .option('--lang <language>', 'Export a translation made with faj translate, e.g. ja')
+      .action(async (format: string | undefined, filename: string | undefined, options) => {
+        await this.execute(format, filename, options.lang);
       });
   }
 
-  private async execute(format?: string, filename?: string): Promise<void> {
+  private async execute(format?: string, filename?: string, language?: string): Promise<void> {
     try {
       const resume = await this.resumeManager.get();
       
@@ -39,19 +41,35 @@ export class ExportCommand {
       }
       
       // Validate format
-      const validFormats = ['md', 'markdown', 'html', 'json'];
+      const validFormats = ['md', 'markdown', 'html', 'json', 'jsonresume'];
       if (!validFormats.includes(format.toLowerCase())) {
         console.log(chalk.red(`Invalid format: ${format}`));
-        console.log(chalk.gray('Valid formats: md, html, json'));
+        console.log(chalk.gray('Valid formats: md, html, json, jsonresume'));
         return;
       }
 
       // Normalize format
       if (format === 'markdown') format = 'md';
       
-      // Default filename
+      if (language) {
+        const code = TranslationManager.getInstance().resolveLanguage(language);
+        if (!code) {
+          console.log(chalk.red(`Unknown language: ${language}`));
+          return;
+        }
+        language = code;
+
+        const status = await TranslationManager.getInstance().status(code);
+        const outdated = status ? status.stale.length + status.missing.length : 0;
+        if (outdated > 0) {
+          console.log(chalk.yellow(`⚠️  ${outdated} ${code} entries are out of date. Refresh them with: faj translate --to ${code}`));
+        }
+      }
+
+      // Default filename; JSON Resume documents are plain .json files
+      const extension = format === 'jsonresume' ? 'jsonresume.json' : format;
       if (!filename) {
-        filename = `resume.${format}`;
+        filename = language ? `resume.${language}.${extension}` : `resume.${extension}`;
       }
       
       // Check if file exists
@@ -72,7 +90,7 @@ export class ExportCommand {
               type: 'input',
               name: 'newName',
               message: 'New filename:',
-              default: `resume-${Date.now()}.${format}`
+              default: `resume-${Date.now()}.${extension}`
             }
           ]);
           filename = newName;
@@ -86,10 +104,10 @@ export class ExportCommand {
       try {
         let content: string;
         
-        if (format === 'json') {
+        if (format === 'json' && !language) {
           content = JSON.stringify(resume, null, 2);
         } else {
-          content = await this.resumeManager.export(format as 'md' | 'html' | 'pdf');
+          content = await this.resumeManager.export(format as 'json' | 'jsonresume' | 'md' | 'html' | 'pdf', undefined, language);
         }
         
         await fs.writeFile(filename!, content);
@@ -105,6 +123,14 @@ export class ExportCommand {
           console.log(chalk.gray('  • Open in web browser'));
           console.log(chalk.gray('  • Print to PDF from browser'));
           console.log(chalk.gray('  • Host on GitHub Pages'));
+        } else if (format === 'jsonresume') {
+          const { unmapped } = await this.resumeManager.toJsonResume();
+          if (unmapped.length > 0) {
+            console.log(chalk.yellow(`  ⚠️  ${unmapped.length} field(s) have no JSON Resume equivalent and were kept under "x-faj":`));
+            console.log(chalk.gray(`     ${unmapped.join(', ')}`));
+          }
+          console.log(chalk.gray('  • Render it with any JSON Resume theme, e.g. npx resumed render'));
+          console.log(chalk.gray('  • Import it elsewhere with: faj import jsonresume <file>'));
         }
       } catch (error: any) {
         spinner.fail(`Export failed: ${error.message}`);
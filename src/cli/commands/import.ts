@@ -0,0 +1,350 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import inquirer from 'inquirer';
+import fs from 'fs/promises';
+import { Logger } from '../../utils/Logger';
+import { ResumeManager } from '../../core/resume/ResumeManager';
+import { importJsonResume, JsonResumeDocument } from '../../core/resume/JsonResume';
+import { ImportMerger, ImportPlan, ImportSelection } from '../../core/import/ImportMerger';
+import { LINKEDIN_FILES, readLinkedInArchive } from '../../core/import/LinkedInArchive';
+import { ResumeFileImport, ResumeFileImporter } from '../../core/import/ResumeFileImporter';
+
+export class ImportCommand {
+  private logger: Logger;
+  private resumeManager: ResumeManager;
+  private importMerger: ImportMerger;
+  private fileImporter: ResumeFileImporter;
+
+  constructor() {
+    this.logger = new Logger('ImportCommand');
+    this.resumeManager = ResumeManager.getInstance();
+    this.importMerger = ImportMerger.getInstance();
+    this.fileImporter = ResumeFileImporter.getInstance();
+  }
+
+  register(program: Command): void {
+    const importer = program
+      .command('import')
+      .description('Import resume data from other tools');
+
+    importer
+      .command('jsonresume <file>')
+      .description('Import a JSON Resume document (jsonresume.org)')
+      .option('-y, --yes', 'Skip the confirmation')
+      .action(async (file: string, options: any) => {
+        try {
+          await this.importJsonResume(file, options);
+        } catch (error) {
+          this.logger.error('Failed to import JSON Resume', error);
+          process.exit(1);
+        }
+      });
+
+    importer
+      .command('linkedin <zip>')
+      .description('Import positions, education, skills and projects from a LinkedIn data export')
+      .option('-y, --yes', 'Import every new entry without reviewing; duplicates are skipped')
+      .action(async (zip: string, options: any) => {
+        try {
+          await this.importLinkedIn(zip, options);
+        } catch (error) {
+          this.logger.error('Failed to import LinkedIn data', error);
+          process.exit(1);
+        }
+      });
+
+    importer
+      .command('file <path>')
+      .description('Import an existing resume from a PDF or Word (.docx) file')
+      .option('--ai', 'Let the AI read the entries instead of the local parser')
+      .action(async (file: string, options: any) => {
+        try {
+          await this.importFile(file, options);
+        } catch (error) {
+          this.logger.error('Failed to import resume file', error);
+          process.exit(1);
+        }
+      });
+  }
+
+  private async importJsonResume(file: string, options: any): Promise<void> {
+    let document: JsonResumeDocument;
+    try {
+      document = JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch (error) {
+      console.log(chalk.red(`✗ Could not read ${file}: ${(error as Error).message}`));
+      return;
+    }
+
+    // Map once up front so the user sees what will be imported and what won't
+    const preview = importJsonResume(document);
+    const count = (entries?: unknown[]) => (entries || []).length;
+    console.log(chalk.cyan(`\n📥 ${preview.basicInfo.name || file}\n`));
+    console.log(`  Experience:     ${count(preview.content.experience)}`);
+    console.log(`  Projects:       ${count(preview.content.projects)}`);
+    console.log(`  Education:      ${count(preview.content.education)}`);
+    console.log(`  Skills:         ${count(preview.content.skills)}`);
+    console.log(`  Certifications: ${count(preview.content.certifications)}`);
+    console.log(`  Awards:         ${count(preview.content.awards)}`);
+    console.log(`  Languages:      ${count(preview.content.languages)}`);
+    this.printUnmapped(preview.unmapped);
+
+    if (!options.yes) {
+      const { confirm } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: 'Replace the content of your resume with this document?',
+          default: false,
+        },
+      ]);
+      if (!confirm) {
+        console.log(chalk.gray('Import cancelled'));
+        return;
+      }
+    }
+
+    const spinner = ora('Importing JSON Resume...').start();
+    try {
+      const result = await this.resumeManager.importJsonResume(document);
+      spinner.succeed(`Imported resume (version ${result.resume.version})`);
+      if (result.added > 0) {
+        console.log(chalk.green(`✓ Added ${result.added} experience and project entr${result.added === 1 ? 'y' : 'ies'}`));
+      }
+      if (result.duplicates > 0) {
+        console.log(chalk.gray(`  ${result.duplicates} entr${result.duplicates === 1 ? 'y was' : 'ies were'} already saved and linked instead`));
+      }
+      console.log(chalk.gray('\nUndo with: faj resume rollback <version>  (see faj resume history)'));
+    } catch (error) {
+      spinner.fail('Import failed');
+      throw error;
+    }
+  }
+
+  private async importLinkedIn(zipPath: string, options: any): Promise<void> {
+    const spinner = ora('Reading LinkedIn export...').start();
+    let plan: ImportPlan;
+    try {
+      const archive = await readLinkedInArchive(zipPath);
+      if (archive.found.length === 0) {
+        spinner.fail(`No LinkedIn resume data in ${zipPath}`);
+        console.log(chalk.gray(`Expected some of: ${LINKEDIN_FILES.join(', ')}`));
+        return;
+      }
+      plan = await this.importMerger.plan(archive);
+      spinner.succeed(`Read ${archive.found.join(', ')}`);
+    } catch (error) {
+      spinner.fail(`Could not read ${zipPath}: ${(error as Error).message}`);
+      return;
+    }
+
+    const selection = options.yes ? this.newEntriesOnly(plan) : await this.reviewPlan(plan);
+    if (!selection) {
+      console.log(chalk.gray('Import cancelled'));
+      return;
+    }
+
+    const result = await this.importMerger.apply(plan, selection);
+    console.log(chalk.green(`\n✓ Imported from ${plan.source}: ${result.added} added, ${result.merged} merged (resume version ${result.resume.version})`));
+    console.log(chalk.gray('Polish the new entries with: faj experience polish <id>'));
+  }
+
+  private async importFile(file: string, options: any): Promise<void> {
+    const spinner = ora(options.ai ? 'Reading resume with AI...' : 'Reading resume...').start();
+    let imported: ResumeFileImport;
+    try {
+      imported = await this.fileImporter.read(file, { ai: options.ai });
+      spinner.succeed(`Read ${imported.source}${imported.aiParsed ? ' (parsed by AI)' : ''}`);
+    } catch (error) {
+      spinner.fail(`Could not read ${file}: ${(error as Error).message}`);
+      return;
+    }
+
+    if (imported.sections.length > 0) {
+      console.log(chalk.gray(`  Sections found: ${imported.sections.join(', ')}`));
+    }
+    for (const warning of imported.warnings) {
+      console.log(chalk.yellow(`⚠️  ${warning}`));
+    }
+
+    await this.reviewUncertain(imported);
+
+    const plan = await this.importMerger.plan(imported);
+    const selection = await this.reviewPlan(plan);
+    if (!selection) {
+      console.log(chalk.gray('Import cancelled'));
+      return;
+    }
+
+    const result = await this.importMerger.apply(plan, selection);
+    console.log(chalk.green(`\n✓ Imported from ${plan.source}: ${result.added} added, ${result.merged} merged (resume version ${result.resume.version})`));
+    console.log(chalk.gray('Polish the new entries with: faj experience polish <id>'));
+  }
+
+  /**
+   * Asks the user to confirm or correct each field the importer was not
+   * sure about. Edits are written into `imported` in place.
+   */
+  private async reviewUncertain(imported: ResumeFileImport): Promise<void> {
+    if (imported.uncertain.length === 0) {
+      return;
+    }
+    console.log(chalk.yellow(`\n⚠️  ${imported.uncertain.length} field(s) may be wrong. Press enter to keep a value or type a correction:`));
+
+    for (const uncertain of imported.uncertain) {
+      const target: Record<string, any> = uncertain.section === 'basicInfo'
+        ? imported.basicInfo
+        : (imported[uncertain.section] as any[])[uncertain.index ?? 0];
+      if (!target) continue;
+
+      const label = this.describeEntry(uncertain.section, target);
+      const isDate = /date$/i.test(uncertain.field);
+      const current = target[uncertain.field];
+      const { value } = await inquirer.prompt([
+        {
+          type: 'input',
+          name: 'value',
+          message: `${label}${label ? ' › ' : ''}${uncertain.field} (${uncertain.reason}):`,
+          default: Array.isArray(current) ? current.join('; ') : current ?? '',
+          validate: (input: string) => {
+            if (!isDate || (!input && uncertain.field === 'endDate')) return true;
+            return /^\d{4}(-\d{2})?$/.test(input.trim()) || 'Use YYYY or YYYY-MM';
+          },
+        },
+      ]);
+      // Keep the field's type: lists are edited as "a; b", numbers such as GPA as text
+      const edited = String(value).trim();
+      if (Array.isArray(current)) {
+        target[uncertain.field] = edited.split(';').map((item) => item.trim()).filter(Boolean);
+      } else if (typeof current === 'number') {
+        target[uncertain.field] = edited && !isNaN(Number(edited)) ? Number(edited) : undefined;
+      } else {
+        target[uncertain.field] = edited;
+      }
+    }
+
+    for (const experience of imported.experiences) {
+      experience.current = !experience.endDate;
+    }
+  }
+
+  private describeEntry(section: string, entry: Record<string, any>): string {
+    switch (section) {
+      case 'experiences':
+        return [entry.title, entry.company].filter(Boolean).join(' at ');
+      case 'projects':
+        return entry.name || '';
+      case 'education':
+        return entry.institution || '';
+      default:
+        return 'Profile';
+    }
+  }
+
+  /**
+   * Walks the user through an import plan. New entries are selected by
+   * default; duplicates of saved entries are not, and selecting one only
+   * fills in the fields the saved entry lacks. Returns null if cancelled.
+   */
+  private async reviewPlan(plan: ImportPlan): Promise<ImportSelection | null> {
+    const selection: ImportSelection = { experiences: [], projects: [], education: false, skills: false, profile: false };
+    const dates = (entry: any) => `${entry.startDate || '?'} - ${entry.current ? 'Present' : entry.endDate || '?'}`;
+    const duplicate = chalk.yellow(' (already saved, fill in missing fields)');
+
+    if (plan.experiences.length > 0) {
+      const { picked } = await inquirer.prompt([
+        {
+          type: 'checkbox',
+          name: 'picked',
+          message: 'Work experience to import:',
+          pageSize: 15,
+          choices: plan.experiences.map((candidate, index) => ({
+            name: `${candidate.entry.title} at ${candidate.entry.company} (${dates(candidate.entry)})${candidate.existing ? duplicate : ''}`,
+            value: index,
+            checked: !candidate.existing,
+          })),
+        },
+      ]);
+      selection.experiences = picked;
+    }
+
+    if (plan.projects.length > 0) {
+      const { picked } = await inquirer.prompt([
+        {
+          type: 'checkbox',
+          name: 'picked',
+          message: 'Projects to import:',
+          pageSize: 15,
+          choices: plan.projects.map((candidate, index) => ({
+            name: `${candidate.entry.name}${candidate.existing ? duplicate : ''}`,
+            value: index,
+            checked: !candidate.existing,
+          })),
+        },
+      ]);
+      selection.projects = picked;
+    }
+
+    if (plan.education.length > 0) {
+      console.log(chalk.cyan('\nEducation:'));
+      for (const education of plan.education) {
+        console.log(`  • ${[education.degree, education.field].filter(Boolean).join(', ') || '?'} — ${education.institution} (${dates(education)})`);
+      }
+      selection.education = await this.confirm(`Add ${plan.education.length} education entr${plan.education.length === 1 ? 'y' : 'ies'} to the resume?`);
+    }
+
+    if (plan.skills.length > 0) {
+      console.log(chalk.cyan('\nSkills:'));
+      console.log(`  ${plan.skills.join(', ')}`);
+      selection.skills = await this.confirm(`Add ${plan.skills.length} skill(s) to the resume?`);
+    }
+
+    const profileFields = Object.entries(plan.basicInfo);
+    if (profileFields.length > 0 || plan.summary) {
+      console.log(chalk.cyan('\nProfile (only fields your resume does not have yet):'));
+      for (const [key, value] of profileFields) {
+        console.log(`  ${key}: ${value}`);
+      }
+      if (plan.summary) {
+        console.log(`  summary: ${plan.summary.length > 80 ? `${plan.summary.slice(0, 80)}…` : plan.summary}`);
+      }
+      selection.profile = await this.confirm('Fill in these profile fields?');
+    }
+
+    const total = selection.experiences.length + selection.projects.length;
+    if (total === 0 && !selection.education && !selection.skills && !selection.profile) {
+      return null;
+    }
+    const proceed = await this.confirm(`Write ${total} experience and project entr${total === 1 ? 'y' : 'ies'} and the chosen resume sections?`);
+    return proceed ? selection : null;
+  }
+
+  private newEntriesOnly(plan: ImportPlan): ImportSelection {
+    const fresh = (candidates: Array<{ existing: unknown }>) =>
+      candidates.map((candidate, index) => (candidate.existing ? -1 : index)).filter((index) => index !== -1);
+    return {
+      experiences: fresh(plan.experiences),
+      projects: fresh(plan.projects),
+      education: true,
+      skills: true,
+      profile: true,
+    };
+  }
+
+  private async confirm(message: string): Promise<boolean> {
+    const { confirm } = await inquirer.prompt([{ type: 'confirm', name: 'confirm', message, default: true }]);
+    return confirm;
+  }
+
+  private printUnmapped(unmapped: string[]): void {
+    if (unmapped.length === 0) {
+      return;
+    }
+    console.log(chalk.yellow(`\n⚠️  ${unmapped.length} field(s) have no place in a FAJ resume:`));
+    for (const field of unmapped) {
+      console.log(chalk.gray(`  • ${field}`));
+    }
+    console.log(chalk.gray('  They are kept and written back by: faj export jsonresume'));
+  }
+}
@@ -1,17 +1,25 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
-import ora from 'ora';
+import ora, { Ora } from 'ora';
 import { ConfigManager } from '../../core/config/ConfigManager';
 import { ResumeManager } from '../../core/resume/ResumeManager';
+import { TranslationManager, LANGUAGE_NAMES } from '../../core/resume/TranslationManager';
 import { ExperienceManager } from '../../core/experience/ExperienceManager';
 import { ProjectAnalyzer } from '../../core/analyzer/ProjectAnalyzer';
 import { ProjectManager } from '../../core/project/ProjectManager';
-import { AIManager } from '../../ai/AIManager';
+import { AIManager, DEFAULT_TIMEOUTS, MAX_VARIANTS, ModelRoute, VariantOptions } from '../../ai/AIManager';
+import { AIAbortError, FabricationError } from '../../ai/errors';
+import { PolishCandidate, UnsupportedClaim } from '../../ai/FabricationGuard';
+import { InjectionFinding, PromptGuard, TailorIssue } from '../../ai/PromptGuard';
+import { Redactor } from '../../ai/Redactor';
+import { PromptRegistry } from '../../ai/prompts/PromptRegistry';
+import { AI_TASK_TYPES, AITaskType, StreamOptions } from '../../ai/providers/BaseProvider';
 import { Logger } from '../../utils/Logger';
 import { getEducationStrings } from '../../utils/EducationOptions';
 import { AIProvider } from '../../models';
 import { MenuHelper, menuSeparator, menuItem } from '../../utils/MenuHelper';
+import { CandidatePicker, PickedPolish } from '../../utils/CandidatePicker';
 import fs from 'fs/promises';
 import path from 'path';
 import * as os from 'os';
@@ -51,13 +59,6 @@ export class InteractiveCommand {
         await this.start('add');
       });
 
-    program
-      .command('export')
-      .description('Export resume interactively')
-      .action(async () => {
-        await this.start('export');
-      });
-
     program
       .command('config')
       .description('Configure settings interactively')
@@ -712,14 +713,14 @@ export class InteractiveCommand {
         try {
           await this.aiManager.initialize();
           
-          let polished;
-          if (jobDescription && jobDescription.trim()) {
-            // Enhance with job description context
-            polished = await this.experienceManager.polishWithJob(saved.id, experience.description, jobDescription);
-          } else {
+          const polished = await this.withStreaming(spinner, (stream) => {
+            if (jobDescription && jobDescription.trim()) {
+              // Enhance with job description context
+              return this.experienceManager.polishWithJob(saved.id, experience.description, jobDescription, stream);
+            }
             // General enhancement
-            polished = await this.experienceManager.polish(saved.id, experience.description);
-          }
+            return this.experienceManager.polish(saved.id, experience.description, stream);
+          }, { dim: true });
           
           if (polished) {
             spinner.succeed(jobDescription ? 'Experience optimized for target job!' : 'AI enhanced your experience!');
@@ -737,12 +738,14 @@ export class InteractiveCommand {
               console.log(chalk.gray('The AI emphasized relevant skills matching the job requirements.'));
             }
             
+            this.printUnverifiedClaims(polished.unverifiedClaims);
+            
             const { accept } = await inquirer.prompt([
               {
                 type: 'confirm',
                 name: 'accept',
                 message: 'Use this enhanced version?',
-                default: true
+                default: !polished.unverifiedClaims?.length
               }
             ]);
             
@@ -750,12 +753,18 @@ export class InteractiveCommand {
               // Revert to original
               await this.experienceManager.update(saved.id, {
                 description: experience.description,
-                polished: false
+                polished: false,
+                unverifiedClaims: undefined
               });
             }
           }
         } catch (error) {
-          spinner.fail('AI enhancement failed, keeping original');
+          if (error instanceof FabricationError) {
+            spinner.fail('AI output rejected for unsupported claims, keeping original');
+            this.printUnverifiedClaims(error.claims);
+          } else {
+            spinner.fail('AI enhancement failed, keeping original');
+          }
         }
       }
     }
@@ -888,43 +897,22 @@ export class InteractiveCommand {
               }
             }
             
-            const prompt = `Based on this ACTUAL project analysis data, generate a professional project description in ${languageName}:
-            
-ACTUAL PROJECT DATA (DO NOT INVENT ANY OTHER METRICS):
-- Project Name: ${analysis.name}
-- Programming Languages Used: ${Object.keys(analysis.languages || {}).join(', ')}
-- Language Distribution: ${Object.entries(analysis.languages || {}).map(([lang, pct]) => `${lang}: ${pct}%`).join(', ')}
-- Total Files: ${analysis.metrics?.filesCount || 0}
-- Total Lines of Code: ${analysis.metrics?.linesOfCode || 0}
-- Frameworks: ${analysis.frameworks?.join(', ') || 'None detected'}
-- Libraries: ${analysis.libraries?.join(', ') || 'None detected'}
-- Complexity: ${analysis.complexity || 'Not determined'}
-- Your Role: ${role}
-- User's Description: ${description || 'Not provided'}
-
-STRICT RULES:
-1. ONLY use the metrics provided above - DO NOT invent any performance numbers, user counts, or other metrics
-2. Base descriptions on the actual technologies and code statistics provided
-3. Focus on the technical stack and architecture evident from the code analysis
-4. Describe what the project does based on the technologies used and user's description
-5. DO NOT make up features that aren't evident from the data
-
-Generate:
-1. A 2-3 sentence description based on the actual project data
-2. 3-5 highlights based on ACTUAL metrics (e.g., "Implemented with ${analysis.metrics?.filesCount} files and ${analysis.metrics?.linesOfCode} lines of ${Object.keys(analysis.languages || {})[0]} code")
-3. Technical focus areas based on the detected languages and frameworks
-
-IMPORTANT: Generate ALL content in ${languageName} language.
-Use ONLY the data provided - no speculation or invention.
-
-Format as JSON:
-{
-  "description": "...",
-  "highlights": ["highlight1", "highlight2", ...],
-  "technologies": ["tech1", "tech2", ...]
-}`;
+            const prompt = await PromptRegistry.getInstance().render('project.describe', {
+              name: analysis.name,
+              languages: Object.keys(analysis.languages || {}).join(', '),
+              languageDistribution: Object.entries(analysis.languages || {}).map(([lang, pct]) => `${lang}: ${pct}%`).join(', '),
+              primaryLanguage: Object.keys(analysis.languages || {})[0],
+              filesCount: analysis.metrics?.filesCount || 0,
+              linesOfCode: analysis.metrics?.linesOfCode || 0,
+              frameworks: analysis.frameworks?.join(', ') || 'None detected',
+              libraries: analysis.libraries?.join(', ') || 'None detected',
+              complexity: analysis.complexity || 'Not determined',
+              role,
+              description: description || 'Not provided',
+              languageName,
+            });
             
-            const response = await this.aiManager.processPrompt(prompt);
+            const response = await this.aiManager.processPrompt(prompt, { task: 'polish' });
             
             // Parse AI response
             try {
@@ -1328,30 +1316,28 @@ Format as JSON:
         experiences.forEach(exp => exp.technologies?.forEach(t => technologies.add(t)));
         projects.forEach(proj => proj.technologies?.forEach(t => technologies.add(t)));
         
-        const prompt = `Generate a professional summary in ${languageName} for a software engineer with the following profile:
-
-Years of Experience: ${yearsOfExperience}
-Current Role: ${experiences[0]?.title || 'Software Engineer'}
-Current Company: ${experiences[0]?.company || 'N/A'}
-Key Technologies: ${Array.from(technologies).slice(0, 10).join(', ')}
-Number of Projects: ${projects.length}
-Education: ${profile?.education?.degree || 'Bachelor\'s'} in ${profile?.education?.field || 'Computer Science'}
-
-Requirements:
-1. 2-3 sentence professional summary
-2. Highlight technical expertise and key achievements
-3. Include career objectives
-4. Professional and engaging
-
-IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
+        const prompt = await PromptRegistry.getInstance().render('resume.summary', {
+          yearsOfExperience,
+          title: experiences[0]?.title || 'Software Engineer',
+          company: experiences[0]?.company || 'N/A',
+          technologies: Array.from(technologies).slice(0, 10).join(', '),
+          projectCount: projects.length,
+          degree: profile?.education?.degree || 'Bachelor\'s',
+          field: profile?.education?.field || 'Computer Science',
+          languageName,
+        });
         
         await this.aiManager.initialize();
-        summary = await this.aiManager.processPrompt(prompt);
+        const generated = await this.withStreaming(spinner, (stream) =>
+          this.aiManager.processPrompt(prompt, { task: 'generate', ...stream }),
+          { header: chalk.cyan('\n📝 Generated Summary:\n') }
+        );
+        if (generated === undefined) {
+          return this.addSummary();
+        }
+        summary = generated;
         spinner.succeed('AI generated your summary!');
         
-        console.log(chalk.cyan('\n📝 Generated Summary:\n'));
-        console.log(summary);
-        
         const { accept } = await inquirer.prompt([
           {
             type: 'confirm',
@@ -1669,25 +1655,81 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
           // Ask if they want to enhance now
           const { enhance } = await inquirer.prompt([
             {
-              type: 'confirm',
+              type: 'list',
               name: 'enhance',
               message: 'Would you like to enhance this with AI now?',
-              default: true
+              choices: [
+                { name: '✨ Yes', value: 'one' },
+                { name: '🎲 Yes, compare several versions', value: 'variants' },
+                { name: 'Not now', value: 'no' }
+              ]
             }
           ]);
           
-          if (enhance) {
+          if (enhance === 'variants') {
+            const spinner = ora('AI is writing several versions of your experience...').start();
+            try {
+              const picked = await this.chooseCandidate(spinner, (variants) =>
+                this.experienceManager.polishCandidates(expId, rawDescription, variants)
+              );
+              if (picked) {
+                const saved = await this.experienceManager.applyPolish(expId, picked.result, {
+                  rawDescription,
+                  provider: picked.provider
+                });
+                this.printUnverifiedClaims(saved?.unverifiedClaims);
+                console.log(chalk.green('\n✓ Experience updated!\n'));
+                return;
+              }
+            } catch (error) {
+              spinner.fail('Enhancement failed');
+              if (error instanceof FabricationError) {
+                this.printUnverifiedClaims(error.claims);
+              }
+            }
+          } else if (enhance === 'one') {
             const spinner = ora('AI is enhancing your experience description...').start();
             try {
-              const enhanced = await this.experienceManager.polish(expId, rawDescription);
+              const enhanced = await this.withStreaming(spinner, (stream) =>
+                this.experienceManager.polish(expId, rawDescription, stream),
+                { dim: true }
+              );
+              if (enhanced === undefined) {
+                break;
+              }
               if (enhanced) {
                 spinner.succeed('Experience enhanced successfully!');
+                if (enhanced.unverifiedClaims?.length) {
+                  this.printUnverifiedClaims(enhanced.unverifiedClaims);
+                  const { keep } = await inquirer.prompt([
+                    {
+                      type: 'confirm',
+                      name: 'keep',
+                      message: 'Keep the enhanced version anyway?',
+                      default: false
+                    }
+                  ]);
+                  if (!keep) {
+                    await this.experienceManager.update(expId, {
+                      rawDescription,
+                      description: exp.description,
+                      highlights: exp.highlights,
+                      technologies: exp.technologies,
+                      polished: exp.polished,
+                      unverifiedClaims: exp.unverifiedClaims
+                    });
+                    console.log(chalk.gray('Kept the previous description.'));
+                  }
+                }
                 return; // Already updated by polish
               } else {
                 spinner.fail('Enhancement failed');
               }
             } catch (error) {
               spinner.fail('Enhancement failed');
+              if (error instanceof FabricationError) {
+                this.printUnverifiedClaims(error.claims);
+              }
             }
           }
         }
@@ -1717,6 +1759,7 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
               { name: '➕ Add new highlights', value: 'add' },
               { name: '➖ Remove highlights', value: 'remove' },
               { name: '🤖 Regenerate with AI', value: 'ai' },
+              { name: '🎲 Compare several AI versions', value: 'ai-variants' },
               new inquirer.Separator('──────────────'),
               { name: '← Back', value: 'back' }
             ]
@@ -1803,7 +1846,13 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
             const spinner = ora('AI is generating highlights for your experience...').start();
             try {
               // Use the polish method to regenerate highlights
-              const enhanced = await this.experienceManager.polish(expId, exp.rawDescription || exp.description || '');
+              const enhanced = await this.withStreaming(spinner, (stream) =>
+                this.experienceManager.polish(expId, exp.rawDescription || exp.description || '', stream),
+                { dim: true }
+              );
+              if (enhanced === undefined) {
+                break;
+              }
               if (enhanced && enhanced.highlights) {
                 spinner.succeed('AI generated new highlights!');
                 console.log(chalk.cyan('\n📝 Generated Highlights:\n'));
@@ -1811,13 +1860,14 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
                   console.log(`  ${idx + 1}. ${h}`);
                 });
                 console.log();
+                this.printUnverifiedClaims(enhanced.unverifiedClaims);
                 
                 const { accept } = await inquirer.prompt([
                   {
                     type: 'confirm',
                     name: 'accept',
                     message: 'Use these highlights?',
-                    default: true
+                    default: !enhanced.unverifiedClaims?.length
                   }
                 ]);
                 
@@ -1829,7 +1879,31 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
               }
             } catch (error) {
               spinner.fail('AI generation failed');
-              console.log(chalk.yellow('\nFailed to generate highlights with AI.\n'));
+              if (error instanceof FabricationError) {
+                this.printUnverifiedClaims(error.claims);
+              } else {
+                console.log(chalk.yellow('\nFailed to generate highlights with AI.\n'));
+              }
+            }
+            break;
+          }
+          
+          case 'ai-variants': {
+            const spinner = ora('AI is writing several versions of your highlights...').start();
+            try {
+              const picked = await this.chooseCandidate(spinner, (variants) =>
+                this.experienceManager.polishCandidates(expId, exp.rawDescription || exp.description || '', variants)
+              );
+              if (picked) {
+                newHighlights = picked.result.highlights;
+              }
+            } catch (error) {
+              spinner.fail('AI generation failed');
+              if (error instanceof FabricationError) {
+                this.printUnverifiedClaims(error.claims);
+              } else {
+                console.log(chalk.yellow('\nFailed to generate highlights with AI.\n'));
+              }
             }
             break;
           }
@@ -2149,6 +2223,7 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
               { name: '➕ Add new highlights', value: 'add' },
               { name: '➖ Remove highlights', value: 'remove' },
               { name: '🤖 Regenerate with AI', value: 'ai' },
+              { name: '🎲 Compare several AI versions', value: 'ai-variants' },
               new inquirer.Separator('──────────────'),
               { name: '← Back', value: 'back' }
             ]
@@ -2244,13 +2319,14 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
                   console.log(`  ${idx + 1}. ${h}`);
                 });
                 console.log();
+                this.printUnverifiedClaims(enhanced.unverifiedClaims);
                 
                 const { accept } = await inquirer.prompt([
                   {
                     type: 'confirm',
                     name: 'accept',
                     message: 'Use these highlights?',
-                    default: true
+                    default: !enhanced.unverifiedClaims?.length
                   }
                 ]);
                 
@@ -2262,7 +2338,31 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
               }
             } catch (error) {
               spinner.fail('AI generation failed');
-              console.log(chalk.yellow('\nFailed to generate highlights with AI.\n'));
+              if (error instanceof FabricationError) {
+                this.printUnverifiedClaims(error.claims);
+              } else {
+                console.log(chalk.yellow('\nFailed to generate highlights with AI.\n'));
+              }
+            }
+            break;
+          }
+          
+          case 'ai-variants': {
+            const spinner = ora('AI is writing several versions of your highlights...').start();
+            try {
+              const picked = await this.chooseCandidate(spinner, (variants) =>
+                this.projectManager.polishCandidates(projId, proj.description || '', variants)
+              );
+              if (picked) {
+                newHighlights = picked.result.highlights;
+              }
+            } catch (error) {
+              spinner.fail('AI generation failed');
+              if (error instanceof FabricationError) {
+                this.printUnverifiedClaims(error.claims);
+              } else {
+                console.log(chalk.yellow('\nFailed to generate highlights with AI.\n'));
+              }
             }
             break;
           }
@@ -2593,6 +2693,7 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
         choices: [
           { name: '✏️  Edit manually', value: 'edit' },
           { name: '🤖 Regenerate with AI', value: 'regenerate' },
+          { name: '🎲 Compare several AI versions', value: 'variants' },
           { name: '🗑️  Delete', value: 'delete' },
           { name: '← Back', value: 'back' }
         ]
@@ -2637,48 +2738,19 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
       const spinner = ora('AI is generating a new summary...').start();
       
       try {
-        // Load experiences and projects for context
-        await this.experienceManager.load();
-        await this.projectManager.load();
-        const experiences = await this.experienceManager.getAll();
-        const projects = await this.projectManager.getAll();
-        
-        // Calculate years of experience
-        const yearsOfExperience = experiences.length > 0 ? 
-          new Date().getFullYear() - new Date(experiences[experiences.length - 1].startDate).getFullYear() : 0;
-        
-        // Get language preference
-        const languageName = process.env.FAJ_RESUME_LANGUAGE === 'zh' ? 'Chinese' : 'English';
-        
-        // Collect technologies
-        const technologies = new Set<string>();
-        experiences.forEach(exp => exp.technologies?.forEach(t => technologies.add(t)));
-        projects.forEach(proj => proj.technologies?.forEach(t => technologies.add(t)));
-        
-        const prompt = `Generate a professional summary in ${languageName} for a software engineer with the following profile:
-
-Years of Experience: ${yearsOfExperience}
-Current Role: ${experiences[0]?.title || 'Software Engineer'}
-Current Company: ${experiences[0]?.company || 'N/A'}
-Key Technologies: ${Array.from(technologies).slice(0, 10).join(', ')}
-Number of Projects: ${projects.length}
-Education: ${profile?.education?.degree || 'Bachelor\'s'} in ${profile?.education?.field || 'Computer Science'}
-
-Requirements:
-1. 2-3 sentence professional summary
-2. Highlight technical expertise and key achievements
-3. Include career objectives
-4. Professional and engaging
-
-IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
+        const prompt = await this.buildSummaryPrompt(profile);
         
         await this.aiManager.initialize();
-        const newSummary = await this.aiManager.processPrompt(prompt);
+        // Regenerating means the user wants a fresh answer, not the cached one
+        const newSummary = await this.withStreaming(spinner, (stream) =>
+          this.aiManager.processPrompt(prompt, { bypassCache: true, task: 'generate', ...stream }),
+          { header: chalk.cyan('\n📝 Generated Summary:\n') }
+        );
+        if (newSummary === undefined) {
+          return;
+        }
         spinner.succeed('AI generated a new summary!');
         
-        console.log(chalk.cyan('\n📝 Generated Summary:\n'));
-        console.log(newSummary);
-        
         const { accept } = await inquirer.prompt([
           {
             type: 'confirm',
@@ -2697,9 +2769,75 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
         spinner.fail('AI generation failed');
         console.log(chalk.yellow('\nFailed to generate summary with AI.\n'));
       }
+    } else if (action === 'variants') {
+      const spinner = ora('AI is writing several summaries...').start();
+      
+      try {
+        const prompt = await this.buildSummaryPrompt(profile);
+        await this.aiManager.initialize();
+        const options = await this.aiManager.getVariantOptions();
+        const variants = await this.withStreaming(spinner, (stream) =>
+          this.aiManager.processPromptVariants(prompt, 'generate', { ...options, signal: stream.signal })
+        );
+        if (variants === undefined) {
+          return;
+        }
+        spinner.succeed(`Generated ${variants.length} summar${variants.length === 1 ? 'y' : 'ies'}`);
+        
+        const chosen = await CandidatePicker.pickText(variants);
+        if (chosen) {
+          profile.personalSummary = chosen;
+          await this.configManager.set('profile', profile);
+          console.log(chalk.green('\n✓ Professional summary updated!\n'));
+        }
+      } catch (error) {
+        spinner.fail('AI generation failed');
+        console.log(chalk.yellow('\nFailed to generate summary with AI.\n'));
+      }
     }
   }
 
+  /**
+   * Prompt for regenerating the professional summary from the saved
+   * experiences, projects and education.
+   */
+  private async buildSummaryPrompt(profile: any): Promise<string> {
+    // Load experiences and projects for context
+    await this.experienceManager.load();
+    await this.projectManager.load();
+    const experiences = await this.experienceManager.getAll();
+    const projects = await this.projectManager.getAll();
+    
+    // Calculate years of experience
+    const yearsOfExperience = experiences.length > 0 ? 
+      new Date().getFullYear() - new Date(experiences[experiences.length - 1].startDate).getFullYear() : 0;
+    
+    // Get language preference
+    const languageName = process.env.FAJ_RESUME_LANGUAGE === 'zh' ? 'Chinese' : 'English';
+    
+    // Collect technologies
+    const technologies = new Set<string>();
+    experiences.forEach(exp => exp.technologies?.forEach(t => technologies.add(t)));
+    projects.forEach(proj => proj.technologies?.forEach(t => technologies.add(t)));
+    
+    return `Generate a professional summary in ${languageName} for a software engineer with the following profile:
+
+Years of Experience: ${yearsOfExperience}
+Current Role: ${experiences[0]?.title || 'Software Engineer'}
+Current Company: ${experiences[0]?.company || 'N/A'}
+Key Technologies: ${Array.from(technologies).slice(0, 10).join(', ')}
+Number of Projects: ${projects.length}
+Education: ${profile?.education?.degree || 'Bachelor\'s'} in ${profile?.education?.field || 'Computer Science'}
+
+Requirements:
+1. 2-3 sentence professional summary
+2. Highlight technical expertise and key achievements
+3. Include career objectives
+4. Professional and engaging
+
+IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
+  }
+
   private async exportResume(): Promise<void> {
     // Build complete resume from all sources
     const resume = await this.buildCompleteResume();
@@ -2717,6 +2855,7 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
           { name: '🌐 HTML (.html)', value: 'html' },
           { name: '📝 Markdown (.md)', value: 'md' },
           { name: '📋 JSON (.json)', value: 'json' },
+          { name: '📄 JSON Resume (.json)', value: 'jsonresume' },
           new inquirer.Separator() as any,
           { name: '← Cancel', value: 'cancel' }
         ]
@@ -2732,12 +2871,15 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
       themeName = 'professional';
     }
     
+    const language = await this.selectExportLanguage();
+    const extension = format === 'jsonresume' ? 'jsonresume.json' : format;
+    
     const { filename } = await inquirer.prompt([
       {
         type: 'input',
         name: 'filename',
         message: 'Filename:',
-        default: `resume.${format}`
+        default: language ? `resume.${language}.${extension}` : `resume.${extension}`
       }
     ]);
     
@@ -2765,11 +2907,15 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
       let content: string | Buffer;
       
       if (format === 'json') {
-        content = JSON.stringify(resume, null, 2);
+        content = language
+          ? await this.resumeManager.export('json', undefined, language)
+          : JSON.stringify(resume, null, 2);
       } else if (format === 'html') {
-        content = await this.resumeManager.export('html', themeName);
+        content = await this.resumeManager.export('html', themeName, language);
+      } else if (format === 'jsonresume') {
+        content = await this.resumeManager.export('jsonresume', undefined, language);
       } else {
-        content = await this.resumeManager.export(format as 'md');
+        content = await this.resumeManager.export(format as 'md', undefined, language);
       }
       
       await fs.writeFile(filename, content);
@@ -2785,6 +2931,14 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
         console.log(chalk.gray('  • Open in web browser'));
         console.log(chalk.gray('  • Print to PDF'));
         console.log(chalk.gray('  • Host online'));
+      } else if (format === 'jsonresume') {
+        const { unmapped } = await this.resumeManager.toJsonResume();
+        if (unmapped.length > 0) {
+          console.log(chalk.yellow(`  ⚠️  ${unmapped.length} field(s) have no JSON Resume equivalent and were kept under "x-faj":`));
+          console.log(chalk.gray(`     ${unmapped.join(', ')}`));
+        }
+        console.log(chalk.gray('  • Render it with any JSON Resume theme, e.g. npx resumed render'));
+        console.log(chalk.gray('  • Import it elsewhere with: faj import jsonresume <file>'));
       } else if (format === 'pdf') {
         console.log(chalk.gray('  • Open with any PDF viewer'));
         console.log(chalk.gray('  • Print directly'));
@@ -2796,6 +2950,36 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
     }
   }
 
+  /**
+   * Asks which language version to export when translations exist.
+   * Returns the language code, or undefined for the original.
+   */
+  private async selectExportLanguage(): Promise<string | undefined> {
+    const translationManager = TranslationManager.getInstance();
+    const languages = await translationManager.listLanguages();
+    if (languages.length === 0) {
+      return undefined;
+    }
+    
+    const choices = [{ name: 'Original', value: '' }];
+    for (const code of languages) {
+      const status = await translationManager.status(code);
+      const outdated = status ? status.stale.length + status.missing.length : 0;
+      const note = outdated > 0 ? chalk.yellow(` (${outdated} out of date)`) : '';
+      choices.push({ name: `${LANGUAGE_NAMES[code] || code}${note}`, value: code });
+    }
+    
+    const { language } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'language',
+        message: 'Language version:',
+        choices
+      }
+    ]);
+    return language || undefined;
+  }
+
   private async tailorResume(): Promise<void> {
     console.clear();
     console.log(chalk.cyan.bold('\n🎯 Tailor Resume to Job Description\n'));
@@ -2902,13 +3086,16 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
     console.log(chalk.gray(preview + (jobDescription.length > 200 ? '...' : '')));
     console.log();
 
+    const findings = PromptGuard.getInstance().scan(jobDescription);
+    this.printInjectionFindings(findings);
+
     // Confirm before proceeding
     const { confirm } = await inquirer.prompt([
       {
         type: 'confirm',
         name: 'confirm',
         message: 'Proceed with tailoring your resume to this job?',
-        default: true
+        default: findings.length === 0
       }
     ]);
 
@@ -2921,13 +3108,14 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
     const spinner = ora('Tailoring resume to job description...').start();
     
     try {
-      await this.resumeManager.tailorToJob(jobDescription);
+      const { issues } = await this.resumeManager.tailorToJob(jobDescription);
       spinner.succeed('Resume tailored successfully!');
       
       console.log(chalk.green('\n✓ Your resume has been tailored to the job description'));
       console.log(chalk.gray('  • Work experiences optimized'));
       console.log(chalk.gray('  • Projects reordered by relevance'));
       console.log(chalk.gray('  • Summary updated with relevant keywords\n'));
+      this.printTailorIssues(issues);
 
       // Ask if user wants to export
       const { shouldExport } = await inquirer.prompt([
@@ -3004,6 +3192,12 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
     if (currentAI?.apiKeys) {
       configuredProviders.push(...Object.keys(currentAI.apiKeys));
     }
+    // Keyless providers (local OpenAI-compatible servers) are tracked by base URL
+    if (currentAI?.baseURLs) {
+      Object.keys(currentAI.baseURLs)
+        .filter(p => !configuredProviders.includes(p))
+        .forEach(p => configuredProviders.push(p));
+    }
     
     if (configuredProviders.length > 0) {
       console.log(chalk.cyan('\n📦 Configured AI Providers:'));
@@ -3024,6 +3218,12 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
           { name: '🔄 Switch Active Provider', value: 'switch' },
           { name: '🔑 Update API Keys', value: 'keys' },
           { name: '🎯 Configure Models', value: 'models' },
+          { name: '🪂 Configure Fallback Order', value: 'fallbacks' },
+          { name: '⏱️  Configure Timeouts', value: 'timeouts' },
+          { name: '🛡️  Fabrication Guard', value: 'guard' },
+          { name: '📐 Match Scoring', value: 'scoring' },
+          { name: '🎲 Compared Versions', value: 'variants' },
+          { name: '🔒 Privacy Redaction', value: 'redaction' },
           { name: '❌ Remove Provider', value: 'remove' },
           { name: '← Back', value: 'back' }
         ]
@@ -3041,16 +3241,54 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
           choices: [
             { name: '✨ Google Gemini (gemini-2.5-pro)', value: 'gemini', checked: false },
             { name: '🧠 OpenAI (gpt-5)', value: 'openai', checked: false },
-            { name: '🚀 DeepSeek (deepseek-reasoner)', value: 'deepseek', checked: false }
+            { name: '🚀 DeepSeek (deepseek-reasoner)', value: 'deepseek', checked: false },
+            { name: '🎭 Anthropic Claude (claude-sonnet-4)', value: 'anthropic', checked: false },
+            { name: '🏠 OpenAI-Compatible (Ollama, llama.cpp, vLLM)', value: 'openai-compatible', checked: false }
           ],
           validate: input => input.length > 0 || 'Please select at least one provider'
         }
       ]);
       
+      // Models picked while configuring, e.g. for local servers
+      const configuredModels: { [key: string]: string } = {};
+      
       // Configure each selected provider
       for (const provider of providers) {
         console.log(chalk.cyan(`\nConfiguring ${provider}...`));
         
+        if (provider === 'openai-compatible') {
+          const { baseURL, model, apiKey } = await inquirer.prompt([
+            {
+              type: 'input',
+              name: 'baseURL',
+              message: 'Server base URL:',
+              default: currentAI?.baseURLs?.['openai-compatible'] || 'http://localhost:11434/v1',
+              validate: input => /^https?:\/\//.test(input) || 'Please enter an http(s) URL'
+            },
+            {
+              type: 'input',
+              name: 'model',
+              message: 'Model name (as served by the server):',
+              default: currentAI?.models?.['openai-compatible'] || 'llama3.1',
+              validate: input => input.trim().length > 0 || 'Model name is required'
+            },
+            {
+              type: 'password',
+              name: 'apiKey',
+              message: 'API key (optional, press Enter to skip):',
+              mask: '*'
+            }
+          ]);
+          
+          await this.configManager.setAIBaseURL(provider, baseURL.trim());
+          if (apiKey) {
+            await this.configManager.setAIApiKey(provider, apiKey);
+          }
+          configuredModels[provider] = model.trim();
+          console.log(chalk.green(`✓ ${provider} configured (${baseURL.trim()})`));
+          continue;
+        }
+        
         const { apiKey } = await inquirer.prompt([
           {
             type: 'password',
@@ -3076,6 +3314,8 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
             choices: providers.map((p: string) => ({
               name: p === 'gemini' ? 'Gemini (gemini-2.5-pro)' : 
                     p === 'openai' ? 'OpenAI (gpt-5)' : 
+                    p === 'anthropic' ? 'Anthropic (claude-sonnet-4)' :
+                    p === 'openai-compatible' ? `OpenAI-Compatible (${configuredModels[p]})` :
                     'DeepSeek (deepseek-reasoner)',
               value: p
             }))
@@ -3086,13 +3326,16 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
         const defaultModels: { [key: string]: string } = {
           'gemini': 'gemini-2.5-pro',
           'openai': 'gpt-5',
-          'deepseek': 'deepseek-reasoner'
+          'deepseek': 'deepseek-reasoner',
+          'anthropic': 'claude-sonnet-4-20250514'
         };
         
+        // Re-read so base URLs/keys saved above aren't overwritten
+        const latestAI = await this.configManager.get('ai');
         await this.configManager.set('ai', {
-          ...currentAI,
+          ...latestAI,
           provider: activeProvider,
-          models: defaultModels  // Store all default models
+          models: { ...defaultModels, ...configuredModels }  // Store all default models
         });
         
         console.log(chalk.green(`\n✓ All providers configured! ${activeProvider} is now active.\n`));
@@ -3112,6 +3355,8 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
             name: p === 'gemini' ? 'Gemini (gemini-2.5-pro)' : 
                   p === 'openai' ? 'OpenAI (gpt-5)' : 
                   p === 'deepseek' ? 'DeepSeek (deepseek-reasoner)' :
+                  p === 'anthropic' ? 'Anthropic (claude-sonnet-4)' :
+                  p === 'openai-compatible' ? `OpenAI-Compatible (${currentAI?.models?.[p] || 'llama3.1'})` :
                   p,
             value: p
           }))
@@ -3121,7 +3366,8 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
       const defaultModels: { [key: string]: string } = {
         'gemini': 'gemini-2.5-pro',
         'openai': 'gpt-5',
-        'deepseek': 'deepseek-reasoner'
+        'deepseek': 'deepseek-reasoner',
+        'anthropic': 'claude-sonnet-4-20250514'
       };
       
       await this.configManager.set('ai', {
@@ -3181,9 +3427,55 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
           { name: 'DeepSeek Reasoner (Default)', value: 'deepseek-reasoner' },
           { name: 'DeepSeek Chat', value: 'deepseek-chat' },
           { name: 'DeepSeek Coder', value: 'deepseek-coder' }
+        ],
+        'anthropic': [
+          { name: 'Claude Sonnet 4 (Default)', value: 'claude-sonnet-4-20250514' },
+          { name: 'Claude Opus 4.1', value: 'claude-opus-4-1-20250805' },
+          { name: 'Claude 3.5 Haiku', value: 'claude-3-5-haiku-20241022' }
         ]
       };
       
+      const { modelScope } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'modelScope',
+          message: 'What would you like to configure?',
+          choices: [
+            { name: `Default model for ${currentAI.provider}`, value: 'default' },
+            { name: 'Per-task routing (e.g. a fast model for polish)', value: 'routing' }
+          ]
+        }
+      ]);
+      
+      if (modelScope === 'routing') {
+        await this.configureModelRouting(currentAI, configuredProviders, modelChoices);
+        return;
+      }
+      
+      // Local servers serve arbitrary model names, so ask for free text
+      if (currentAI.provider === 'openai-compatible') {
+        const { model } = await inquirer.prompt([
+          {
+            type: 'input',
+            name: 'model',
+            message: 'Model name (as served by the server):',
+            default: currentAI.models?.['openai-compatible'] || 'llama3.1',
+            validate: input => input.trim().length > 0 || 'Model name is required'
+          }
+        ]);
+        
+        await this.configManager.set('ai', {
+          ...currentAI,
+          models: {
+            ...currentAI.models,
+            'openai-compatible': model.trim()
+          }
+        });
+        
+        console.log(chalk.green(`\n✓ Model for openai-compatible updated to ${model.trim()}\n`));
+        return;
+      }
+      
       const choices = modelChoices[currentAI.provider] || [];
       
       if (choices.length === 0) {
@@ -3194,7 +3486,8 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
       const currentModel = currentAI.models?.[currentAI.provider] || 
                           (currentAI.provider === 'gemini' ? 'gemini-2.5-pro' :
                            currentAI.provider === 'openai' ? 'gpt-5' :
-                           currentAI.provider === 'deepseek' ? 'deepseek-reasoner' : '');
+                           currentAI.provider === 'deepseek' ? 'deepseek-reasoner' :
+                           currentAI.provider === 'anthropic' ? 'claude-sonnet-4-20250514' : '');
       
       const { model } = await inquirer.prompt([
         {
@@ -3218,6 +3511,166 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
       });
       
       console.log(chalk.green(`\n✓ Model for ${currentAI.provider} updated to ${model}\n`));
+    } else if (action === 'fallbacks') {
+      const candidates = configuredProviders.filter(p => p !== currentAI?.provider);
+      if (!currentAI?.provider || candidates.length === 0) {
+        console.log(chalk.yellow('\n⚠️  Configure at least two providers to set up fallbacks.\n'));
+        return;
+      }
+      
+      if (currentAI.fallbacks?.length) {
+        console.log(chalk.gray(`\nCurrent order: ${[currentAI.provider, ...currentAI.fallbacks].join(' → ')}`));
+      }
+      console.log(chalk.gray('When a provider is rate-limited or its key is rejected, FAJ moves on to the next one.\n'));
+      
+      // Pick fallbacks one at a time so the selection order becomes the chain order
+      const fallbacks: string[] = [];
+      while (fallbacks.length < candidates.length) {
+        const remaining = candidates.filter(p => !fallbacks.includes(p));
+        const { next } = await inquirer.prompt([
+          {
+            type: 'list',
+            name: 'next',
+            message: `Fallback #${fallbacks.length + 1}:`,
+            choices: [
+              ...remaining.map(p => ({ name: p, value: p })),
+              { name: fallbacks.length === 0 ? '✗ No fallbacks' : '✓ Done', value: 'done' }
+            ]
+          }
+        ]);
+        
+        if (next === 'done') break;
+        fallbacks.push(next);
+      }
+      
+      await this.configManager.set('ai', {
+        ...currentAI,
+        fallbacks: fallbacks as AIProvider[]
+      });
+      
+      console.log(chalk.green(`\n✓ Provider order: ${[currentAI.provider, ...fallbacks].join(' → ')}\n`));
+    } else if (action === 'timeouts') {
+      const current: Record<string, number> = (currentAI as any)?.timeouts || {};
+      console.log(chalk.gray('\nSeconds each AI request may run before it is cancelled. Use 0 for no limit.\n'));
+      
+      const tasks = Object.keys(DEFAULT_TIMEOUTS).filter(task => task !== 'default') as Array<keyof typeof DEFAULT_TIMEOUTS>;
+      const answers = await inquirer.prompt(
+        tasks.map(task => ({
+          type: 'number',
+          name: task,
+          message: `${task}:`,
+          default: current[task] ?? DEFAULT_TIMEOUTS[task],
+          validate: (value: number) => (value >= 0 ? true : 'Enter 0 or a positive number of seconds'),
+        }))
+      );
+      
+      await this.configManager.setNested('ai.timeouts', { ...current, ...answers });
+      console.log(chalk.green('\n✓ Timeouts updated\n'));
+    } else if (action === 'guard') {
+      const { mode } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'mode',
+          message: 'When AI output contains numbers, names or technologies you never wrote:',
+          choices: [
+            { name: '⚠️  Warn and ask before accepting (recommended)', value: 'warn' },
+            { name: '🚫 Strict: reject the AI output', value: 'strict' },
+            { name: '○  Off: do not check', value: 'off' }
+          ],
+          default: (currentAI as any)?.fabricationGuard || 'warn'
+        }
+      ]);
+      
+      await this.configManager.setNested('ai.fabricationGuard', mode);
+      console.log(chalk.green(`\n✓ Fabrication guard set to ${mode}\n`));
+    } else if (action === 'scoring') {
+      const { scoring } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'scoring',
+          message: 'How should resume-to-job match scores be calculated?',
+          choices: [
+            { name: '🤖 AI provider', value: 'llm' },
+            { name: '💻 Local: offline and reproducible, no API calls', value: 'local' },
+            { name: '⚖️  Hybrid: average of AI and local scores', value: 'hybrid' }
+          ],
+          default: (currentAI as any)?.matchScoring || 'llm'
+        }
+      ]);
+      
+      await this.configManager.setNested('ai.matchScoring', scoring);
+      console.log(chalk.green(`\n✓ Match scoring set to ${scoring}\n`));
+    } else if (action === 'variants') {
+      const current = await this.aiManager.getVariantOptions();
+      console.log(chalk.gray('\nUsed by "Compare several AI versions". Temperatures and providers are assigned in turn to each version.\n'));
+      
+      const answers = await inquirer.prompt([
+        {
+          type: 'number',
+          name: 'count',
+          message: 'Versions to generate:',
+          default: current.count,
+          validate: (value: number) =>
+            (Number.isInteger(value) && value >= 2 && value <= MAX_VARIANTS) ? true : `Enter a number from 2 to ${MAX_VARIANTS}`
+        },
+        {
+          type: 'input',
+          name: 'temperatures',
+          message: 'Temperatures (comma-separated, e.g. 0.3, 0.9; empty for the provider default):',
+          default: current.temperatures?.join(', ') || '',
+          validate: (value: string) =>
+            value.split(',').map(t => t.trim()).filter(Boolean).every(t => !isNaN(Number(t)) && Number(t) >= 0 && Number(t) <= 2)
+              || 'Enter numbers between 0 and 2'
+        },
+        {
+          type: 'checkbox',
+          name: 'providers',
+          message: 'Spread across providers (none selected: use the active provider):',
+          choices: configuredProviders.map(p => ({ name: p, value: p, checked: current.providers?.includes(p as AIProvider) }))
+        }
+      ]);
+      
+      const temperatures = (answers.temperatures as string).split(',').map(t => t.trim()).filter(Boolean).map(Number);
+      await this.configManager.setNested('ai.variants', {
+        count: answers.count,
+        ...(temperatures.length ? { temperatures } : {}),
+        ...(answers.providers.length ? { providers: answers.providers } : {})
+      });
+      console.log(chalk.green(`\n✓ ${answers.count} versions per comparison\n`));
+    } else if (action === 'redaction') {
+      console.log(chalk.gray('\nRedacted values are replaced with placeholders before a request is sent and restored in the response.\n'));
+      
+      const { scope } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'scope',
+          message: 'Apply to:',
+          choices: [
+            { name: 'All cloud providers (local servers are set on their own)', value: 'all' },
+            ...configuredProviders.map(p => ({ name: `Only ${p}`, value: p }))
+          ]
+        }
+      ]);
+      
+      const settings = await Redactor.getInstance().getSettings(scope === 'all' ? '' : scope);
+      const { redact } = await inquirer.prompt([
+        {
+          type: 'checkbox',
+          name: 'redact',
+          message: 'Redact before sending:',
+          choices: [
+            { name: 'Personal details (name, email, phone, location, profile links)', value: 'enabled', checked: settings.enabled },
+            { name: 'Company names from work experience', value: 'companies', checked: settings.companies }
+          ]
+        }
+      ]);
+      
+      const value = { enabled: redact.includes('enabled'), companies: redact.includes('companies') };
+      await this.configManager.setNested(
+        scope === 'all' ? 'ai.redaction' : `ai.redaction.providers.${scope}`,
+        scope === 'all' ? { ...(currentAI as any)?.redaction, ...value } : value
+      );
+      console.log(chalk.green(`\n✓ Redaction updated for ${scope === 'all' ? 'all providers' : scope}\n`));
     } else if (action === 'remove') {
       if (configuredProviders.length === 0) {
         console.log(chalk.yellow('\n⚠️  No providers to remove.\n'));
@@ -3235,19 +3688,27 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
       
       if (toRemove.length > 0) {
         const newApiKeys = { ...currentAI?.apiKeys };
-        toRemove.forEach((p: string) => delete newApiKeys[p]);
+        const newBaseURLs = { ...currentAI?.baseURLs };
+        toRemove.forEach((p: string) => {
+          delete newApiKeys[p];
+          delete newBaseURLs[p];
+        });
         
         // If we're removing the active provider, clear it
         let newProvider = currentAI?.provider;
         if (toRemove.includes(currentAI?.provider || '')) {
-          const remaining = Object.keys(newApiKeys);
+          const remaining = configuredProviders.filter(p => !toRemove.includes(p));
           newProvider = remaining.length > 0 ? remaining[0] as AIProvider : undefined;
         }
         
         await this.configManager.set('ai', newProvider ? {
           ...currentAI,
           provider: newProvider,
-          apiKeys: newApiKeys
+          apiKeys: newApiKeys,
+          baseURLs: newBaseURLs,
+          fallbacks: (currentAI?.fallbacks || []).filter(
+            (p: AIProvider) => !toRemove.includes(p) && p !== newProvider
+          )
         } : undefined);
         
         console.log(chalk.green(`\n✓ Removed ${toRemove.join(', ')}\n`));
@@ -3919,4 +4380,198 @@ IMPORTANT: Generate the ENTIRE summary in ${languageName} language.`;
       console.log(chalk.red('\n✗ Failed to delete resume. Please try again.\n'));
     }
   }
+
+  /**
+   * Runs an AI call and echoes its output as it streams in. The spinner
+   * stays up until the first chunk arrives. Ctrl-C aborts the request
+   * rather than the whole CLI; in that case undefined is returned.
+   */
+  /**
+   * Edits `ai.routing`, the table that sends each AI task to a specific
+   * provider and model. Unrouted tasks use the active provider.
+   */
+  private async configureModelRouting(
+    currentAI: any,
+    configuredProviders: string[],
+    modelChoices: { [key: string]: Array<{name: string, value: string}> }
+  ): Promise<void> {
+    if (configuredProviders.length === 0) {
+      console.log(chalk.yellow('\n⚠️  Configure a provider first.\n'));
+      return;
+    }
+    
+    const routing: Record<string, ModelRoute> = { ...(currentAI.routing || {}) };
+    const describe = (task: AITaskType) => {
+      const route = routing[task];
+      return route ? `${route.provider}${route.model ? ` / ${route.model}` : ''}` : chalk.gray(`default (${currentAI.provider})`);
+    };
+    
+    for (;;) {
+      const { task } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'task',
+          message: 'Select a task to route:',
+          choices: [
+            ...AI_TASK_TYPES.map(t => ({ name: `${t.padEnd(9)} → ${describe(t)}`, value: t })),
+            new inquirer.Separator('──────────────'),
+            { name: '✓ Save', value: 'save' },
+            { name: '← Cancel', value: 'cancel' }
+          ]
+        }
+      ]);
+      
+      if (task === 'cancel') return;
+      if (task === 'save') break;
+      
+      const { provider } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'provider',
+          message: `Provider for ${task}:`,
+          choices: [
+            { name: `Use default (${currentAI.provider})`, value: 'default' },
+            ...configuredProviders.map(p => ({ name: p, value: p }))
+          ],
+          default: routing[task]?.provider || 'default'
+        }
+      ]);
+      
+      if (provider === 'default') {
+        delete routing[task];
+        continue;
+      }
+      
+      let model: string;
+      const choices = modelChoices[provider] || [];
+      if (choices.length > 0) {
+        ({ model } = await inquirer.prompt([
+          {
+            type: 'list',
+            name: 'model',
+            message: `Model for ${task}:`,
+            choices,
+            default: routing[task]?.model || currentAI.models?.[provider]
+          }
+        ]));
+      } else {
+        // Local servers serve arbitrary model names
+        ({ model } = await inquirer.prompt([
+          {
+            type: 'input',
+            name: 'model',
+            message: `Model for ${task} (as served by the server):`,
+            default: routing[task]?.model || currentAI.models?.[provider] || '',
+            validate: (input: string) => input.trim().length > 0 || 'Model name is required'
+          }
+        ]));
+        model = model.trim();
+      }
+      
+      routing[task] = { provider: provider as AIProvider, model };
+    }
+    
+    await this.configManager.setNested('ai.routing', routing);
+    console.log(chalk.green('\n✓ Task routing saved\n'));
+  }
+
+  /**
+   * Lists claims in AI output that the fabrication guard couldn't trace
+   * back to the user's own description.
+   */
+  private printUnverifiedClaims(claims?: UnsupportedClaim[]): void {
+    if (!claims?.length) return;
+    
+    console.log(chalk.yellow(`\n⚠️  ${claims.length} claim(s) not found in your original input:`));
+    claims.forEach(claim => {
+      console.log(chalk.yellow(`  • ${claim.value}`) + chalk.gray(` (${claim.kind}, ${claim.field})`));
+    });
+    console.log(chalk.gray('Only keep these if they are true. Strict mode rejects them: Configure AI → Fabrication Guard\n'));
+  }
+
+  private printInjectionFindings(findings: InjectionFinding[]): void {
+    if (!findings.length) return;
+
+    console.log(chalk.yellow(`⚠️  ${findings.length} passage(s) look like instructions to the AI rather than a job description:`));
+    findings.forEach(finding => {
+      console.log(chalk.yellow(`  • line ${finding.line}: ${finding.rule}`) + chalk.gray(` "${finding.excerpt}"`));
+    });
+    console.log(chalk.gray('The AI is told to treat the job description as data only, and the rewritten text is checked for titles, employers and years you never mentioned.\n'));
+  }
+
+  private printTailorIssues(issues: TailorIssue[]): void {
+    if (!issues.length) return;
+
+    console.log(chalk.yellow('⚠️  Kept the original wording where tailoring added titles, employers or years you never mentioned:'));
+    issues.forEach(issue => {
+      console.log(chalk.yellow(`  • ${issue.field}: added "${issue.found}"`) + chalk.gray(` (${issue.kind})`));
+    });
+    console.log();
+  }
+
+  /**
+   * Generates alternative polish results with the configured variant
+   * settings and lets the user pick one or mix several. Returns null when
+   * the user keeps the current version, undefined when cancelled.
+   */
+  private async chooseCandidate(
+    spinner: Ora,
+    generate: (variants: VariantOptions) => Promise<PolishCandidate[]>
+  ): Promise<PickedPolish | null | undefined> {
+    const variants = await this.aiManager.getVariantOptions();
+    const candidates = await this.withStreaming(spinner, (stream) => generate({ ...variants, signal: stream.signal }));
+    if (candidates === undefined) {
+      return undefined;
+    }
+    if (candidates.length === 0) {
+      spinner.fail('No versions were generated');
+      return null;
+    }
+    spinner.succeed(`Generated ${candidates.length} version${candidates.length === 1 ? '' : 's'}`);
+    return CandidatePicker.pickPolish(candidates);
+  }
+
+  private async withStreaming<T>(
+    spinner: Ora,
+    run: (stream: StreamOptions) => Promise<T>,
+    options: { header?: string; dim?: boolean } = {}
+  ): Promise<T | undefined> {
+    const controller = new AbortController();
+    const onInterrupt = () => controller.abort();
+    process.on('SIGINT', onInterrupt);
+
+    let streaming = false;
+    let timedOut = false;
+    const onChunk = (text: string) => {
+      if (!streaming) {
+        streaming = true;
+        spinner.stop();
+        if (options.header) console.log(options.header);
+      }
+      process.stdout.write(options.dim ? chalk.gray(text) : text);
+    };
+
+    try {
+      return await run({ onChunk, signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        spinner.stop();
+        console.log(chalk.yellow('\n\n✋ Cancelled\n'));
+        return undefined;
+      }
+      if (error instanceof AIAbortError && error.reason === 'timeout') {
+        timedOut = true;
+        spinner.stop();
+        console.log(chalk.yellow(`\n\n⏱️  Timed out after ${Math.round((error.timeoutMs || 0) / 1000)}s`));
+        console.log(chalk.gray('Increase the limit under Configure AI → Configure Timeouts\n'));
+        return undefined;
+      }
+      throw error;
+    } finally {
+      process.removeListener('SIGINT', onInterrupt);
+      if (streaming && !controller.signal.aborted && !timedOut) {
+        process.stdout.write('\n\n');
+      }
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,226 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { JobMatcher, JobPosting, MatchReport, RequirementStatus } from '../../core/match/JobMatcher';
+import { LocalMatchScorer, LocalMatchBreakdown } from '../../core/match/LocalMatchScorer';
+import { ResumeManager } from '../../core/resume/ResumeManager';
+import { AIManager } from '../../ai/AIManager';
+import { JobRequirement } from '../../models';
+import { Logger } from '../../utils/Logger';
+
+const STATUS_ICONS: Record<RequirementStatus, string> = {
+  matched: chalk.green('✓'),
+  partial: chalk.yellow('◐'),
+  missing: chalk.red('✗'),
+};
+
+export class MatchCommand {
+  private logger: Logger;
+  private jobMatcher: JobMatcher;
+  private localScorer: LocalMatchScorer;
+  private resumeManager: ResumeManager;
+  private aiManager: AIManager;
+
+  constructor() {
+    this.logger = new Logger('MatchCommand');
+    this.jobMatcher = JobMatcher.getInstance();
+    this.localScorer = LocalMatchScorer.getInstance();
+    this.resumeManager = ResumeManager.getInstance();
+    this.aiManager = AIManager.getInstance();
+  }
+
+  register(program: Command): void {
+    program
+      .command('match <job-files...>')
+      .description('Explain how well your resume matches a job, or rank several jobs (text or JSON job requirements)')
+      .option('--local', 'Score offline without an AI provider')
+      .option('--json', 'Print the report as JSON')
+      .option('--no-save', 'Do not save the report with the resume')
+      .action(async (jobFiles: string[], options) => {
+        try {
+          // The full report needs an AI provider; without one, score offline
+          if (jobFiles.length === 1 && !options.local) {
+            await this.aiManager.initialize();
+            if (!(await this.aiManager.hasProvider('match'))) {
+              if (!options.json) {
+                console.log(chalk.yellow('⚠️  No AI provider available, scoring offline instead (configure one with: faj config)'));
+              }
+              options.local = true;
+            }
+          }
+          if (jobFiles.length === 1 && !options.local) {
+            await this.match(jobFiles[0], options);
+          } else {
+            await this.rank(jobFiles, options);
+          }
+        } catch (error) {
+          this.logger.error('Failed to match resume', error);
+          process.exit(1);
+        }
+      });
+  }
+
+  private async match(jobFile: string, options: any): Promise<void> {
+    const job = await this.readJob(jobFile);
+    const resume = await this.resumeManager.get();
+    if (!resume) {
+      console.log(chalk.red('✗ No resume found. Run faj to create one first.'));
+      return;
+    }
+
+    if (!options.json) {
+      console.log(chalk.cyan(`\n🎯 Matching your resume against ${job.title}...\n`));
+    }
+    const report = await this.jobMatcher.match(resume, job);
+
+    if (options.save) {
+      await this.resumeManager.saveMatchReport(report);
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    this.printReport(report);
+    if (options.save) {
+      console.log(chalk.gray('\nReport saved with your resume.'));
+    }
+  }
+
+  /**
+   * Scores every job with the configured match scoring (or offline with
+   * --local) and lists them best first.
+   */
+  private async rank(jobFiles: string[], options: any): Promise<void> {
+    const resume = await this.resumeManager.get();
+    if (!resume) {
+      console.log(chalk.red('✗ No resume found. Run faj to create one first.'));
+      return;
+    }
+    if (!options.local) {
+      await this.aiManager.initialize();
+    }
+
+    const results: Array<{ file: string; title: string; score: number; breakdown?: LocalMatchBreakdown }> = [];
+    for (const file of jobFiles) {
+      const job = await this.readJob(file);
+      const requirement = this.toRequirement(job);
+      if (options.local) {
+        const breakdown = this.localScorer.explain(resume, requirement);
+        results.push({ file, title: job.title, score: breakdown.score, breakdown });
+      } else {
+        results.push({ file, title: job.title, score: await this.aiManager.matchScore(resume, requirement) });
+      }
+    }
+    results.sort((a, b) => b.score - a.score);
+
+    if (options.json) {
+      console.log(JSON.stringify(results, null, 2));
+      return;
+    }
+
+    const scoring = options.local ? 'local' : await this.aiManager.getMatchScoring();
+    console.log(chalk.cyan(`\n🎯 Job ranking (${scoring} scoring)\n`));
+    results.forEach((result, i) => {
+      const color = result.score >= 75 ? chalk.green : result.score >= 50 ? chalk.yellow : chalk.red;
+      console.log(`${String(i + 1).padStart(2)}. ${color.bold(String(result.score).padStart(3))}  ${result.title} ${chalk.gray(`(${result.file})`)}`);
+      if (result.breakdown) {
+        this.printBreakdown(result.breakdown);
+      }
+    });
+  }
+
+  private printBreakdown(breakdown: LocalMatchBreakdown): void {
+    const details = [`relevance ${breakdown.relevance}`];
+    if (breakdown.skills) {
+      details.unshift(`skills ${breakdown.skills.matched.length}/${breakdown.skills.required.length}`);
+    }
+    if (breakdown.experience) {
+      details.push(`${breakdown.experience.years}/${breakdown.experience.requiredYears} years`);
+    }
+    console.log(chalk.gray(`         ${details.join(' · ')}`));
+    if (breakdown.skills?.missing.length) {
+      console.log(chalk.gray(`         missing: ${breakdown.skills.missing.join(', ')}`));
+    }
+  }
+
+  /**
+   * A free-text job has no structured requirement, so its skills and years
+   * are picked out of the description locally.
+   */
+  private toRequirement(job: JobPosting): JobRequirement {
+    if (job.requirement) {
+      return job.requirement;
+    }
+    return {
+      title: job.title,
+      company: job.company,
+      description: job.description,
+      requirements: this.localScorer.extractRequirements(job.description || ''),
+    } as JobRequirement;
+  }
+
+  /**
+   * A JSON file is treated as a structured job requirement; anything else
+   * is a pasted job description whose first line is used as the title.
+   */
+  private async readJob(jobFile: string): Promise<JobPosting> {
+    const text = await fs.readFile(jobFile, 'utf-8');
+    const fallbackTitle = path.basename(jobFile, path.extname(jobFile));
+
+    if (path.extname(jobFile).toLowerCase() === '.json') {
+      const data = JSON.parse(text);
+      return {
+        title: data.title || fallbackTitle,
+        company: data.company,
+        description: typeof data.description === 'string' ? data.description : undefined,
+        requirement: data,
+      };
+    }
+
+    const firstLine = text.split('\n').map((line) => line.trim()).find(Boolean);
+    if (!firstLine) {
+      throw new Error(`Job file is empty: ${jobFile}`);
+    }
+    return {
+      title: firstLine.length <= 80 ? firstLine : fallbackTitle,
+      description: text.trim(),
+    };
+  }
+
+  private printReport(report: MatchReport): void {
+    const color = report.score >= 75 ? chalk.green : report.score >= 50 ? chalk.yellow : chalk.red;
+    const job = report.job.company ? `${report.job.title} at ${report.job.company}` : report.job.title;
+    console.log(chalk.white.bold(`${job}`));
+    console.log(`Match score: ${color.bold(`${report.score}/100`)}\n`);
+
+    console.log(chalk.cyan('Sub-scores'));
+    for (const sub of report.subScores) {
+      const bar = '█'.repeat(Math.round(sub.score / 10)).padEnd(10, '░');
+      console.log(`  ${sub.name.padEnd(13)} ${bar} ${String(sub.score).padStart(3)}  ${chalk.gray(`× ${Math.round(sub.weight * 100)}%`)}`);
+    }
+
+    console.log(chalk.cyan('\nRequirements'));
+    for (const r of report.requirements) {
+      console.log(`  ${STATUS_ICONS[r.status]} ${r.requirement}`);
+      if (r.evidence.length > 0) {
+        console.log(chalk.gray(`      evidence: ${r.evidence.join('; ')}`));
+      }
+      if (r.reason) {
+        console.log(chalk.gray(`      ${r.reason}`));
+      }
+    }
+
+    if (report.keywords.length > 0) {
+      const covered = report.keywords.filter((k) => k.covered);
+      console.log(chalk.cyan(`\nKeywords (${covered.length}/${report.keywords.length} covered)`));
+      console.log(`  ${report.keywords.map((k) => (k.covered ? chalk.green(k.keyword) : chalk.red(k.keyword))).join(chalk.gray(', '))}`);
+      const missing = report.keywords.filter((k) => !k.covered);
+      if (missing.length > 0) {
+        console.log(chalk.gray(`  Not found in your resume: ${missing.map((k) => k.keyword).join(', ')}`));
+      }
+    }
+  }
+}
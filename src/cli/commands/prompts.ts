@@ -0,0 +1,131 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { PromptRegistry } from '../../ai/prompts/PromptRegistry';
+import { Logger } from '../../utils/Logger';
+
+export class PromptsCommand {
+  private logger: Logger;
+  private registry: PromptRegistry;
+
+  constructor() {
+    this.logger = new Logger('PromptsCommand');
+    this.registry = PromptRegistry.getInstance();
+  }
+
+  register(program: Command): void {
+    const prompts = program
+      .command('prompts')
+      .description('Manage the prompt templates sent to AI providers');
+
+    prompts
+      .command('list')
+      .description('List prompt templates and whether they are overridden')
+      .action(async () => {
+        try {
+          await this.list();
+        } catch (error) {
+          this.logger.error('Failed to list prompt templates', error);
+          process.exit(1);
+        }
+      });
+
+    prompts
+      .command('show <name>')
+      .description('Print a prompt template and its variables')
+      .action(async (name) => {
+        try {
+          await this.show(name);
+        } catch (error) {
+          this.logger.error('Failed to show prompt template', error);
+          process.exit(1);
+        }
+      });
+
+    prompts
+      .command('edit <name>')
+      .description('Copy a built-in template to ~/.faj/prompts/ for editing')
+      .action(async (name) => {
+        try {
+          if (!this.ensureExists(name)) return;
+          const filePath = await this.registry.customize(name);
+          console.log(chalk.green(`✓ Edit ${filePath}`));
+          console.log(chalk.gray('Changes apply on the next run. Restore the default with: faj prompts reset ' + name));
+        } catch (error) {
+          this.logger.error('Failed to create prompt override', error);
+          process.exit(1);
+        }
+      });
+
+    prompts
+      .command('reset [name]')
+      .description('Remove a user override and restore the built-in template')
+      .option('--all', 'Reset every overridden template')
+      .action(async (name, options) => {
+        try {
+          await this.reset(name, !!options.all);
+        } catch (error) {
+          this.logger.error('Failed to reset prompt template', error);
+          process.exit(1);
+        }
+      });
+  }
+
+  private async list(): Promise<void> {
+    const templates = await this.registry.list();
+    const width = Math.max(...templates.map((t) => t.name.length));
+
+    console.log(chalk.cyan('\n📝 Prompt Templates\n'));
+    for (const template of templates) {
+      const marker = template.overridden ? chalk.yellow(' (overridden)') : '';
+      console.log(`${chalk.white(template.name.padEnd(width))}  ${chalk.gray(template.description)}${marker}`);
+    }
+    console.log();
+    console.log(chalk.gray('Override a template with: faj prompts edit <name>'));
+  }
+
+  private async show(name: string): Promise<void> {
+    if (!this.ensureExists(name)) return;
+
+    const template = await this.registry.get(name);
+    console.log(chalk.cyan(`\n📝 ${template.name}`), template.overridden ? chalk.yellow(`(overridden: ${template.overridePath})`) : chalk.gray('(built-in)'));
+    console.log(chalk.gray(template.description));
+    if (template.variables.length > 0) {
+      console.log(chalk.white('Variables:'), template.variables.map((v) => `{{${v}}}`).join(', '));
+    }
+    console.log(chalk.gray('─'.repeat(60)));
+    console.log(template.template || chalk.gray('(empty)'));
+    console.log(chalk.gray('─'.repeat(60)));
+  }
+
+  private async reset(name: string | undefined, all: boolean): Promise<void> {
+    if (all) {
+      let count = 0;
+      for (const template of await this.registry.list()) {
+        if (await this.registry.reset(template.name)) count++;
+      }
+      console.log(chalk.green(`✓ Reset ${count} template${count === 1 ? '' : 's'}`));
+      return;
+    }
+
+    if (!name) {
+      console.log(chalk.yellow('Specify a template name or --all'));
+      return;
+    }
+    if (!this.ensureExists(name)) return;
+
+    if (await this.registry.reset(name)) {
+      console.log(chalk.green(`✓ ${name} restored to the built-in template`));
+    } else {
+      console.log(chalk.gray(`${name} is not overridden`));
+    }
+  }
+
+  private ensureExists(name: string): boolean {
+    if (!this.registry.has(name)) {
+      console.log(chalk.red(`✗ Unknown template: ${name}`));
+      console.log(chalk.gray('See available templates with: faj prompts list'));
+      return false;
+    }
+    return true;
+  }
+}
@@ -4,14 +4,21 @@ import ora from 'ora';
 import inquirer from 'inquirer';
 import { Logger } from '../../utils/Logger';
 import { ResumeManager } from '../../core/resume/ResumeManager';
+import { DEFAULT_VARIANT, ResumeVariantManager, VariantSelection } from '../../core/resume/ResumeVariantManager';
+import { ExperienceManager } from '../../core/experience/ExperienceManager';
+import { ProjectManager } from '../../core/project/ProjectManager';
+import { FieldChange } from '../../core/resume/FieldDiff';
+import { InjectionFinding, PromptGuard, TailorIssue } from '../../ai/PromptGuard';
 
 export class ResumeCommand {
   private logger: Logger;
   private resumeManager: ResumeManager;
+  private variantManager: ResumeVariantManager;
 
   constructor() {
     this.logger = new Logger('ResumeCommand');
     this.resumeManager = ResumeManager.getInstance();
+    this.variantManager = ResumeVariantManager.getInstance();
   }
 
   register(program: Command): void {
@@ -58,7 +65,7 @@ export class ResumeCommand {
 
     resume
       .command('export <format>')
-      .description('Export resume (json, md, html)')
+      .description('Export resume (json, jsonresume, md, html)')
       .option('-o, --output <file>', 'Output file name')
       .action(async (format: string, options) => {
         try {
@@ -82,6 +89,97 @@ export class ResumeCommand {
           process.exit(1);
         }
       });
+
+    resume
+      .command('new <name>')
+      .description('Create a named resume variant from your experiences and projects')
+      .option('-e, --experiences <ids>', 'Comma-separated experience ids, in resume order')
+      .option('-p, --projects <ids>', 'Comma-separated project ids, in resume order')
+      .option('-u, --use', 'Switch to the new variant')
+      .action(async (name: string, options) => {
+        try {
+          await this.createVariant(name, options);
+        } catch (error) {
+          this.logger.error('Failed to create resume variant', error);
+          process.exit(1);
+        }
+      });
+
+    resume
+      .command('select <name>')
+      .description('Change the experiences and projects of a resume variant')
+      .option('-e, --experiences <ids>', 'Comma-separated experience ids, in resume order')
+      .option('-p, --projects <ids>', 'Comma-separated project ids, in resume order')
+      .action(async (name: string, options) => {
+        try {
+          await this.selectVariant(name, options);
+        } catch (error) {
+          this.logger.error('Failed to update resume variant', error);
+          process.exit(1);
+        }
+      });
+
+    resume
+      .command('use <name>')
+      .description(`Switch to a resume variant ("${DEFAULT_VARIANT}" for the original resume)`)
+      .action(async (name: string) => {
+        try {
+          await this.variantManager.use(name);
+          console.log(chalk.green(`✓ Now using resume: ${name}`));
+        } catch (error) {
+          this.logger.error('Failed to switch resume variant', error);
+          process.exit(1);
+        }
+      });
+
+    resume
+      .command('history')
+      .description('List saved versions of the resume')
+      .action(async () => {
+        try {
+          await this.history();
+        } catch (error) {
+          this.logger.error('Failed to show resume history', error);
+          process.exit(1);
+        }
+      });
+
+    resume
+      .command('diff <from> [to]')
+      .description('Show field-level changes between two versions (to the current resume when [to] is omitted)')
+      .action(async (from: string, to?: string) => {
+        try {
+          await this.diff(this.parseVersion(from), to === undefined ? undefined : this.parseVersion(to));
+        } catch (error) {
+          this.logger.error('Failed to compare resume versions', error);
+          process.exit(1);
+        }
+      });
+
+    resume
+      .command('rollback <version>')
+      .description('Restore an earlier version of the resume')
+      .option('-y, --yes', 'Skip the confirmation')
+      .action(async (version: string, options) => {
+        try {
+          await this.rollback(this.parseVersion(version), options);
+        } catch (error) {
+          this.logger.error('Failed to roll back resume', error);
+          process.exit(1);
+        }
+      });
+
+    resume
+      .command('list')
+      .description('List resume variants')
+      .action(async () => {
+        try {
+          await this.listVariants();
+        } catch (error) {
+          this.logger.error('Failed to list resume variants', error);
+          process.exit(1);
+        }
+      });
   }
 
   private async show(options: any): Promise<void> {
@@ -105,7 +203,8 @@ export class ResumeCommand {
     }
 
     // Text format
-    console.log(chalk.cyan('\n📄 Your Resume\n'));
+    const variant = await this.resumeManager.getActiveVariant();
+    console.log(chalk.cyan(`\n📄 Your Resume${variant ? ` (${variant.name})` : ''}\n`));
     console.log(chalk.gray('─'.repeat(50)));
     
     // Basic Information
@@ -358,14 +457,32 @@ export class ResumeCommand {
       process.exit(1);
     }
 
+    const findings = PromptGuard.getInstance().scan(jobDescription);
+    if (findings.length > 0) {
+      this.printInjectionFindings(findings);
+      const { proceed } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'proceed',
+          message: 'Tailor to this job description anyway?',
+          default: false,
+        },
+      ]);
+      if (!proceed) {
+        console.log(chalk.yellow('Tailoring cancelled.'));
+        return;
+      }
+    }
+
     const spinner = ora('Tailoring resume to job description...').start();
     
     try {
-      await this.resumeManager.tailorToJob(jobDescription);
+      const { issues } = await this.resumeManager.tailorToJob(jobDescription);
       spinner.succeed('Resume tailored successfully!');
       
       console.log(chalk.green('\n✓ Resume has been tailored to the job description'));
       console.log(chalk.gray('Your experiences and projects have been optimized to match the job requirements.'));
+      this.printTailorIssues(issues);
       
       // Ask if user wants to export
       const { shouldExport } = await inquirer.prompt([
@@ -401,8 +518,261 @@ export class ResumeCommand {
     }
   }
 
+  private printInjectionFindings(findings: InjectionFinding[]): void {
+    console.log(chalk.yellow(`\n⚠️  The job description contains ${findings.length} passage(s) that look like instructions to the AI:`));
+    findings.forEach((finding) => {
+      console.log(chalk.yellow(`  • line ${finding.line}: ${finding.rule}`) + chalk.gray(` "${finding.excerpt}"`));
+    });
+    console.log(chalk.gray('The AI is told to treat the job description as data only, and the rewritten text is checked for titles, employers and years you never mentioned.\n'));
+  }
+
+  private printTailorIssues(issues: TailorIssue[]): void {
+    if (issues.length === 0) return;
+
+    console.log(chalk.yellow(`\n⚠️  Kept the original wording where tailoring added titles, employers or years you never mentioned:`));
+    issues.forEach((issue) => {
+      console.log(chalk.yellow(`  • ${issue.field}: added "${issue.found}"`) + chalk.gray(` (${issue.kind})`));
+    });
+  }
+
+  private async history(): Promise<void> {
+    const resume = await this.resumeManager.get();
+    const snapshots = await this.resumeManager.getHistory();
+    if (snapshots.length === 0) {
+      console.log(chalk.yellow('\nNo history yet. Versions are recorded the next time the resume changes.\n'));
+      return;
+    }
+
+    console.log(chalk.cyan('\n🕘 Resume History\n'));
+    for (const snapshot of [...snapshots].reverse()) {
+      const current = snapshot.version === resume?.version ? chalk.green(' ← current') : '';
+      const note = snapshot.note ? chalk.gray(` ${snapshot.note}`) : '';
+      console.log(
+        `  ${chalk.bold(`v${snapshot.version}`.padEnd(5))} ${new Date(snapshot.timestamp).toLocaleString()}  ` +
+          chalk.cyan(snapshot.operation.padEnd(8)) + note + current
+      );
+    }
+    console.log(chalk.gray('\nCompare with: faj resume diff <from> [to]   Restore with: faj resume rollback <version>\n'));
+  }
+
+  private async diff(from: number, to?: number): Promise<void> {
+    const changes = await this.resumeManager.diffVersions(from, to);
+    const target = to === undefined ? 'current' : `v${to}`;
+
+    console.log(chalk.cyan(`\n🔍 v${from} → ${target}\n`));
+    if (changes.length === 0) {
+      console.log(chalk.gray('  No differences.\n'));
+      return;
+    }
+    this.printChanges(changes);
+    console.log(chalk.gray(`${changes.length} field(s) changed\n`));
+  }
+
+  private async rollback(version: number, options: any): Promise<void> {
+    const changes = await this.resumeManager.diffVersions(version);
+    if (changes.length === 0) {
+      console.log(chalk.yellow(`\nThe resume already matches version ${version}.\n`));
+      return;
+    }
+
+    console.log(chalk.cyan(`\n⏪ Rolling back to v${version} changes:\n`));
+    this.printChanges(changes.map((change) => ({ path: change.path, before: change.after, after: change.before })));
+
+    if (!options.yes) {
+      const { confirm } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: `Restore version ${version}? The current version stays in the history.`,
+          default: true,
+        },
+      ]);
+      if (!confirm) {
+        console.log(chalk.yellow('Rollback cancelled.'));
+        return;
+      }
+    }
+
+    const restored = await this.resumeManager.rollback(version);
+    console.log(chalk.green(`\n✓ Restored version ${version} as v${restored.version}\n`));
+  }
+
+  private printChanges(changes: FieldChange[]): void {
+    const format = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+    for (const change of changes) {
+      console.log(chalk.bold(`  ${change.path}`));
+      if (Array.isArray(change.before) && Array.isArray(change.after)) {
+        // Lists of plain values: show what was taken out and what was put in
+        const before = change.before.map(format);
+        const after = change.after.map(format);
+        before.filter((item) => !after.includes(item)).forEach((item) => console.log(chalk.red(`    - ${item}`)));
+        after.filter((item) => !before.includes(item)).forEach((item) => console.log(chalk.green(`    + ${item}`)));
+        if (before.every((item) => after.includes(item)) && after.every((item) => before.includes(item))) {
+          console.log(chalk.gray('    (reordered)'));
+        }
+        continue;
+      }
+      if (change.before !== undefined) {
+        console.log(chalk.red(`    - ${format(change.before)}`));
+      }
+      if (change.after !== undefined) {
+        console.log(chalk.green(`    + ${format(change.after)}`));
+      }
+    }
+    console.log();
+  }
+
+  private parseVersion(value: string): number {
+    const version = parseInt(value.replace(/^v/i, ''), 10);
+    if (isNaN(version) || version < 1) {
+      throw new Error(`Invalid version: ${value}`);
+    }
+    return version;
+  }
+
+  private async createVariant(name: string, options: any): Promise<void> {
+    const selection = await this.chooseEntries(options);
+    const variant = await this.variantManager.create(name, selection);
+    console.log(chalk.green(`\n✓ Created resume variant "${variant.name}"`));
+    console.log(chalk.gray(`  ${variant.experienceIds.length} experience(s), ${variant.projectIds.length} project(s)`));
+
+    if (options.use) {
+      await this.variantManager.use(variant.name);
+      console.log(chalk.green(`✓ Now using resume: ${variant.name}`));
+    } else {
+      console.log('Switch to it with: ' + chalk.cyan(`faj resume use ${variant.name}`));
+    }
+  }
+
+  private async selectVariant(name: string, options: any): Promise<void> {
+    const variant = await this.variantManager.get(name);
+    if (!variant) {
+      console.log(chalk.red(`✗ Resume variant "${name}" not found`));
+      return;
+    }
+
+    const selection = await this.chooseEntries(options, variant);
+    const updated = await this.variantManager.select(name, selection);
+    console.log(chalk.green(`\n✓ Updated resume variant "${updated.name}"`));
+    console.log(chalk.gray(`  ${updated.experienceIds.length} experience(s), ${updated.projectIds.length} project(s)`));
+  }
+
+  private async listVariants(): Promise<void> {
+    const { active, variants } = await this.variantManager.list();
+
+    console.log(chalk.cyan('\n📚 Resume Variants\n'));
+    const marker = (name: string | null) => (active === name ? chalk.green('● ') : '  ');
+    console.log(`${marker(null)}${chalk.bold(DEFAULT_VARIANT)} ${chalk.gray('(original resume)')}`);
+    for (const variant of variants) {
+      console.log(
+        `${marker(variant.name)}${chalk.bold(variant.name)} ` +
+          chalk.gray(`${variant.experienceIds.length} experience(s), ${variant.projectIds.length} project(s), updated ${new Date(variant.updatedAt).toLocaleDateString()}`)
+      );
+    }
+    if (variants.length === 0) {
+      console.log(chalk.gray('\nCreate one with: faj resume new <name>'));
+    }
+    console.log();
+  }
+
+  /**
+   * Experience and project ids from the command line, or picked and
+   * ordered interactively. `current` preselects a variant's entries.
+   */
+  private async chooseEntries(options: any, current?: VariantSelection): Promise<VariantSelection> {
+    const experienceManager = ExperienceManager.getInstance();
+    const projectManager = ProjectManager.getInstance();
+    await experienceManager.load();
+    await projectManager.load();
+    const experiences = await experienceManager.getAll();
+    const projects = await projectManager.getAll();
+
+    const parseIds = (value: string, known: string[], kind: string): string[] => {
+      const ids = value.split(',').map((id) => id.trim()).filter(Boolean);
+      const unknown = ids.filter((id) => !known.includes(id));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown ${kind} id(s): ${unknown.join(', ')}`);
+      }
+      return ids;
+    };
+
+    if (options.experiences !== undefined || options.projects !== undefined) {
+      return {
+        experienceIds: options.experiences !== undefined
+          ? parseIds(options.experiences, experiences.map((e) => e.id), 'experience')
+          : current?.experienceIds || [],
+        projectIds: options.projects !== undefined
+          ? parseIds(options.projects, projects.map((p) => p.id), 'project')
+          : current?.projectIds || [],
+      };
+    }
+
+    const experienceIds = await this.pickAndOrder(
+      'experiences',
+      experiences.map((e) => ({ id: e.id, label: `${e.title} at ${e.company}` })),
+      current?.experienceIds
+    );
+    const projectIds = await this.pickAndOrder(
+      'projects',
+      projects.map((p) => ({ id: p.id, label: p.name })),
+      current?.projectIds
+    );
+    return { experienceIds, projectIds };
+  }
+
+  private async pickAndOrder(kind: string, entries: Array<{ id: string; label: string }>, current?: string[]): Promise<string[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+
+    // Entries already in the variant come first, in their current order
+    const ordered = current
+      ? [...current.map((id) => entries.find((e) => e.id === id)!).filter(Boolean), ...entries.filter((e) => !current.includes(e.id))]
+      : entries;
+    const { picked } = await inquirer.prompt([
+      {
+        type: 'checkbox',
+        name: 'picked',
+        message: `Select the ${kind} for this resume:`,
+        choices: ordered.map((entry) => ({
+          name: entry.label,
+          value: entry.id,
+          checked: current ? current.includes(entry.id) : true,
+        })),
+        pageSize: 15,
+      },
+    ]);
+
+    const selected = (picked as string[]).map((id) => entries.find((e) => e.id === id)!);
+    if (selected.length < 2) {
+      return selected.map((e) => e.id);
+    }
+
+    selected.forEach((entry, i) => console.log(chalk.gray(`  ${i + 1}. ${entry.label}`)));
+    const { order } = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'order',
+        message: `Order of the ${kind} (e.g. "3,1,2"; Enter keeps this order):`,
+        validate: (input: string) => {
+          if (!input.trim()) return true;
+          const positions = input.split(',').map((n) => parseInt(n.trim(), 10));
+          const valid = positions.length === selected.length &&
+            new Set(positions).size === positions.length &&
+            positions.every((n) => n >= 1 && n <= selected.length);
+          return valid || `Enter each number from 1 to ${selected.length} once`;
+        },
+      },
+    ]);
+
+    if (!order.trim()) {
+      return selected.map((e) => e.id);
+    }
+    return order.split(',').map((n: string) => selected[parseInt(n.trim(), 10) - 1].id);
+  }
+
   private async export(format: string, options: any): Promise<void> {
-    const validFormats = ['json', 'md', 'html'];
+    const validFormats = ['json', 'jsonresume', 'md', 'html'];
     if (!validFormats.includes(format)) {
       console.log(chalk.red(`✗ Invalid format: ${format}`));
       console.log(`Valid formats: ${validFormats.join(', ')}`);
@@ -422,7 +792,7 @@ export class ResumeCommand {
     try {
       const exported = await this.resumeManager.export(format as any);
       
-      const filename = options.output || `resume.${format}`;
+      const filename = options.output || (format === 'jsonresume' ? 'resume.jsonresume.json' : `resume.${format}`);
       const fs = await import('fs/promises');
       await fs.writeFile(filename, exported, 'utf-8');
       
@@ -0,0 +1,88 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { TranslationManager, LANGUAGE_NAMES } from '../../core/resume/TranslationManager';
+import { Logger } from '../../utils/Logger';
+
+export class TranslateCommand {
+  private logger: Logger;
+  private translationManager: TranslationManager;
+
+  constructor() {
+    this.logger = new Logger('TranslateCommand');
+    this.translationManager = TranslationManager.getInstance();
+  }
+
+  register(program: Command): void {
+    program
+      .command('translate')
+      .description('Create or refresh a translated version of your resume')
+      .option('--to <language>', `Target language: ${Object.keys(LANGUAGE_NAMES).join(', ')}`)
+      .option('--force', 'Translate every entry again, not only new and changed ones')
+      .option('--status', 'Show which translated entries are out of date')
+      .action(async (options) => {
+        try {
+          if (options.to) {
+            await this.translate(options.to, options.force);
+          } else {
+            await this.showStatus();
+          }
+        } catch (error) {
+          this.logger.error('Translation failed', error);
+          process.exit(1);
+        }
+      });
+  }
+
+  private async translate(target: string, force?: boolean): Promise<void> {
+    const language = this.translationManager.resolveLanguage(target);
+    if (!language) {
+      console.log(chalk.red(`✗ Unknown language: ${target}`));
+      console.log(chalk.gray(`Supported: ${Object.keys(LANGUAGE_NAMES).join(', ')}`));
+      return;
+    }
+
+    const spinner = ora(`Translating into ${LANGUAGE_NAMES[language]}...`).start();
+    try {
+      const { translated } = await this.translationManager.translate(language, {
+        force,
+        onProgress: (key, index, total) => {
+          spinner.text = `Translating ${key} (${index + 1}/${total})...`;
+        },
+      });
+      if (translated.length === 0) {
+        spinner.succeed(`${LANGUAGE_NAMES[language]} translation is already up to date`);
+      } else {
+        spinner.succeed(`Translated ${translated.length} entr${translated.length === 1 ? 'y' : 'ies'} into ${LANGUAGE_NAMES[language]}`);
+      }
+      console.log(chalk.gray(`\nExport it with: faj export html --lang ${language}`));
+    } catch (error) {
+      spinner.fail('Translation failed');
+      throw error;
+    }
+  }
+
+  private async showStatus(): Promise<void> {
+    const languages = await this.translationManager.listLanguages();
+    if (languages.length === 0) {
+      console.log(chalk.yellow('No translations yet. Create one with: faj translate --to ja'));
+      return;
+    }
+
+    console.log(chalk.cyan('\n🌐 Translations\n'));
+    for (const language of languages) {
+      const status = await this.translationManager.status(language);
+      if (!status) continue;
+
+      const name = LANGUAGE_NAMES[language] || language;
+      const date = new Date(status.translatedAt).toLocaleDateString();
+      const outdated = status.stale.length + status.missing.length;
+      const state = outdated === 0 ? chalk.green('✓ up to date') : chalk.yellow(`⚠️  ${outdated} out of date`);
+      console.log(`${chalk.white(`${language.padEnd(6)} ${name.padEnd(20)}`)} ${state}  ${chalk.gray(`translated ${date}`)}`);
+
+      status.stale.forEach((key) => console.log(chalk.yellow(`         stale:   ${key}`)));
+      status.missing.forEach((key) => console.log(chalk.yellow(`         missing: ${key}`)));
+    }
+    console.log(chalk.gray('\nRefresh out-of-date entries with: faj translate --to <language>'));
+  }
+}
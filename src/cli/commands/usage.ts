@@ -0,0 +1,211 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { UsageLedger, UsageGrouping, UsageTotals } from '../../ai/UsageLedger';
+import { ConfigManager } from '../../core/config/ConfigManager';
+import { Logger } from '../../utils/Logger';
+
+const GROUPINGS: UsageGrouping[] = ['day', 'provider', 'model', 'command', 'task'];
+
+export class UsageCommand {
+  private logger: Logger;
+  private usageLedger: UsageLedger;
+  private configManager: ConfigManager;
+
+  constructor() {
+    this.logger = new Logger('UsageCommand');
+    this.usageLedger = UsageLedger.getInstance();
+    this.configManager = ConfigManager.getInstance();
+  }
+
+  register(program: Command): void {
+    const usage = program
+      .command('usage')
+      .description('Show AI token usage and estimated cost')
+      .option('--by <grouping>', `Group totals by ${GROUPINGS.join(', ')}`)
+      .option('--since <date>', 'Only include usage from this date (YYYY-MM-DD)')
+      .option('--month', 'Only include usage from the current month')
+      .action(async (options) => {
+        try {
+          await this.showReport(options);
+        } catch (error) {
+          this.logger.error('Failed to read usage ledger', error);
+          process.exit(1);
+        }
+      });
+
+    usage
+      .command('budget [amount]')
+      .description('Show or set the monthly AI budget in USD')
+      .option('--clear', 'Remove the monthly budget')
+      .action(async (amount, options) => {
+        try {
+          await this.configureBudget(amount, options);
+        } catch (error) {
+          this.logger.error('Failed to update budget', error);
+          process.exit(1);
+        }
+      });
+
+    usage
+      .command('prices')
+      .description('List the price table used for cost estimates')
+      .action(async () => {
+        try {
+          await this.showPrices();
+        } catch (error) {
+          this.logger.error('Failed to read price table', error);
+          process.exit(1);
+        }
+      });
+
+    usage
+      .command('price <model> <input> <output>')
+      .description('Set the price for a model in USD per million input/output tokens')
+      .action(async (model, input, output) => {
+        try {
+          await this.setPrice(model, input, output);
+        } catch (error) {
+          this.logger.error('Failed to update price table', error);
+          process.exit(1);
+        }
+      });
+  }
+
+  private async showReport(options: any): Promise<void> {
+    let since: Date | undefined;
+    if (options.month) {
+      const now = new Date();
+      since = new Date(now.getFullYear(), now.getMonth(), 1);
+    } else if (options.since) {
+      // Parse as local midnight so the day boundaries match the report
+      since = new Date(`${options.since}T00:00:00`);
+      if (isNaN(since.getTime())) {
+        console.log(chalk.red(`✗ Invalid date: ${options.since}`));
+        return;
+      }
+    }
+
+    const groupings: UsageGrouping[] = options.by ? [options.by] : ['day', 'provider', 'command'];
+    const invalid = groupings.find((g) => !GROUPINGS.includes(g));
+    if (invalid) {
+      console.log(chalk.red(`✗ Unknown grouping: ${invalid}. Use one of: ${GROUPINGS.join(', ')}`));
+      return;
+    }
+
+    const entries = await this.usageLedger.entries(since);
+    if (entries.length === 0) {
+      console.log(chalk.yellow('No AI usage recorded yet.'));
+      return;
+    }
+
+    console.log(chalk.cyan('\n📊 AI Usage\n'));
+    for (const grouping of groupings) {
+      this.printTable(grouping, await this.usageLedger.summarize(grouping, since));
+    }
+
+    const estimated = entries.filter((e) => e.estimated).length;
+    if (estimated > 0) {
+      console.log(chalk.gray(`${estimated} request${estimated === 1 ? '' : 's'} had no usage data from the provider; tokens were estimated.`));
+    }
+
+    const budget = await this.usageLedger.getMonthlyBudget();
+    if (budget !== undefined) {
+      const spent = await this.usageLedger.monthToDateCost();
+      const color = spent >= budget ? chalk.red : spent >= budget * 0.8 ? chalk.yellow : chalk.green;
+      console.log(chalk.white('Monthly budget:'), color(`${this.formatCost(spent)} of ${this.formatCost(budget)} used`));
+    }
+    console.log();
+  }
+
+  private printTable(grouping: UsageGrouping, rows: UsageTotals[]): void {
+    const label = grouping.charAt(0).toUpperCase() + grouping.slice(1);
+    const width = Math.max(label.length, ...rows.map((r) => r.key.length));
+
+    console.log(chalk.white.bold(
+      `${label.padEnd(width)}  ${'Requests'.padStart(8)}  ${'Prompt'.padStart(10)}  ${'Completion'.padStart(10)}  ${'Cost'.padStart(10)}`
+    ));
+
+    const total: UsageTotals = { key: 'Total', requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+    for (const row of rows) {
+      console.log(this.formatRow(row, width));
+      total.requests += row.requests;
+      total.promptTokens += row.promptTokens;
+      total.completionTokens += row.completionTokens;
+      total.cost += row.cost;
+    }
+    console.log(chalk.gray(this.formatRow(total, width)));
+    console.log();
+  }
+
+  private formatRow(row: UsageTotals, width: number): string {
+    return [
+      row.key.padEnd(width),
+      String(row.requests).padStart(8),
+      row.promptTokens.toLocaleString().padStart(10),
+      row.completionTokens.toLocaleString().padStart(10),
+      this.formatCost(row.cost).padStart(10),
+    ].join('  ');
+  }
+
+  private async configureBudget(amount: string | undefined, options: any): Promise<void> {
+    if (options.clear) {
+      await this.configManager.setNested('ai.budget.monthlyUSD', undefined);
+      console.log(chalk.green('✓ Monthly budget removed'));
+      return;
+    }
+
+    if (amount === undefined) {
+      const budget = await this.usageLedger.getMonthlyBudget();
+      const spent = await this.usageLedger.monthToDateCost();
+      if (budget === undefined) {
+        console.log(chalk.yellow(`No monthly budget set. ${this.formatCost(spent)} spent this month.`));
+        console.log(chalk.gray('Set one with: faj usage budget <amount>'));
+      } else {
+        console.log(`${this.formatCost(spent)} of ${this.formatCost(budget)} used this month`);
+      }
+      return;
+    }
+
+    const budget = Number(amount);
+    if (!(budget > 0)) {
+      console.log(chalk.red(`✗ Invalid amount: ${amount}`));
+      return;
+    }
+
+    await this.configManager.setNested('ai.budget.monthlyUSD', budget);
+    console.log(chalk.green(`✓ Monthly budget set to ${this.formatCost(budget)}`));
+  }
+
+  private async showPrices(): Promise<void> {
+    const prices = await this.usageLedger.getPrices();
+    const models = Object.keys(prices).sort();
+    const width = Math.max(...models.map((m) => m.length));
+
+    console.log(chalk.cyan('\n💲 Price table (USD per 1M tokens)\n'));
+    console.log(chalk.white.bold(`${'Model'.padEnd(width)}  ${'Input'.padStart(8)}  ${'Output'.padStart(8)}`));
+    for (const model of models) {
+      const price = prices[model];
+      console.log(`${model.padEnd(width)}  ${String(price.input).padStart(8)}  ${String(price.output).padStart(8)}`);
+    }
+    console.log();
+    console.log(chalk.gray('Models not listed are counted as free. Add one with: faj usage price <model> <input> <output>'));
+  }
+
+  private async setPrice(model: string, input: string, output: string): Promise<void> {
+    const inputPrice = Number(input);
+    const outputPrice = Number(output);
+    if (isNaN(inputPrice) || isNaN(outputPrice) || inputPrice < 0 || outputPrice < 0) {
+      console.log(chalk.red('✗ Prices must be non-negative numbers'));
+      return;
+    }
+
+    const aiConfig: any = await this.configManager.get('ai');
+    const pricing = { ...(aiConfig?.pricing || {}), [model]: { input: inputPrice, output: outputPrice } };
+    await this.configManager.setNested('ai.pricing', pricing);
+    console.log(chalk.green(`✓ ${model}: $${inputPrice} input / $${outputPrice} output per 1M tokens`));
+  }
+
+  private formatCost(cost: number): string {
+    return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+  }
+}
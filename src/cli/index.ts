@@ -1,14 +1,68 @@
 import { Command } from 'commander';
 import { InteractiveCommand } from './commands/interactive';
+import { ResumeCommand } from './commands/resume';
+import { CacheCommand } from './commands/cache';
+import { UsageCommand } from './commands/usage';
+import { PromptsCommand } from './commands/prompts';
+import { AuditCommand } from './commands/audit';
+import { MatchCommand } from './commands/match';
+import { ChatCommand } from './commands/chat';
+import { TranslateCommand } from './commands/translate';
+import { ExportCommand } from './commands/export';
+import { ExperienceCommand } from './commands/experience';
+import { ImportCommand } from './commands/import';
+import { UsageLedger } from '../ai/UsageLedger';
+import { Cassette } from '../ai/Cassette';
+import { AuditLog } from '../ai/AuditLog';
 
 export class CLI {
   private interactiveCommand: InteractiveCommand;
+  private resumeCommand: ResumeCommand;
+  private cacheCommand: CacheCommand;
+  private usageCommand: UsageCommand;
+  private promptsCommand: PromptsCommand;
+  private auditCommand: AuditCommand;
+  private matchCommand: MatchCommand;
+  private chatCommand: ChatCommand;
+  private translateCommand: TranslateCommand;
+  private exportCommand: ExportCommand;
+  private experienceCommand: ExperienceCommand;
+  private importCommand: ImportCommand;
 
   constructor() {
     this.interactiveCommand = new InteractiveCommand();
+    this.resumeCommand = new ResumeCommand();
+    this.cacheCommand = new CacheCommand();
+    this.usageCommand = new UsageCommand();
+    this.promptsCommand = new PromptsCommand();
+    this.auditCommand = new AuditCommand();
+    this.matchCommand = new MatchCommand();
+    this.chatCommand = new ChatCommand();
+    this.translateCommand = new TranslateCommand();
+    this.exportCommand = new ExportCommand();
+    this.experienceCommand = new ExperienceCommand();
+    this.importCommand = new ImportCommand();
   }
 
   register(program: Command): void {
+    // Attribute AI usage and audit entries to the command that triggered it, e.g. "resume tailor"
+    program.hook('preAction', (_thisCommand, actionCommand) => {
+      const names: string[] = [];
+      for (let cmd: Command | null = actionCommand; cmd && cmd !== program; cmd = cmd.parent) {
+        names.unshift(cmd.name());
+      }
+      const command = names.join(' ') || 'interactive';
+      UsageLedger.getInstance().setCommand(command);
+      AuditLog.getInstance().setCommand(command);
+
+      const { record, replay } = program.opts();
+      if (replay) {
+        Cassette.getInstance().startReplay(replay);
+      } else if (record) {
+        Cassette.getInstance().startRecording(record);
+      }
+    });
+
     // Register the interactive command as the default
     this.interactiveCommand.register(program);
     
@@ -22,6 +76,19 @@ export class CLI {
         await interactive['start']();
       });
 
+    // Maintenance commands that don't fit the interactive flow
+    this.resumeCommand.register(program);
+    this.cacheCommand.register(program);
+    this.usageCommand.register(program);
+    this.promptsCommand.register(program);
+    this.auditCommand.register(program);
+    this.matchCommand.register(program);
+    this.chatCommand.register(program);
+    this.translateCommand.register(program);
+    this.exportCommand.register(program);
+    this.experienceCommand.register(program);
+    this.importCommand.register(program);
+
     // Add a help command that shows simplified usage
     program
       .command('help')
@@ -42,6 +109,8 @@ export class CLI {
     program
       .option('-v, --version', 'Show version')
       .option('-d, --debug', 'Enable debug mode')
-      .option('-q, --quiet', 'Suppress non-error output');
+      .option('-q, --quiet', 'Suppress non-error output')
+      .option('--record <cassette>', 'Record every AI request and response to a cassette file')
+      .option('--replay <cassette>', 'Answer AI requests from a recorded cassette instead of a provider');
   }
 }
\ No newline at end of file
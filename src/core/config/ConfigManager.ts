@@ -189,7 +189,7 @@ export class ConfigManager {
     }
 
     // Fall back to environment variable for backward compatibility
-    const envKey = process.env[`FAJ_${targetProvider.toUpperCase()}_API_KEY`];
+    const envKey = process.env[`FAJ_${this.toEnvName(targetProvider)}_API_KEY`];
     if (envKey) {
       this.logger.debug(`Using environment variable for ${targetProvider} API key (consider migrating to config)`);
       return envKey;
@@ -204,6 +204,21 @@ export class ConfigManager {
     return undefined;
   }
 
+  getAIBaseURL(provider?: AIProvider): string | undefined {
+    const targetProvider = provider || this.getAIProvider();
+
+    if (!targetProvider) {
+      return undefined;
+    }
+
+    const configURL = this.config?.ai?.baseURLs?.[targetProvider];
+    if (configURL) {
+      return configURL;
+    }
+
+    return process.env[`FAJ_${this.toEnvName(targetProvider)}_BASE_URL`];
+  }
+
   getAIModel(): string | undefined {
     // Check environment variable for model override
     const envModel = process.env.FAJ_AI_MODEL;
@@ -241,8 +256,35 @@ export class ConfigManager {
     this.logger.info(`API key for ${provider} has been saved`);
   }
 
+  async setAIBaseURL(provider: AIProvider, baseURL: string): Promise<void> {
+    if (!this.config) {
+      await this.load();
+    }
+
+    if (!this.config) {
+      this.config = { version: '1.0.0' };
+    }
+
+    if (!this.config.ai) {
+      this.config.ai = { provider: provider };
+    }
+    if (!this.config.ai.baseURLs) {
+      this.config.ai.baseURLs = {};
+    }
+
+    this.config.ai.baseURLs[provider] = baseURL;
+
+    await this.save();
+    this.logger.info(`Base URL for ${provider} set to ${baseURL}`);
+  }
+
   private isValidProvider(provider: string): boolean {
-    return ['openai', 'gemini', 'anthropic', 'azure', 'deepseek', 'custom'].includes(provider);
+    return ['openai', 'gemini', 'anthropic', 'azure', 'deepseek', 'openai-compatible', 'custom'].includes(provider);
+  }
+
+  // 'openai-compatible' -> 'OPENAI_COMPATIBLE' so it can be used in env var names
+  private toEnvName(provider: string): string {
+    return provider.toUpperCase().replace(/-/g, '_');
   }
 
   private async ensureConfigDir(): Promise<void> {
@@ -1,15 +1,22 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
-import { Experience } from '../../models';
+import { Experience, AIProvider } from '../../models';
 import { Logger } from '../../utils/Logger';
-import { AIManager } from '../../ai/AIManager';
+import { AIManager, VariantOptions } from '../../ai/AIManager';
+import { StreamOptions } from '../../ai/providers/BaseProvider';
 import { ConfigManager } from '../config/ConfigManager';
+import { PolishResult, PolishResultSchema } from '../../ai/schemas';
+import { PromptRegistry, PromptVariables } from '../../ai/prompts/PromptRegistry';
+import { FabricationGuard, PolishCandidate, UnsupportedClaim, VerificationSource } from '../../ai/FabricationGuard';
+import { PromptGuard } from '../../ai/PromptGuard';
 
 export interface WorkExperience extends Experience {
   id: string;
   rawDescription?: string; // User's original description
   polished?: boolean; // Whether AI has polished this
+  aiProvider?: AIProvider; // Which provider produced the polished content
+  unverifiedClaims?: UnsupportedClaim[]; // AI claims not found in the user's own description
   createdAt: Date;
   updatedAt: Date;
 }
@@ -26,12 +33,16 @@ export class ExperienceManager {
   private logger: Logger;
   private aiManager: AIManager;
   private configManager: ConfigManager;
+  private prompts: PromptRegistry;
+  private fabricationGuard: FabricationGuard;
 
   private constructor() {
     this.logger = new Logger('ExperienceManager');
     this.experiencePath = path.join(os.homedir(), '.faj', 'experiences.json');
     this.aiManager = AIManager.getInstance();
     this.configManager = ConfigManager.getInstance();
+    this.prompts = PromptRegistry.getInstance();
+    this.fabricationGuard = FabricationGuard.getInstance();
   }
 
   static getInstance(): ExperienceManager {
@@ -162,7 +173,20 @@ export class ExperienceManager {
     });
   }
 
-  async polish(id: string, rawDescription: string): Promise<WorkExperience | null> {
+  /**
+   * Finds a stored experience for the same position: same company and
+   * title, starting in the same month. Used to skip entries on import.
+   */
+  async findDuplicate(experience: Pick<WorkExperience, 'company' | 'title' | 'startDate'>): Promise<WorkExperience | null> {
+    const normalize = (value?: string) => (value || '').trim().toLowerCase().replace(/\s+/g, ' ');
+    return this.experiences.find(exp =>
+      normalize(exp.company) === normalize(experience.company) &&
+      normalize(exp.title) === normalize(experience.title) &&
+      (exp.startDate || '').slice(0, 7) === (experience.startDate || '').slice(0, 7)
+    ) || null;
+  }
+
+  async polish(id: string, rawDescription: string, stream?: StreamOptions): Promise<WorkExperience | null> {
     const experience = await this.get(id);
     
     if (!experience) {
@@ -174,10 +198,12 @@ export class ExperienceManager {
       await this.aiManager.initialize();
       
       const prompt = await this.buildPolishPrompt(experience, rawDescription);
-      const response = await this.aiManager.processPrompt(prompt);
-      
-      // Parse AI response
-      const polished = this.parsePolishResponse(response);
+      const polished = await this.aiManager.processStructured(prompt, PolishResultSchema, 'polish', stream);
+      const unverifiedClaims = await this.fabricationGuard.check(
+        polished,
+        this.verificationSource(experience, rawDescription),
+        `${experience.title} at ${experience.company}`
+      );
       
       // Update experience with polished content
       const updated = await this.update(id, {
@@ -185,7 +211,9 @@ export class ExperienceManager {
         description: polished.description,
         highlights: polished.highlights,
         technologies: polished.technologies || experience.technologies,
-        polished: true
+        polished: true,
+        aiProvider: this.aiManager.getLastUsedProvider() || undefined,
+        unverifiedClaims
       });
       
       this.logger.success('Experience polished successfully');
@@ -196,7 +224,12 @@ export class ExperienceManager {
     }
   }
 
-  async polishWithJob(id: string, rawDescription: string, jobDescription: string): Promise<WorkExperience | null> {
+  async polishWithJob(
+    id: string,
+    rawDescription: string,
+    jobDescription: string,
+    stream?: StreamOptions
+  ): Promise<WorkExperience | null> {
     const experience = await this.get(id);
     
     if (!experience) {
@@ -208,10 +241,13 @@ export class ExperienceManager {
       await this.aiManager.initialize();
       
       const prompt = await this.buildPolishWithJobPrompt(experience, rawDescription, jobDescription);
-      const response = await this.aiManager.processPrompt(prompt);
-      
-      // Parse AI response
-      const polished = this.parsePolishResponse(response);
+      const polished = await this.aiManager.processStructured(prompt, PolishResultSchema, 'polish', stream);
+      // The job description is not a source: requirements copied from it are still fabrications
+      const unverifiedClaims = await this.fabricationGuard.check(
+        polished,
+        this.verificationSource(experience, rawDescription),
+        `${experience.title} at ${experience.company}`
+      );
       
       // Update experience with polished content
       const updated = await this.update(id, {
@@ -219,7 +255,9 @@ export class ExperienceManager {
         description: polished.description,
         highlights: polished.highlights,
         technologies: polished.technologies || experience.technologies,
-        polished: true
+        polished: true,
+        aiProvider: this.aiManager.getLastUsedProvider() || undefined,
+        unverifiedClaims
       });
       
       this.logger.success('Experience polished with job context successfully');
@@ -242,17 +280,21 @@ export class ExperienceManager {
       await this.aiManager.initialize();
       
       const prompt = await this.buildTailorPrompt(experience, jobDescription);
-      const response = await this.aiManager.processPrompt(prompt);
-      
-      // Parse AI response
-      const tailored = this.parsePolishResponse(response);
+      const tailored = await this.aiManager.processStructured(prompt, PolishResultSchema, 'tailor');
+      const unverifiedClaims = await this.fabricationGuard.check(
+        tailored,
+        this.verificationSource(experience, experience.rawDescription, experience.description, ...(experience.highlights || [])),
+        `${experience.title} at ${experience.company}`
+      );
       
       // Update experience with tailored content
       const updated = await this.update(id, {
         description: tailored.description,
         highlights: tailored.highlights,
         technologies: tailored.technologies || experience.technologies,
-        polished: true
+        polished: true,
+        aiProvider: this.aiManager.getLastUsedProvider() || undefined,
+        unverifiedClaims
       });
       
       this.logger.success('Experience tailored to job description successfully');
@@ -263,152 +305,133 @@ export class ExperienceManager {
     }
   }
 
-  private async buildPolishPrompt(experience: WorkExperience, rawDescription: string): Promise<string> {
-    // Get user's language preference
-    const profile: any = await this.configManager.get('profile');
-    const userLanguages = profile?.languages || ['English'];
-    const primaryLanguage = userLanguages[0];
-    
-    // Determine the language to use for AI response
-    let languageName = 'English';
-    if (primaryLanguage) {
-      const langLower = primaryLanguage.toLowerCase();
-      if (langLower.includes('chinese') || langLower.includes('中文') || langLower.includes('mandarin')) {
-        languageName = 'Chinese';
-      } else if (langLower.includes('spanish') || langLower.includes('español')) {
-        languageName = 'Spanish';
-      } else if (langLower.includes('french') || langLower.includes('français')) {
-        languageName = 'French';
-      } else if (langLower.includes('german') || langLower.includes('deutsch')) {
-        languageName = 'German';
-      } else if (langLower.includes('japanese') || langLower.includes('日本語')) {
-        languageName = 'Japanese';
-      } else if (langLower.includes('korean') || langLower.includes('한국어')) {
-        languageName = 'Korean';
-      }
+  /**
+   * Generates several polished versions without saving any of them, using
+   * the job-aware prompt when a job description is given. The user's pick,
+   * or a mix of several, is saved with applyPolish.
+   */
+  async polishCandidates(
+    id: string,
+    rawDescription: string,
+    variants: VariantOptions,
+    jobDescription?: string
+  ): Promise<PolishCandidate[]> {
+    const experience = await this.get(id);
+    if (!experience) {
+      this.logger.warn(`Experience with id ${id} not found`);
+      return [];
     }
-    
-    return `You are a professional resume writer. Polish the following work experience description based on ACTUAL information provided.
-
-ACTUAL WORK EXPERIENCE DATA:
-- Company: ${experience.company}
-- Position: ${experience.title}
-- Duration: ${experience.startDate} - ${experience.endDate || 'Present'}
-- Current Technologies: ${experience.technologies?.join(', ') || 'Not specified'}
-
-User's Raw Description (this is the ONLY source of truth for achievements):
-${rawDescription}
-
-STRICT RULES:
-1. Base EVERYTHING on the raw description provided - DO NOT invent achievements, metrics, or responsibilities
-2. If the raw description doesn't mention specific numbers, DO NOT make them up
-3. Only mention technologies that are either:
-   - Already listed in the current technologies
-   - Explicitly mentioned in the raw description
-4. DO NOT add generic achievements like "improved performance by X%" unless explicitly stated in the raw description
-5. Focus on reorganizing and polishing the ACTUAL content provided, not inventing new content
-
-Please provide:
-1. A professional 2-3 sentence summary of the role based ONLY on the raw description
-2. 4-6 bullet points that reorganize the raw description content (use numbers ONLY if they exist in the raw description)
-3. List of technologies (ONLY those mentioned in the data or raw description)
-
-Requirements:
-- Use action verbs for existing achievements
-- Maintain factual accuracy - no speculation
-- Professional language while staying true to the original content
-- If no specific metrics exist in the raw description, focus on responsibilities and technical work
-
-IMPORTANT: Generate ALL content in ${languageName} language.
-Base everything on the raw description - NO INVENTION of metrics or achievements.
-
-Format as JSON:
-{
-  "description": "...",
-  "highlights": ["actual achievement 1", "actual achievement 2", ...],
-  "technologies": ["only real tech 1", "only real tech 2", ...]
-}`;
+
+    await this.aiManager.initialize();
+    const prompt = jobDescription
+      ? await this.buildPolishWithJobPrompt(experience, rawDescription, jobDescription)
+      : await this.buildPolishPrompt(experience, rawDescription);
+    const results = await this.aiManager.processStructuredVariants(prompt, PolishResultSchema, 'polish', variants);
+    return this.fabricationGuard.checkVariants(
+      results,
+      this.verificationSource(experience, rawDescription),
+      `${experience.title} at ${experience.company}`
+    );
   }
 
-  private async buildPolishWithJobPrompt(experience: WorkExperience, rawDescription: string, jobDescription: string): Promise<string> {
-    // Get user's language preference
-    const profile: any = await this.configManager.get('profile');
-    const userLanguages = profile?.languages || ['English'];
-    const primaryLanguage = userLanguages[0];
-    
-    // Determine the language to use for AI response
-    let languageName = 'English';
-    if (primaryLanguage) {
-      const langLower = primaryLanguage.toLowerCase();
-      if (langLower.includes('chinese') || langLower.includes('中文') || langLower.includes('mandarin')) {
-        languageName = 'Chinese';
-      } else if (langLower.includes('spanish') || langLower.includes('español')) {
-        languageName = 'Spanish';
-      } else if (langLower.includes('french') || langLower.includes('français')) {
-        languageName = 'French';
-      } else if (langLower.includes('german') || langLower.includes('deutsch')) {
-        languageName = 'German';
-      } else if (langLower.includes('japanese') || langLower.includes('日本語')) {
-        languageName = 'Japanese';
-      } else if (langLower.includes('korean') || langLower.includes('한국어')) {
-        languageName = 'Korean';
-      }
+  async tailorCandidates(id: string, jobDescription: string, variants: VariantOptions): Promise<PolishCandidate[]> {
+    const experience = await this.get(id);
+    if (!experience) {
+      this.logger.warn(`Experience with id ${id} not found`);
+      return [];
     }
-    
-    return `You are a professional resume writer helping to polish and optimize work experiences.
-
-USER'S ACTUAL WORK (PRIMARY FOCUS - 70%):
-${rawDescription}
-
-Work Context:
-- Company: ${experience.company}
-- Position: ${experience.title}
-- Duration: ${experience.startDate} - ${experience.endDate || 'Present'}
-- Technologies used: ${experience.technologies?.join(', ') || 'Not specified'}
-
-TARGET JOB DESCRIPTION (For reference - 30%):
-${jobDescription}
-
-OPTIMIZATION STRATEGY:
-1. START with the user's actual work description - this is the foundation
-2. Polish and enhance the user's real experiences professionally
-3. Identify which parts of their ACTUAL work align with the JD
-4. Highlight and emphasize those naturally overlapping areas
-5. Use JD keywords ONLY where they genuinely apply to the user's work
-6. Add minor enhancements that are reasonable for their actual role
-
-ENHANCEMENT APPROACH:
-- Base 70% on what the user actually did and described
-- Use JD to identify which of their real experiences to emphasize
-- Enhance metrics with reasonable estimates based on their description
-- Add standard practices that someone in their specific role would do
-- Include technologies they mentioned plus closely related ones they likely used
-- Structure to highlight JD-relevant parts of their REAL experience
-
-IMPORTANT BOUNDARIES:
-- The user's actual work is the core - don't overshadow it with JD requirements
-- Only add skills/tasks that naturally fit with what they described
-- Don't force JD requirements that don't match their experience
-- Keep the authenticity of their unique experience at this company
-- Enhance but don't transform - it should still feel like their story
-
-OUTPUT:
-1. A professional summary based on their actual role, with JD-relevant aspects highlighted
-2. 5-6 bullet points: primarily their real work, with relevant ones emphasized for JD
-3. Technologies: what they used + reasonable additions from their ecosystem
-
-IMPORTANT: Generate ALL content in ${languageName} language.
-Polish their real experience while highlighting JD-relevant aspects.
-
-Format as JSON:
-{
-  "description": "professional summary of their actual work with relevant aspects emphasized",
-  "highlights": ["their actual achievement 1", "their actual achievement 2 (relevant to JD)", ...],
-  "technologies": ["their mentioned tech", "related tools they likely used", ...]
-}`;
+
+    await this.aiManager.initialize();
+    const prompt = await this.buildTailorPrompt(experience, jobDescription);
+    const results = await this.aiManager.processStructuredVariants(prompt, PolishResultSchema, 'tailor', variants);
+    return this.fabricationGuard.checkVariants(
+      results,
+      this.verificationSource(experience, experience.rawDescription, experience.description, ...(experience.highlights || [])),
+      `${experience.title} at ${experience.company}`
+    );
+  }
+
+  /**
+   * Saves a result chosen from polishCandidates (pass the raw description)
+   * or tailorCandidates (omit it). It is checked again because a mix of
+   * several candidates can carry claims none of them was flagged for alone.
+   */
+  async applyPolish(
+    id: string,
+    result: PolishResult,
+    options: { rawDescription?: string; provider?: AIProvider } = {}
+  ): Promise<WorkExperience | null> {
+    const experience = await this.get(id);
+    if (!experience) {
+      this.logger.warn(`Experience with id ${id} not found`);
+      return null;
+    }
+
+    const source = options.rawDescription !== undefined
+      ? this.verificationSource(experience, options.rawDescription)
+      : this.verificationSource(experience, experience.rawDescription, experience.description, ...(experience.highlights || []));
+    const unverifiedClaims = await this.fabricationGuard.check(result, source, `${experience.title} at ${experience.company}`);
+
+    return this.update(id, {
+      ...(options.rawDescription !== undefined ? { rawDescription: options.rawDescription } : {}),
+      description: result.description,
+      highlights: result.highlights,
+      technologies: result.technologies || experience.technologies,
+      polished: true,
+      aiProvider: options.provider,
+      unverifiedClaims
+    });
+  }
+
+  private async buildPolishPrompt(experience: WorkExperience, rawDescription: string): Promise<string> {
+    return this.prompts.render('experience.polish', {
+      ...this.experienceVariables(experience),
+      rawDescription,
+      languageName: await this.getLanguageName(),
+    });
+  }
+
+  private async buildPolishWithJobPrompt(experience: WorkExperience, rawDescription: string, jobDescription: string): Promise<string> {
+    return this.prompts.render('experience.polish-with-job', {
+      ...this.experienceVariables(experience),
+      rawDescription,
+      jobDescription: PromptGuard.getInstance().fence(jobDescription, 'job description'),
+      languageName: await this.getLanguageName(),
+    });
   }
 
   private async buildTailorPrompt(experience: WorkExperience, jobDescription: string): Promise<string> {
+    return this.prompts.render('experience.tailor', {
+      ...this.experienceVariables(experience),
+      description: experience.description,
+      highlights: experience.highlights?.join('\n') || 'None',
+      originalDescription: experience.rawDescription ? `- Original Description: ${experience.rawDescription}` : '',
+      jobDescription: PromptGuard.getInstance().fence(jobDescription, 'job description'),
+      languageName: await this.getLanguageName(),
+    });
+  }
+
+  /**
+   * Facts the user entered for this experience, for the fabrication guard.
+   */
+  private verificationSource(experience: WorkExperience, ...texts: Array<string | undefined>): VerificationSource {
+    return {
+      texts: [...texts, experience.company, experience.title, experience.startDate, experience.endDate],
+      technologies: experience.technologies,
+    };
+  }
+
+  private experienceVariables(experience: WorkExperience): PromptVariables {
+    return {
+      company: experience.company,
+      title: experience.title,
+      startDate: experience.startDate,
+      endDate: experience.endDate || 'Present',
+      technologies: experience.technologies?.join(', ') || 'Not specified',
+    };
+  }
+
+  private async getLanguageName(): Promise<string> {
     // Get user's language preference
     const profile: any = await this.configManager.get('profile');
     const userLanguages = profile?.languages || ['English'];
@@ -432,88 +455,7 @@ Format as JSON:
         languageName = 'Korean';
       }
     }
-    
-    return `You are a professional resume writer helping to refine existing work experiences.
-
-EXISTING WORK EXPERIENCE (CORE CONTENT - 70%):
-- Company: ${experience.company}
-- Position: ${experience.title}
-- Duration: ${experience.startDate} - ${experience.endDate || 'Present'}
-- Current Description: ${experience.description}
-- Key Achievements: ${experience.highlights?.join('\n') || 'None'}
-- Technologies: ${experience.technologies?.join(', ') || 'Not specified'}
-${experience.rawDescription ? `- Original Description: ${experience.rawDescription}` : ''}
-
-TARGET JOB REFERENCE (GUIDANCE - 30%):
-${jobDescription}
-
-REFINEMENT STRATEGY:
-1. Keep the user's existing experience as the foundation
-2. Identify natural connections between their work and the JD
-3. Adjust presentation to highlight relevant aspects they already have
-4. Use JD keywords where they authentically apply to their experience
-5. Reorder content to feature JD-relevant work prominently (but keep all content)
-6. Polish language while maintaining their authentic experience
-
-ENHANCEMENT GUIDELINES:
-- Preserve the core of what they actually did
-- Highlight existing achievements that happen to match JD needs
-- Add reasonable details based on their role and company context
-- Include related technologies they likely used in their ecosystem
-- Improve metrics clarity where their description allows
-- Use professional language that reflects both their work and JD terms
-
-IMPORTANT LIMITS:
-- Don't add responsibilities they didn't have
-- Don't force-fit JD requirements that don't match
-- Keep their unique experience authentic
-- Maintain the truth of their actual contributions
-- Enhance presentation, not substance
-
-OUTPUT:
-1. A refined summary of their actual experience, with relevant aspects naturally emphasized
-2. 5-7 bullet points: all their real work, ordered to highlight JD-relevant items first
-3. Technologies: their actual stack plus reasonable ecosystem tools
-
-IMPORTANT: Generate ALL content in ${languageName} language.
-Refine their real experience with subtle JD alignment.
-
-Format as JSON:
-{
-  "description": "polished version of their actual experience",
-  "highlights": ["their refined achievement 1", "their achievement 2 (happens to match JD)", ...],
-  "technologies": ["their actual tech", "ecosystem tools", ...]
-}`;
-  }
-
-  private parsePolishResponse(response: string): {
-    description: string;
-    highlights: string[];
-    technologies?: string[];
-  } {
-    try {
-      // Clean up the response - remove markdown code blocks if present
-      let cleanedResponse = response;
-      if (response.includes('```json')) {
-        cleanedResponse = response.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-      } else if (response.includes('```')) {
-        cleanedResponse = response.replace(/```\s*/g, '');
-      }
-      
-      const jsonMatch = cleanedResponse.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-    } catch (error) {
-      this.logger.error('Failed to parse AI response', error);
-    }
-    
-    // Fallback
-    return {
-      description: response,
-      highlights: [],
-      technologies: []
-    };
+    return languageName;
   }
 
   getExperienceTemplates(): { [key: string]: string } {
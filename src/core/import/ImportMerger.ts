@@ -0,0 +1,242 @@
+import { Resume } from '../../models';
+import { Logger } from '../../utils/Logger';
+import { ExperienceManager, WorkExperience } from '../experience/ExperienceManager';
+import { Project, ProjectManager } from '../project/ProjectManager';
+import { ResumeManager } from '../resume/ResumeManager';
+
+export type ImportedExperience = Omit<WorkExperience, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * A field an importer could not read reliably, for the user to check
+ * before anything is saved. `index` points into the section's list.
+ */
+export interface UncertainField {
+  section: 'basicInfo' | 'experiences' | 'projects' | 'education';
+  index?: number;
+  field: string;
+  // Why it is uncertain, e.g. "guessed from the layout"
+  reason: string;
+}
+
+/**
+ * Resume data read from another tool, before anything is saved. Importers
+ * fill in what their source has; the rest stays empty.
+ */
+export interface ImportedResume {
+  // Shown to the user and recorded in the resume history, e.g. "LinkedIn export"
+  source: string;
+  basicInfo: Record<string, any>;
+  summary?: string;
+  experiences: ImportedExperience[];
+  projects: Partial<Project>[];
+  education: any[];
+  skills: string[];
+  uncertain?: UncertainField[];
+}
+
+export interface ImportCandidate<T, S> {
+  entry: T;
+  // The saved entry this one duplicates; selecting it fills in what the saved entry lacks
+  existing: S | null;
+}
+
+/**
+ * What an import would change. Education, skills and profile fields the
+ * resume already has are left out, so the plan only lists new data.
+ */
+export interface ImportPlan {
+  source: string;
+  experiences: ImportCandidate<ImportedExperience, WorkExperience>[];
+  projects: ImportCandidate<Partial<Project>, Project>[];
+  education: any[];
+  skills: string[];
+  basicInfo: Record<string, any>;
+  summary?: string;
+}
+
+// Indexes into the plan's lists, and whether to take the rest
+export interface ImportSelection {
+  experiences: number[];
+  projects: number[];
+  education: boolean;
+  skills: boolean;
+  profile: boolean;
+}
+
+export interface ImportSummary {
+  resume: Resume;
+  added: number;
+  merged: number;
+}
+
+// Entry fields copied onto the resume; the stores keep the rest
+const RESUME_EXPERIENCE_FIELDS = ['title', 'company', 'location', 'startDate', 'endDate', 'current', 'description', 'highlights', 'technologies'];
+const RESUME_PROJECT_FIELDS = ['name', 'description', 'role', 'technologies', 'highlights', 'startDate', 'endDate', 'current', 'url', 'githubUrl'];
+
+/**
+ * Merges imported resume data into the experience and project stores and
+ * the resume. Nothing is written until `apply` is called with the entries
+ * the user chose.
+ */
+export class ImportMerger {
+  private static instance: ImportMerger;
+  private logger: Logger;
+
+  private constructor() {
+    this.logger = new Logger('ImportMerger');
+  }
+
+  static getInstance(): ImportMerger {
+    if (!ImportMerger.instance) {
+      ImportMerger.instance = new ImportMerger();
+    }
+    return ImportMerger.instance;
+  }
+
+  async plan(imported: ImportedResume): Promise<ImportPlan> {
+    const experienceManager = ExperienceManager.getInstance();
+    const projectManager = ProjectManager.getInstance();
+    await experienceManager.load();
+    await projectManager.load();
+    const resume = (await ResumeManager.getInstance().get())!;
+    const content: any = resume.content || {};
+
+    const experiences: ImportPlan['experiences'] = [];
+    for (const entry of imported.experiences) {
+      experiences.push({ entry, existing: await experienceManager.findDuplicate(entry) });
+    }
+
+    const storedProjects = await projectManager.getAll();
+    const projects = imported.projects.map((entry) => ({
+      entry,
+      existing: storedProjects.find((p) => this.normalize(p.name) === this.normalize(entry.name)) || null,
+    }));
+
+    const educationKeys = new Set((content.education || []).map((e: any) => this.educationKey(e)));
+    const skillNames = new Set((content.skills || []).map((s: any) => this.normalize(s.name)));
+    const basicInfo: Record<string, any> = {};
+    for (const [key, value] of Object.entries(imported.basicInfo)) {
+      if (value && !(resume.basicInfo as any)?.[key]) {
+        basicInfo[key] = value;
+      }
+    }
+
+    return {
+      source: imported.source,
+      experiences,
+      projects,
+      education: imported.education.filter((e) => !educationKeys.has(this.educationKey(e))),
+      skills: [...new Set(imported.skills.map((s) => s.trim()).filter(Boolean))].filter((s) => !skillNames.has(this.normalize(s))),
+      basicInfo,
+      summary: content.summary ? undefined : imported.summary,
+    };
+  }
+
+  /**
+   * Saves the selected parts of a plan: new entries are added to the
+   * stores and the resume, duplicates only get the fields they lack.
+   */
+  async apply(plan: ImportPlan, selection: ImportSelection): Promise<ImportSummary> {
+    const experienceManager = ExperienceManager.getInstance();
+    const projectManager = ProjectManager.getInstance();
+    const resumeManager = ResumeManager.getInstance();
+    const resume = (await resumeManager.get())!;
+    const experience = [...(resume.content.experience || [])];
+    const projects = [...(resume.content.projects || [])];
+    let added = 0;
+    let merged = 0;
+
+    for (const index of selection.experiences) {
+      const candidate = plan.experiences[index];
+      if (!candidate) continue;
+      if (candidate.existing) {
+        const changes = this.missingFields(candidate.existing, candidate.entry);
+        if (Object.keys(changes).length > 0) {
+          await experienceManager.update(candidate.existing.id, changes);
+          this.fillResumeEntry(experience, candidate.existing, changes, (e) => e.company === candidate.existing!.company && e.title === candidate.existing!.title);
+        }
+        merged++;
+      } else {
+        const saved = await experienceManager.add(candidate.entry);
+        experience.push(this.resumeEntry(saved, RESUME_EXPERIENCE_FIELDS));
+        added++;
+      }
+    }
+
+    for (const index of selection.projects) {
+      const candidate = plan.projects[index];
+      if (!candidate) continue;
+      if (candidate.existing) {
+        const changes = this.missingFields(candidate.existing, candidate.entry);
+        if (Object.keys(changes).length > 0) {
+          await projectManager.update(candidate.existing.id, changes);
+          this.fillResumeEntry(projects, candidate.existing, changes, (p) => p.name === candidate.existing!.name);
+        }
+        merged++;
+      } else {
+        const saved = await projectManager.add(candidate.entry);
+        projects.push(this.resumeEntry(saved, RESUME_PROJECT_FIELDS));
+        added++;
+      }
+    }
+
+    const content: Record<string, any> = { experience, projects };
+    if (selection.education && plan.education.length > 0) {
+      content.education = [...(resume.content.education || []), ...plan.education];
+    }
+    if (selection.skills && plan.skills.length > 0) {
+      content.skills = [
+        ...(resume.content.skills || []),
+        ...plan.skills.map((name) => ({ name, level: 'proficient', category: 'other' })),
+      ];
+    }
+    if (selection.profile && plan.summary) {
+      content.summary = plan.summary;
+    }
+    const basicInfo = selection.profile ? { ...resume.basicInfo, ...plan.basicInfo } : resume.basicInfo;
+
+    const updated = await resumeManager.update(
+      { basicInfo, content: content as Resume['content'] },
+      { ai: false, operation: 'import', note: plan.source }
+    );
+    this.logger.info(`Imported from ${plan.source}: ${added} added, ${merged} merged`);
+    return { resume: updated, added, merged };
+  }
+
+  // Fields the imported entry has and the saved one doesn't; saved values always win
+  private missingFields(existing: any, entry: any): Record<string, any> {
+    const changes: Record<string, any> = {};
+    const empty = (v: unknown) => v === undefined || v === null || v === '' || (Array.isArray(v) && v.length === 0);
+    for (const [key, value] of Object.entries(entry)) {
+      if (!empty(value) && empty(existing[key])) {
+        changes[key] = value;
+      }
+    }
+    return changes;
+  }
+
+  private fillResumeEntry(entries: any[], existing: { id: string }, changes: Record<string, any>, matches: (entry: any) => boolean): void {
+    const index = entries.findIndex((entry) => entry.id === existing.id || (!entry.id && matches(entry)));
+    if (index !== -1) {
+      entries[index] = { ...entries[index], ...this.missingFields(entries[index], changes) };
+    }
+  }
+
+  private resumeEntry(source: any, fields: string[]): any {
+    const entry: any = { id: source.id };
+    for (const field of fields) {
+      if (source[field] !== undefined) {
+        entry[field] = source[field];
+      }
+    }
+    return entry;
+  }
+
+  private educationKey(education: any): string {
+    return `${this.normalize(education.institution)}|${this.normalize(education.degree)}`;
+  }
+
+  private normalize(value: unknown): string {
+    return String(value || '').trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+}
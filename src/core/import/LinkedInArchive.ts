@@ -0,0 +1,193 @@
+import { ZipArchive } from '../../utils/ZipArchive';
+import { ImportedExperience, ImportedResume } from './ImportMerger';
+
+// The files of a "Download your data" archive that hold resume data
+export const LINKEDIN_FILES = ['Profile.csv', 'Positions.csv', 'Education.csv', 'Skills.csv', 'Projects.csv'];
+
+export interface LinkedInArchive extends ImportedResume {
+  // Which of LINKEDIN_FILES the archive contained
+  found: string[];
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const BULLET = /^\s*[•·▪●◦*-]\s+/;
+
+/**
+ * Reads the resume data from a LinkedIn data export. Dates become FAJ's
+ * "YYYY-MM", or just the year when LinkedIn has no month; bulleted lines
+ * of a description become highlights.
+ */
+export async function readLinkedInArchive(zipPath: string): Promise<LinkedInArchive> {
+  const archive = await ZipArchive.open(zipPath);
+  const found: string[] = [];
+  const rows = (file: string): Record<string, string>[] => {
+    const name = archive.find(file);
+    if (!name) {
+      return [];
+    }
+    found.push(file);
+    return parseCsv(archive.readText(name) || '');
+  };
+
+  const profile = rows('Profile.csv')[0] || {};
+  const basicInfo: Record<string, any> = {
+    name: [profile['First Name'], profile['Last Name']].filter(Boolean).join(' '),
+    location: profile['Geo Location'] || profile['Address'],
+  };
+  for (const url of (profile['Websites'] || '').match(/https?:\/\/[^\s,\]]+/g) || []) {
+    if (/github\.com/i.test(url)) {
+      basicInfo.githubUrl = basicInfo.githubUrl || url;
+    } else if (/linkedin\.com/i.test(url)) {
+      basicInfo.linkedinUrl = basicInfo.linkedinUrl || url;
+    } else {
+      basicInfo.portfolioUrl = basicInfo.portfolioUrl || url;
+    }
+  }
+
+  const experiences: ImportedExperience[] = rows('Positions.csv')
+    .filter((row) => row['Company Name'] || row['Title'])
+    .map((row) => {
+      const { description, highlights } = splitDescription(row['Description']);
+      const endDate = formatDate(row['Finished On']);
+      return {
+        company: row['Company Name'] || '',
+        title: row['Title'] || '',
+        location: row['Location'] || undefined,
+        startDate: formatDate(row['Started On']) || '',
+        endDate,
+        current: !endDate,
+        description,
+        highlights,
+        technologies: [],
+      } as ImportedExperience;
+    });
+
+  const projects = rows('Projects.csv')
+    .filter((row) => row['Title'])
+    .map((row) => {
+      const { description, highlights } = splitDescription(row['Description']);
+      const endDate = formatDate(row['Finished On']);
+      return {
+        name: row['Title'],
+        description,
+        highlights,
+        url: row['Url'] || undefined,
+        startDate: formatDate(row['Started On']),
+        endDate,
+        current: row['Started On'] ? !endDate : undefined,
+      };
+    });
+
+  const education = rows('Education.csv')
+    .filter((row) => row['School Name'])
+    .map((row) => {
+      const { field, degree } = splitDegree(row['Degree Name']);
+      const highlights = [row['Activities'], row['Notes']]
+        .flatMap((text) => (text || '').split(/\r?\n/))
+        .map((line) => line.replace(BULLET, '').trim())
+        .filter(Boolean);
+      return {
+        institution: row['School Name'],
+        degree,
+        field,
+        startDate: formatDate(row['Start Date']) || '',
+        endDate: formatDate(row['End Date']) || '',
+        current: false,
+        highlights,
+      };
+    });
+
+  return {
+    source: 'LinkedIn export',
+    basicInfo,
+    summary: profile['Summary'] || undefined,
+    experiences,
+    projects,
+    education,
+    skills: rows('Skills.csv').map((row) => row['Name']).filter(Boolean),
+    found,
+  };
+}
+
+/**
+ * Parses CSV as LinkedIn writes it: a header row, quoted fields that may
+ * span lines, and doubled quotes for a literal quote.
+ */
+function parseCsv(text: string): Record<string, string>[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...body] = records.filter((r) => r.some((value) => value.trim()));
+  if (!header) {
+    return [];
+  }
+  return body.map((values) => Object.fromEntries(header.map((name, i) => [name.trim(), (values[i] || '').trim()])));
+}
+
+// "Mar 2019" → "2019-03", "2019" → "2019"; anything else is kept as written
+function formatDate(value?: string): string | undefined {
+  const text = (value || '').trim();
+  if (!text) {
+    return undefined;
+  }
+  const monthYear = text.match(/^([A-Za-z]{3})[a-z]*\.?\s+(\d{4})$/);
+  if (monthYear && MONTHS.includes(monthYear[1].toLowerCase())) {
+    return `${monthYear[2]}-${String(MONTHS.indexOf(monthYear[1].toLowerCase()) + 1).padStart(2, '0')}`;
+  }
+  const numeric = text.match(/^(\d{1,2})\/(?:\d{1,2}\/)?(\d{4})$/);
+  if (numeric) {
+    return `${numeric[2]}-${numeric[1].padStart(2, '0')}`;
+  }
+  return text;
+}
+
+function splitDescription(text?: string): { description: string; highlights: string[] } {
+  const lines = (text || '').split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  return {
+    description: lines.filter((line) => !BULLET.test(line)).join('\n'),
+    highlights: lines.filter((line) => BULLET.test(line)).map((line) => line.replace(BULLET, '')),
+  };
+}
+
+// LinkedIn has one "Degree Name" such as "Bachelor of Science - BS, Computer Science"
+function splitDegree(value?: string): { degree: string; field: string } {
+  const text = (value || '').trim();
+  const comma = text.lastIndexOf(',');
+  if (comma === -1) {
+    return { degree: text, field: '' };
+  }
+  return { degree: text.slice(0, comma).trim(), field: text.slice(comma + 1).trim() };
+}
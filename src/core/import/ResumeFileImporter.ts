@@ -0,0 +1,145 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from '../../utils/Logger';
+import { AIManager } from '../../ai/AIManager';
+import { ParsedResumeSchema } from '../../ai/schemas';
+import { PromptRegistry } from '../../ai/prompts/PromptRegistry';
+import { extractPdfText } from '../../utils/PdfText';
+import { extractDocxText } from '../../utils/DocxText';
+import { ImportedExperience, ImportedResume, UncertainField } from './ImportMerger';
+import { checkImported, parseResumeText, ResumeSection, segmentResume } from './ResumeText';
+
+export interface ResumeFileImport extends ImportedResume {
+  uncertain: UncertainField[];
+  // Sections recognized in the file, in resume order
+  sections: ResumeSection[];
+  warnings: string[];
+  // Whether the entries came from the AI rather than the local parser
+  aiParsed: boolean;
+}
+
+/**
+ * Reads an existing resume from a PDF or Word file. The text is always
+ * extracted and split into sections locally; the entries are read either
+ * by a local parser or, when asked, by the AI.
+ */
+export class ResumeFileImporter {
+  private static instance: ResumeFileImporter;
+  private logger: Logger;
+  private aiManager: AIManager;
+  private prompts: PromptRegistry;
+
+  private constructor() {
+    this.logger = new Logger('ResumeFileImporter');
+    this.aiManager = AIManager.getInstance();
+    this.prompts = PromptRegistry.getInstance();
+  }
+
+  static getInstance(): ResumeFileImporter {
+    if (!ResumeFileImporter.instance) {
+      ResumeFileImporter.instance = new ResumeFileImporter();
+    }
+    return ResumeFileImporter.instance;
+  }
+
+  async read(filePath: string, options: { ai?: boolean } = {}): Promise<ResumeFileImport> {
+    const text = await this.extractText(filePath);
+    if (!text.trim()) {
+      throw new Error('No text found in the file. Scanned resumes need OCR before they can be imported');
+    }
+
+    const source = path.basename(filePath);
+    const segments = segmentResume(text);
+    const parsed = parseResumeText(segments, source);
+    const result: ResumeFileImport = {
+      ...parsed,
+      sections: Object.keys(segments.sections) as ResumeSection[],
+      aiParsed: false,
+    };
+
+    if (options.ai) {
+      try {
+        const fromAI = await this.parseWithAI(text, source);
+        // Anything the AI returns that the file doesn't contain is flagged for review,
+        // and only the local warnings about sections left out still apply
+        return {
+          ...result,
+          ...fromAI,
+          uncertain: this.merge(fromAI.uncertain || [], checkImported(fromAI, text)),
+          warnings: result.warnings.filter((warning) => warning.includes('is not imported')),
+          aiParsed: true,
+        };
+      } catch (error) {
+        this.logger.warn(`AI parsing failed, using the local parser: ${(error as Error).message}`);
+        result.warnings.push('AI parsing failed; the entries below come from the local parser');
+      }
+    }
+
+    result.uncertain = this.merge(result.uncertain, checkImported(result));
+    return result;
+  }
+
+  private async extractText(filePath: string): Promise<string> {
+    const data = await fs.readFile(filePath);
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension === '.pdf' || data.subarray(0, 5).toString('latin1') === '%PDF-') {
+      return extractPdfText(data);
+    }
+    if (extension === '.docx' || data.subarray(0, 2).toString('latin1') === 'PK') {
+      return extractDocxText(data);
+    }
+    if (extension === '.doc') {
+      throw new Error('Old .doc files are not supported; save the resume as .docx or PDF first');
+    }
+    throw new Error(`Unsupported file type: ${extension || 'unknown'}. Use a PDF or .docx file`);
+  }
+
+  private async parseWithAI(text: string, source: string): Promise<ImportedResume> {
+    await this.aiManager.initialize();
+    const prompt = await this.prompts.render('resume.import', { document: text });
+    const parsed = await this.aiManager.processStructured(prompt, ParsedResumeSchema, 'analyze');
+    // Sections the resume lacks may be left out of the reply
+    const experiences = parsed.experience || [];
+    const projects = parsed.projects || [];
+    const education = parsed.education || [];
+
+    const uncertain: UncertainField[] = [];
+    const collect = (section: UncertainField['section'], entries: Array<{ uncertain?: string[] }>) =>
+      entries.forEach((entry, index) => {
+        for (const field of entry.uncertain || []) {
+          uncertain.push({ section, index, field, reason: 'the AI was unsure' });
+        }
+        delete entry.uncertain;
+      });
+    collect('experiences', experiences);
+    collect('projects', projects);
+    collect('education', education);
+
+    return {
+      source,
+      basicInfo: parsed.basicInfo || {},
+      summary: parsed.summary,
+      experiences: experiences.map((experience) => ({
+        ...experience,
+        current: experience.current ?? !experience.endDate,
+        description: experience.description || '',
+        highlights: experience.highlights || [],
+        technologies: experience.technologies || [],
+      }) as ImportedExperience),
+      projects,
+      education: education.map((entry) => ({ ...entry, highlights: [], current: !entry.endDate })),
+      skills: parsed.skills || [],
+      uncertain,
+    };
+  }
+
+  // One entry per field; the first reason given wins
+  private merge(...lists: UncertainField[][]): UncertainField[] {
+    const merged = new Map<string, UncertainField>();
+    for (const field of lists.flat()) {
+      const key = `${field.section}:${field.index ?? ''}:${field.field}`;
+      if (!merged.has(key)) merged.set(key, field);
+    }
+    return [...merged.values()];
+  }
+}
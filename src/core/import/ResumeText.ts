@@ -0,0 +1,452 @@
+import { getSectionTitleVariants, SectionTitles } from '../../utils/SectionTitles';
+import { ImportedExperience, ImportedResume, UncertainField } from './ImportMerger';
+
+export type ResumeSection = 'summary' | 'experience' | 'projects' | 'education' | 'skills' | 'certifications' | 'languages' | 'awards';
+
+export interface ResumeSegments {
+  // Lines before the first heading: name and contact details
+  header: string[];
+  sections: Partial<Record<ResumeSection, string[]>>;
+}
+
+export interface ParsedResumeText extends ImportedResume {
+  uncertain: UncertainField[];
+  // Sections found but not imported, and sections that yielded nothing
+  warnings: string[];
+}
+
+const SECTION_TITLE_KEYS: Array<[ResumeSection, Array<keyof SectionTitles>]> = [
+  ['summary', ['professionalSummary']],
+  ['experience', ['workExperience']],
+  ['projects', ['projects']],
+  ['education', ['education']],
+  ['skills', ['skills', 'technicalSkills']],
+  ['certifications', ['certifications']],
+  ['languages', ['languages']],
+  ['awards', ['awards']],
+];
+
+// Common headings besides the localized titles FAJ itself writes
+const HEADING_ALIASES: Record<ResumeSection, string[]> = {
+  summary: ['Summary', 'Profile', 'About', 'About Me', 'Objective', '个人简介', '个人总结', '自我评价'],
+  experience: ['Experience', 'Professional Experience', 'Employment', 'Employment History', 'Work History', '工作经验', '实习经历'],
+  projects: ['Personal Projects', 'Side Projects', 'Selected Projects', 'Open Source', '项目经历'],
+  education: ['Academic Background', '教育经历'],
+  skills: ['Tech Stack', 'Core Skills', 'Skills & Tools', '专业技能'],
+  certifications: ['Certificates', 'Licenses & Certifications'],
+  languages: [],
+  awards: ['Honors', 'Honors & Awards', 'Achievements', '荣誉奖项'],
+};
+
+const HEADINGS = new Map<string, ResumeSection>(
+  SECTION_TITLE_KEYS.flatMap(([section, keys]) =>
+    [...keys.flatMap((key) => getSectionTitleVariants(key)), ...HEADING_ALIASES[section]].map((title) => [normalizeHeading(title), section] as [string, ResumeSection])
+  )
+);
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+const DATE = `(?:${MONTH_NAME}\\s+\\d{4}|\\d{4}\\s*[./年-]\\s*(?:0?[1-9]|1[0-2])(?!\\d)\\s*月?|(?:0?[1-9]|1[0-2])\\s*/\\s*\\d{4}|\\d{4}\\s*年?)`;
+const PRESENT = "(?:present|current|now|today|至今|现在|今|現在|heute|aujourd'hui|actualidad|presente|현재)";
+const DATE_RANGE = new RegExp(`(${DATE})\\s*(?:-|–|—|~|～|to|至|bis|à)\\s*(${DATE}|${PRESENT})`, 'i');
+const YEAR = /(?<!\d)(?:19|20)\d{2}(?!\d)/g;
+
+const BULLET = /^\s*(?:[•·▪●◦■►✓*]|[-–](?=\s))\s*/;
+// Separators between the title, employer and location on an entry's first lines
+const SEPARATORS = /\s+[|·•@—–-]\s+|\t+|\s{3,}|[｜，]/;
+const TECH_LINE = /^(?:tech(?:nologies|nology)?(?:\s+stack)?|stack|tools|built with|技术栈|技术)\s*[:：]\s*/i;
+
+const TITLE_WORDS =
+  /\b(?:engineer|developer|programmer|manager|lead|architect|intern|designer|analyst|scientist|consultant|director|head|officer|specialist|administrator|researcher|founder|cto|ceo|vp|sre|devops)\b|工程师|经理|总监|开发|实习|架构师|设计师|主管|负责人|研究员/i;
+const COMPANY_WORDS =
+  /\b(?:inc|ltd|llc|gmbh|corp|corporation|co|company|technologies|technology|labs|group|bank|studio|studios|systems|solutions|software|ag|sa|plc|limited)\b\.?|有限公司|公司|集团|科技|银行|工作室/i;
+const INSTITUTION_WORDS = /\b(?:university|college|institute|school|academy|polytechnic|universität|université|universidad|hochschule)\b|大学|学院|学校|大學|學院|대학교/i;
+const DEGREE_WORDS =
+  /\b(?:bachelor|master|doctor|ph\.?\s?d|mba|b\.?\s?sc?|m\.?\s?sc?|b\.?\s?a|m\.?\s?a|b\.?\s?eng|m\.?\s?eng|associate|diploma)\b\.?|学士|硕士|博士|本科|研究生|专科|大专/i;
+// An abbreviated degree followed by its field, e.g. "BSc Computer Science"
+const DEGREE_WITH_FIELD = /^((?:ph\.?\s?d|mba|b\.?\s?sc?|m\.?\s?sc?|b\.?\s?a|m\.?\s?a|b\.?\s?eng|m\.?\s?eng)\.?)\s+(?:in\s+)?(.+)$/i;
+
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+const PHONE = /\+?\d[\d\s().-]{7,}\d/;
+const URL = /(?:https?:\/\/|www\.|(?:github|linkedin)\.com\/)[^\s|,;]+/gi;
+
+/**
+ * Splits resume text into its sections by recognizing headings in any
+ * language SectionTitles knows, plus common English and Chinese variants.
+ */
+export function segmentResume(text: string): ResumeSegments {
+  const segments: ResumeSegments = { header: [], sections: {} };
+  let current: string[] = segments.header;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/ {2,}/g, '  ').trim();
+    if (!line) continue;
+
+    const section = line.length <= 40 ? HEADINGS.get(normalizeHeading(line)) : undefined;
+    if (section) {
+      // A repeated heading, e.g. on a second page, continues the section
+      current = segments.sections[section] = segments.sections[section] || [];
+    } else {
+      current.push(line);
+    }
+  }
+  return segments;
+}
+
+/**
+ * Reads entries out of the sections. The layouts resumes use vary too
+ * much to read every field with certainty, so fields assigned by
+ * position rather than by a recognizable word are listed in `uncertain`.
+ */
+export function parseResumeText(segments: ResumeSegments, source: string): ParsedResumeText {
+  const uncertain: UncertainField[] = [];
+  const warnings: string[] = [];
+  const { sections } = segments;
+
+  if (Object.keys(sections).length === 0) {
+    warnings.push('No section headings were recognized; only contact details could be read');
+  }
+  for (const section of ['certifications', 'languages', 'awards'] as ResumeSection[]) {
+    if (sections[section]?.length) {
+      warnings.push(`The ${section} section is not imported; add it with faj resume update`);
+    }
+  }
+
+  const experiences = parseExperience(sections.experience || [], uncertain);
+  if (sections.experience?.length && experiences.length === 0) {
+    warnings.push('No dated entries found in the experience section');
+  }
+
+  return {
+    source,
+    basicInfo: parseHeader(segments.header, uncertain),
+    summary: sections.summary ? joinWrapped(sections.summary) : undefined,
+    experiences,
+    projects: parseProjects(sections.projects || []),
+    education: parseEducation(sections.education || [], uncertain),
+    skills: parseSkills(sections.skills || []),
+    uncertain,
+    warnings,
+  };
+}
+
+/**
+ * Lists required fields that are empty or malformed. With `text`, names
+ * that do not occur in it are listed too, to catch values an AI made up.
+ */
+export function checkImported(imported: ImportedResume, text?: string): UncertainField[] {
+  const issues: UncertainField[] = [];
+  const haystack = text ? squash(text) : '';
+  const check = (section: UncertainField['section'], index: number | undefined, field: string, value: unknown, date = false) => {
+    const textValue = String(value ?? '').trim();
+    if (!textValue) {
+      issues.push({ section, index, field, reason: 'not found' });
+    } else if (date && !/^\d{4}(?:-\d{2})?$/.test(textValue)) {
+      issues.push({ section, index, field, reason: 'not a date' });
+    } else if (text && !date && !haystack.includes(squash(textValue))) {
+      issues.push({ section, index, field, reason: 'not found in the document' });
+    }
+  };
+
+  check('basicInfo', undefined, 'name', imported.basicInfo.name);
+  imported.experiences.forEach((experience: any, index) => {
+    check('experiences', index, 'title', experience.title);
+    check('experiences', index, 'company', experience.company);
+    check('experiences', index, 'startDate', experience.startDate, true);
+    if (experience.endDate) {
+      check('experiences', index, 'endDate', experience.endDate, true);
+    }
+  });
+  imported.projects.forEach((project, index) => check('projects', index, 'name', project.name));
+  imported.education.forEach((education, index) => check('education', index, 'institution', education.institution));
+  return issues;
+}
+
+function parseHeader(lines: string[], uncertain: UncertainField[]): Record<string, any> {
+  const basicInfo: Record<string, any> = {};
+  const text = lines.join('\n');
+
+  basicInfo.email = text.match(EMAIL)?.[0];
+  const phone = text.replace(EMAIL, '').replace(URL, '').match(PHONE)?.[0];
+  if (phone && phone.replace(/\D/g, '').length >= 9) {
+    basicInfo.phone = phone.trim();
+  }
+  for (const match of text.match(URL) || []) {
+    const url = /^https?:\/\//i.test(match) ? match : `https://${match}`;
+    if (/github\.com/i.test(url)) {
+      basicInfo.githubUrl = basicInfo.githubUrl || url;
+    } else if (/linkedin\.com/i.test(url)) {
+      basicInfo.linkedinUrl = basicInfo.linkedinUrl || url;
+    } else {
+      basicInfo.portfolioUrl = basicInfo.portfolioUrl || url;
+    }
+  }
+
+  // The name is the first line that is not a title like "Resume" or contact details
+  const nameLine = lines.find(
+    (line) => !EMAIL.test(line) && !/https?:|www\./i.test(line) && (line.match(/\d/g) || []).length < 3 && !/^(?:resume|curriculum vitae|cv|简历|个人简历|履歴書)$/i.test(line)
+  );
+  if (nameLine) {
+    basicInfo.name = nameLine.split(SEPARATORS)[0].trim();
+    if (basicInfo.name.length > 40) {
+      uncertain.push({ section: 'basicInfo', field: 'name', reason: 'guessed from the layout' });
+    }
+  }
+
+  for (const key of Object.keys(basicInfo)) {
+    if (!basicInfo[key]) delete basicInfo[key];
+  }
+  return basicInfo;
+}
+
+/**
+ * An entry starts at a line with a date range, together with up to two
+ * short lines just above it that name the position and employer.
+ */
+function parseExperience(lines: string[], uncertain: UncertainField[]): ImportedExperience[] {
+  const anchors = lines.map((line, i) => (!BULLET.test(line) && DATE_RANGE.test(line) ? i : -1)).filter((i) => i !== -1);
+  const starts = anchors.map((anchor, n) => {
+    const floor = n > 0 ? anchors[n - 1] + 1 : 0;
+    let start = anchor;
+    while (start > floor && anchor - start < 2 && isHeaderLine(lines[start - 1])) start--;
+    return start;
+  });
+
+  return anchors.map((anchor, n) => {
+    const index = n;
+    const range = lines[anchor].match(DATE_RANGE)!;
+    const headerLines = [...lines.slice(starts[n], anchor), lines[anchor].replace(range[0], '')];
+    const body = lines.slice(anchor + 1, n + 1 < starts.length ? starts[n + 1] : lines.length);
+
+    let title = '';
+    let company = '';
+    let location: string | undefined;
+    const atLine = headerLines.find((line) => /\s(?:at|@)\s/i.test(line));
+    if (atLine) {
+      const [before, after] = atLine.split(/\s(?:at|@)\s/i);
+      title = before.trim();
+      company = cleanPart(after.split(SEPARATORS)[0]);
+    } else {
+      const parts = headerLines.flatMap(splitParts);
+      const locationIndex = parts.findIndex((part) => /^remote$|^[^,\d]+,\s*[^,\d]+$/i.test(part) && !TITLE_WORDS.test(part) && !COMPANY_WORDS.test(part));
+      if (locationIndex !== -1 && parts.length > 2) {
+        location = parts.splice(locationIndex, 1)[0];
+      }
+      const titleIndex = parts.findIndex((part) => TITLE_WORDS.test(part));
+      const companyIndex = parts.findIndex((part, i) => i !== titleIndex && COMPANY_WORDS.test(part));
+      const rest = parts.filter((_, i) => i !== titleIndex && i !== companyIndex);
+      title = titleIndex !== -1 ? parts[titleIndex] : rest.shift() || '';
+      company = companyIndex !== -1 ? parts[companyIndex] : rest.shift() || '';
+      if (titleIndex === -1 && title) {
+        uncertain.push({ section: 'experiences', index, field: 'title', reason: 'guessed from the layout' });
+      }
+      if (companyIndex === -1 && company) {
+        uncertain.push({ section: 'experiences', index, field: 'company', reason: 'guessed from the layout' });
+      }
+    }
+
+    const { description, highlights, technologies } = parseBody(body);
+    const endDate = normalizeDate(range[2]);
+    return {
+      title,
+      company,
+      location,
+      startDate: normalizeDate(range[1]) || '',
+      endDate,
+      current: !endDate,
+      description,
+      highlights,
+      technologies,
+    } as ImportedExperience;
+  });
+}
+
+function parseEducation(lines: string[], uncertain: UncertainField[]): any[] {
+  // One block per institution; a degree line just above a school starts that school's block
+  const blocks: string[][] = [];
+  let current: string[] = [];
+  for (const line of lines) {
+    const institution = !BULLET.test(line) && INSTITUTION_WORDS.test(line);
+    if (institution && current.some((l) => INSTITUTION_WORDS.test(l))) {
+      const carried = current.length > 1 && DEGREE_WORDS.test(current[current.length - 1]) && !INSTITUTION_WORDS.test(current[current.length - 1])
+        && current.slice(0, -1).some((l) => DEGREE_WORDS.test(l)) ? [current.pop()!] : [];
+      blocks.push(current);
+      current = carried;
+    }
+    current.push(line);
+  }
+  if (current.length > 0) blocks.push(current);
+
+  return blocks.map((block, index) => {
+    // Every comma-separated part is classified on its own, so "TU Berlin, BSc
+    // Computer Science" is a school and a degree rather than one long school
+    const parts = block
+      .filter((line) => !BULLET.test(line))
+      .flatMap((line) => splitParts(line.replace(DATE_RANGE, '')).flatMap((p) => p.split(/[,，]\s*/)))
+      .map(cleanPart)
+      .filter((part) => part && !/^\d{4}$/.test(part) && !/gpa/i.test(part));
+    let institution = parts.find((part) => INSTITUTION_WORDS.test(part)) || '';
+    const degreeIndex = parts.findIndex((part) => DEGREE_WORDS.test(part) && part !== institution);
+    let degree = degreeIndex !== -1 ? parts[degreeIndex] : '';
+    let field = '';
+    const inField = degree.match(/^(.*?)\s+in\s+(.+)$/i) || degree.match(DEGREE_WITH_FIELD);
+    if (inField) {
+      [degree, field] = [inField[1], inField[2]];
+    }
+
+    // Parts no keyword claimed, in order: the school if none was named, then the field
+    const rest = parts.filter((part, i) => i !== degreeIndex && part !== institution);
+    if (!institution && rest.length > 0) {
+      institution = rest.shift()!;
+      uncertain.push({ section: 'education', index, field: 'institution', reason: 'guessed from the layout' });
+    }
+    if (!field && degree && rest.length > 0) {
+      // "B.S., Computer Science" or "计算机科学 本科": the part next to the degree
+      field = [parts[degreeIndex + 1], parts[degreeIndex - 1]].find((part) => part && rest.includes(part)) || rest[0];
+      uncertain.push({ section: 'education', index, field: 'field', reason: 'guessed from the layout' });
+    }
+    if (!degree) {
+      uncertain.push({ section: 'education', index, field: 'degree', reason: 'not found' });
+    }
+
+    const text = block.join(' ');
+    const range = text.match(DATE_RANGE);
+    const years = text.match(YEAR) || [];
+    const gpa = text.match(/gpa[:：]?\s*(\d(?:\.\d+)?)/i);
+
+    return {
+      institution: institution || cleanPart(block[0].replace(DATE_RANGE, '')),
+      degree,
+      field,
+      startDate: range ? normalizeDate(range[1]) || '' : years.length > 1 ? years[0] : '',
+      endDate: range ? normalizeDate(range[2]) || '' : years[years.length - 1] || '',
+      current: range ? !normalizeDate(range[2]) : false,
+      gpa: gpa ? Number(gpa[1]) : undefined,
+      highlights: block.filter((line) => BULLET.test(line)).map((line) => line.replace(BULLET, '')),
+    };
+  });
+}
+
+function parseProjects(lines: string[]): any[] {
+  // A project starts at a short name line once the previous one has content
+  const blocks: string[][] = [];
+  for (const line of lines) {
+    const last = blocks[blocks.length - 1];
+    if (!last || (isHeaderLine(line) && !TECH_LINE.test(line) && !/^https?:/i.test(line) && last.length > 1)) {
+      blocks.push([line]);
+    } else {
+      last.push(line);
+    }
+  }
+
+  return blocks.map((block) => {
+    const range = block[0].match(DATE_RANGE);
+    const [name, ...rest] = splitParts(block[0].replace(DATE_RANGE, ''));
+    const { description, highlights, technologies } = parseBody(block.slice(1));
+    const urls = block.join(' ').match(URL) || [];
+    const githubUrl = urls.find((url) => /github\.com/i.test(url));
+    const url = urls.find((u) => u !== githubUrl);
+    // "faj | TypeScript, Node.js": technologies after the name
+    const listed = rest.filter((part) => part.includes(',')).flatMap((part) => part.split(/,\s*/));
+    const endDate = range ? normalizeDate(range[2]) : undefined;
+
+    return {
+      name: cleanPart(name || block[0]),
+      description: urls.reduce((text, u) => text.replace(u, ''), description).replace(/\s{2,}/g, ' ').trim(),
+      highlights,
+      technologies: [...new Set([...listed, ...technologies].map((t) => t.trim()).filter(Boolean))],
+      url: url && (/^https?:\/\//i.test(url) ? url : `https://${url}`),
+      githubUrl: githubUrl && (/^https?:\/\//i.test(githubUrl) ? githubUrl : `https://${githubUrl}`),
+      startDate: range ? normalizeDate(range[1]) : undefined,
+      endDate,
+      current: range ? !endDate : undefined,
+    };
+  });
+}
+
+function parseSkills(lines: string[]): string[] {
+  const skills = lines
+    .map((line) => line.replace(BULLET, ''))
+    // "Languages: Go, Rust" lists skills under a category label
+    .flatMap((line) => line.replace(/^[^:：]{1,30}[:：]\s*/, '').split(/[,;，；、|•·]/))
+    .map((skill) => skill.trim().replace(/\.$/, ''))
+    .filter((skill) => skill && skill.length <= 40);
+  return [...new Set(skills)];
+}
+
+function parseBody(lines: string[]): { description: string; highlights: string[]; technologies: string[] } {
+  const description: string[] = [];
+  const highlights: string[] = [];
+  const technologies: string[] = [];
+  let lastWasBullet = false;
+
+  for (const line of lines) {
+    if (TECH_LINE.test(line)) {
+      technologies.push(...line.replace(TECH_LINE, '').split(/[,;，；、|]/).map((t) => t.trim()).filter(Boolean));
+      lastWasBullet = false;
+    } else if (BULLET.test(line)) {
+      highlights.push(line.replace(BULLET, ''));
+      lastWasBullet = true;
+    } else if (lastWasBullet && /^[a-z(]/.test(line)) {
+      // A bullet wrapped onto the next line
+      highlights[highlights.length - 1] += ` ${line}`;
+    } else {
+      description.push(line);
+      lastWasBullet = false;
+    }
+  }
+  return { description: joinWrapped(description), highlights, technologies };
+}
+
+// Short lines that can name an entry: not a bullet and not a sentence
+function isHeaderLine(line: string): boolean {
+  return !BULLET.test(line) && line.length <= 60 && !/[.。!?！？:：]$/.test(line) && !/^[a-z]/.test(line);
+}
+
+function splitParts(line: string): string[] {
+  const parts = line.split(SEPARATORS).map(cleanPart).filter(Boolean);
+  // Commas only separate parts when nothing else does, e.g. "Engineer, Foo Ltd"
+  return parts.length === 1 && !/,.*,/.test(parts[0]) ? parts[0].split(/,\s+/).map(cleanPart).filter(Boolean) : parts;
+}
+
+function cleanPart(part: string): string {
+  return part.replace(/^[\s|·•,，()（）-]+|[\s|·•,，()（）-]+$/g, '').trim();
+}
+
+// Lines broken by the page width are joined; sentences keep their line breaks
+function joinWrapped(lines: string[]): string {
+  return lines.reduce((text, line) => (!text ? line : /[.!?。！？]$/.test(text) ? `${text}\n${line}` : `${text} ${line}`), '');
+}
+
+// "Mar 2019", "2019.03", "2019年3月", "3/2019" → "2019-03"; "2019" → "2019"; "Present" → undefined
+function normalizeDate(value: string): string | undefined {
+  const text = value.trim().toLowerCase();
+  const named = text.match(/^([a-z]{3})[a-z]*\.?\s+(\d{4})$/);
+  if (named && MONTHS.includes(named[1])) {
+    return `${named[2]}-${String(MONTHS.indexOf(named[1]) + 1).padStart(2, '0')}`;
+  }
+  const yearMonth = text.match(/^(\d{4})\s*[./年-]\s*(\d{1,2})\s*月?$/);
+  if (yearMonth) {
+    return `${yearMonth[1]}-${yearMonth[2].padStart(2, '0')}`;
+  }
+  const monthYear = text.match(/^(\d{1,2})\s*\/\s*(\d{4})$/);
+  if (monthYear) {
+    return `${monthYear[2]}-${monthYear[1].padStart(2, '0')}`;
+  }
+  const year = text.match(/^(\d{4})\s*年?$/);
+  return year ? year[1] : undefined;
+}
+
+function normalizeHeading(line: string): string {
+  return line
+    .replace(/^(?:[#*•■▪-]+|\d+[.)、]|[一二三四五六七八九十]+[、.])\s*/, '')
+    .replace(/[:：]\s*$/, '')
+    .replace(/(?<=[\u3000-\u9fff\uac00-\ud7af])\s+(?=[\u3000-\u9fff\uac00-\ud7af])/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+function squash(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, '');
+}
@@ -0,0 +1,207 @@
+import { Resume, JobRequirement } from '../../models';
+import { Logger } from '../../utils/Logger';
+import { AIManager } from '../../ai/AIManager';
+import { StreamOptions } from '../../ai/providers/BaseProvider';
+import { MatchAssessment, MatchAssessmentSchema } from '../../ai/schemas';
+import { PromptRegistry } from '../../ai/prompts/PromptRegistry';
+import { PromptGuard } from '../../ai/PromptGuard';
+import { ResumeSection, splitResume } from './ResumeSections';
+
+export type RequirementStatus = 'matched' | 'partial' | 'missing';
+
+export type MatchDimension = 'requirements' | 'skills' | 'experience' | 'keywords';
+
+// How much each sub-score contributes to the overall match score
+export const MATCH_WEIGHTS: Record<MatchDimension, number> = {
+  requirements: 0.4,
+  skills: 0.25,
+  experience: 0.2,
+  keywords: 0.15,
+};
+
+const STATUS_CREDIT: Record<RequirementStatus, number> = { matched: 1, partial: 0.5, missing: 0 };
+
+export interface JobPosting {
+  title: string;
+  company?: string;
+  // The pasted job description, when the job came from free text
+  description?: string;
+  // The structured requirement, when the job came from a JSON file
+  requirement?: JobRequirement;
+}
+
+export interface RequirementMatch {
+  requirement: string;
+  status: RequirementStatus;
+  // Resume sections supporting the status, e.g. "Backend Engineer at Acme"
+  evidence: string[];
+  reason?: string;
+}
+
+export interface KeywordCoverage {
+  keyword: string;
+  covered: boolean;
+  // Resume sections that mention the keyword
+  foundIn: string[];
+}
+
+export interface SubScore {
+  name: MatchDimension;
+  score: number;
+  weight: number;
+}
+
+export interface MatchReport {
+  job: { title: string; company?: string };
+  createdAt: string;
+  provider: string;
+  score: number;
+  subScores: SubScore[];
+  requirements: RequirementMatch[];
+  keywords: KeywordCoverage[];
+}
+
+/**
+ * Explains how a resume matches a job. The model judges each requirement
+ * and cites resume sections by id; everything that can be checked locally
+ * (evidence labels, keyword coverage and the weighted total) is computed
+ * here so the breakdown always adds up to the score.
+ */
+export class JobMatcher {
+  private static instance: JobMatcher;
+  private logger: Logger;
+  private aiManager: AIManager;
+  private prompts: PromptRegistry;
+
+  private constructor() {
+    this.logger = new Logger('JobMatcher');
+    this.aiManager = AIManager.getInstance();
+    this.prompts = PromptRegistry.getInstance();
+  }
+
+  static getInstance(): JobMatcher {
+    if (!JobMatcher.instance) {
+      JobMatcher.instance = new JobMatcher();
+    }
+    return JobMatcher.instance;
+  }
+
+  async match(resume: Resume, job: JobPosting, stream?: StreamOptions): Promise<MatchReport> {
+    const sections = splitResume(resume);
+    if (sections.length === 0) {
+      throw new Error('Resume has no experience, projects or skills to match against');
+    }
+
+    await this.aiManager.initialize();
+    const prompt = await this.prompts.render('match.report', {
+      job: this.describeJob(job),
+      resume: sections.map((s) => `[${s.id}] ${s.label}\n${s.text}`).join('\n\n'),
+    });
+    const assessment = await this.aiManager.processStructured(prompt, MatchAssessmentSchema, 'match', stream);
+
+    return this.buildReport(job, assessment, sections);
+  }
+
+  private buildReport(job: JobPosting, assessment: MatchAssessment, sections: ResumeSection[]): MatchReport {
+    const labels = new Map(sections.map((s) => [s.id.toUpperCase(), s.label]));
+
+    const requirements: RequirementMatch[] = assessment.requirements.map((r) => {
+      const evidence = new Set<string>();
+      for (const id of r.evidence) {
+        const label = labels.get(id.replace(/[[\]\s]/g, '').toUpperCase());
+        if (label) {
+          evidence.add(label);
+        } else {
+          this.logger.debug(`Ignoring unknown evidence id "${id}" for "${r.requirement}"`);
+        }
+      }
+      return { requirement: r.requirement, status: r.status, evidence: Array.from(evidence), reason: r.reason };
+    });
+
+    const keywords = this.keywordCoverage(assessment.keywords, sections);
+
+    const subScores: SubScore[] = [
+      {
+        name: 'requirements',
+        score: this.percent(requirements.reduce((sum, r) => sum + STATUS_CREDIT[r.status], 0), requirements.length),
+        weight: MATCH_WEIGHTS.requirements,
+      },
+      { name: 'skills', score: Math.round(assessment.skillsScore), weight: MATCH_WEIGHTS.skills },
+      { name: 'experience', score: Math.round(assessment.experienceScore), weight: MATCH_WEIGHTS.experience },
+    ];
+    // A job without recognizable keywords shouldn't drag the total down
+    if (keywords.length > 0) {
+      subScores.push({
+        name: 'keywords',
+        score: this.percent(keywords.filter((k) => k.covered).length, keywords.length),
+        weight: MATCH_WEIGHTS.keywords,
+      });
+    }
+
+    const totalWeight = subScores.reduce((sum, s) => sum + s.weight, 0);
+    const score = Math.round(subScores.reduce((sum, s) => sum + s.score * s.weight, 0) / totalWeight);
+
+    return {
+      job: { title: job.title, company: job.company },
+      createdAt: new Date().toISOString(),
+      provider: this.aiManager.getLastUsedProvider() || 'unknown',
+      score,
+      subScores,
+      requirements,
+      keywords,
+    };
+  }
+
+  private keywordCoverage(keywords: string[], sections: ResumeSection[]): KeywordCoverage[] {
+    const searchable = sections.map((s) => {
+      const text = `${s.label}\n${s.text}`;
+      return { label: s.label, text: text.toLowerCase(), compact: this.compact(text) };
+    });
+    const seen = new Set<string>();
+    const coverage: KeywordCoverage[] = [];
+
+    for (const keyword of keywords) {
+      const compact = this.compact(keyword);
+      if (!compact || seen.has(compact)) continue;
+      seen.add(compact);
+
+      let mentions: (text: string, compactText: string) => boolean;
+      if (compact.length <= 3) {
+        // Short names like "Go" or "R" must stand alone, not hide inside "Django"
+        const escaped = keyword.trim().toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const pattern = new RegExp(`(?<![a-z0-9])${escaped}(?![a-z0-9])`);
+        mentions = (text) => pattern.test(text);
+      } else {
+        // "REST APIs" is covered by a resume that says "REST API"
+        const singular = compact.replace(/s$/, '');
+        mentions = (_text, compactText) => compactText.includes(compact) || compactText.includes(singular);
+      }
+
+      const foundIn = searchable.filter((s) => mentions(s.text, s.compact)).map((s) => s.label);
+      coverage.push({ keyword: keyword.trim(), covered: foundIn.length > 0, foundIn });
+    }
+    return coverage;
+  }
+
+  private describeJob(job: JobPosting): string {
+    const parts = [`Title: ${job.title}`];
+    if (job.company) {
+      parts.push(`Company: ${job.company}`);
+    }
+    if (job.requirement) {
+      parts.push(`Requirements:\n${JSON.stringify(job.requirement, null, 2)}`);
+    }
+    if (job.description) {
+      parts.push(`Description:\n${job.description}`);
+    }
+    return PromptGuard.getInstance().fence(parts.join('\n'), 'job posting');
+  }
+
+  private percent(value: number, total: number): number {
+    return total > 0 ? Math.round((value / total) * 100) : 0;
+  }
+
+  private compact(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9一-龥+#]/g, '');
+  }
+}
@@ -0,0 +1,381 @@
+import { Resume, JobRequirement } from '../../models';
+import { splitResume } from './ResumeSections';
+
+// Canonical skill → spellings that mean the same thing. Every canonical
+// name is also a known skill, so it is recognized in free-text job ads,
+// except for the ordinary words in AMBIGUOUS_SKILL_WORDS.
+const SKILL_ALIASES: Record<string, string[]> = {
+  javascript: ['js', 'ecmascript', 'es6'],
+  typescript: ['ts'],
+  nodejs: ['node', 'node.js'],
+  react: ['react.js', 'reactjs'],
+  vue: ['vue.js', 'vuejs'],
+  angular: ['angular.js', 'angularjs'],
+  nextjs: ['next.js'],
+  nestjs: ['nest.js'],
+  express: ['express.js', 'expressjs'],
+  python: ['py', 'python3'],
+  go: ['golang'],
+  java: [],
+  kotlin: [],
+  swift: [],
+  rust: [],
+  ruby: ['ruby on rails'],
+  rails: [],
+  php: [],
+  scala: [],
+  c: [],
+  cpp: ['c++'],
+  csharp: ['c#'],
+  dotnet: ['.net', 'asp.net'],
+  spring: ['spring boot', 'springboot'],
+  django: [],
+  flask: [],
+  fastapi: [],
+  sql: [],
+  mysql: [],
+  postgresql: ['postgres', 'psql'],
+  mongodb: ['mongo'],
+  redis: [],
+  elasticsearch: ['elastic search'],
+  kafka: ['apache kafka'],
+  rabbitmq: [],
+  graphql: [],
+  rest: ['restful', 'rest api', 'rest apis', 'restful api', 'restful apis'],
+  grpc: [],
+  microservices: ['microservice', 'micro services', 'micro service'],
+  docker: [],
+  kubernetes: ['k8s'],
+  terraform: [],
+  ansible: [],
+  aws: ['amazon web services'],
+  gcp: ['google cloud', 'google cloud platform'],
+  azure: ['microsoft azure'],
+  linux: [],
+  git: [],
+  cicd: ['ci cd', 'ci/cd', 'continuous integration'],
+  jenkins: [],
+  'github-actions': ['github actions'],
+  html: ['html5'],
+  css: ['css3'],
+  sass: ['scss'],
+  tailwind: ['tailwindcss', 'tailwind css'],
+  webpack: [],
+  vite: [],
+  jest: [],
+  'machine-learning': ['ml', 'machine learning'],
+  'deep-learning': ['deep learning'],
+  nlp: ['natural language processing'],
+  llm: ['llms', 'large language models', 'large language model'],
+  tensorflow: [],
+  pytorch: ['torch'],
+  pandas: [],
+  spark: ['apache spark'],
+  'data-structures': ['data structures'],
+  'distributed-systems': ['distributed systems'],
+};
+
+// Skill spellings that are also ordinary words ("go to market", "rest of
+// the team"). In a free-text job ad they only count as the skill when
+// written like one: capitalized mid-sentence ("experience with Go"), in
+// capitals ("REST") or followed by a telling word ("REST API", "Spring
+// Boot"). With no rule they never count on their own.
+interface SkillWordSignal {
+  capitalized?: boolean;
+  allCaps?: boolean;
+  next?: RegExp;
+}
+
+const AMBIGUOUS_SKILL_WORDS: Record<string, SkillWordSignal> = {
+  go: { capitalized: true },
+  rest: { allCaps: true, next: /^\s*apis?\b/i },
+  express: { capitalized: true },
+  spring: { next: /^\s*(?:boot|mvc|framework|cloud)\b/i },
+  c: { next: /^\s*(?:\/\s*c\+\+|(?:language|programming)\b)/i },
+  swift: { capitalized: true },
+  rust: { capitalized: true },
+  spark: { capitalized: true },
+  node: { capitalized: true },
+  ml: { allCaps: true },
+  py: {},
+  ts: {},
+};
+
+// A whole word, not part of "c++", "c#", "node.js" or "go-to"
+const AMBIGUOUS_WORD_PATTERN = new RegExp(
+  `(?<![\\w.+#/-])(${Object.keys(AMBIGUOUS_SKILL_WORDS).join('|')})(?![\\w+#-]|\\.\\w)`,
+  'gi'
+);
+
+// Words that carry no signal in a resume or job ad
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it', 'its',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with', 'we', 'you', 'your', 'our',
+  'us', 'they', 'their', 'who', 'what', 'which', 'can', 'able', 'ability', 'etc', 'plus', 'using', 'use',
+  'work', 'working', 'strong', 'good', 'excellent', 'experience', 'experienced', 'year', 'years', 'skills',
+  'knowledge', 'team', 'teams', 'role', 'looking', 'join', 'required', 'requirements', 'preferred',
+  'responsibilities', 'including', 'least', 'more', 'other', 'such', 'well', 'new', 'all', 'any', 'into',
+]);
+
+const MAX_ALIAS_WORDS = Math.max(
+  ...Object.values(SKILL_ALIASES).flat().map((alias) => alias.split(' ').length)
+);
+
+// Alias phrase (space-separated tokens) → canonical skill
+const ALIAS_INDEX = new Map<string, string>(
+  Object.entries(SKILL_ALIASES).flatMap(([canonical, aliases]) =>
+    [canonical, ...aliases].map((alias): [string, string] => [alias, canonical])
+  )
+);
+
+// BM25 term-frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Contribution of each component to the score; absent components are skipped
+const WEIGHTS = { skills: 0.5, relevance: 0.3, experience: 0.2 };
+
+// A skill named in the job counts this many times more than an ordinary word
+const SKILL_TERM_BOOST = 3;
+
+export interface LocalMatchBreakdown {
+  score: number;
+  skills: { required: string[]; matched: string[]; missing: string[]; score: number } | null;
+  // How well the resume covers the job description's vocabulary, 0-100
+  relevance: number;
+  experience: { requiredYears: number; years: number; score: number } | null;
+}
+
+/**
+ * Scores a resume against a job without calling any AI provider, so the
+ * same inputs always give the same score and ranking many jobs is free.
+ *
+ * Both texts are tokenized with skill aliases folded into one canonical
+ * name ("k8s" and "Kubernetes" match). The score combines required-skill
+ * coverage, BM25-style relevance of the resume sections to the job's
+ * vocabulary, and years of experience against the requirement. A single
+ * resume is too small a corpus for IDF, so job terms are weighted by how
+ * often the job mentions them instead, with skills boosted.
+ */
+export class LocalMatchScorer {
+  private static instance: LocalMatchScorer;
+
+  static getInstance(): LocalMatchScorer {
+    if (!LocalMatchScorer.instance) {
+      LocalMatchScorer.instance = new LocalMatchScorer();
+    }
+    return LocalMatchScorer.instance;
+  }
+
+  async matchScore(resume: Resume, job: JobRequirement): Promise<number> {
+    return this.explain(resume, job).score;
+  }
+
+  explain(resume: Resume, job: JobRequirement): LocalMatchBreakdown {
+    const sections = splitResume(resume).map((s) => this.normalize(`${s.label}\n${s.text}`));
+    const resumeTerms = ` ${sections.map((tokens) => tokens.join(' ')).join(' | ')} `;
+    const jobText = [job.title, job.description, ...(job.requirements?.skills || [])].filter(Boolean).join('\n');
+
+    const skills = this.scoreSkills(job, jobText, resumeTerms);
+    const skillTerms = new Set((skills?.required || []).flatMap((skill) => this.normalize(skill)));
+    const relevance = this.scoreRelevance(this.normalize(jobText), sections, skillTerms);
+    const experience = this.scoreExperience(resume, job, jobText);
+
+    const parts: Array<[number, number]> = [[relevance, WEIGHTS.relevance]];
+    if (skills) parts.push([skills.score, WEIGHTS.skills]);
+    if (experience) parts.push([experience.score, WEIGHTS.experience]);
+
+    const totalWeight = parts.reduce((sum, [, weight]) => sum + weight, 0);
+    const score = Math.round(parts.reduce((sum, [value, weight]) => sum + value * weight, 0) / totalWeight);
+
+    return { score: Math.min(100, Math.max(0, score)), skills, relevance, experience };
+  }
+
+  /**
+   * Required skills and years found in a free-text job ad, for building a
+   * JobRequirement when the user only has the pasted description.
+   */
+  extractRequirements(text: string): { skills: string[]; experience: number } {
+    const known = new Set(Object.keys(SKILL_ALIASES));
+    const masked = text.replace(AMBIGUOUS_WORD_PATTERN, (word: string, _w: string, offset: number) =>
+      this.readsAsSkill(word, text.slice(0, offset), text.slice(offset + word.length)) ? word : ' '
+    );
+    const skills = Array.from(new Set(this.normalize(masked).filter((token) => known.has(token))));
+    return { skills, experience: this.requiredYears(text) };
+  }
+
+  private readsAsSkill(word: string, before: string, after: string): boolean {
+    const signal = AMBIGUOUS_SKILL_WORDS[word.toLowerCase()];
+    if (signal.next?.test(after)) {
+      return true;
+    }
+    if (signal.allCaps && word.length > 1 && word === word.toUpperCase()) {
+      return true;
+    }
+    // Capitalized after a lowercase word or list punctuation, not at a sentence start
+    const midSentence = /[a-z0-9,;:(/&]$/.test(before.trimEnd());
+    return !!signal.capitalized && midSentence && word[0] === word[0].toUpperCase();
+  }
+
+  private scoreSkills(job: JobRequirement, jobText: string, resumeTerms: string): LocalMatchBreakdown['skills'] {
+    const listed: string[] = job.requirements?.skills || [];
+    const required = listed.length > 0 ? listed : this.extractRequirements(jobText).skills;
+    if (required.length === 0) {
+      return null;
+    }
+
+    const matched: string[] = [];
+    const missing: string[] = [];
+    for (const skill of required) {
+      const phrase = this.normalize(skill).join(' ');
+      if (phrase && resumeTerms.includes(` ${phrase} `)) {
+        matched.push(skill);
+      } else {
+        missing.push(skill);
+      }
+    }
+    return { required, matched, missing, score: Math.round((matched.length / required.length) * 100) };
+  }
+
+  /**
+   * For each distinct job term, the BM25 saturation of its frequency in the
+   * best-matching resume section, capped at 1 so a single clear mention
+   * counts fully. The job's required skills weigh more than other terms.
+   * Returns the weighted average as 0-100.
+   */
+  private scoreRelevance(jobTokens: string[], sections: string[][], skillTerms: Set<string>): number {
+    if (jobTokens.length === 0 || sections.length === 0) {
+      return 0;
+    }
+
+    const jobCounts = this.count(jobTokens);
+    const sectionCounts = sections.map((tokens) => this.count(tokens));
+    const avgLength = sections.reduce((sum, tokens) => sum + tokens.length, 0) / sections.length || 1;
+
+    let achieved = 0;
+    let possible = 0;
+    for (const [term, jobFrequency] of jobCounts) {
+      const weight = (1 + Math.log(jobFrequency)) * (skillTerms.has(term) ? SKILL_TERM_BOOST : 1);
+      let best = 0;
+      sectionCounts.forEach((counts, i) => {
+        const tf = counts.get(term) || 0;
+        if (tf === 0) return;
+        const lengthNorm = 1 - B + B * (sections[i].length / avgLength);
+        best = Math.max(best, Math.min(1, (tf * (K1 + 1)) / (tf + K1 * lengthNorm)));
+      });
+      achieved += weight * best;
+      possible += weight;
+    }
+    return Math.round((achieved / possible) * 100);
+  }
+
+  private scoreExperience(resume: Resume, job: JobRequirement, jobText: string): LocalMatchBreakdown['experience'] {
+    const listed = Number(job.requirements?.experience);
+    const requiredYears = listed > 0 ? listed : this.requiredYears(jobText);
+    if (!(requiredYears > 0)) {
+      return null;
+    }
+
+    const years = this.yearsOfExperience(resume.content?.experience || []);
+    return {
+      requiredYears,
+      years: Math.round(years * 10) / 10,
+      score: Math.round(Math.min(1, years / requiredYears) * 100),
+    };
+  }
+
+  private requiredYears(text: string): number {
+    const match = text.match(/(\d+)\s*\+?\s*(?:years?|yrs?|年)/i);
+    return match ? parseInt(match[1], 10) : 0;
+  }
+
+  /**
+   * Span from the earliest start to the latest end, so overlapping roles
+   * aren't counted twice.
+   */
+  private yearsOfExperience(experiences: any[]): number {
+    let earliest = Infinity;
+    let latest = -Infinity;
+    for (const experience of experiences) {
+      const start = this.parseDate(experience.startDate);
+      const end = experience.current ? Date.now() : this.parseDate(experience.endDate) ?? Date.now();
+      if (start === null) continue;
+      earliest = Math.min(earliest, start);
+      latest = Math.max(latest, end);
+    }
+    return latest > earliest ? (latest - earliest) / (365.25 * 24 * 3600 * 1000) : 0;
+  }
+
+  private parseDate(value: unknown): number | null {
+    if (value instanceof Date) {
+      return value.getTime();
+    }
+    const match = String(value ?? '').match(/(\d{4})(?:\D{1,2}(\d{1,2}))?/);
+    if (!match) {
+      return null;
+    }
+    return new Date(parseInt(match[1], 10), match[2] ? parseInt(match[2], 10) - 1 : 0).getTime();
+  }
+
+  /**
+   * Lowercased tokens with stopwords removed and skill aliases folded into
+   * their canonical name. Chinese text is split into character bigrams.
+   */
+  private normalize(text: string): string[] {
+    const raw = this.tokenize(text);
+    const tokens: string[] = [];
+
+    for (let i = 0; i < raw.length;) {
+      let canonical: string | undefined;
+      let length = 1;
+      for (let n = Math.min(MAX_ALIAS_WORDS, raw.length - i); n >= 1 && !canonical; n--) {
+        canonical = ALIAS_INDEX.get(raw.slice(i, i + n).join(' '));
+        length = n;
+      }
+
+      if (canonical) {
+        tokens.push(canonical);
+        i += length;
+      } else {
+        if (!STOPWORDS.has(raw[i]) && raw[i].length > 1) {
+          tokens.push(raw[i]);
+        }
+        i++;
+      }
+    }
+    return tokens;
+  }
+
+  private tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    for (const match of text.toLowerCase().matchAll(/[a-z0-9+#./]+|[一-龥]+/g)) {
+      const token = match[0];
+      if (/^[一-龥]/.test(token)) {
+        if (token.length === 1) {
+          tokens.push(token);
+        }
+        for (let i = 0; i + 1 < token.length; i++) {
+          tokens.push(token.slice(i, i + 2));
+        }
+        continue;
+      }
+      // Keep "ci/cd" and ".net" intact, split other slashes and strip sentence dots
+      const parts = token === 'ci/cd' ? [token] : token.split('/');
+      for (const part of parts) {
+        const cleaned = part === '.net' ? part : part.replace(/^\.+|\.+$/g, '');
+        if (cleaned) {
+          tokens.push(cleaned);
+        }
+      }
+    }
+    return tokens;
+  }
+
+  private count(tokens: string[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const token of tokens) {
+      counts.set(token, (counts.get(token) || 0) + 1);
+    }
+    return counts;
+  }
+}
@@ -0,0 +1,58 @@
+import { Resume } from '../../models';
+
+export interface ResumeSection {
+  // Short id the model can cite as evidence, e.g. "E1" or "P2"
+  id: string;
+  label: string;
+  text: string;
+}
+
+/**
+ * The resume split into citable sections: summary, skills, and one section
+ * per experience, project and degree.
+ */
+export function splitResume(resume: Resume): ResumeSection[] {
+  const sections: ResumeSection[] = [];
+  const content = resume.content || {};
+  const lines = (...parts: Array<string | string[] | undefined>) =>
+    parts.flat().filter(Boolean).join('\n');
+
+  if (content.summary) {
+    sections.push({ id: 'SU', label: 'Summary', text: content.summary });
+  }
+  if (content.skills?.length) {
+    sections.push({ id: 'SK', label: 'Skills', text: content.skills.map((s: any) => s.name).join(', ') });
+  }
+  (content.experience || []).forEach((e: any, i: number) => {
+    sections.push({
+      id: `E${i + 1}`,
+      label: `${e.title} at ${e.company}`,
+      text: lines(
+        `${e.startDate || ''} - ${e.current ? 'Present' : e.endDate || ''}`,
+        e.description,
+        e.highlights,
+        e.technologies?.length ? `Technologies: ${e.technologies.join(', ')}` : undefined
+      ),
+    });
+  });
+  (content.projects || []).forEach((p: any, i: number) => {
+    sections.push({
+      id: `P${i + 1}`,
+      label: `Project: ${p.name}`,
+      text: lines(
+        p.description,
+        p.highlights,
+        p.technologies?.length ? `Technologies: ${p.technologies.join(', ')}` : undefined
+      ),
+    });
+  });
+  (content.education || []).forEach((d: any, i: number) => {
+    sections.push({
+      id: `D${i + 1}`,
+      label: `${d.degree}, ${d.institution}`,
+      text: lines(`${d.degree} in ${d.field}`, d.highlights),
+    });
+  });
+
+  return sections;
+}
@@ -1,9 +1,14 @@
 import { Logger } from '../../utils/Logger';
 import fs from 'fs/promises';
 import path from 'path';
-import { ProjectAnalysis } from '../../models';
-import { AIManager } from '../../ai/AIManager';
+import { ProjectAnalysis, AIProvider } from '../../models';
+import { AIManager, VariantOptions } from '../../ai/AIManager';
 import { ConfigManager } from '../config/ConfigManager';
+import { PolishResult, PolishResultSchema } from '../../ai/schemas';
+import { FabricationError, StructuredOutputError } from '../../ai/errors';
+import { PromptRegistry } from '../../ai/prompts/PromptRegistry';
+import { FabricationGuard, PolishCandidate, UnsupportedClaim, VerificationSource } from '../../ai/FabricationGuard';
+import { PromptGuard } from '../../ai/PromptGuard';
 
 export interface Project {
   id: string;
@@ -24,6 +29,8 @@ export interface Project {
   createdAt?: Date;
   updatedAt?: Date;
   polished?: boolean;
+  aiProvider?: AIProvider;
+  unverifiedClaims?: UnsupportedClaim[]; // AI claims not found in the description or analysis
 }
 
 export class ProjectManager {
@@ -33,12 +40,16 @@ export class ProjectManager {
   private projectsPath: string;
   private aiManager: AIManager;
   private configManager: ConfigManager;
+  private prompts: PromptRegistry;
+  private fabricationGuard: FabricationGuard;
 
   private constructor() {
     this.logger = new Logger('ProjectManager');
     this.projectsPath = path.join(process.env.HOME || '', '.faj', 'projects.json');
     this.aiManager = AIManager.getInstance();
     this.configManager = ConfigManager.getInstance();
+    this.prompts = PromptRegistry.getInstance();
+    this.fabricationGuard = FabricationGuard.getInstance();
   }
 
   static getInstance(): ProjectManager {
@@ -163,95 +174,32 @@ export class ProjectManager {
     }
 
     try {
-      // Get user's language preference
-      const profile: any = await this.configManager.get('profile');
-      const userLanguages = profile?.languages || ['English'];
-      const primaryLanguage = userLanguages[0];
-      
-      // Determine the language to use for AI response
-      let languageName = 'English';
-      if (primaryLanguage) {
-        const langLower = primaryLanguage.toLowerCase();
-        if (langLower.includes('chinese') || langLower.includes('中文') || langLower.includes('mandarin')) {
-          languageName = 'Chinese';
-        } else if (langLower.includes('spanish') || langLower.includes('español')) {
-          languageName = 'Spanish';
-        } else if (langLower.includes('french') || langLower.includes('français')) {
-          languageName = 'French';
-        } else if (langLower.includes('german') || langLower.includes('deutsch')) {
-          languageName = 'German';
-        } else if (langLower.includes('japanese') || langLower.includes('日本語')) {
-          languageName = 'Japanese';
-        } else if (langLower.includes('korean') || langLower.includes('한국어')) {
-          languageName = 'Korean';
-        }
-      }
-
-      // Build AI prompt with strict guidelines
-      const prompt = `
-Based on this ACTUAL project data, enhance the project description in ${languageName}:
-
-ACTUAL PROJECT DATA (DO NOT INVENT METRICS):
-- Project Name: ${project.name}
-- Current Description: ${rawDescription || project.description}
-- Actual Technologies Used: ${project.technologies.join(', ')}
-- Actual File Count: ${project.metrics?.filesCount || 0} files
-- Actual Lines of Code: ${project.metrics?.linesOfCode || 0} lines
-${project.highlights.length > 0 ? `- Existing Highlights: ${project.highlights.join(', ')}` : ''}
-${project.role ? `- Developer Role: ${project.role}` : ''}
-${project.githubUrl ? `- GitHub URL: ${project.githubUrl}` : ''}
-
-STRICT RULES:
-1. Use ONLY the metrics provided above - DO NOT invent performance numbers, user counts, or other metrics
-2. Focus on the actual technical implementation based on the technologies listed
-3. Describe architecture and code organization based on the file/line count
-4. DO NOT make up features, improvements, or achievements not evident from the data
-5. Base everything on the actual code statistics and technologies detected
-
-Generate:
-1. A refined 2-3 sentence description based on the actual project scope
-2. 3-5 highlights using ONLY the real metrics (e.g., "Built with ${project.metrics?.filesCount || 0} well-organized files", "Leverages ${project.technologies.length} key technologies")
-3. Keep the same technologies list, just clean/organize if needed
-
-IMPORTANT: Generate ALL content in ${languageName} language.
-NO SPECULATION - use only the provided data.
-
-Return the response in JSON format:
-{
-  "description": "...",
-  "highlights": ["fact-based highlight 1", "fact-based highlight 2", ...],
-  "technologies": [${project.technologies.map(t => `"${t}"`).join(', ')}]
-}`;
+      const prompt = await this.buildPolishPrompt(project, rawDescription);
 
       await this.aiManager.initialize();
-      const response = await this.aiManager.processPrompt(prompt);
+      const parsed = await this.aiManager.processStructured(prompt, PolishResultSchema, 'polish');
+      const unverifiedClaims = await this.fabricationGuard.check(
+        parsed,
+        this.verificationSource(project, rawDescription),
+        project.name
+      );
       
-      try {
-        // Clean up the response - remove markdown code blocks if present
-        let cleanedResponse = response;
-        if (response.includes('```json')) {
-          cleanedResponse = response.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-        } else if (response.includes('```')) {
-          cleanedResponse = response.replace(/```\s*/g, '');
-        }
-        cleanedResponse = cleanedResponse.trim();
-        
-        const parsed = JSON.parse(cleanedResponse);
-        
-        const updated = await this.update(id, {
-          description: parsed.description || project.description,
-          highlights: parsed.highlights || project.highlights,
-          technologies: parsed.technologies || project.technologies,
-          polished: true
-        });
-
-        this.logger.success(`Polished project: ${project.name}`);
-        return updated;
-      } catch (parseError) {
-        this.logger.warn('Failed to parse AI response, using original');
-        return project;
-      }
+      const updated = await this.update(id, {
+        description: parsed.description,
+        highlights: parsed.highlights,
+        technologies: parsed.technologies || project.technologies,
+        polished: true,
+        aiProvider: this.aiManager.getLastUsedProvider() || undefined,
+        unverifiedClaims
+      });
+
+      this.logger.success(`Polished project: ${project.name}`);
+      return updated;
     } catch (error) {
+      // Never hand back a half-parsed or rejected project, let the caller report it
+      if (error instanceof StructuredOutputError || error instanceof FabricationError) {
+        throw error;
+      }
       this.logger.error('Failed to polish project', error);
       return project;
     }
@@ -265,106 +213,171 @@ Return the response in JSON format:
     }
 
     try {
-      // Get user's language preference
-      const profile: any = await this.configManager.get('profile');
-      const userLanguages = profile?.languages || ['English'];
-      const primaryLanguage = userLanguages[0];
-      
-      // Determine the language to use for AI response
-      let languageName = 'English';
-      if (primaryLanguage) {
-        const langLower = primaryLanguage.toLowerCase();
-        if (langLower.includes('chinese') || langLower.includes('中文') || langLower.includes('mandarin')) {
-          languageName = 'Chinese';
-        } else if (langLower.includes('spanish') || langLower.includes('español')) {
-          languageName = 'Spanish';
-        } else if (langLower.includes('french') || langLower.includes('français')) {
-          languageName = 'French';
-        } else if (langLower.includes('german') || langLower.includes('deutsch')) {
-          languageName = 'German';
-        } else if (langLower.includes('japanese') || langLower.includes('日本語')) {
-          languageName = 'Japanese';
-        } else if (langLower.includes('korean') || langLower.includes('한국어')) {
-          languageName = 'Korean';
-        }
-      }
-
-      // Build tailoring prompt
-      const prompt = `
-You are a professional resume writer. Tailor this project to match the job description while maintaining factual accuracy.
-
-JOB DESCRIPTION TO MATCH:
-${jobDescription}
-
-ACTUAL PROJECT DATA (DO NOT INVENT):
-- Project Name: ${project.name}
-- Current Description: ${project.description}
-- Actual Technologies: ${project.technologies.join(', ')}
-- Actual Metrics: ${project.metrics?.filesCount || 0} files, ${project.metrics?.linesOfCode || 0} lines of code
-- Current Highlights: ${project.highlights.join('\n')}
-${project.role ? `- Role: ${project.role}` : ''}
-${project.githubUrl ? `- GitHub: ${project.githubUrl}` : ''}
-
-STRICT RULES:
-1. NEVER invent features, metrics, or technologies not in the actual data
-2. Emphasize aspects of the project most relevant to the job description
-3. Reorder highlights to put the most job-relevant ones first
-4. Use job description keywords ONLY where they truthfully apply to this project
-5. If project technologies match job requirements, emphasize them
-6. Maintain complete factual accuracy - no speculation
-7. If job requirements aren't demonstrated by this project, DO NOT fabricate them
-
-TAILORING STRATEGY:
-- Identify key technologies and skills from the job description
-- Map existing project features to job requirements where truthful
-- Emphasize how the project demonstrates relevant skills
-- Adjust language to mirror job terminology where appropriate
-- Prioritize the most relevant technical achievements
-
-IMPORTANT: Generate ALL content in ${languageName} language.
-Base everything on actual project data - NO INVENTION.
-
-Return the response in JSON format:
-{
-  "description": "tailored description emphasizing job-relevant aspects",
-  "highlights": ["most job-relevant highlight", "next relevant highlight", ...],
-  "technologies": ["prioritize matching technologies", "other real technologies", ...]
-}`;
+      const prompt = await this.buildTailorPrompt(project, jobDescription);
 
       await this.aiManager.initialize();
-      const response = await this.aiManager.processPrompt(prompt);
+      const parsed = await this.aiManager.processStructured(prompt, PolishResultSchema, 'tailor');
+      const unverifiedClaims = await this.fabricationGuard.check(
+        parsed,
+        this.verificationSource(project),
+        project.name
+      );
       
-      try {
-        // Clean up the response - remove markdown code blocks if present
-        let cleanedResponse = response;
-        if (response.includes('```json')) {
-          cleanedResponse = response.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-        } else if (response.includes('```')) {
-          cleanedResponse = response.replace(/```\s*/g, '');
-        }
-        cleanedResponse = cleanedResponse.trim();
-        
-        const parsed = JSON.parse(cleanedResponse);
-        
-        const updated = await this.update(id, {
-          description: parsed.description || project.description,
-          highlights: parsed.highlights || project.highlights,
-          technologies: parsed.technologies || project.technologies,
-          polished: true
-        });
-
-        this.logger.success(`Tailored project to job description: ${project.name}`);
-        return updated;
-      } catch (parseError) {
-        this.logger.warn('Failed to parse AI response, using original');
-        return project;
-      }
+      const updated = await this.update(id, {
+        description: parsed.description,
+        highlights: parsed.highlights,
+        technologies: parsed.technologies || project.technologies,
+        polished: true,
+        aiProvider: this.aiManager.getLastUsedProvider() || undefined,
+        unverifiedClaims
+      });
+
+      this.logger.success(`Tailored project to job description: ${project.name}`);
+      return updated;
     } catch (error) {
+      // Never hand back a half-parsed or rejected project, let the caller report it
+      if (error instanceof StructuredOutputError || error instanceof FabricationError) {
+        throw error;
+      }
       this.logger.error('Failed to tailor project', error);
       return project;
     }
   }
 
+  /**
+   * Generates several polished versions without saving any of them. The
+   * user's pick, or a mix of several, is saved with applyPolish.
+   */
+  async polishCandidates(id: string, rawDescription: string | undefined, variants: VariantOptions): Promise<PolishCandidate[]> {
+    const project = await this.get(id);
+    if (!project) {
+      this.logger.warn(`Project not found: ${id}`);
+      return [];
+    }
+
+    const prompt = await this.buildPolishPrompt(project, rawDescription);
+    await this.aiManager.initialize();
+    const results = await this.aiManager.processStructuredVariants(prompt, PolishResultSchema, 'polish', variants);
+    return this.fabricationGuard.checkVariants(results, this.verificationSource(project, rawDescription), project.name);
+  }
+
+  async tailorCandidates(id: string, jobDescription: string, variants: VariantOptions): Promise<PolishCandidate[]> {
+    const project = await this.get(id);
+    if (!project) {
+      this.logger.warn(`Project not found: ${id}`);
+      return [];
+    }
+
+    const prompt = await this.buildTailorPrompt(project, jobDescription);
+    await this.aiManager.initialize();
+    const results = await this.aiManager.processStructuredVariants(prompt, PolishResultSchema, 'tailor', variants);
+    return this.fabricationGuard.checkVariants(results, this.verificationSource(project), project.name);
+  }
+
+  /**
+   * Saves a result chosen from the candidates. It is checked again because
+   * a mix of several candidates can carry claims none was flagged for alone.
+   */
+  async applyPolish(
+    id: string,
+    result: PolishResult,
+    options: { rawDescription?: string; provider?: AIProvider } = {}
+  ): Promise<Project | null> {
+    const project = await this.get(id);
+    if (!project) {
+      this.logger.warn(`Project not found: ${id}`);
+      return null;
+    }
+
+    const unverifiedClaims = await this.fabricationGuard.check(
+      result,
+      this.verificationSource(project, options.rawDescription),
+      project.name
+    );
+    return this.update(id, {
+      description: result.description,
+      highlights: result.highlights,
+      technologies: result.technologies || project.technologies,
+      polished: true,
+      aiProvider: options.provider,
+      unverifiedClaims
+    });
+  }
+
+  private async buildPolishPrompt(project: Project, rawDescription?: string): Promise<string> {
+    return this.prompts.render('project.polish', {
+      name: project.name,
+      description: rawDescription || project.description,
+      technologies: project.technologies.join(', '),
+      technologyCount: project.technologies.length,
+      technologiesJSON: project.technologies.map(t => `"${t}"`).join(', '),
+      filesCount: project.metrics?.filesCount || 0,
+      linesOfCode: project.metrics?.linesOfCode || 0,
+      details: [
+        project.highlights.length > 0 ? `- Existing Highlights: ${project.highlights.join(', ')}` : '',
+        project.role ? `- Developer Role: ${project.role}` : '',
+        project.githubUrl ? `- GitHub URL: ${project.githubUrl}` : ''
+      ].filter(Boolean).join('\n'),
+      languageName: await this.getLanguageName()
+    });
+  }
+
+  private async buildTailorPrompt(project: Project, jobDescription: string): Promise<string> {
+    return this.prompts.render('project.tailor', {
+      name: project.name,
+      description: project.description,
+      technologies: project.technologies.join(', '),
+      filesCount: project.metrics?.filesCount || 0,
+      linesOfCode: project.metrics?.linesOfCode || 0,
+      highlights: project.highlights.join('\n'),
+      details: [
+        project.role ? `- Role: ${project.role}` : '',
+        project.githubUrl ? `- GitHub: ${project.githubUrl}` : ''
+      ].filter(Boolean).join('\n'),
+      jobDescription: PromptGuard.getInstance().fence(jobDescription, 'job description'),
+      languageName: await this.getLanguageName()
+    });
+  }
+
+  private async getLanguageName(): Promise<string> {
+    // Get user's language preference
+    const profile: any = await this.configManager.get('profile');
+    const userLanguages = profile?.languages || ['English'];
+    const primaryLanguage = userLanguages[0];
+    
+    // Determine the language to use for AI response
+    let languageName = 'English';
+    if (primaryLanguage) {
+      const langLower = primaryLanguage.toLowerCase();
+      if (langLower.includes('chinese') || langLower.includes('中文') || langLower.includes('mandarin')) {
+        languageName = 'Chinese';
+      } else if (langLower.includes('spanish') || langLower.includes('español')) {
+        languageName = 'Spanish';
+      } else if (langLower.includes('french') || langLower.includes('français')) {
+        languageName = 'French';
+      } else if (langLower.includes('german') || langLower.includes('deutsch')) {
+        languageName = 'German';
+      } else if (langLower.includes('japanese') || langLower.includes('日本語')) {
+        languageName = 'Japanese';
+      } else if (langLower.includes('korean') || langLower.includes('한국어')) {
+        languageName = 'Korean';
+      }
+    }
+    return languageName;
+  }
+
+  /**
+   * The project's own description plus what the analyzer measured, for the
+   * fabrication guard.
+   */
+  private verificationSource(project: Project, rawDescription?: string): VerificationSource {
+    return {
+      texts: [rawDescription, project.name, project.description, project.role, ...project.highlights],
+      technologies: project.technologies,
+      numbers: project.metrics ? [project.metrics.filesCount, project.metrics.linesOfCode] : [],
+    };
+  }
+
   private async ensureProjectsFile(): Promise<void> {
     const dir = path.dirname(this.projectsPath);
     try {
@@ -0,0 +1,70 @@
+/**
+ * One field that differs between two versions of a resume. `before` is
+ * absent for added fields and `after` for removed ones.
+ */
+export interface FieldChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Field-level differences between two values, with paths such as
+ * "experience[1].title". Empty strings and lists count as absent. Lists
+ * of plain values such as highlights are compared as a whole. Lists of
+ * objects are compared item by item when their length is unchanged;
+ * otherwise added and removed items are reported whole so an insertion
+ * doesn't show every later item as changed.
+ */
+export function diffFields(before: unknown, after: unknown, path = ''): FieldChange[] {
+  const changes: FieldChange[] = [];
+  collect(before, after, path, changes);
+  return changes;
+}
+
+function collect(before: any, after: any, path: string, changes: FieldChange[]): void {
+  before = isEmpty(before) ? undefined : before;
+  after = isEmpty(after) ? undefined : after;
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const hasObjects = [...before, ...after].some(isObject);
+    if (!hasObjects) {
+      changes.push({ path, before, after });
+    } else if (before.length === after.length) {
+      before.forEach((item, i) => collect(item, after[i], `${path}[${i}]`, changes));
+    } else {
+      const beforeKeys = before.map((item) => JSON.stringify(item));
+      const afterKeys = after.map((item) => JSON.stringify(item));
+      beforeKeys.forEach((key, i) => {
+        if (!afterKeys.includes(key)) changes.push({ path: `${path}[${i}]`, before: before[i] });
+      });
+      afterKeys.forEach((key, i) => {
+        if (!beforeKeys.includes(key)) changes.push({ path: `${path}[${i}]`, after: after[i] });
+      });
+    }
+    return;
+  }
+
+  if (isObject(before) && isObject(after)) {
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      collect(before[key], after[key], path ? `${path}.${key}` : key, changes);
+    }
+    return;
+  }
+
+  const change: FieldChange = { path };
+  if (before !== undefined) change.before = before;
+  if (after !== undefined) change.after = after;
+  changes.push(change);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
@@ -0,0 +1,501 @@
+import { Resume } from '../../models';
+
+export const JSON_RESUME_SCHEMA = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+// Key under which FAJ-only fields travel inside a JSON Resume document
+const EXTENSION_KEY = 'x-faj';
+
+/**
+ * A jsonresume.org document. Only the parts FAJ maps are typed; everything
+ * else is carried through untouched.
+ */
+export interface JsonResumeDocument {
+  $schema?: string;
+  basics?: Record<string, any>;
+  work?: Array<Record<string, any>>;
+  education?: Array<Record<string, any>>;
+  projects?: Array<Record<string, any>>;
+  skills?: Array<Record<string, any>>;
+  languages?: Array<Record<string, any>>;
+  certificates?: Array<Record<string, any>>;
+  awards?: Array<Record<string, any>>;
+  [section: string]: unknown;
+}
+
+/**
+ * JSON Resume fields FAJ has no place for, kept in the resume metadata so
+ * exporting again puts them back.
+ */
+export interface JsonResumeExtras {
+  // Whole sections such as volunteer, publications or references
+  sections: Record<string, unknown>;
+  // Basics fields such as label, image or the full location and profiles
+  basics: Record<string, unknown>;
+  // Unmapped fields of individual entries, by entry identity (see entryKey)
+  entries: Record<string, Record<string, unknown>>;
+}
+
+export interface JsonResumeImport {
+  basicInfo: Record<string, any>;
+  content: Partial<Resume['content']>;
+  extras: JsonResumeExtras;
+  // JSON Resume paths that had no FAJ field and were kept in `extras`
+  unmapped: string[];
+}
+
+export interface JsonResumeExport {
+  document: JsonResumeDocument;
+  // FAJ paths that have no JSON Resume field and were written under "x-faj"
+  unmapped: string[];
+}
+
+// FAJ field ↔ JSON Resume field, copied as-is in both directions
+type FieldMap = Array<[faj: string, json: string]>;
+
+interface SectionMap {
+  faj: 'experience' | 'projects' | 'education' | 'certifications' | 'awards';
+  json: 'work' | 'projects' | 'education' | 'certificates' | 'awards';
+  fields: FieldMap;
+  // FAJ fields that identify an entry, for matching kept extras on export
+  identity: string[];
+}
+
+const SECTIONS: SectionMap[] = [
+  {
+    faj: 'experience',
+    json: 'work',
+    fields: [
+      ['company', 'name'],
+      ['title', 'position'],
+      ['location', 'location'],
+      ['startDate', 'startDate'],
+      ['endDate', 'endDate'],
+      ['description', 'summary'],
+      ['highlights', 'highlights'],
+    ],
+    identity: ['company', 'title', 'startDate'],
+  },
+  {
+    faj: 'projects',
+    json: 'projects',
+    fields: [
+      ['name', 'name'],
+      ['description', 'description'],
+      ['highlights', 'highlights'],
+      ['technologies', 'keywords'],
+      ['startDate', 'startDate'],
+      ['endDate', 'endDate'],
+      ['url', 'url'],
+    ],
+    identity: ['name'],
+  },
+  {
+    faj: 'education',
+    json: 'education',
+    fields: [
+      ['institution', 'institution'],
+      ['field', 'area'],
+      ['degree', 'studyType'],
+      ['startDate', 'startDate'],
+      ['endDate', 'endDate'],
+    ],
+    identity: ['institution', 'degree', 'startDate'],
+  },
+  {
+    faj: 'certifications',
+    json: 'certificates',
+    fields: [
+      ['name', 'name'],
+      ['issuer', 'issuer'],
+      ['issueDate', 'date'],
+      ['url', 'url'],
+    ],
+    identity: ['name', 'issuer'],
+  },
+  {
+    faj: 'awards',
+    json: 'awards',
+    fields: [
+      ['title', 'title'],
+      ['awarder', 'awarder'],
+      ['date', 'date'],
+      ['summary', 'summary'],
+    ],
+    identity: ['title', 'date'],
+  },
+];
+
+const BASICS_FIELDS: FieldMap = [
+  ['name', 'name'],
+  ['email', 'email'],
+  ['phone', 'phone'],
+  ['portfolioUrl', 'url'],
+];
+
+// Profile networks with a dedicated basicInfo field
+const PROFILE_FIELDS: Array<[faj: string, network: string]> = [
+  ['githubUrl', 'github'],
+  ['linkedinUrl', 'linkedin'],
+];
+
+// Fields handled by mapSpecialToJson rather than renamed
+const SPECIAL_FIELDS: Partial<Record<SectionMap['faj'], string[]>> = {
+  experience: ['current'],
+  projects: ['role'],
+  education: ['gpa'],
+};
+
+const MAPPED_SECTIONS = new Set(['basics', 'skills', 'languages', ...SECTIONS.map((s) => s.json)]);
+
+/**
+ * Maps a JSON Resume document onto FAJ's basicInfo and content. Fields
+ * without a FAJ equivalent are returned in `extras` and listed in
+ * `unmapped`; FAJ fields that came from an earlier export are restored
+ * from their "x-faj" extension.
+ */
+export function importJsonResume(document: JsonResumeDocument): JsonResumeImport {
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    throw new Error('Not a JSON Resume document');
+  }
+
+  const extras: JsonResumeExtras = { sections: {}, basics: {}, entries: {} };
+  const unmapped: string[] = [];
+  const content: Record<string, any> = {};
+  const basicInfo: Record<string, any> = {};
+
+  for (const [section, value] of Object.entries(document)) {
+    if (section === EXTENSION_KEY) {
+      Object.assign(content, value);
+    } else if (!MAPPED_SECTIONS.has(section) && value !== undefined) {
+      extras.sections[section] = value;
+      if (section !== '$schema') {
+        unmapped.push(section);
+      }
+    }
+  }
+
+  // Basics
+  const basics = document.basics || {};
+  for (const [key, value] of Object.entries(basics)) {
+    const field = BASICS_FIELDS.find(([, json]) => json === key);
+    if (field) {
+      basicInfo[field[0]] = value;
+    } else if (key === 'summary') {
+      content.summary = value;
+    } else if (key === EXTENSION_KEY) {
+      Object.assign(basicInfo, value);
+    } else {
+      // Location and profiles are also partly mapped below, but kept whole
+      // so the parts FAJ doesn't hold survive a round trip
+      extras.basics[key] = value;
+      if (key !== 'location' && key !== 'profiles') {
+        unmapped.push(`basics.${key}`);
+      }
+    }
+  }
+  if (basics.location) {
+    basicInfo.location = formatLocation(basics.location);
+    if (Object.keys(basics.location).some((key) => key !== 'city')) {
+      unmapped.push('basics.location');
+    }
+  }
+  for (const [index, profile] of (basics.profiles || []).entries()) {
+    const field = PROFILE_FIELDS.find(([, network]) => network === String(profile.network || '').toLowerCase());
+    if (field && profile.url) {
+      basicInfo[field[0]] = profile.url;
+    } else {
+      unmapped.push(`basics.profiles[${index}]`);
+    }
+  }
+
+  // Entry sections
+  for (const section of SECTIONS) {
+    const entries = document[section.json];
+    if (!Array.isArray(entries)) {
+      continue;
+    }
+    content[section.faj] = entries.map((entry, index) => {
+      const mapped: Record<string, any> = {};
+      const rest: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(entry)) {
+        const field = section.fields.find(([, json]) => json === key);
+        if (field) {
+          mapped[field[0]] = value;
+        } else if (key !== EXTENSION_KEY) {
+          rest[key] = value;
+        }
+      }
+      mapSpecialFromJson(section, entry, mapped, rest);
+      Object.assign(mapped, entry[EXTENSION_KEY]);
+
+      if (Object.keys(rest).length > 0) {
+        extras.entries[entryKey(section, mapped)] = rest;
+        const kept = Object.keys(rest).filter((key) => !(key === 'score' && mapped.gpa !== undefined));
+        unmapped.push(...kept.map((key) => `${section.json}[${index}].${key}`));
+      }
+      return mapped;
+    });
+  }
+
+  // Skills: one JSON Resume group per category and level
+  if (Array.isArray(document.skills)) {
+    content.skills = [];
+    document.skills.forEach((group, index) => {
+      const { name, level, keywords, [EXTENSION_KEY]: extension, ...rest } = group;
+      const names: string[] = Array.isArray(keywords) && keywords.length > 0 ? keywords : [name];
+      for (const skill of names) {
+        content.skills.push({
+          name: skill,
+          ...(level !== undefined ? { level } : {}),
+          category: name,
+          ...(extension?.[skill] || {}),
+        });
+      }
+      if (Object.keys(rest).length > 0) {
+        extras.entries[`skills:${name}`] = rest;
+        unmapped.push(...Object.keys(rest).map((key) => `skills[${index}].${key}`));
+      }
+    });
+  }
+
+  // Languages: FAJ keeps names only
+  if (Array.isArray(document.languages)) {
+    basicInfo.languages = document.languages.map((entry, index) => {
+      const { language, ...rest } = entry;
+      if (Object.keys(rest).length > 0) {
+        extras.entries[`languages:${language}`] = rest;
+        unmapped.push(...Object.keys(rest).map((key) => `languages[${index}].${key}`));
+      }
+      return language;
+    });
+  }
+
+  return { basicInfo, content, extras, unmapped };
+}
+
+/**
+ * Maps a FAJ resume to a JSON Resume document, putting back what an earlier
+ * import kept in `metadata.jsonResume`. FAJ fields with no JSON Resume
+ * equivalent go under "x-faj" keys, so importing the file again is lossless.
+ */
+export function exportJsonResume(resume: Resume): JsonResumeExport {
+  const extras: JsonResumeExtras = {
+    sections: {},
+    basics: {},
+    entries: {},
+    ...((resume.metadata as any)?.jsonResume || {}),
+  };
+  const unmapped: string[] = [];
+  const info: Record<string, any> = resume.basicInfo || {};
+  const content: Record<string, any> = resume.content || {};
+
+  const document: JsonResumeDocument = { $schema: JSON_RESUME_SCHEMA };
+
+  // Basics
+  const basics: Record<string, any> = { ...extras.basics };
+  const basicsExtension: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(info)) {
+    const field = BASICS_FIELDS.find(([faj]) => faj === key);
+    if (field) {
+      basics[field[1]] = value;
+    } else if (key !== 'location' && key !== 'languages' && !PROFILE_FIELDS.some(([faj]) => faj === key) && value !== undefined) {
+      basicsExtension[key] = value;
+      unmapped.push(`basicInfo.${key}`);
+    }
+  }
+  if (content.summary) {
+    basics.summary = content.summary;
+  }
+  if (info.location) {
+    const kept = extras.basics.location as Record<string, string> | undefined;
+    basics.location = kept && formatLocation(kept) === info.location ? kept : { city: info.location };
+  } else {
+    delete basics.location;
+  }
+  const profiles = ((extras.basics.profiles as Array<Record<string, any>>) || []).map((p) => ({ ...p }));
+  for (const [field, network] of PROFILE_FIELDS) {
+    const existing = profiles.find((p) => String(p.network || '').toLowerCase() === network);
+    if (!info[field]) {
+      if (existing) profiles.splice(profiles.indexOf(existing), 1);
+    } else if (existing) {
+      existing.url = info[field];
+    } else {
+      profiles.push({ network: network === 'github' ? 'GitHub' : 'LinkedIn', url: info[field] });
+    }
+  }
+  if (profiles.length > 0) {
+    basics.profiles = profiles;
+  } else {
+    delete basics.profiles;
+  }
+  if (Object.keys(basicsExtension).length > 0) {
+    basics[EXTENSION_KEY] = basicsExtension;
+  }
+  document.basics = basics;
+
+  // Entry sections
+  for (const section of SECTIONS) {
+    const entries = content[section.faj];
+    if (!Array.isArray(entries) || entries.length === 0) {
+      continue;
+    }
+    document[section.json] = entries.map((entry: Record<string, any>, index: number) => {
+      const mapped: Record<string, any> = { ...(extras.entries[entryKey(section, entry)] || {}) };
+      const extension: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(entry)) {
+        const field = section.fields.find(([faj]) => faj === key);
+        if (field) {
+          mapped[field[1]] = value;
+        } else if (!SPECIAL_FIELDS[section.faj]?.includes(key) && value !== undefined) {
+          extension[key] = value;
+          // Store ids are bookkeeping, not resume content
+          if (key !== 'id') {
+            unmapped.push(`${section.faj}[${index}].${key}`);
+          }
+        }
+      }
+      mapSpecialToJson(section, entry, mapped, extension);
+      if (Object.keys(extension).length > 0) {
+        mapped[EXTENSION_KEY] = extension;
+      }
+      return mapped;
+    });
+  }
+
+  // Skills grouped by category and level, in order of first appearance
+  if (Array.isArray(content.skills) && content.skills.length > 0) {
+    const groups = new Map<string, Record<string, any>>();
+    content.skills.forEach((skill: Record<string, any>, index: number) => {
+      const category = skill.category || 'other';
+      const id = `${category}\u0000${skill.level ?? ''}`;
+      if (!groups.has(id)) {
+        groups.set(id, {
+          ...(extras.entries[`skills:${category}`] || {}),
+          name: category,
+          ...(skill.level !== undefined ? { level: skill.level } : {}),
+          keywords: [],
+        });
+      }
+      const group = groups.get(id)!;
+      group.keywords.push(skill.name);
+
+      const rest = { ...skill };
+      delete rest.name;
+      delete rest.level;
+      delete rest.category;
+      if (Object.keys(rest).length > 0) {
+        group[EXTENSION_KEY] = { ...(group[EXTENSION_KEY] || {}), [skill.name]: rest };
+        unmapped.push(...Object.keys(rest).map((key) => `skills[${index}].${key}`));
+      }
+    });
+    document.skills = [...groups.values()].map((group) => {
+      // A skill without keywords was imported with its own name as category
+      if (group.keywords.length === 1 && group.keywords[0] === group.name) {
+        delete group.keywords;
+      }
+      return group;
+    });
+  }
+
+  if (Array.isArray(info.languages) && info.languages.length > 0) {
+    document.languages = info.languages.map((language: string) => ({
+      language,
+      ...(extras.entries[`languages:${language}`] || {}),
+    }));
+  }
+
+  // FAJ content sections JSON Resume has no place for
+  const mappedContent = new Set(['summary', 'skills', ...SECTIONS.map((s) => s.faj)]);
+  const contentExtension: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(content)) {
+    if (!mappedContent.has(key) && value !== undefined) {
+      contentExtension[key] = value;
+      unmapped.push(`content.${key}`);
+    }
+  }
+  if (Object.keys(contentExtension).length > 0) {
+    document[EXTENSION_KEY] = contentExtension;
+  }
+
+  // Sections kept from the import go last, as jsonresume.org orders them
+  for (const [section, value] of Object.entries(extras.sections)) {
+    if (section === '$schema') {
+      document.$schema = value as string;
+    } else {
+      document[section] = value;
+    }
+  }
+
+  return { document, unmapped };
+}
+
+/**
+ * Fields that need more than a rename, JSON Resume → FAJ.
+ */
+function mapSpecialFromJson(
+  section: SectionMap,
+  entry: Record<string, any>,
+  mapped: Record<string, any>,
+  rest: Record<string, unknown>
+): void {
+  if (section.faj === 'experience') {
+    // An open-ended position has no end date
+    mapped.current = !entry.endDate;
+  }
+  if (section.faj === 'projects' && Array.isArray(entry.roles)) {
+    delete rest.roles;
+    mapped.role = entry.roles.join(', ');
+  }
+  if (section.faj === 'education' && /^\d+(\.\d+)?$/.test(String(entry.score ?? '').trim())) {
+    // FAJ stores a GPA as a number; scores like "3.8/4.0" stay unmapped.
+    // "4.0" keeps its spelling for export.
+    mapped.gpa = Number(entry.score);
+    if (String(mapped.gpa) === String(entry.score)) {
+      delete rest.score;
+    }
+  }
+}
+
+/**
+ * Fields that need more than a rename, FAJ → JSON Resume. What JSON
+ * Resume can't express goes into `extension`.
+ */
+function mapSpecialToJson(
+  section: SectionMap,
+  entry: Record<string, any>,
+  mapped: Record<string, any>,
+  extension: Record<string, unknown>
+): void {
+  if (section.faj === 'experience') {
+    // JSON Resume marks a current position by leaving out the end date
+    if (entry.current) {
+      if (entry.endDate) {
+        extension.endDate = entry.endDate;
+      }
+      delete mapped.endDate;
+    } else if (!entry.endDate && entry.current !== undefined) {
+      extension.current = entry.current;
+    }
+  }
+  if (section.faj === 'projects' && entry.role) {
+    mapped.roles = String(entry.role).split(', ');
+  }
+  if (section.faj === 'education' && entry.gpa !== undefined && entry.gpa !== null) {
+    if (mapped.score === undefined || Number(mapped.score) !== Number(entry.gpa)) {
+      mapped.score = String(entry.gpa);
+    }
+  }
+}
+
+/**
+ * Identity of an entry as FAJ sees it, stable across import and export.
+ */
+function entryKey(section: SectionMap, entry: Record<string, any>): string {
+  return `${section.json}:${section.identity.map((field) => entry[field] ?? '').join('|')}`;
+}
+
+function formatLocation(location: Record<string, string>): string {
+  return [location.address, location.city, location.region, location.countryCode, location.postalCode]
+    .filter(Boolean)
+    .join(', ');
+}
@@ -0,0 +1,239 @@
+import { Logger } from '../../utils/Logger';
+import { AIManager } from '../../ai/AIManager';
+import { StreamOptions } from '../../ai/providers/BaseProvider';
+import { ResumeChatReplySchema, ResumeEdit } from '../../ai/schemas';
+import { PromptRegistry } from '../../ai/prompts/PromptRegistry';
+import { ResumeManager } from './ResumeManager';
+import { diffFields, FieldChange } from './FieldDiff';
+
+// Top-level fields of Resume.content the chat may change
+const EDITABLE_SECTIONS = ['summary', 'skills', 'experience', 'projects', 'education'];
+
+// Earlier messages included in each prompt; older ones are dropped
+const MAX_HISTORY_TURNS = 12;
+
+export interface ChatProposal {
+  reply: string;
+  edits: ResumeEdit[];
+  // Edits that could not be applied, e.g. an index past the end of a list
+  rejected: Array<{ edit: ResumeEdit; reason: string }>;
+  // The resume content with every accepted edit applied
+  content: any;
+  changes: FieldChange[];
+}
+
+interface ChatTurn {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+type PathSegment = string | number;
+
+/**
+ * One `faj chat` session. Each message becomes a set of structured edits
+ * that are previewed as a diff; nothing is saved until the user applies a
+ * proposal, and every applied proposal can be undone in reverse order.
+ */
+export class ResumeChat {
+  private logger: Logger;
+  private aiManager: AIManager;
+  private resumeManager: ResumeManager;
+  private prompts: PromptRegistry;
+  private history: ChatTurn[] = [];
+  // Resume content before each applied proposal, most recent last
+  private undoStack: any[] = [];
+
+  constructor() {
+    this.logger = new Logger('ResumeChat');
+    this.aiManager = AIManager.getInstance();
+    this.resumeManager = ResumeManager.getInstance();
+    this.prompts = PromptRegistry.getInstance();
+  }
+
+  async propose(message: string, stream?: StreamOptions): Promise<ChatProposal> {
+    const resume = await this.resumeManager.get();
+    if (!resume) {
+      throw new Error('No resume found');
+    }
+
+    const prompt = await this.prompts.render('resume.chat', {
+      resume: JSON.stringify(resume.content, null, 2),
+      history: this.formatHistory(),
+      message,
+    });
+    const answer = await this.aiManager.processStructured(prompt, ResumeChatReplySchema, 'update', stream);
+
+    const content = this.clone(resume.content);
+    const rejected: ChatProposal['rejected'] = [];
+    for (const edit of answer.edits) {
+      const reason = this.applyEdit(content, edit);
+      if (reason) {
+        this.logger.debug(`Rejected ${edit.op} ${edit.path}: ${reason}`);
+        rejected.push({ edit, reason });
+      }
+    }
+
+    this.remember('user', message);
+    this.remember('assistant', answer.reply);
+
+    return {
+      reply: answer.reply,
+      edits: answer.edits,
+      rejected,
+      content,
+      changes: diffFields(resume.content, content),
+    };
+  }
+
+  async apply(proposal: ChatProposal): Promise<void> {
+    const resume = await this.resumeManager.get();
+    this.undoStack.push(this.clone(resume!.content));
+    await this.resumeManager.update({ content: proposal.content }, { ai: false, operation: 'chat' });
+    this.remember('assistant', '(The user applied these edits.)');
+  }
+
+  /**
+   * Declining is remembered so a follow-up like "try again, shorter"
+   * starts from the saved resume rather than the rejected proposal.
+   */
+  decline(): void {
+    this.remember('assistant', '(The user rejected these edits; the resume is unchanged.)');
+  }
+
+  /**
+   * Restores the resume as it was before the last applied proposal.
+   * Returns false when there is nothing left to undo.
+   */
+  async undo(): Promise<boolean> {
+    const previous = this.undoStack.pop();
+    if (previous === undefined) {
+      return false;
+    }
+    await this.resumeManager.update({ content: previous }, { ai: false, operation: 'chat' });
+    this.remember('assistant', '(The user undid the last applied edits.)');
+    return true;
+  }
+
+  undoDepth(): number {
+    return this.undoStack.length;
+  }
+
+  /**
+   * Forgets the conversation; applied edits stay and can still be undone.
+   */
+  reset(): void {
+    this.history = [];
+  }
+
+  /**
+   * Applies one edit in place. Returns why it was rejected, or null.
+   */
+  private applyEdit(content: any, edit: ResumeEdit): string | null {
+    const segments = this.parsePath(edit.path);
+    if (!segments || typeof segments[0] !== 'string' || !EDITABLE_SECTIONS.includes(segments[0])) {
+      return `not an editable path (use ${EDITABLE_SECTIONS.join(', ')})`;
+    }
+
+    let parent: any = content;
+    for (const segment of segments.slice(0, -1)) {
+      parent = parent?.[segment];
+      if (parent === null || typeof parent !== 'object') {
+        return 'path not found';
+      }
+    }
+    const key = segments[segments.length - 1];
+
+    switch (edit.op) {
+      case 'set': {
+        if (edit.value === undefined) {
+          return 'no value given';
+        }
+        if (Array.isArray(parent) && (typeof key !== 'number' || key >= parent.length)) {
+          return 'index out of range';
+        }
+        const current = parent[key];
+        if (current !== undefined && current !== null && Array.isArray(current) !== Array.isArray(edit.value)) {
+          return 'value has the wrong type';
+        }
+        if (typeof current === 'string' && typeof edit.value !== 'string') {
+          return 'value has the wrong type';
+        }
+        parent[key] = edit.value;
+        return null;
+      }
+      case 'insert': {
+        if (edit.value === undefined) {
+          return 'no value given';
+        }
+        if (Array.isArray(parent) && typeof key === 'number') {
+          parent.splice(Math.min(key, parent.length), 0, edit.value);
+          return null;
+        }
+        if (parent[key] === undefined) {
+          parent[key] = [];
+        }
+        if (!Array.isArray(parent[key])) {
+          return 'can only insert into a list';
+        }
+        parent[key].push(edit.value);
+        return null;
+      }
+      case 'remove': {
+        if (Array.isArray(parent)) {
+          if (typeof key !== 'number' || key >= parent.length) {
+            return 'index out of range';
+          }
+          parent.splice(key, 1);
+          return null;
+        }
+        if (!(key in parent)) {
+          return 'path not found';
+        }
+        if (segments.length === 1) {
+          return 'cannot remove a whole section';
+        }
+        delete parent[key];
+        return null;
+      }
+    }
+  }
+
+  /**
+   * "experience[1].highlights[0]" → ["experience", 1, "highlights", 0].
+   * Dotted indices ("experience.1") are accepted too.
+   */
+  private parsePath(path: string): PathSegment[] | null {
+    const segments: PathSegment[] = [];
+    for (const part of path.trim().replace(/^content\./, '').split('.')) {
+      const match = part.match(/^([^[\]]*)((?:\[\d+\])*)$/);
+      if (!match) {
+        return null;
+      }
+      if (match[1]) {
+        segments.push(/^\d+$/.test(match[1]) ? parseInt(match[1], 10) : match[1]);
+      }
+      for (const index of match[2].matchAll(/\[(\d+)\]/g)) {
+        segments.push(parseInt(index[1], 10));
+      }
+    }
+    return segments.length > 0 ? segments : null;
+  }
+
+  private remember(role: ChatTurn['role'], text: string): void {
+    this.history.push({ role, text });
+    if (this.history.length > MAX_HISTORY_TURNS) {
+      this.history = this.history.slice(-MAX_HISTORY_TURNS);
+    }
+  }
+
+  private formatHistory(): string {
+    if (this.history.length === 0) {
+      return '(This is the first message.)';
+    }
+    return this.history.map((turn) => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.text}`).join('\n');
+  }
+
+  private clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+}
@@ -0,0 +1,109 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Resume } from '../../models';
+import { diffFields, FieldChange } from './FieldDiff';
+
+// What produced a snapshot. "initial" is the resume as found on disk
+// before history was first recorded for it.
+export type ResumeOperation = 'initial' | 'create' | 'generate' | 'update' | 'edit' | 'chat' | 'tailor' | 'rollback' | 'import';
+
+export interface ResumeSnapshot {
+  version: number;
+  timestamp: string;
+  operation: ResumeOperation;
+  // Detail such as the job a tailoring run targeted or the version restored
+  note?: string;
+  resume: Resume;
+}
+
+// Bookkeeping that changes on every save and says nothing about the content
+const IGNORED_FIELDS = new Set(['id', 'developerId', 'version', 'createdAt', 'updatedAt', 'aiProvider', 'metadata']);
+
+/**
+ * Append-only log of resume snapshots, one JSON object per line next to
+ * the resume file. Snapshots are never rewritten; a rollback appends the
+ * restored content as a new version.
+ */
+export class ResumeHistory {
+  constructor(private historyPath: string) {}
+
+  async list(): Promise<ResumeSnapshot[]> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.historyPath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const snapshots: ResumeSnapshot[] = [];
+    for (const line of data.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        snapshots.push(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash; the rest of the log is still usable
+      }
+    }
+    return snapshots;
+  }
+
+  async get(version: number): Promise<ResumeSnapshot | null> {
+    const snapshots = await this.list();
+    return snapshots.find((s) => s.version === version) || null;
+  }
+
+  async latest(): Promise<ResumeSnapshot | null> {
+    const snapshots = await this.list();
+    return snapshots[snapshots.length - 1] || null;
+  }
+
+  /**
+   * Appends `resume` as the next version and stamps that version on it,
+   * unless its content is the same as the latest snapshot's. With an empty
+   * history, `previous` (the resume as saved before) is recorded first so
+   * the content being replaced is never lost.
+   */
+  async record(resume: Resume, operation: ResumeOperation, note?: string, previous?: Resume | null): Promise<ResumeSnapshot | null> {
+    let latest = await this.latest();
+    if (!latest && previous && ResumeHistory.diff(previous, resume).length > 0) {
+      latest = await this.append({
+        version: previous.version || 1,
+        timestamp: new Date(previous.updatedAt || Date.now()).toISOString(),
+        operation: 'initial',
+        resume: previous,
+      });
+    }
+    if (latest && ResumeHistory.diff(latest.resume, resume).length === 0) {
+      return null;
+    }
+
+    resume.version = latest ? latest.version + 1 : resume.version || 1;
+    return this.append({
+      version: resume.version,
+      timestamp: new Date().toISOString(),
+      operation,
+      ...(note ? { note } : {}),
+      resume,
+    });
+  }
+
+  /**
+   * Field-level differences between two resumes, ignoring ids, timestamps
+   * and metadata.
+   */
+  static diff(from: Resume, to: Resume): FieldChange[] {
+    return diffFields(ResumeHistory.content(from), ResumeHistory.content(to));
+  }
+
+  private static content(resume: Resume): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(resume).filter(([key]) => !IGNORED_FIELDS.has(key)));
+  }
+
+  private async append(snapshot: ResumeSnapshot): Promise<ResumeSnapshot> {
+    await fs.mkdir(path.dirname(this.historyPath), { recursive: true });
+    await fs.appendFile(this.historyPath, JSON.stringify(snapshot) + '\n', 'utf-8');
+    return snapshot;
+  }
+}
@@ -6,16 +6,46 @@ import { Logger } from '../../utils/Logger';
 import { AIManager } from '../../ai/AIManager';
 import { ConfigManager } from '../config/ConfigManager';
 import { ExperienceManager } from '../experience/ExperienceManager';
+import { PromptRegistry } from '../../ai/prompts/PromptRegistry';
 import { generateHTMLResume, themes } from '../../templates/ResumeTemplates';
 import { generateCompactHTMLResume } from '../../templates/CompactResumeTemplates';
 import { getSectionTitles } from '../../utils/SectionTitles';
 import { OpenResumePDFGenerator } from '../pdf/OpenResumePDFGenerator';
+import { MatchReport } from '../match/JobMatcher';
+import { InjectionFinding, PromptGuard, TailorIssue } from '../../ai/PromptGuard';
+import { ResumeVariant } from './ResumeVariantManager';
+import { ResumeHistory, ResumeOperation, ResumeSnapshot } from './ResumeHistory';
+import { FieldChange } from './FieldDiff';
+import { exportJsonResume, importJsonResume, JsonResumeDocument, JsonResumeExport } from './JsonResume';
+
+// Match reports kept in the resume metadata, newest first
+const MAX_MATCH_REPORTS = 20;
+
+export interface TailorResult {
+  resume: Resume;
+  // Instruction-like passages found in the job description
+  findings: InjectionFinding[];
+  // Titles, employers or dates the AI changed or invented; the affected entries were left as they were
+  issues: TailorIssue[];
+}
+
+export interface JsonResumeImportResult {
+  resume: Resume;
+  // JSON Resume fields FAJ has no place for; they are kept for the next export
+  unmapped: string[];
+  // Experiences and projects added to the shared stores
+  added: number;
+  // Entries already in the stores, which were linked instead of added again
+  duplicates: number;
+}
 
 export class ResumeManager {
   private static instance: ResumeManager;
   private logger: Logger;
   private resumePath: string;
   private currentResume: Resume | null = null;
+  // Named variant being edited, or null for the default resume
+  private activeVariant: ResumeVariant | null = null;
   private aiManager: AIManager;
   private configManager: ConfigManager;
 
@@ -35,15 +65,24 @@ export class ResumeManager {
 
   async loadOrCreate(): Promise<Resume> {
     try {
+      const { ResumeVariantManager } = await import('./ResumeVariantManager');
+      const variants = ResumeVariantManager.getInstance();
+      this.activeVariant = await variants.getActive();
+      this.resumePath = variants.resumePath(this.activeVariant?.name);
+
       await this.ensureResumeDir();
       
       if (await this.resumeExists()) {
         const data = await fs.readFile(this.resumePath, 'utf-8');
         this.currentResume = JSON.parse(data);
+        if (this.activeVariant) {
+          // Pick up changes made to the shared entries since the variant was last saved
+          await variants.compose(this.currentResume!, this.activeVariant);
+        }
         this.logger.info('Resume loaded successfully');
       } else {
         this.currentResume = await this.createEmptyResume();
-        await this.save();
+        await this.save('create');
         this.logger.info('Created new resume');
       }
       
@@ -94,12 +133,11 @@ export class ResumeManager {
       
       // Merge with existing resume if exists
       if (this.currentResume) {
-        generatedResume.version = this.currentResume.version + 1;
         generatedResume.id = this.currentResume.id; // Keep same ID
       }
 
       this.currentResume = generatedResume;
-      await this.save();
+      await this.save('generate');
       
       this.logger.success('Resume generated successfully');
       return this.currentResume;
@@ -109,18 +147,33 @@ export class ResumeManager {
     }
   }
 
-  async update(changes: Partial<Resume>): Promise<Resume> {
+  /**
+   * Updates the resume. By default the AI merges the changes in; with
+   * `ai: false` they are applied exactly as given, for edits the user has
+   * already reviewed. `operation` labels the change in the history.
+   */
+  async update(changes: Partial<Resume>, options: { ai?: boolean; operation?: ResumeOperation; note?: string } = {}): Promise<Resume> {
     if (!this.currentResume) {
       await this.loadOrCreate();
     }
 
     try {
-      // Use AI to intelligently update the resume
-      await this.aiManager.initialize();
-      const updatedResume = await this.aiManager.updateResume(this.currentResume!, changes);
+      let updatedResume: Resume;
+      if (options.ai === false) {
+        updatedResume = {
+          ...this.currentResume!,
+          ...changes,
+          content: { ...this.currentResume!.content, ...changes.content },
+          updatedAt: new Date(),
+        };
+      } else {
+        // Use AI to intelligently update the resume
+        await this.aiManager.initialize();
+        updatedResume = await this.aiManager.updateResume(this.currentResume!, changes);
+      }
       
       this.currentResume = updatedResume;
-      await this.save();
+      await this.save(options.operation || (options.ai === false ? 'edit' : 'update'), options.note);
       
       this.logger.success('Resume updated successfully');
       return this.currentResume;
@@ -137,15 +190,164 @@ export class ResumeManager {
     return this.currentResume;
   }
 
-  async export(format: 'json' | 'md' | 'html' | 'pdf' | 'html-compact', themeName?: string): Promise<string> {
+  /**
+   * Drops the resume held in memory and loads the active variant's.
+   */
+  async reload(): Promise<Resume> {
+    this.currentResume = null;
+    return this.loadOrCreate();
+  }
+
+  async getHistory(): Promise<ResumeSnapshot[]> {
     if (!this.currentResume) {
       await this.loadOrCreate();
     }
+    return this.history().list();
+  }
+
+  /**
+   * Field-level changes from version `from` to version `to`, or to the
+   * current resume when `to` is omitted.
+   */
+  async diffVersions(from: number, to?: number): Promise<FieldChange[]> {
+    const history = await this.getHistory();
+    const find = (version: number) => {
+      const snapshot = history.find((s) => s.version === version);
+      if (!snapshot) {
+        throw new Error(`Version ${version} not found in the resume history`);
+      }
+      return snapshot.resume;
+    };
+    return ResumeHistory.diff(find(from), to === undefined ? this.currentResume! : find(to));
+  }
+
+  /**
+   * Restores the content of an earlier version. The history is kept as it
+   * is: the restored content becomes a new version.
+   */
+  async rollback(version: number): Promise<Resume> {
+    const snapshot = (await this.getHistory()).find((s) => s.version === version);
+    if (!snapshot) {
+      throw new Error(`Version ${version} not found in the resume history`);
+    }
+
+    const current = this.currentResume!;
+    this.currentResume = {
+      ...snapshot.resume,
+      id: current.id,
+      createdAt: current.createdAt,
+      updatedAt: new Date(),
+      // Match reports and tailoring notes describe the latest state
+      metadata: current.metadata,
+    };
+    await this.save('rollback', `restored version ${version}`);
+    this.logger.success(`Resume rolled back to version ${version}`);
+    return this.currentResume;
+  }
+
+  /**
+   * Replaces the resume's content with a JSON Resume document. Its work and
+   * projects are added to the shared stores unless already there, and
+   * fields FAJ cannot hold are kept in metadata for the next export.
+   */
+  async importJsonResume(document: JsonResumeDocument): Promise<JsonResumeImportResult> {
+    if (!this.currentResume) {
+      await this.loadOrCreate();
+    }
+
+    const { basicInfo, content, extras, unmapped } = importJsonResume(document);
+    const experienceManager = ExperienceManager.getInstance();
+    const { ProjectManager } = await import('../project/ProjectManager');
+    const projectManager = ProjectManager.getInstance();
+    await experienceManager.load();
+    await projectManager.load();
+
+    let added = 0;
+    let duplicates = 0;
+    for (const entry of content.experience || []) {
+      const { id, ...experience } = entry;
+      const stored = (id && await experienceManager.get(id)) || await experienceManager.findDuplicate(experience);
+      if (stored) {
+        duplicates++;
+      } else {
+        added++;
+      }
+      entry.id = stored ? stored.id : (await experienceManager.add(experience)).id;
+    }
+    const projects = await projectManager.getAll();
+    for (const entry of content.projects || []) {
+      const { id, ...project } = entry;
+      const name = String(project.name || '').trim().toLowerCase();
+      const stored = projects.find((p) => p.id === id) || projects.find((p) => p.name.trim().toLowerCase() === name);
+      if (stored) {
+        duplicates++;
+      } else {
+        added++;
+      }
+      entry.id = stored ? stored.id : (await projectManager.add(project)).id;
+    }
+
+    const current = this.currentResume!;
+    const resume = await this.update({
+      basicInfo: { ...current.basicInfo, ...basicInfo },
+      content: content as Resume['content'],
+      metadata: { ...current.metadata, jsonResume: extras },
+    }, { ai: false, operation: 'import' });
+
+    return { resume, unmapped, added, duplicates };
+  }
+
+  /**
+   * The resume as a JSON Resume document, with the FAJ fields the schema
+   * has no place for listed in `unmapped`.
+   */
+  async toJsonResume(): Promise<JsonResumeExport> {
+    if (!this.currentResume) {
+      await this.loadOrCreate();
+    }
+    return exportJsonResume(this.currentResume!);
+  }
+
+  async getActiveVariant(): Promise<ResumeVariant | null> {
+    if (!this.currentResume) {
+      await this.loadOrCreate();
+    }
+    return this.activeVariant;
+  }
+
+  /**
+   * Exports the resume, or with `language` its translation made by
+   * `faj translate`.
+   */
+  async export(format: 'json' | 'jsonresume' | 'md' | 'html' | 'pdf' | 'html-compact', themeName?: string, language?: string): Promise<string> {
+    if (!this.currentResume) {
+      await this.loadOrCreate();
+    }
+
+    if (language) {
+      const { TranslationManager } = await import('./TranslationManager');
+      const record = await TranslationManager.getInstance().load(language);
+      if (!record) {
+        throw new Error(`No ${language} translation found. Run: faj translate --to ${language}`);
+      }
+
+      // The exporters read currentResume, so swap the translation in for the duration
+      const source = this.currentResume;
+      this.currentResume = record.resume;
+      try {
+        return await this.export(format, themeName);
+      } finally {
+        this.currentResume = source;
+      }
+    }
 
     switch (format) {
       case 'json':
         return JSON.stringify(this.currentResume, null, 2);
       
+      case 'jsonresume':
+        return JSON.stringify(exportJsonResume(this.currentResume!).document, null, 2);
+      
       case 'md':
         return await this.exportMarkdown();
       
@@ -338,12 +540,25 @@ export class ResumeManager {
     return md;
   }
 
-  async tailorToJob(jobDescription: string): Promise<Resume> {
+  /**
+   * Tailors experiences, projects and the summary to a job. The job
+   * description is fenced as untrusted text in every prompt, and the
+   * rewritten text is scanned against the resume as it was: an entry that
+   * now claims a seniority, employer or year it never mentioned keeps its
+   * original content.
+   */
+  async tailorToJob(jobDescription: string): Promise<TailorResult> {
     if (!this.currentResume) {
       await this.loadOrCreate();
     }
 
     const resume = this.currentResume!;
+    const promptGuard = PromptGuard.getInstance();
+    const findings = promptGuard.scan(jobDescription);
+    const original: Resume['content'] = JSON.parse(JSON.stringify(resume.content));
+    // Stored entries as they were before tailoring, by resume position
+    const experienceBackups = new Map<number, any>();
+    const projectBackups = new Map<number, any>();
     
     try {
       await this.aiManager.initialize();
@@ -352,7 +567,7 @@ export class ResumeManager {
       const experienceManager = ExperienceManager.getInstance();
       await experienceManager.load();
       
-      for (const experience of resume.content.experience || []) {
+      for (const [index, experience] of (resume.content.experience || []).entries()) {
         // Find matching experience in manager
         const allExperiences = await experienceManager.getAll();
         const matchingExp = allExperiences.find(e => 
@@ -361,6 +576,7 @@ export class ResumeManager {
         );
         
         if (matchingExp) {
+          experienceBackups.set(index, { ...matchingExp });
           const tailored = await experienceManager.tailorToJob(matchingExp.id, jobDescription);
           if (tailored) {
             // Update resume with tailored content
@@ -376,12 +592,13 @@ export class ResumeManager {
       const projectManager = ProjectManager.getInstance();
       await projectManager.load();
       
-      for (const project of resume.content.projects || []) {
+      for (const [index, project] of (resume.content.projects || []).entries()) {
         // Find matching project in manager
         const allProjects = await projectManager.getAll();
         const matchingProj = allProjects.find(p => p.name === project.name);
         
         if (matchingProj) {
+          projectBackups.set(index, { ...matchingProj });
           const tailored = await projectManager.tailorToJob(matchingProj.id, jobDescription);
           if (tailored) {
             // Update resume with tailored content
@@ -394,32 +611,25 @@ export class ResumeManager {
       
       // Tailor summary to job description
       const profile = await this.configManager.get('profile') as DeveloperProfile;
-      const prompt = `
-Tailor this professional summary to match the job description while maintaining truthfulness:
-
-JOB DESCRIPTION:
-${jobDescription}
+      const prompt = await PromptRegistry.getInstance().render('resume.tailor-summary', {
+        jobDescription: promptGuard.fence(jobDescription, 'job description'),
+        summary: resume.content.summary,
+        name: profile?.name || 'Not specified',
+        experience: profile?.experience || 0,
+        skills: profile?.skills?.join(', ') || 'Not specified',
+        languages: profile?.languages?.join(', ') || 'Not specified',
+        language: profile?.languages?.[0] || 'English'
+      });
 
-CURRENT SUMMARY:
-${resume.content.summary}
-
-CANDIDATE PROFILE:
-- Name: ${profile?.name}
-- Years of Experience: ${profile?.experience || 0}
-- Skills: ${profile?.skills?.join(', ') || 'Not specified'}
-- Languages: ${profile?.languages?.join(', ')}
-
-RULES:
-1. Keep the summary concise (2-3 sentences)
-2. Emphasize relevant skills and experience that match the job
-3. Use keywords from the job description where they truthfully apply
-4. Maintain factual accuracy - do not invent experience
-5. Keep a professional tone
-
-Generate the tailored summary in ${profile?.languages?.[0] || 'English'}.`;
-
-      const tailoredSummary = await this.aiManager.processPrompt(prompt);
+      const tailoredSummary = await this.aiManager.processPrompt(prompt, { task: 'tailor' });
       resume.content.summary = tailoredSummary.trim();
+      resume.aiProvider = this.aiManager.getLastUsedProvider() || resume.aiProvider;
+
+      const issues = promptGuard.verifyTailored(original, resume.content);
+      if (issues.length > 0) {
+        this.logger.warn(`Tailoring added ${issues.length} title, employer or year detail(s) the resume never mentioned; keeping the original wording for those entries`);
+        await this.revertEntries(resume, original, issues, experienceBackups, projectBackups);
+      }
       
       // Update resume metadata with tailoring info
       (resume.metadata as any).lastTailored = new Date();
@@ -427,16 +637,86 @@ Generate the tailored summary in ${profile?.languages?.[0] || 'English'}.`;
       
       // Save updated resume
       this.currentResume = resume;
-      await this.save();
+      const job = jobDescription.trim().split('\n')[0].trim();
+      await this.save('tailor', job.length > 60 ? `${job.slice(0, 59)}…` : job);
       
       this.logger.success('Resume tailored to job description successfully');
-      return resume;
+      return { resume, findings, issues };
     } catch (error) {
       this.logger.error('Failed to tailor resume', error);
       throw error;
     }
   }
 
+  /**
+   * Puts back the original content of every entry named in `issues`, both
+   * in the resume and in the experience and project stores.
+   */
+  private async revertEntries(
+    resume: Resume,
+    original: Resume['content'],
+    issues: TailorIssue[],
+    experienceBackups: Map<number, any>,
+    projectBackups: Map<number, any>
+  ): Promise<void> {
+    const flagged = new Set(issues.map((issue) => issue.field));
+
+    for (const field of flagged) {
+      const match = field.match(/^(experience|projects)\[(\d+)\]$/);
+      if (field === 'summary') {
+        resume.content.summary = original.summary;
+      } else if (match) {
+        const [, section, position] = match;
+        const index = Number(position);
+        (resume.content as any)[section][index] = (original as any)[section][index];
+
+        const backup = (section === 'experience' ? experienceBackups : projectBackups).get(index);
+        if (!backup) {
+          continue;
+        }
+        const restored = {
+          description: backup.description,
+          highlights: backup.highlights,
+          technologies: backup.technologies,
+          polished: backup.polished,
+          aiProvider: backup.aiProvider,
+          unverifiedClaims: backup.unverifiedClaims,
+        };
+        if (section === 'experience') {
+          await ExperienceManager.getInstance().update(backup.id, restored);
+        } else {
+          const { ProjectManager } = await import('../project/ProjectManager');
+          await ProjectManager.getInstance().update(backup.id, restored);
+        }
+      }
+    }
+  }
+
+  /**
+   * Keeps the report in the resume metadata, replacing an earlier report
+   * for the same job so re-running a match shows the latest result.
+   */
+  async saveMatchReport(report: MatchReport): Promise<void> {
+    if (!this.currentResume) {
+      await this.loadOrCreate();
+    }
+
+    const metadata = this.currentResume!.metadata as any;
+    const sameJob = (r: MatchReport) => r.job.title === report.job.title && r.job.company === report.job.company;
+    const others: MatchReport[] = (metadata.matchReports || []).filter((r: MatchReport) => !sameJob(r));
+    metadata.matchReports = [report, ...others].slice(0, MAX_MATCH_REPORTS);
+
+    // Metadata only, so no new version is recorded
+    await this.save();
+  }
+
+  async getMatchReports(): Promise<MatchReport[]> {
+    if (!this.currentResume) {
+      await this.loadOrCreate();
+    }
+    return (this.currentResume!.metadata as any).matchReports || [];
+  }
+
   private async exportPDF(themeName?: string): Promise<string> {
     if (!this.currentResume) {
       throw new Error('No resume to export');
@@ -664,12 +944,28 @@ Generate the tailored summary in ${profile?.languages?.[0] || 'English'}.`;
     return labels[category] || category;
   }
 
-  private async save(): Promise<void> {
+  /**
+   * Writes the resume, first appending it to the history as a new version
+   * when its content changed.
+   */
+  private async save(operation: ResumeOperation = 'edit', note?: string): Promise<void> {
     if (!this.currentResume) {
       throw new Error('No resume to save');
     }
 
     try {
+      if (this.activeVariant) {
+        // Entry edits belong to the shared stores, so every variant sees them
+        const { ResumeVariantManager } = await import('./ResumeVariantManager');
+        const variants = ResumeVariantManager.getInstance();
+        this.activeVariant = await variants.syncStores(this.currentResume, this.activeVariant);
+        await variants.compose(this.currentResume, this.activeVariant);
+      }
+
+      const history = this.history();
+      const previous = (await history.latest()) ? null : await this.readSaved();
+      await history.record(this.currentResume, operation, note, previous);
+
       await this.ensureResumeDir();
       await fs.writeFile(this.resumePath, JSON.stringify(this.currentResume, null, 2), 'utf-8');
       this.logger.debug('Resume saved to disk');
@@ -679,6 +975,22 @@ Generate the tailored summary in ${profile?.languages?.[0] || 'English'}.`;
     }
   }
 
+  /**
+   * The resume as last written to disk, or null when there is none.
+   */
+  private async readSaved(): Promise<Resume | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.resumePath, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  // Kept beside the resume file, so every variant has its own history
+  private history(): ResumeHistory {
+    return new ResumeHistory(this.resumePath.replace(/\.json$/, '.history.jsonl'));
+  }
+
   private async ensureResumeDir(): Promise<void> {
     const dir = path.dirname(this.resumePath);
     try {
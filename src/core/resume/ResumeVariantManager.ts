@@ -0,0 +1,299 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { randomUUID } from 'crypto';
+import { Resume } from '../../models';
+import { Logger } from '../../utils/Logger';
+import { ExperienceManager } from '../experience/ExperienceManager';
+import { ProjectManager } from '../project/ProjectManager';
+import { ResumeManager } from './ResumeManager';
+
+// Name of the original resume in ~/.faj/resume.json, which is not a variant
+export const DEFAULT_VARIANT = 'default';
+
+const VARIANT_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+const RESERVED_NAMES = new Set([DEFAULT_VARIANT, 'variants']);
+
+// Entry fields that live in the shared stores; edits made through a variant are written back
+const EXPERIENCE_FIELDS = ['title', 'company', 'location', 'startDate', 'endDate', 'current', 'description', 'highlights', 'technologies'];
+const PROJECT_FIELDS = ['name', 'description', 'role', 'technologies', 'highlights', 'startDate', 'endDate', 'current', 'url', 'githubUrl'];
+
+/**
+ * A named resume, e.g. "backend" or "management". It has its own summary,
+ * skills and metadata, but its experiences and projects are references
+ * into the shared stores, so a fix to an entry shows up in every variant.
+ */
+export interface ResumeVariant {
+  name: string;
+  // ExperienceManager and ProjectManager ids, in the order they appear on the resume
+  experienceIds: string[];
+  projectIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type VariantSelection = Pick<ResumeVariant, 'experienceIds' | 'projectIds'>;
+
+interface VariantIndex {
+  // null while the default resume is in use
+  active: string | null;
+  variants: ResumeVariant[];
+}
+
+/**
+ * Keeps named resume variants in ~/.faj/resumes: an index of variants and
+ * their selections, and one resume file per variant. ResumeManager works
+ * on whichever variant is active.
+ */
+export class ResumeVariantManager {
+  private static instance: ResumeVariantManager;
+  private logger: Logger;
+  private variantsDir: string;
+  private indexPath: string;
+
+  private constructor() {
+    this.logger = new Logger('ResumeVariantManager');
+    this.variantsDir = path.join(os.homedir(), '.faj', 'resumes');
+    this.indexPath = path.join(this.variantsDir, 'variants.json');
+  }
+
+  static getInstance(): ResumeVariantManager {
+    if (!ResumeVariantManager.instance) {
+      ResumeVariantManager.instance = new ResumeVariantManager();
+    }
+    return ResumeVariantManager.instance;
+  }
+
+  async list(): Promise<{ active: string | null; variants: ResumeVariant[] }> {
+    const index = await this.loadIndex();
+    return { active: index.active, variants: index.variants };
+  }
+
+  async get(name: string): Promise<ResumeVariant | null> {
+    const index = await this.loadIndex();
+    return index.variants.find((v) => v.name === name) || null;
+  }
+
+  async getActive(): Promise<ResumeVariant | null> {
+    const index = await this.loadIndex();
+    return index.variants.find((v) => v.name === index.active) || null;
+  }
+
+  /**
+   * Where the resume of `name` is stored; the default resume when no name
+   * is given.
+   */
+  resumePath(name?: string | null): string {
+    return name ? path.join(this.variantsDir, `${name}.json`) : path.join(os.homedir(), '.faj', 'resume.json');
+  }
+
+  /**
+   * Creates a variant selecting the given entries. Its summary, skills and
+   * education start as a copy of the resume currently in use.
+   */
+  async create(name: string, selection: VariantSelection): Promise<ResumeVariant> {
+    const key = this.validateName(name);
+    const index = await this.loadIndex();
+    if (index.variants.some((v) => v.name === key)) {
+      throw new Error(`Resume variant "${key}" already exists`);
+    }
+
+    const base = await ResumeManager.getInstance().get();
+    const now = new Date();
+    const variant: ResumeVariant = {
+      name: key,
+      experienceIds: [...selection.experienceIds],
+      projectIds: [...selection.projectIds],
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    const resume: Resume = {
+      ...JSON.parse(JSON.stringify(base)),
+      id: randomUUID(),
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+      metadata: { hash: '', published: false },
+    };
+    await this.compose(resume, variant);
+
+    await fs.mkdir(this.variantsDir, { recursive: true });
+    await fs.writeFile(this.resumePath(key), JSON.stringify(resume, null, 2), 'utf-8');
+    index.variants.push(variant);
+    await this.saveIndex(index);
+
+    this.logger.success(`Created resume variant: ${key}`);
+    return variant;
+  }
+
+  /**
+   * Changes which entries a variant shows, and in what order.
+   */
+  async select(name: string, selection: VariantSelection): Promise<ResumeVariant> {
+    const variant = await this.saveSelection(name, selection);
+    if ((await this.loadIndex()).active === name) {
+      await ResumeManager.getInstance().reload();
+    }
+    return variant;
+  }
+
+  /**
+   * Makes `name` the resume every other command works on. DEFAULT_VARIANT
+   * switches back to the original resume.
+   */
+  async use(name: string): Promise<void> {
+    const index = await this.loadIndex();
+    if (name !== DEFAULT_VARIANT && !index.variants.some((v) => v.name === name)) {
+      throw new Error(`Resume variant "${name}" not found`);
+    }
+
+    index.active = name === DEFAULT_VARIANT ? null : name;
+    await this.saveIndex(index);
+    await ResumeManager.getInstance().reload();
+    this.logger.info(`Using resume variant: ${name}`);
+  }
+
+  /**
+   * Fills the resume's experiences and projects from the shared stores, in
+   * the variant's order. Entries that exist only in this resume are kept
+   * after them, unless they duplicate a stored entry.
+   */
+  async compose(resume: Resume, variant: ResumeVariant): Promise<Resume> {
+    const { experiences, projects } = await this.loadStores();
+    const experienceById = new Map(experiences.map((e) => [e.id, e]));
+    const projectById = new Map(projects.map((p) => [p.id, p]));
+
+    const localExperience = (resume.content.experience || []).filter(
+      (entry: any) => !entry.id && !experiences.some((e) => e.company === entry.company && e.title === entry.title)
+    );
+    const localProjects = (resume.content.projects || []).filter(
+      (entry: any) => !entry.id && !projects.some((p) => p.name === entry.name)
+    );
+
+    resume.content.experience = [
+      ...variant.experienceIds
+        .map((id) => experienceById.get(id))
+        .filter(Boolean)
+        .map((e: any) => this.entry(e, EXPERIENCE_FIELDS)),
+      ...localExperience,
+    ];
+    resume.content.projects = [
+      ...variant.projectIds
+        .map((id) => projectById.get(id))
+        .filter(Boolean)
+        .map((p: any) => this.entry(p, PROJECT_FIELDS)),
+      ...localProjects,
+    ];
+    return resume;
+  }
+
+  /**
+   * Writes edits made to the variant's entries back to the shared stores,
+   * and records entries that were removed or reordered in the selection.
+   */
+  async syncStores(resume: Resume, variant: ResumeVariant): Promise<ResumeVariant> {
+    const experienceManager = ExperienceManager.getInstance();
+    const projectManager = ProjectManager.getInstance();
+    await this.loadStores();
+
+    const experienceIds: string[] = [];
+    for (const entry of resume.content.experience || []) {
+      const stored = entry.id ? await experienceManager.get(entry.id) : null;
+      if (!stored) {
+        continue;
+      }
+      experienceIds.push(stored.id);
+      const changes = this.changedFields(stored, entry, EXPERIENCE_FIELDS);
+      if (Object.keys(changes).length > 0) {
+        await experienceManager.update(stored.id, changes);
+      }
+    }
+
+    const projectIds: string[] = [];
+    for (const entry of resume.content.projects || []) {
+      const stored = entry.id ? await projectManager.get(entry.id) : null;
+      if (!stored) {
+        continue;
+      }
+      projectIds.push(stored.id);
+      const changes = this.changedFields(stored, entry, PROJECT_FIELDS);
+      if (Object.keys(changes).length > 0) {
+        await projectManager.update(stored.id, changes);
+      }
+    }
+
+    const same = (a: string[], b: string[]) => a.length === b.length && a.every((id, i) => id === b[i]);
+    if (same(experienceIds, variant.experienceIds) && same(projectIds, variant.projectIds)) {
+      return variant;
+    }
+    return this.saveSelection(variant.name, { experienceIds, projectIds });
+  }
+
+  private async saveSelection(name: string, selection: VariantSelection): Promise<ResumeVariant> {
+    const index = await this.loadIndex();
+    const variant = index.variants.find((v) => v.name === name);
+    if (!variant) {
+      throw new Error(`Resume variant "${name}" not found`);
+    }
+
+    variant.experienceIds = [...selection.experienceIds];
+    variant.projectIds = [...selection.projectIds];
+    variant.updatedAt = new Date().toISOString();
+    await this.saveIndex(index);
+    return variant;
+  }
+
+  private async loadStores() {
+    const experienceManager = ExperienceManager.getInstance();
+    const projectManager = ProjectManager.getInstance();
+    await experienceManager.load();
+    await projectManager.load();
+    return { experiences: await experienceManager.getAll(), projects: await projectManager.getAll() };
+  }
+
+  private entry(source: any, fields: string[]): any {
+    const entry: any = { id: source.id };
+    for (const field of fields) {
+      if (source[field] !== undefined) {
+        entry[field] = source[field];
+      }
+    }
+    return entry;
+  }
+
+  private changedFields(stored: any, entry: any, fields: string[]): Record<string, any> {
+    const changes: Record<string, any> = {};
+    for (const field of fields) {
+      if (entry[field] !== undefined && JSON.stringify(entry[field]) !== JSON.stringify(stored[field])) {
+        changes[field] = entry[field];
+      }
+    }
+    return changes;
+  }
+
+  private validateName(name: string): string {
+    const key = name.trim().toLowerCase();
+    if (!VARIANT_NAME_PATTERN.test(key)) {
+      throw new Error('Variant names use letters, digits, "-" and "_", up to 40 characters');
+    }
+    if (RESERVED_NAMES.has(key)) {
+      throw new Error(`"${key}" is reserved and cannot be used as a variant name`);
+    }
+    return key;
+  }
+
+  private async loadIndex(): Promise<VariantIndex> {
+    try {
+      const data = await fs.readFile(this.indexPath, 'utf-8');
+      const index = JSON.parse(data);
+      return { active: index.active || null, variants: index.variants || [] };
+    } catch {
+      return { active: null, variants: [] };
+    }
+  }
+
+  private async saveIndex(index: VariantIndex): Promise<void> {
+    await fs.mkdir(this.variantsDir, { recursive: true });
+    await fs.writeFile(this.indexPath, JSON.stringify(index, null, 2), 'utf-8');
+  }
+}
@@ -0,0 +1,315 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import CryptoJS from 'crypto-js';
+import { Resume } from '../../models';
+import { Logger } from '../../utils/Logger';
+import { AIManager } from '../../ai/AIManager';
+import { TranslatedEntrySchema } from '../../ai/schemas';
+import { PromptRegistry } from '../../ai/prompts/PromptRegistry';
+import { ResumeManager } from './ResumeManager';
+
+// Language codes accepted by `faj translate --to`, with the name used in
+// prompts and for localized section titles
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  zh: 'Chinese',
+  'zh-TW': 'Traditional Chinese',
+  ja: 'Japanese',
+  ko: 'Korean',
+  de: 'German',
+  fr: 'French',
+  es: 'Spanish',
+  pt: 'Portuguese',
+  it: 'Italian',
+};
+
+// Fields copied from the source as-is, never sent for translation. Enum
+// values such as a skill's category are keys exports group and label by.
+const UNTRANSLATED_FIELDS = new Set([
+  'id', 'startDate', 'endDate', 'current', 'url', 'githubUrl', 'demoUrl', 'link', 'email', 'phone',
+  'gpa', 'technologies', 'createdAt', 'updatedAt', 'aiProvider', 'polished',
+  'category', 'level', 'type',
+]);
+
+/**
+ * A translated copy of the resume. It keeps the source resume's id and
+ * every entry's id, and remembers a hash of each source entry so entries
+ * whose source changed since translation can be found and redone.
+ */
+export interface TranslationRecord {
+  language: string;
+  sourceId: string;
+  translatedAt: string;
+  // Entry key → SHA-256 of the source entry it was translated from
+  sources: Record<string, string>;
+  resume: Resume;
+}
+
+export interface TranslationStatus {
+  language: string;
+  translatedAt: string;
+  // Source changed since the entry was translated
+  stale: string[];
+  // Source entries that were added after the last translation
+  missing: string[];
+}
+
+interface SourceEntry {
+  key: string;
+  section: string;
+  value: any;
+}
+
+/**
+ * Maintains parallel language versions of the resume in
+ * ~/.faj/translations/<language>.json. Translation is incremental: only
+ * entries that are new or whose source changed are sent to the AI again.
+ */
+export class TranslationManager {
+  private static instance: TranslationManager;
+  private translationsDir: string;
+  private logger: Logger;
+  private aiManager: AIManager;
+  private resumeManager: ResumeManager;
+  private prompts: PromptRegistry;
+
+  private constructor() {
+    this.logger = new Logger('TranslationManager');
+    this.translationsDir = path.join(os.homedir(), '.faj', 'translations');
+    this.aiManager = AIManager.getInstance();
+    this.resumeManager = ResumeManager.getInstance();
+    this.prompts = PromptRegistry.getInstance();
+  }
+
+  static getInstance(): TranslationManager {
+    if (!TranslationManager.instance) {
+      TranslationManager.instance = new TranslationManager();
+    }
+    return TranslationManager.instance;
+  }
+
+  /**
+   * Accepts a code ("ja") or a language name ("Japanese"); returns the
+   * code, or null when the language is unknown.
+   */
+  resolveLanguage(input: string): string | null {
+    const wanted = input.trim().toLowerCase();
+    const match = Object.entries(LANGUAGE_NAMES).find(
+      ([code, name]) => code.toLowerCase() === wanted || name.toLowerCase() === wanted
+    );
+    return match ? match[0] : null;
+  }
+
+  async translate(
+    language: string,
+    options: { force?: boolean; onProgress?: (key: string, index: number, total: number) => void } = {}
+  ): Promise<{ record: TranslationRecord; translated: string[] }> {
+    const source = await this.resumeManager.get();
+    if (!source) {
+      throw new Error('No resume found');
+    }
+
+    const existing = options.force ? null : await this.load(language);
+    const entries = this.entries(source);
+    const previous = existing ? this.entryMap(existing.resume) : new Map<string, any>();
+    const hashes = new Map(entries.map((e) => [e.key, this.hash(e.value)]));
+
+    const todo = entries.filter(
+      (e) => !existing || existing.sources[e.key] !== hashes.get(e.key) || !previous.has(e.key)
+    );
+
+    await this.aiManager.initialize();
+    const translations = new Map<string, any>();
+    for (const [index, entry] of todo.entries()) {
+      options.onProgress?.(entry.key, index, todo.length);
+      translations.set(entry.key, await this.translateEntry(entry, language));
+    }
+
+    const content: any = { ...source.content };
+    for (const entry of entries) {
+      const value = translations.get(entry.key) ?? previous.get(entry.key);
+      if (entry.section === 'summary' || entry.section === 'skills') {
+        content[entry.section] = value;
+      }
+    }
+    for (const section of ['experience', 'projects', 'education']) {
+      content[section] = entries
+        .filter((e) => e.section === section)
+        .map((e) => translations.get(e.key) ?? previous.get(e.key));
+    }
+
+    const record: TranslationRecord = {
+      language,
+      sourceId: source.id,
+      translatedAt: new Date().toISOString(),
+      sources: Object.fromEntries(hashes),
+      resume: this.localize(source, content, language),
+    };
+    await this.save(record);
+
+    this.logger.info(`Translated ${todo.length} of ${entries.length} entries into ${LANGUAGE_NAMES[language]}`);
+    return { record, translated: todo.map((e) => e.key) };
+  }
+
+  async load(language: string): Promise<TranslationRecord | null> {
+    try {
+      const data = await fs.readFile(await this.recordPath(language), 'utf-8');
+      return JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+
+  async listLanguages(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(await this.directory());
+      return files.filter((f) => f.endsWith('.json')).map((f) => path.basename(f, '.json')).sort();
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Compares the translation with the current source resume.
+   */
+  async status(language: string): Promise<TranslationStatus | null> {
+    const record = await this.load(language);
+    const source = await this.resumeManager.get();
+    if (!record || !source) {
+      return null;
+    }
+
+    const stale: string[] = [];
+    const missing: string[] = [];
+    for (const entry of this.entries(source)) {
+      const recorded = record.sources[entry.key];
+      if (recorded === undefined) {
+        missing.push(entry.key);
+      } else if (recorded !== this.hash(entry.value)) {
+        stale.push(entry.key);
+      }
+    }
+    return { language, translatedAt: record.translatedAt, stale, missing };
+  }
+
+  private async translateEntry(entry: SourceEntry, language: string): Promise<any> {
+    const prompt = await this.prompts.render('resume.translate', {
+      language: LANGUAGE_NAMES[language],
+      section: entry.section,
+      entry: JSON.stringify(this.translatable(entry.value), null, 2),
+    });
+    const result = await this.aiManager.processStructured(prompt, TranslatedEntrySchema, 'translate');
+    return this.merge(entry.value, result.entry);
+  }
+
+  /**
+   * The resume as citable entries. Entries with an id are keyed by it so
+   * reordering doesn't invalidate their translation; others by position.
+   */
+  private entries(resume: Resume): SourceEntry[] {
+    const content = resume.content || {};
+    const entries: SourceEntry[] = [];
+    if (content.summary) {
+      entries.push({ key: 'summary', section: 'summary', value: content.summary });
+    }
+    if (content.skills?.length) {
+      entries.push({ key: 'skills', section: 'skills', value: content.skills });
+    }
+    for (const section of ['experience', 'projects', 'education']) {
+      (content[section] || []).forEach((value: any, i: number) => {
+        entries.push({ key: value?.id ? `${section}:${value.id}` : `${section}[${i}]`, section, value });
+      });
+    }
+    return entries;
+  }
+
+  private entryMap(resume: Resume): Map<string, any> {
+    return new Map(this.entries(resume).map((e) => [e.key, e.value]));
+  }
+
+  /**
+   * The source entry without the fields that are never translated, so the
+   * model can't change them and they don't cost tokens.
+   */
+  private translatable(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.translatable(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).filter(([key]) => !UNTRANSLATED_FIELDS.has(key)).map(([k, v]) => [k, this.translatable(v)])
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Takes translated text from the model's answer but the shape from the
+   * source, so ids, dates and list lengths always survive translation.
+   * Anything the model dropped or reshaped falls back to the source.
+   */
+  private merge(source: any, translated: any): any {
+    if (typeof source === 'string') {
+      return typeof translated === 'string' && translated.trim() ? translated : source;
+    }
+    if (Array.isArray(source)) {
+      if (!Array.isArray(translated) || translated.length !== source.length) {
+        this.logger.warn('Translated list changed length; keeping the source items');
+        return source;
+      }
+      return source.map((item, i) => this.merge(item, translated[i]));
+    }
+    if (source && typeof source === 'object') {
+      const result: any = {};
+      for (const [key, value] of Object.entries(source)) {
+        result[key] = UNTRANSLATED_FIELDS.has(key) || !translated || typeof translated !== 'object'
+          ? value
+          : this.merge(value, translated[key]);
+      }
+      return result;
+    }
+    return source;
+  }
+
+  /**
+   * Builds the translated resume: same ids and metadata as the source, with
+   * the target language first so exports use its section titles.
+   */
+  private localize(source: Resume, content: any, language: string): Resume {
+    const name = LANGUAGE_NAMES[language];
+    const basicInfo = source.basicInfo
+      ? {
+          ...source.basicInfo,
+          languages: [name, ...(source.basicInfo.languages || []).filter((l: string) => l !== name)],
+        }
+      : source.basicInfo;
+    return {
+      ...source,
+      basicInfo,
+      content,
+      metadata: { ...source.metadata, translation: { language, sourceId: source.id, sourceVersion: source.version } },
+    } as Resume;
+  }
+
+  private hash(value: unknown): string {
+    return CryptoJS.SHA256(JSON.stringify(value)).toString();
+  }
+
+  /**
+   * Each resume variant keeps its own translations in a subdirectory.
+   */
+  private async directory(): Promise<string> {
+    const variant = await this.resumeManager.getActiveVariant();
+    return variant ? path.join(this.translationsDir, variant.name) : this.translationsDir;
+  }
+
+  private async recordPath(language: string): Promise<string> {
+    return path.join(await this.directory(), `${language}.json`);
+  }
+
+  private async save(record: TranslationRecord): Promise<void> {
+    await fs.mkdir(await this.directory(), { recursive: true });
+    await fs.writeFile(await this.recordPath(record.language), JSON.stringify(record, null, 2), 'utf-8');
+  }
+}
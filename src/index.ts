@@ -3,6 +3,7 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { CLI } from './cli';
+import { AIAbortError } from './ai/errors';
 import { version, description } from '../package.json';
 
 // Note: .env file is deprecated - configuration is now stored in encrypted ~/.faj/config.json
@@ -47,12 +48,20 @@ process.on('uncaughtException', (error) => {
 });
 
 process.on('unhandledRejection', (reason) => {
+  if (reason instanceof AIAbortError) {
+    console.error(chalk.yellow(reason.message));
+    process.exit(1);
+  }
   console.error(chalk.red('Unhandled promise rejection:'), reason);
   process.exit(1);
 });
 
 // Run the CLI
 main().catch((error) => {
+  if (error instanceof AIAbortError) {
+    console.error(chalk.yellow(error.message));
+    process.exit(1);
+  }
   console.error(chalk.red('Failed to start FAJ:'), error.message);
   process.exit(1);
 });
\ No newline at end of file
@@ -0,0 +1,280 @@
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { AIProvider } from '../models';
+import { Variant } from '../ai/AIManager';
+import { PolishCandidate } from '../ai/FabricationGuard';
+import { PolishResult } from '../ai/schemas';
+
+// Narrower columns than this are stacked one below the other instead
+const MIN_COLUMN_WIDTH = 28;
+const COLUMN_GAP = 3;
+
+type StyledLine = [text: string, style: (text: string) => string];
+
+interface Column {
+  title: string;
+  lines: StyledLine[];
+}
+
+export interface PickedPolish {
+  result: PolishResult;
+  // Provider of the candidate the description came from
+  provider: AIProvider;
+}
+
+/**
+ * Shows AI variants next to each other and lets the user choose one, or
+ * assemble a result from the bullets of several.
+ */
+export class CandidatePicker {
+  /**
+   * Returns the chosen or merged result, or null when the user keeps what
+   * they had.
+   */
+  static async pickPolish(candidates: PolishCandidate[]): Promise<PickedPolish | null> {
+    this.showSideBySide(candidates.map((candidate, i) => this.polishColumn(candidate, i)));
+
+    const { choice } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'choice',
+        message: 'Which version would you like?',
+        choices: [
+          ...candidates.map((candidate, i) => ({
+            name: `Use ${this.label(i)}${candidate.unverifiedClaims.length ? chalk.yellow(` (${candidate.unverifiedClaims.length} unverified)`) : ''}`,
+            value: i,
+          })),
+          ...(candidates.length > 1 ? [{ name: '🔀 Mix bullets from several', value: 'merge' }] : []),
+          new inquirer.Separator('──────────────'),
+          { name: '✗ Keep the current version', value: 'none' },
+        ],
+      },
+    ]);
+
+    if (choice === 'none') {
+      return null;
+    }
+    if (choice !== 'merge') {
+      return { result: { ...candidates[choice].data }, provider: candidates[choice].provider };
+    }
+    return this.merge(candidates);
+  }
+
+  /**
+   * Pick-one variant of pickPolish for plain text such as a summary.
+   */
+  static async pickText(variants: Array<Variant<string>>): Promise<string | null> {
+    this.showSideBySide(
+      variants.map((variant, i) => ({
+        title: this.title(variant, i),
+        lines: this.paragraphs(variant.data.trim()).map((line): StyledLine => [line, chalk.white]),
+      }))
+    );
+
+    const { choice } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'choice',
+        message: 'Which version would you like?',
+        choices: [
+          ...variants.map((_, i) => ({ name: `Use ${this.label(i)}`, value: i })),
+          new inquirer.Separator('──────────────'),
+          { name: '✗ Keep the current version', value: 'none' },
+        ],
+      },
+    ]);
+    return choice === 'none' ? null : variants[choice].data.trim();
+  }
+
+  /**
+   * The description comes from one candidate; highlights may be taken from
+   * any of them, in the order they are listed.
+   */
+  private static async merge(candidates: PolishCandidate[]): Promise<PickedPolish> {
+    const { descriptionFrom } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'descriptionFrom',
+        message: 'Take the description from:',
+        choices: candidates.map((candidate, i) => ({
+          name: `${this.label(i)}: ${this.truncate(candidate.data.description, 70)}`,
+          value: i,
+        })),
+      },
+    ]);
+
+    const { picked } = await inquirer.prompt([
+      {
+        type: 'checkbox',
+        name: 'picked',
+        message: 'Select the highlights to keep:',
+        choices: candidates.flatMap((candidate, ci) => [
+          new inquirer.Separator(chalk.cyan(`── ${this.label(ci)} ──`)),
+          ...candidate.data.highlights.map((highlight, hi) => ({
+            name: highlight,
+            value: [ci, hi],
+            checked: ci === descriptionFrom,
+          })),
+        ]),
+        validate: (answer: unknown[]) => answer.length > 0 || 'Select at least one highlight',
+      },
+    ]);
+
+    const pairs = picked as Array<[number, number]>;
+    const highlights = [...new Set(pairs.map(([ci, hi]) => candidates[ci].data.highlights[hi]))];
+
+    // Technologies of every candidate that contributed, so a borrowed bullet keeps its tools
+    const contributors = new Set<number>([descriptionFrom, ...pairs.map(([ci]) => ci)]);
+    const technologies = new Map<string, string>();
+    for (const ci of contributors) {
+      for (const technology of candidates[ci].data.technologies || []) {
+        if (!technologies.has(technology.toLowerCase())) {
+          technologies.set(technology.toLowerCase(), technology);
+        }
+      }
+    }
+
+    return {
+      result: {
+        description: candidates[descriptionFrom].data.description,
+        highlights,
+        technologies: technologies.size > 0 ? [...technologies.values()] : undefined,
+      },
+      provider: candidates[descriptionFrom].provider,
+    };
+  }
+
+  private static polishColumn(candidate: PolishCandidate, index: number): Column {
+    const lines: StyledLine[] = this.paragraphs(candidate.data.description).map((line) => [line, chalk.white]);
+    lines.push(['', chalk.white]);
+    candidate.data.highlights.forEach((highlight) => {
+      this.paragraphs(highlight).forEach((line, i) => lines.push([i === 0 ? `• ${line}` : `  ${line}`, chalk.white]));
+    });
+    if (candidate.data.technologies?.length) {
+      lines.push(['', chalk.white]);
+      this.paragraphs(candidate.data.technologies.join(', ')).forEach((line) => lines.push([line, chalk.gray]));
+    }
+    if (candidate.unverifiedClaims.length > 0) {
+      lines.push(['', chalk.white]);
+      const claims = candidate.unverifiedClaims.map((claim) => claim.value).join(', ');
+      this.paragraphs(`⚠️  Unverified: ${claims}`).forEach((line) => lines.push([line, chalk.yellow]));
+    }
+    return { title: this.title(candidate, index), lines };
+  }
+
+  /**
+   * Prints columns next to each other when the terminal is wide enough,
+   * otherwise one after the other.
+   */
+  private static showSideBySide(columns: Column[]): void {
+    const terminalWidth = process.stdout.columns || 80;
+    const width = Math.floor((terminalWidth - COLUMN_GAP * (columns.length - 1)) / columns.length);
+
+    console.log();
+    if (columns.length === 1 || width < MIN_COLUMN_WIDTH) {
+      for (const column of columns) {
+        console.log(chalk.cyan.bold(column.title));
+        column.lines.forEach(([text, style]) => console.log(style(text)));
+        console.log();
+      }
+      return;
+    }
+
+    const blocks = columns.map((column) => [
+      [this.truncate(column.title, width), chalk.cyan.bold] as StyledLine,
+      ['─'.repeat(width), chalk.gray] as StyledLine,
+      ...column.lines.flatMap(([text, style]) =>
+        this.fit(text, width).map((line): StyledLine => [line, style])
+      ),
+    ]);
+    const height = Math.max(...blocks.map((block) => block.length));
+
+    for (let row = 0; row < height; row++) {
+      const cells = blocks.map((block) => {
+        const [text, style] = block[row] || ['', chalk.white];
+        const fitted = this.fit(text, width)[0] || '';
+        return style(fitted) + ' '.repeat(width - this.displayWidth(fitted));
+      });
+      console.log(cells.join(' '.repeat(COLUMN_GAP)).trimEnd());
+    }
+    console.log();
+  }
+
+  private static paragraphs(text: string): string[] {
+    return text.split('\n').map((line) => line.trim());
+  }
+
+  /**
+   * Breaks a line into pieces no wider than `width` terminal cells,
+   * preferring spaces; CJK text, which has none, breaks between characters.
+   * Bullet lines keep a hanging indent.
+   */
+  private static fit(text: string, width: number): string[] {
+    if (this.displayWidth(text) <= width) {
+      return [text];
+    }
+
+    const hanging = text.startsWith('• ') ? '  ' : '';
+    const lines: string[] = [];
+    let current = '';
+    for (const token of text.match(/[^\s]+\s*/g) || []) {
+      const candidate = current + token;
+      if (this.displayWidth(candidate.trimEnd()) <= width) {
+        current = candidate;
+        continue;
+      }
+      // Start a new line unless the token wouldn't fit on one anyway
+      if (current.trim() && this.displayWidth(hanging + token.trimEnd()) <= width) {
+        lines.push(current.trimEnd());
+        current = hanging + token;
+        continue;
+      }
+      // A token wider than the column is split between characters
+      for (const char of token) {
+        if (this.displayWidth(current + char) > width) {
+          lines.push(current.trimEnd());
+          current = hanging;
+        }
+        current += char;
+      }
+    }
+    if (current.trim()) {
+      lines.push(current.trimEnd());
+    }
+    return lines;
+  }
+
+  /**
+   * Terminal cells a string occupies: CJK and full-width characters take two.
+   */
+  private static displayWidth(text: string): number {
+    let width = 0;
+    for (const char of text) {
+      const code = char.codePointAt(0)!;
+      const wide =
+        (code >= 0x1100 && code <= 0x115f) ||
+        (code >= 0x2e80 && code <= 0xa4cf) ||
+        (code >= 0xac00 && code <= 0xd7a3) ||
+        (code >= 0xf900 && code <= 0xfaff) ||
+        (code >= 0xfe30 && code <= 0xfe4f) ||
+        (code >= 0xff00 && code <= 0xff60) ||
+        (code >= 0xffe0 && code <= 0xffe6) ||
+        (code >= 0x1f300 && code <= 0x1faff);
+      width += wide ? 2 : 1;
+    }
+    return width;
+  }
+
+  private static title(variant: Variant<unknown>, index: number): string {
+    const temperature = variant.temperature !== undefined ? ` · t=${variant.temperature}` : '';
+    return `${this.label(index)} · ${variant.provider}/${variant.model}${temperature}`;
+  }
+
+  private static label(index: number): string {
+    return String.fromCharCode(65 + index);
+  }
+
+  private static truncate(text: string, length: number): string {
+    return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+  }
+}
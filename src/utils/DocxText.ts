@@ -0,0 +1,51 @@
+import { ZipArchive } from './ZipArchive';
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/**
+ * Extracts the body text of a .docx file, one paragraph per line. Tabs
+ * and line breaks are kept, and numbered or bulleted paragraphs start
+ * with "• " so list items can be told apart from headings.
+ */
+export function extractDocxText(data: Buffer): string {
+  let xml: string | null;
+  try {
+    xml = ZipArchive.fromBuffer(data).readText('word/document.xml');
+  } catch {
+    xml = null;
+  }
+  if (!xml) {
+    throw new Error('Not a Word document (.docx)');
+  }
+
+  const paragraphs: string[] = [];
+  let current = '';
+  let listItem = false;
+  const tokens = /<w:p[\s>]|<\/w:p>|<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:(?:br|cr)(?:\s[^>]*)?\/>|<w:numPr>/g;
+  for (const [token, text] of xml.matchAll(tokens)) {
+    if (token.startsWith('<w:p')) {
+      current = '';
+      listItem = false;
+    } else if (token === '</w:p>') {
+      paragraphs.push(listItem && current.trim() ? `• ${current}` : current);
+      current = '';
+    } else if (token === '<w:numPr>') {
+      listItem = true;
+    } else if (token === '<w:tab/>') {
+      current += '\t';
+    } else if (token.startsWith('<w:br') || token.startsWith('<w:cr')) {
+      current += '\n';
+    } else {
+      current += decodeEntities(text || '');
+    }
+  }
+  return paragraphs.map((p) => p.trim()).filter(Boolean).join('\n');
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-z]+);/g, (entity, name: string) => {
+    if (name.startsWith('#x')) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.slice(1), 10));
+    return XML_ENTITIES[name] ?? entity;
+  });
+}
@@ -0,0 +1,511 @@
+import { constants, inflateSync } from 'zlib';
+
+type PdfValue = number | boolean | null | PdfName | PdfString | PdfRef | PdfValue[] | PdfDict;
+
+interface PdfName {
+  name: string;
+}
+
+interface PdfString {
+  // Raw bytes, one character per byte
+  bytes: string;
+}
+
+interface PdfRef {
+  ref: number;
+}
+
+type PdfDict = { [key: string]: PdfValue };
+
+interface PdfObject {
+  body: string;
+  stream?: Buffer;
+}
+
+interface FontDecoder {
+  // Code length in bytes: 2 for composite (CID) fonts
+  codeLength: number;
+  map: Map<number, string> | null;
+}
+
+// Gap in a TJ array, in thousandths of an em, wide enough to be a word break
+const WORD_GAP = 250;
+const DELIMITERS = '()<>[]{}/%';
+
+// WinAnsiEncoding differs from Latin-1 only in 0x80–0x9F: dashes, quotes, bullets
+const WIN_ANSI_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+/**
+ * Extracts the text of a PDF, page by page, without any native tools.
+ * Handles what resume exports from word processors and browsers contain:
+ * compressed content and object streams, and fonts with ToUnicode maps.
+ * Scanned pages have no text to extract, and encrypted files are rejected.
+ */
+export function extractPdfText(data: Buffer): string {
+  if (data.subarray(0, 1024).toString('latin1').indexOf('%PDF-') === -1) {
+    throw new Error('Not a PDF file');
+  }
+  return new PdfDocument(data).text();
+}
+
+class PdfDocument {
+  private source: string;
+  private objects = new Map<number, PdfObject>();
+  private decoders = new Map<string, FontDecoder>();
+
+  constructor(private data: Buffer) {
+    this.source = data.toString('latin1');
+    this.readObjects();
+  }
+
+  text(): string {
+    if (/\/Encrypt\s/.test(this.source)) {
+      throw new Error('The PDF is encrypted; save an unprotected copy first');
+    }
+
+    const pages: string[] = [];
+    for (const page of this.pages()) {
+      const lines: string[] = [];
+      for (const stream of this.asArray(page.Contents)) {
+        const content = this.streamOf(stream);
+        if (content) {
+          this.readContent(content.toString('latin1'), this.dictOf(page.Resources), lines, 0);
+        }
+      }
+      pages.push(lines.map((line) => line.replace(/[ \t]+/g, ' ').trim()).filter(Boolean).join('\n'));
+    }
+    return pages.join('\n\n').trim();
+  }
+
+  private readObjects(): void {
+    const header = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = header.exec(this.source))) {
+      const start = match.index + match[0].length;
+      const end = this.source.indexOf('endobj', start);
+      if (end === -1) break;
+
+      let body = this.source.slice(start, end);
+      let stream: Buffer | undefined;
+      const streamStart = body.search(/\bstream\r?\n/);
+      if (streamStart !== -1) {
+        const dataStart = start + streamStart + body.slice(streamStart).match(/^stream\r?\n/)![0].length;
+        const dataEnd = this.source.lastIndexOf('endstream', end);
+        stream = this.data.subarray(dataStart, dataEnd === -1 ? end : dataEnd);
+        body = body.slice(0, streamStart);
+      }
+      this.objects.set(Number(match[1]), { body, stream });
+      header.lastIndex = end;
+    }
+
+    // Objects packed into compressed object streams (PDF 1.5+)
+    for (const object of [...this.objects.values()]) {
+      const dict = this.parse(object.body) as PdfDict;
+      if (!dict || this.nameOf(dict.Type) !== 'ObjStm' || !object.stream) continue;
+      const decoded = this.decode(dict, object.stream);
+      if (!decoded) continue;
+
+      const text = decoded.toString('latin1');
+      const first = dict.First as number;
+      const offsets = text.slice(0, first).trim().split(/\s+/).map(Number);
+      for (let i = 0; i + 1 < offsets.length; i += 2) {
+        const end = i + 3 < offsets.length ? first + offsets[i + 3] : text.length;
+        if (!this.objects.has(offsets[i])) {
+          this.objects.set(offsets[i], { body: text.slice(first + offsets[i + 1], end) });
+        }
+      }
+    }
+  }
+
+  private pages(): PdfDict[] {
+    const catalog = [...this.objects.values()].map((o) => this.parse(o.body)).find((d: any) => d && this.nameOf(d.Type) === 'Catalog') as PdfDict;
+    const pages: PdfDict[] = [];
+    const visit = (node: PdfDict | null, resources: PdfValue | undefined, seen: Set<PdfDict>) => {
+      if (!node || seen.has(node)) return;
+      seen.add(node);
+      const inherited = node.Resources || resources;
+      if (this.nameOf(node.Type) === 'Page') {
+        pages.push({ ...node, Resources: inherited as PdfValue });
+      } else {
+        for (const kid of this.asArray(node.Kids)) {
+          visit(this.dictOf(kid), inherited, seen);
+        }
+      }
+    };
+    if (catalog) {
+      visit(this.dictOf(catalog.Pages), undefined, new Set());
+    }
+    if (pages.length > 0) {
+      return pages;
+    }
+    // No usable page tree: take the pages in file order
+    return [...this.objects.values()].map((o) => this.parse(o.body) as PdfDict).filter((d) => d && this.nameOf(d.Type) === 'Page');
+  }
+
+  /**
+   * Runs a content stream, collecting shown text into `lines`. A move to
+   * a new baseline starts a new line; a wide horizontal gap adds a space.
+   */
+  private readContent(content: string, resources: PdfDict | null, lines: string[], depth: number): void {
+    const fonts = this.dictOf(resources?.Font);
+    const xObjects = this.dictOf(resources?.XObject);
+    let decoder: FontDecoder = { codeLength: 1, map: null };
+    let lineY: number | null = null;
+    let operands: PdfValue[] = [];
+    const newLine = () => {
+      if (lines.length === 0 || lines[lines.length - 1] !== '') lines.push('');
+    };
+    const append = (text: string) => {
+      if (lines.length === 0) lines.push('');
+      lines[lines.length - 1] += text;
+    };
+    const show = (value: PdfValue) => append(this.decodeText(value, decoder));
+
+    const tokens = new Tokenizer(content);
+    for (let token = tokens.next(); token !== undefined; token = tokens.next()) {
+      if (typeof token !== 'object' || token === null || !('operator' in token)) {
+        operands.push(token as PdfValue);
+        continue;
+      }
+
+      const num = (i: number) => (typeof operands[i] === 'number' ? (operands[i] as number) : 0);
+      switch (token.operator) {
+        case 'Tf':
+          decoder = this.fontDecoder(fonts, this.nameOf(operands[0]));
+          break;
+        case 'Td':
+        case 'TD':
+          if (num(1) !== 0) {
+            newLine();
+            lineY = lineY === null ? null : lineY + num(1);
+          } else if (num(0) > 0) {
+            append(' ');
+          }
+          break;
+        case 'Tm':
+          if (lineY !== null && Math.abs(num(5) - lineY) > 1) {
+            newLine();
+          } else if (lineY !== null) {
+            append(' ');
+          }
+          lineY = num(5);
+          break;
+        case 'T*':
+          newLine();
+          break;
+        case "'":
+        case '"':
+          newLine();
+          show(operands[operands.length - 1]);
+          break;
+        case 'Tj':
+          show(operands[0]);
+          break;
+        case 'TJ':
+          for (const part of this.asArray(operands[0])) {
+            if (typeof part === 'number') {
+              if (part < -WORD_GAP) append(' ');
+            } else {
+              show(part);
+            }
+          }
+          break;
+        case 'Do': {
+          const form = xObjects?.[this.nameOf(operands[0]) || ''];
+          const object = form && (form as PdfRef).ref !== undefined ? this.objects.get((form as PdfRef).ref) : undefined;
+          const dict = object && (this.parse(object.body) as PdfDict);
+          if (dict && object?.stream && this.nameOf(dict.Subtype) === 'Form' && depth < 5) {
+            const decoded = this.decode(dict, object.stream);
+            if (decoded) {
+              newLine();
+              this.readContent(decoded.toString('latin1'), this.dictOf(dict.Resources) || resources, lines, depth + 1);
+            }
+          }
+          break;
+        }
+        case 'ID':
+          tokens.skipInlineImage();
+          break;
+      }
+      operands = [];
+    }
+  }
+
+  private fontDecoder(fonts: PdfDict | null, name: string | null): FontDecoder {
+    const ref = name && fonts ? fonts[name] : undefined;
+    const key = ref && (ref as PdfRef).ref !== undefined ? `ref:${(ref as PdfRef).ref}` : `name:${name}`;
+    const cached = this.decoders.get(key);
+    if (cached) return cached;
+
+    const font = this.dictOf(ref);
+    const composite = this.nameOf(font?.Subtype) === 'Type0';
+    const cmap = font?.ToUnicode ? this.streamOf(font.ToUnicode) : null;
+    const decoder = cmap ? this.parseCMap(cmap.toString('latin1'), composite ? 2 : 1) : { codeLength: composite ? 2 : 1, map: null };
+    this.decoders.set(key, decoder);
+    return decoder;
+  }
+
+  private parseCMap(cmap: string, defaultLength: number): FontDecoder {
+    const map = new Map<number, string>();
+    const codespace = cmap.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+    const codeLength = codespace ? codespace[1].length / 2 : defaultLength;
+
+    for (const block of cmap.match(/beginbfchar([\s\S]*?)endbfchar/g) || []) {
+      for (const [, code, target] of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+        map.set(parseInt(code, 16), this.utf16(target));
+      }
+    }
+    for (const block of cmap.match(/beginbfrange([\s\S]*?)endbfrange/g) || []) {
+      for (const [, low, high, target] of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+        const start = parseInt(low, 16);
+        const end = parseInt(high, 16);
+        if (target.startsWith('[')) {
+          const targets = [...target.matchAll(/<([0-9a-fA-F]*)>/g)].map((m) => m[1]);
+          targets.forEach((hex, i) => map.set(start + i, this.utf16(hex)));
+        } else {
+          const base = target.slice(1, -1);
+          // Only the last byte of the target increments across the range
+          const prefix = base.slice(0, -4);
+          const last = parseInt(base.slice(-4) || '0', 16);
+          for (let code = start; code <= end && code - start < 0x10000; code++) {
+            map.set(code, this.utf16(prefix + (last + code - start).toString(16).padStart(4, '0')));
+          }
+        }
+      }
+    }
+    return { codeLength, map };
+  }
+
+  private decodeText(value: PdfValue, decoder: FontDecoder): string {
+    if (!value || typeof value !== 'object' || !('bytes' in value)) return '';
+    const bytes = (value as PdfString).bytes;
+    if (!decoder.map) {
+      // Without a ToUnicode map only single-byte codes can be read, as WinAnsi
+      return decoder.codeLength === 1 ? this.winAnsi(bytes) : '';
+    }
+    let text = '';
+    for (let i = 0; i + decoder.codeLength <= bytes.length; i += decoder.codeLength) {
+      let code = 0;
+      for (let j = 0; j < decoder.codeLength; j++) {
+        code = code * 256 + bytes.charCodeAt(i + j);
+      }
+      text += decoder.map.get(code) ?? (decoder.codeLength === 1 ? this.winAnsi(bytes[i]) : '');
+    }
+    return text;
+  }
+
+  private winAnsi(bytes: string): string {
+    return bytes.replace(/[\u0080-\u009f]/g, (char) => WIN_ANSI_HIGH[char.charCodeAt(0) - 0x80]);
+  }
+
+  private utf16(hex: string): string {
+    let text = '';
+    for (let i = 0; i + 4 <= hex.length; i += 4) {
+      text += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+    }
+    return text;
+  }
+
+  private streamOf(value: PdfValue | undefined): Buffer | null {
+    if (!value || typeof value !== 'object' || !('ref' in value)) return null;
+    const object = this.objects.get((value as PdfRef).ref);
+    if (!object?.stream) return null;
+    return this.decode(this.parse(object.body) as PdfDict, object.stream);
+  }
+
+  private decode(dict: PdfDict | null, stream: Buffer): Buffer | null {
+    const filters = this.asArray(dict?.Filter).map((f) => this.nameOf(f));
+    let data = stream;
+    for (const filter of filters) {
+      if (filter !== 'FlateDecode') {
+        // Images and other encodings carry no text
+        return null;
+      }
+      try {
+        data = inflateSync(data, { finishFlush: constants.Z_SYNC_FLUSH });
+      } catch {
+        return null;
+      }
+    }
+    return data;
+  }
+
+  private dictOf(value: PdfValue | undefined): PdfDict | null {
+    const resolved = this.resolve(value);
+    return resolved && typeof resolved === 'object' && !Array.isArray(resolved) && !('ref' in resolved) && !('name' in resolved) && !('bytes' in resolved)
+      ? (resolved as PdfDict)
+      : null;
+  }
+
+  private asArray(value: PdfValue | undefined): PdfValue[] {
+    const resolved = this.resolve(value);
+    if (resolved === undefined || resolved === null) return [];
+    return Array.isArray(resolved) ? resolved : [value as PdfValue];
+  }
+
+  private nameOf(value: PdfValue | undefined): string | null {
+    const resolved = this.resolve(value);
+    return resolved && typeof resolved === 'object' && 'name' in resolved ? (resolved as PdfName).name : null;
+  }
+
+  private resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (value && typeof value === 'object' && 'ref' in value && depth < 10) {
+      const object = this.objects.get((value as PdfRef).ref);
+      return object ? this.resolve(this.parse(object.body), depth + 1) : undefined;
+    }
+    return value;
+  }
+
+  private parse(body: string): PdfValue {
+    const tokens = new Tokenizer(body);
+    const value = tokens.next();
+    return value && typeof value === 'object' && 'operator' in value ? null : (value as PdfValue);
+  }
+}
+
+/**
+ * Reads PDF tokens: numbers, names, strings, arrays, dictionaries,
+ * references and, in content streams, operators.
+ */
+class Tokenizer {
+  private pos = 0;
+
+  constructor(private text: string) {}
+
+  next(): PdfValue | { operator: string } | undefined {
+    this.skipWhitespace();
+    if (this.pos >= this.text.length) return undefined;
+
+    const char = this.text[this.pos];
+    if (char === '/') {
+      const start = ++this.pos;
+      this.skipRegular();
+      return { name: this.text.slice(start, this.pos).replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))) };
+    }
+    if (char === '(') return this.literalString();
+    if (char === '<' && this.text[this.pos + 1] === '<') {
+      this.pos += 2;
+      const dict: PdfDict = {};
+      for (;;) {
+        this.skipWhitespace();
+        if (this.pos >= this.text.length) return dict;
+        if (this.text.startsWith('>>', this.pos)) {
+          this.pos += 2;
+          return dict;
+        }
+        const key = this.next();
+        const value = this.next();
+        if (key && typeof key === 'object' && 'name' in key) {
+          dict[(key as PdfName).name] = value as PdfValue;
+        }
+      }
+    }
+    if (char === '<') {
+      const end = this.text.indexOf('>', this.pos);
+      const hex = this.text.slice(this.pos + 1, end === -1 ? this.text.length : end).replace(/\s+/g, '');
+      this.pos = end === -1 ? this.text.length : end + 1;
+      let bytes = '';
+      for (let i = 0; i < hex.length; i += 2) {
+        bytes += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, '0'), 16));
+      }
+      return { bytes };
+    }
+    if (char === '[') {
+      this.pos++;
+      const items: PdfValue[] = [];
+      for (;;) {
+        this.skipWhitespace();
+        if (this.pos >= this.text.length) return items;
+        if (this.text[this.pos] === ']') {
+          this.pos++;
+          return items;
+        }
+        const item = this.next();
+        if (item === undefined) return items;
+        items.push(item as PdfValue);
+      }
+    }
+    if (char === ']' || char === '>' || char === '{' || char === '}' || char === ')') {
+      this.pos++;
+      return this.next();
+    }
+
+    const start = this.pos;
+    this.skipRegular();
+    const word = this.text.slice(start, this.pos);
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      // "12 0 R" is a reference
+      const reference = /^\s+(\d+)\s+R(?![^\s()<>[\]{}/%])/.exec(this.text.slice(this.pos, this.pos + 24));
+      if (reference && /^\d+$/.test(word)) {
+        this.pos += reference[0].length;
+        return { ref: Number(word) };
+      }
+      return Number(word);
+    }
+    if (word === 'true' || word === 'false') return word === 'true';
+    if (word === 'null') return null;
+    return { operator: word };
+  }
+
+  // Inline image data is binary; it ends at the first "EI" between whitespace
+  skipInlineImage(): void {
+    const end = this.text.slice(this.pos).search(/\sEI(?:\s|$)/);
+    this.pos = end === -1 ? this.text.length : this.pos + end + 3;
+  }
+
+  private literalString(): PdfString {
+    let bytes = '';
+    let depth = 0;
+    this.pos++;
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos++];
+      if (char === '\\') {
+        const next = this.text[this.pos++];
+        const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+        if (next in escapes) {
+          bytes += escapes[next];
+        } else if (/[0-7]/.test(next)) {
+          let octal = next;
+          while (octal.length < 3 && /[0-7]/.test(this.text[this.pos])) octal += this.text[this.pos++];
+          bytes += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        } else if (next === '\r' || next === '\n') {
+          // Line continuation
+          if (next === '\r' && this.text[this.pos] === '\n') this.pos++;
+        } else {
+          bytes += next;
+        }
+      } else if (char === '(') {
+        depth++;
+        bytes += char;
+      } else if (char === ')') {
+        if (depth === 0) break;
+        depth--;
+        bytes += char;
+      } else {
+        bytes += char;
+      }
+    }
+    return { bytes };
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (char === '%') {
+        while (this.pos < this.text.length && this.text[this.pos] !== '\n' && this.text[this.pos] !== '\r') this.pos++;
+      } else if (char === ' ' || char === '\n' || char === '\r' || char === '\t' || char === '\f' || char === '\0') {
+        this.pos++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private skipRegular(): void {
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (DELIMITERS.includes(char) || /\s/.test(char) || char === '\0') return;
+      this.pos++;
+    }
+  }
+}
@@ -58,6 +58,61 @@ const SECTION_TITLES: Record<string, SectionTitles> = {
     certifications: '證書',
     languages: '語言',
     awards: '獲獎'
+  },
+  ja: {
+    professionalSummary: '職務要約',
+    workExperience: '職務経歴',
+    projects: 'プロジェクト',
+    education: '学歴',
+    skills: 'スキル',
+    technicalSkills: 'テクニカルスキル',
+    certifications: '資格',
+    languages: '語学',
+    awards: '受賞歴'
+  },
+  ko: {
+    professionalSummary: '경력 요약',
+    workExperience: '경력',
+    projects: '프로젝트',
+    education: '학력',
+    skills: '기술',
+    technicalSkills: '기술 스택',
+    certifications: '자격증',
+    languages: '언어',
+    awards: '수상 경력'
+  },
+  de: {
+    professionalSummary: 'Profil',
+    workExperience: 'Berufserfahrung',
+    projects: 'Projekte',
+    education: 'Ausbildung',
+    skills: 'Kenntnisse',
+    technicalSkills: 'Technische Kenntnisse',
+    certifications: 'Zertifikate',
+    languages: 'Sprachen',
+    awards: 'Auszeichnungen'
+  },
+  fr: {
+    professionalSummary: 'Profil professionnel',
+    workExperience: 'Expérience professionnelle',
+    projects: 'Projets',
+    education: 'Formation',
+    skills: 'Compétences',
+    technicalSkills: 'Compétences techniques',
+    certifications: 'Certifications',
+    languages: 'Langues',
+    awards: 'Distinctions'
+  },
+  es: {
+    professionalSummary: 'Perfil profesional',
+    workExperience: 'Experiencia laboral',
+    projects: 'Proyectos',
+    education: 'Formación',
+    skills: 'Habilidades',
+    technicalSkills: 'Habilidades técnicas',
+    certifications: 'Certificaciones',
+    languages: 'Idiomas',
+    awards: 'Premios'
   }
 };
 
@@ -86,6 +141,26 @@ export function getSectionTitles(languages?: string[]): SectionTitles {
     return SECTION_TITLES['zh-TW'];
   }
   
+  if (primaryLanguage.includes('japanese') || primaryLanguage.includes('日本語')) {
+    return SECTION_TITLES.ja;
+  }
+  
+  if (primaryLanguage.includes('korean') || primaryLanguage.includes('한국어')) {
+    return SECTION_TITLES.ko;
+  }
+  
+  if (primaryLanguage.includes('german') || primaryLanguage.includes('deutsch')) {
+    return SECTION_TITLES.de;
+  }
+  
+  if (primaryLanguage.includes('french') || primaryLanguage.includes('français')) {
+    return SECTION_TITLES.fr;
+  }
+  
+  if (primaryLanguage.includes('spanish') || primaryLanguage.includes('español')) {
+    return SECTION_TITLES.es;
+  }
+  
   // Default to English
   return SECTION_TITLES.en;
 }
@@ -101,6 +176,16 @@ export function getSectionTitle(section: keyof SectionTitles, languages?: string
   return titles[section];
 }
 
+/**
+ * Every localized title of a section, e.g. for recognizing headings in an
+ * imported resume
+ * @param section Section name
+ * @returns Distinct titles across all languages
+ */
+export function getSectionTitleVariants(section: keyof SectionTitles): string[] {
+  return [...new Set(Object.values(SECTION_TITLES).map((titles) => titles[section]))];
+}
+
 /**
  * Education degree translations
  */
@@ -0,0 +1,117 @@
+import * as fs from 'fs/promises';
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Compression methods; everything else (and encryption) is rejected
+const STORED = 0;
+const DEFLATED = 8;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  headerOffset: number;
+}
+
+/**
+ * Minimal reader for ZIP archives such as data exports and .docx files.
+ * Supports stored and deflated entries, which is all those tools write;
+ * ZIP64 and encrypted archives are not supported.
+ */
+export class ZipArchive {
+  private constructor(private data: Buffer, private entries: Map<string, ZipEntry>) {}
+
+  static async open(filePath: string): Promise<ZipArchive> {
+    return ZipArchive.fromBuffer(await fs.readFile(filePath));
+  }
+
+  static fromBuffer(data: Buffer): ZipArchive {
+    // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+    let end = -1;
+    for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+      if (data.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+        end = i;
+        break;
+      }
+    }
+    if (end === -1) {
+      throw new Error('Not a ZIP archive');
+    }
+
+    const count = data.readUInt16LE(end + 10);
+    let offset = data.readUInt32LE(end + 16);
+    if (offset === 0xffffffff) {
+      throw new Error('ZIP64 archives are not supported');
+    }
+
+    const entries = new Map<string, ZipEntry>();
+    for (let i = 0; i < count; i++) {
+      if (offset + 46 > data.length || data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+        throw new Error('Corrupt ZIP archive');
+      }
+      const flags = data.readUInt16LE(offset + 8);
+      const nameLength = data.readUInt16LE(offset + 28);
+      const extraLength = data.readUInt16LE(offset + 30);
+      const commentLength = data.readUInt16LE(offset + 32);
+      // Bit 11 marks UTF-8 names; older tools write CP437, which is ASCII for the names we look up
+      const name = data.toString(flags & 0x800 ? 'utf-8' : 'latin1', offset + 46, offset + 46 + nameLength);
+      if (!name.endsWith('/')) {
+        entries.set(name, {
+          name,
+          method: flags & 0x1 ? -1 : data.readUInt16LE(offset + 10),
+          compressedSize: data.readUInt32LE(offset + 20),
+          headerOffset: data.readUInt32LE(offset + 42),
+        });
+      }
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return new ZipArchive(data, entries);
+  }
+
+  names(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  /**
+   * Finds an entry by file name, ignoring folders and case, e.g.
+   * "positions.csv" matches "Basic_LinkedInDataExport/Positions.csv".
+   */
+  find(fileName: string): string | null {
+    const wanted = fileName.toLowerCase();
+    return this.names().find((name) => name.split('/').pop()!.toLowerCase() === wanted) || null;
+  }
+
+  read(name: string): Buffer | null {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      return null;
+    }
+    if (this.data.readUInt32LE(entry.headerOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry: ${name}`);
+    }
+
+    // The local header repeats the name but may carry a different extra field
+    const start =
+      entry.headerOffset + 30 + this.data.readUInt16LE(entry.headerOffset + 26) + this.data.readUInt16LE(entry.headerOffset + 28);
+    const raw = this.data.subarray(start, start + entry.compressedSize);
+    switch (entry.method) {
+      case STORED:
+        return Buffer.from(raw);
+      case DEFLATED:
+        return inflateRawSync(raw);
+      case -1:
+        throw new Error(`${name} is encrypted`);
+      default:
+        throw new Error(`${name} uses an unsupported compression method (${entry.method})`);
+    }
+  }
+
+  readText(name: string): string | null {
+    const data = this.read(name);
+    // Strip the byte order mark some exporters write
+    return data ? data.toString('utf-8').replace(/^\ufeff/, '') : null;
+  }
+}
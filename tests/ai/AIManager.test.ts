@@ -0,0 +1,32 @@
+import { MockProvider } from '../../src/ai/providers/MockProvider';
+
+const config: { ai: any } = { ai: { provider: 'mock' } };
+
+jest.mock('../../src/core/config/ConfigManager', () => ({
+  ConfigManager: {
+    getInstance: () => ({
+      load: async () => JSON.parse(JSON.stringify(config)),
+      get: async (key: string) => (config as any)[key],
+      getAIApiKey: () => undefined,
+    }),
+  },
+}));
+
+import { AIManager } from '../../src/ai/AIManager';
+
+describe('AIManager.initialize', () => {
+  it('probes providers again only when the AI config changes', async () => {
+    const probe = jest.spyOn(MockProvider.prototype, 'isAvailable');
+    const manager = AIManager.getInstance();
+
+    await manager.initialize();
+    await manager.initialize();
+    expect(probe).toHaveBeenCalledTimes(1);
+    expect(manager.getConfiguredProviders()).toEqual(['mock']);
+
+    config.ai = { provider: 'mock', routing: { polish: { provider: 'mock' } } };
+    await manager.initialize();
+    expect(probe).toHaveBeenCalledTimes(2);
+    expect(manager.getRouting()).toEqual({ polish: { provider: 'mock' } });
+  });
+});
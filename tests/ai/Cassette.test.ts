@@ -0,0 +1,39 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Cassette } from '../../src/ai/Cassette';
+
+describe('Cassette', () => {
+  const cassette = Cassette.getInstance();
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'faj-cassette-'));
+    file = path.join(dir, 'session.jsonl');
+  });
+
+  afterEach(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('replays what was recorded, keyed by kind and request', async () => {
+    cassette.startRecording(file);
+    await cassette.record('prompt', 'Say hi', 'Hi!', 'openai', 'gpt-4o');
+    await cassette.record('match', { resume: { b: 1, a: 2 }, job: 'x' }, { score: 80 }, 'openai', 'gpt-4o');
+    await cassette.record('prompt', 'Say hi', 'Hello!', 'openai', 'gpt-4o');
+
+    cassette.startReplay(file);
+    expect(cassette.isReplaying()).toBe(true);
+    // The later recording of the same request wins
+    expect((await cassette.lookup('prompt', 'Say hi'))?.response).toBe('Hello!');
+    // Key order doesn't change the hash
+    expect((await cassette.lookup('match', { job: 'x', resume: { a: 2, b: 1 } }))?.response).toBe('{"score":80}');
+    expect(await cassette.lookup('json', 'Say hi')).toBeNull();
+  });
+
+  it('writes nothing unless recording', async () => {
+    cassette.startReplay(file);
+    await cassette.record('prompt', 'Say hi', 'Hi!', 'openai', 'gpt-4o');
+    await expect(fs.access(file)).rejects.toThrow();
+    expect(await cassette.lookup('prompt', 'Say hi')).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+const aiConfig: Record<string, any> = {};
+
+jest.mock('../../src/core/config/ConfigManager', () => ({
+  ConfigManager: { getInstance: () => ({ get: async () => aiConfig }) },
+}));
+
+import { FabricationGuard } from '../../src/ai/FabricationGuard';
+import { FabricationError } from '../../src/ai/errors';
+
+const guard = FabricationGuard.getInstance();
+const source = { texts: ['Moved 12,345 lines of billing code at Acme to Go, cutting latency by 40%.'], technologies: ['Go'] };
+
+describe('FabricationGuard.verify', () => {
+  it('accepts numbers, names and technologies from the source', () => {
+    const output: any = {
+      description: 'Migrated 12K+ lines at Acme Payments, cutting latency by 40%.',
+      highlights: ['Rewrote billing in Go'],
+      technologies: ['Go'],
+    };
+    expect(guard.verify(output, source)).toEqual([]);
+  });
+
+  it('lists numbers, organizations and technologies the model introduced', () => {
+    const output: any = {
+      description: 'Cut latency by 60% for Netflix.',
+      highlights: ['Served 3M users', 'Built on ES6 and EC2'],
+      technologies: ['Go', 'Kafka'],
+    };
+    expect(guard.verify(output, source)).toEqual([
+      { kind: 'number', value: '60%', field: 'description' },
+      { kind: 'organization', value: 'Netflix', field: 'description' },
+      { kind: 'number', value: '3M', field: 'highlights[0]' },
+      { kind: 'technology', value: 'Kafka', field: 'technologies' },
+    ]);
+  });
+});
+
+describe('FabricationGuard.check', () => {
+  const output: any = { description: 'Grew revenue by 300%.', highlights: [] };
+
+  afterEach(() => delete aiConfig.fabricationGuard);
+
+  it('returns the claims in warn mode and nothing when off', async () => {
+    expect(await guard.check(output, source, 'Acme')).toHaveLength(1);
+    aiConfig.fabricationGuard = 'off';
+    expect(await guard.check(output, source, 'Acme')).toEqual([]);
+  });
+
+  it('rejects unsupported output in strict mode, dropping only rejected variants', async () => {
+    aiConfig.fabricationGuard = 'strict';
+    await expect(guard.check(output, source, 'Acme')).rejects.toBeInstanceOf(FabricationError);
+
+    const clean: any = { description: 'Cut latency by 40%.', highlights: [] };
+    const candidates = await guard.checkVariants([{ data: output } as any, { data: clean } as any], source, 'Acme');
+    expect(candidates.map((c) => c.data)).toEqual([clean]);
+    await expect(guard.checkVariants([{ data: output } as any], source, 'Acme')).rejects.toBeInstanceOf(FabricationError);
+  });
+});
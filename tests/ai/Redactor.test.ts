@@ -0,0 +1,104 @@
+const config: Record<string, any> = {};
+
+jest.mock('../../src/core/config/ConfigManager', () => ({
+  ConfigManager: { getInstance: () => ({ get: async (key: string) => config[key] }) },
+}));
+jest.mock('../../src/core/experience/ExperienceManager', () => ({
+  ExperienceManager: {
+    getInstance: () => ({ load: async () => undefined, getAll: async () => [{ company: 'Acme Cloud' }, { company: 'Acme' }] }),
+  },
+}));
+
+import { Redaction, Redactor } from '../../src/ai/Redactor';
+
+describe('Redaction', () => {
+  it('replaces known values and restores them in the response', () => {
+    const redaction = new Redaction(false);
+    redaction.add('Jane Doe', 'NAME');
+    redaction.add('jane@example.com', 'EMAIL');
+
+    const prompt = redaction.apply({ text: 'Jane Doe <jane@example.com>', list: ['jane doe'] });
+    expect(prompt).toEqual({ text: '[[NAME_1]] <[[EMAIL_1]]>', list: ['[[NAME_1]]'] });
+    expect(redaction.restore('Dear [[NAME_1]], [[UNKNOWN_1]]')).toBe('Dear Jane Doe, [[UNKNOWN_1]]');
+  });
+
+  it('matches whole words, longest value first', () => {
+    const redaction = new Redaction(false);
+    redaction.add('Li', 'NAME');
+    redaction.add('Acme', 'COMPANY');
+    redaction.add('Acme Cloud', 'COMPANY');
+    expect(redaction.apply('Li ran Linux at Acme Cloud and Acme')).toBe('[[NAME_1]] ran Linux at [[COMPANY_2]] and [[COMPANY_1]]');
+  });
+
+  it('replaces a location only where it fills the location field', () => {
+    const redaction = new Redaction(false);
+    redaction.add('Berlin', 'LOCATION', 'location');
+    const redacted = redaction.apply({
+      location: 'Berlin',
+      description: 'Our Berlin office',
+      profile: 'Location: Berlin\n{"location": "Berlin"}',
+    });
+    expect(redacted).toEqual({
+      location: '[[LOCATION_1]]',
+      description: 'Our Berlin office',
+      profile: 'Location: [[LOCATION_1]]\n{"location": "[[LOCATION_1]]"}',
+    });
+    expect(redaction.restore(redacted)).toEqual({
+      location: 'Berlin',
+      description: 'Our Berlin office',
+      profile: 'Location: Berlin\n{"location": "Berlin"}',
+    });
+  });
+
+  it('detects emails and phone numbers in pasted text when asked', () => {
+    const redaction = new Redaction(true);
+    const text = redaction.apply('Apply to hr@corp.com or call +49 30 1234567');
+    expect(text).toBe('Apply to [[EMAIL_1]] or call [[PHONE_1]]');
+    expect(redaction.restore(text)).toBe('Apply to hr@corp.com or call +49 30 1234567');
+    expect(new Redaction(false).apply('hr@corp.com')).toBe('hr@corp.com');
+  });
+
+  it('holds back a placeholder split across stream chunks', () => {
+    const redaction = new Redaction(false);
+    redaction.add('Jane Doe', 'NAME');
+    redaction.apply('Jane Doe');
+    const chunks: string[] = [];
+    const stream = redaction.restoreStream((text) => chunks.push(text));
+    stream.onChunk('Hi [[NA');
+    stream.onChunk('ME_1]]!');
+    stream.flush();
+    expect(chunks.join('')).toBe('Hi Jane Doe!');
+  });
+});
+
+describe('Redactor', () => {
+  const redactor = Redactor.getInstance();
+
+  beforeEach(() => {
+    for (const key of Object.keys(config)) delete config[key];
+    config.profile = { name: 'Jane Doe', email: 'jane@example.com', location: 'Berlin' };
+  });
+
+  it('redacts the profile for cloud providers by default', async () => {
+    expect(await redactor.getSettings('deepseek')).toEqual({ enabled: true, companies: false });
+    const redaction = await redactor.forProvider('deepseek');
+    expect(redaction!.apply({ name: 'Jane Doe', location: 'Berlin' })).toEqual({ name: '[[NAME_1]]', location: '[[LOCATION_1]]' });
+  });
+
+  it('leaves local servers and exempt providers unredacted unless configured', async () => {
+    config.ai = { redaction: { enabled: true, companies: true } };
+    expect(await redactor.getSettings('openai-compatible')).toEqual({ enabled: false, companies: false });
+    expect(await redactor.forProvider('openai-compatible')).toBeNull();
+    expect(await redactor.forProvider('mock')).toBeNull();
+
+    config.ai = { redaction: { providers: { 'openai-compatible': { enabled: true } } } };
+    expect(await redactor.forProvider('openai-compatible')).not.toBeNull();
+  });
+
+  it('applies per-provider overrides, including company names', async () => {
+    config.ai = { redaction: { enabled: false, providers: { openai: { companies: true } } } };
+    expect(await redactor.getSettings('openai')).toEqual({ enabled: false, companies: true });
+    const redaction = await redactor.forProvider('openai');
+    expect(redaction!.apply('Jane Doe at Acme Cloud')).toBe('Jane Doe at [[COMPANY_1]]');
+  });
+});
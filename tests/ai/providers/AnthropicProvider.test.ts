@@ -0,0 +1,33 @@
+import { AnthropicProvider } from '../../../src/ai/providers/AnthropicProvider';
+
+describe('AnthropicProvider', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(async () => new Response(JSON.stringify({
+      content: [{ type: 'text', text: '{}' }],
+      usage: { input_tokens: 1, output_tokens: 1 },
+    })));
+    global.fetch = fetchMock;
+  });
+
+  function maxTokensSent(): number {
+    return JSON.parse(fetchMock.mock.calls[0][1].body).max_tokens;
+  }
+
+  it('allows long structured output on current models', async () => {
+    await new AnthropicProvider('sk-test').processGeneralPrompt('Parse this resume');
+    expect(maxTokensSent()).toBe(16384);
+  });
+
+  it('stays within the output limit of older models', async () => {
+    await new AnthropicProvider('sk-test', 'claude-3-haiku-20240307').processGeneralPrompt('Hi');
+    expect(maxTokensSent()).toBe(4096);
+  });
+
+  it('uses the configured limit when one is set', async () => {
+    await new AnthropicProvider('sk-test', undefined, 32000).processGeneralPrompt('Hi');
+    expect(maxTokensSent()).toBe(32000);
+  });
+});
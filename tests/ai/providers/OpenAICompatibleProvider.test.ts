@@ -0,0 +1,86 @@
+import { OpenAICompatibleProvider } from '../../../src/ai/providers/OpenAICompatibleProvider';
+import { DeepSeekProvider } from '../../../src/ai/providers/DeepSeekProvider';
+import { StructuredOutputError } from '../../../src/ai/errors';
+
+function reply(content: string): Response {
+  return new Response(JSON.stringify({ choices: [{ message: { content } }], usage: { prompt_tokens: 1, completion_tokens: 1 } }));
+}
+
+describe('OpenAICompatibleProvider', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+  });
+
+  it('keeps the real work experience in a generated resume', async () => {
+    fetchMock.mockImplementation(async () => reply('{"summary":"Backend engineer with six years of Go."}'));
+    const provider = new OpenAICompatibleProvider('http://localhost:11434/v1/', 'llama3');
+    const experience = { title: 'Engineer', company: 'Acme', startDate: '2020-01', current: true, description: 'APIs', highlights: ['Cut latency'], technologies: ['Go'] };
+
+    const resume = await provider.generateResume([], { name: 'Jane Doe', realExperiences: [experience] });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/v1/chat/completions');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).messages[1].content).toContain('"company":"Acme"');
+    expect(resume.aiProvider).toBe('openai-compatible');
+    expect(resume.content.summary).toBe('Backend engineer with six years of Go.');
+    expect(resume.content.experience).toEqual([{ ...experience, location: undefined, endDate: undefined }]);
+  });
+
+  it('raises StructuredOutputError when the analysis is still not JSON after a repair', async () => {
+    fetchMock.mockImplementation(async () => reply('This project looks great!'));
+    const provider = new OpenAICompatibleProvider('http://localhost:11434/v1', 'llama3');
+    const project: any = {
+      name: 'api', description: 'REST API', languages: new Map([['Go', 100]]), frameworks: [],
+      metrics: { filesCount: 3, linesOfCode: 120 },
+    };
+
+    await expect(provider.analyzeProject(project)).rejects.toBeInstanceOf(StructuredOutputError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('reads the match score from the JSON reply', async () => {
+    fetchMock.mockImplementation(async () => reply('{"totalScore":72}'));
+    const provider = new OpenAICompatibleProvider('http://localhost:11434/v1', 'llama3');
+    const resume: any = { content: { skills: [{ name: 'Go' }] } };
+
+    expect(await provider.matchScore(resume, { requirements: { skills: ['Go'] } } as any)).toBe(72);
+  });
+});
+
+describe('DeepSeekProvider', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+  });
+
+  it('calls the DeepSeek endpoint with its default model and limits', async () => {
+    fetchMock.mockImplementation(async () => reply('{"ok":true}'));
+    const provider = new DeepSeekProvider('sk-test');
+
+    await provider.processGeneralPrompt('Hello');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse(init.body);
+    expect(url).toBe('https://api.deepseek.com/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer sk-test');
+    expect(body).toMatchObject({ model: 'deepseek-reasoner', max_tokens: 2000, stream: false });
+  });
+
+  it('uses JSON mode only for models that support it', async () => {
+    fetchMock.mockImplementation(async () => reply('{}'));
+    await new DeepSeekProvider('sk-test').processPrompt('Hi', true);
+    await new DeepSeekProvider('sk-test', 'deepseek-chat').processPrompt('Hi', true);
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).response_format).toBeUndefined();
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body).response_format).toEqual({ type: 'json_object' });
+  });
+
+  it('is unavailable without an API key', async () => {
+    expect(await new DeepSeekProvider('').isAvailable()).toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,57 @@
+// inquirer ships as an ES module; registering commands never prompts
+jest.mock('inquirer', () => ({ __esModule: true, default: { prompt: jest.fn() } }));
+jest.mock('../../src/core/config/ConfigManager', () => ({
+  ConfigManager: { getInstance: () => ({ get: async () => undefined }) },
+}));
+
+import { Command } from 'commander';
+import { CLI } from '../../src/cli';
+
+function buildProgram(): Command {
+  const program = new Command('faj').exitOverride();
+  new CLI().register(program);
+  return program;
+}
+
+function subcommand(parent: Command, name: string): Command {
+  const command = parent.commands.find((c) => c.name() === name);
+  if (!command) {
+    throw new Error(`${parent.name()} ${name} is not registered`);
+  }
+  return command;
+}
+
+describe('CLI', () => {
+  it('registers every top-level command once', () => {
+    const names = buildProgram().commands.map((c) => c.name());
+    expect(names.filter((name, i) => names.indexOf(name) !== i)).toEqual([]);
+    expect(names).toEqual(expect.arrayContaining(['resume', 'export', 'import', 'match', 'chat', 'translate']));
+  });
+
+  it('keeps the full export command with its --lang option', () => {
+    const exportCommand = subcommand(buildProgram(), 'export');
+    expect(exportCommand.options.map((o) => o.long)).toContain('--lang');
+  });
+
+  it.each([
+    [['resume', 'tailor'], []],
+    [['resume', 'new', 'backend'], ['backend']],
+    [['resume', 'select', 'backend'], ['backend']],
+    [['resume', 'use', 'backend'], ['backend']],
+    [['resume', 'list'], []],
+    [['resume', 'history'], []],
+    [['resume', 'diff', '2', '3'], ['2', '3']],
+    // The undo hint printed after faj import
+    [['resume', 'rollback', '3'], ['3']],
+    [['resume', 'export', 'jsonresume'], ['jsonresume']],
+  ])('resolves faj %j', async (argv, args) => {
+    const program = buildProgram();
+    const command = subcommand(subcommand(program, 'resume'), argv[1]);
+    const action = jest.fn();
+    command.action(action);
+
+    await program.parseAsync(argv, { from: 'user' });
+    expect(action).toHaveBeenCalledTimes(1);
+    expect(action.mock.calls[0].slice(0, args.length)).toEqual(args);
+  });
+});
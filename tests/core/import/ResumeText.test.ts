@@ -0,0 +1,109 @@
+import { checkImported, parseResumeText, segmentResume } from '../../../src/core/import/ResumeText';
+
+const RESUME = `Jane Doe
+jane@example.com | +1 415 555 0100 | github.com/janedoe
+Summary
+Backend engineer who likes
+boring, reliable systems.
+Experience
+Senior Software Engineer | Acme Inc | Berlin, Germany
+Jan 2020 - Present
+• Cut API latency by 40%
+Tech stack: Go, PostgreSQL
+Developer
+Globex
+2017.03 - 2019.12
+• Built the billing service
+Education
+TU Berlin, BSc Computer Science 2012 - 2016
+Certifications
+AWS Solutions Architect`;
+
+function parse(text: string) {
+  return parseResumeText(segmentResume(text), 'resume.pdf');
+}
+
+describe('segmentResume', () => {
+  it('splits the text at known headings', () => {
+    const segments = segmentResume(RESUME);
+    expect(segments.header).toEqual(['Jane Doe', 'jane@example.com | +1 415 555 0100 | github.com/janedoe']);
+    expect(Object.keys(segments.sections)).toEqual(['summary', 'experience', 'education', 'certifications']);
+  });
+
+  it('recognizes Chinese headings', () => {
+    const segments = segmentResume('张三\n工作经验\n工程师\n教育经历\n清华大学');
+    expect(segments.sections.experience).toEqual(['工程师']);
+    expect(segments.sections.education).toEqual(['清华大学']);
+  });
+});
+
+describe('parseResumeText', () => {
+  it('reads contact details from the header', () => {
+    expect(parse(RESUME).basicInfo).toEqual({
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      phone: '+1 415 555 0100',
+      githubUrl: 'https://github.com/janedoe',
+    });
+  });
+
+  it('reads dated experience entries and flags fields guessed by position', () => {
+    const parsed = parse(RESUME);
+    expect(parsed.summary).toBe('Backend engineer who likes boring, reliable systems.');
+    expect(parsed.experiences).toHaveLength(2);
+    expect(parsed.experiences[0]).toMatchObject({
+      title: 'Senior Software Engineer',
+      company: 'Acme Inc',
+      location: 'Berlin, Germany',
+      startDate: '2020-01',
+      current: true,
+      highlights: ['Cut API latency by 40%'],
+      technologies: ['Go', 'PostgreSQL'],
+    });
+    expect(parsed.experiences[1]).toMatchObject({ title: 'Developer', company: 'Globex', startDate: '2017-03', endDate: '2019-12' });
+    expect(parsed.uncertain).toContainEqual({ section: 'experiences', index: 1, field: 'company', reason: 'guessed from the layout' });
+  });
+
+  it('reads a school with its degree and field', () => {
+    const parsed = parse('Education\nStanford University\nMaster of Science in Computer Science\n2014 - 2016');
+    expect(parsed.education).toEqual([
+      expect.objectContaining({ institution: 'Stanford University', degree: 'Master of Science', field: 'Computer Science', startDate: '2014', endDate: '2016' }),
+    ]);
+  });
+
+  it('splits a school, degree and field written on one line', () => {
+    const parsed = parse(RESUME);
+    expect(parsed.education).toEqual([
+      expect.objectContaining({ institution: 'TU Berlin', degree: 'BSc', field: 'Computer Science', startDate: '2012', endDate: '2016' }),
+    ]);
+    expect(parsed.uncertain).toContainEqual({ section: 'education', index: 0, field: 'institution', reason: 'guessed from the layout' });
+  });
+
+  it('flags a field taken from the part next to the degree', () => {
+    const parsed = parse('Education\nB.S., Computer Science\nStanford University\n2014 - 2018');
+    expect(parsed.education[0]).toMatchObject({ institution: 'Stanford University', degree: 'B.S.', field: 'Computer Science' });
+    expect(parsed.uncertain).toContainEqual({ section: 'education', index: 0, field: 'field', reason: 'guessed from the layout' });
+  });
+
+  it('warns about sections it does not import', () => {
+    expect(parse(RESUME).warnings).toEqual(['The certifications section is not imported; add it with faj resume update']);
+    expect(parse('Jane Doe\njane@example.com').warnings).toEqual(['No section headings were recognized; only contact details could be read']);
+  });
+});
+
+describe('checkImported', () => {
+  it('flags malformed dates and names missing from the document', () => {
+    const issues = checkImported({
+      source: 'resume.pdf',
+      basicInfo: { name: 'Jane Doe' },
+      experiences: [{ title: 'Engineer', company: 'Initech', startDate: 'last year', highlights: [], technologies: [] } as any],
+      projects: [],
+      education: [],
+      skills: [],
+    }, 'Jane Doe\nEngineer at Acme');
+    expect(issues).toEqual([
+      { section: 'experiences', index: 0, field: 'company', reason: 'not found in the document' },
+      { section: 'experiences', index: 0, field: 'startDate', reason: 'not a date' },
+    ]);
+  });
+});
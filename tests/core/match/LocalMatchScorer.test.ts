@@ -0,0 +1,54 @@
+import { LocalMatchScorer } from '../../../src/core/match/LocalMatchScorer';
+
+const scorer = LocalMatchScorer.getInstance();
+
+const resume: any = {
+  content: {
+    summary: 'Backend engineer building APIs in Go and TypeScript.',
+    skills: [{ name: 'Go' }, { name: 'Kubernetes' }, { name: 'PostgreSQL' }],
+    experience: [
+      { title: 'Engineer', company: 'Acme', startDate: '2016-01', endDate: '2022-01', highlights: ['Ran services on k8s'], technologies: ['Go', 'Postgres'] },
+    ],
+  },
+};
+
+describe('LocalMatchScorer.extractRequirements', () => {
+  it('finds skills and years in a technical posting, folding aliases', () => {
+    const { skills, experience } = scorer.extractRequirements(
+      'We need 5+ years with Go, TypeScript and k8s. You know Postgres, REST APIs and C/C++.'
+    );
+    expect(skills).toEqual(expect.arrayContaining(['go', 'typescript', 'kubernetes', 'postgresql', 'rest', 'c']));
+    expect(experience).toBe(5);
+  });
+
+  it('reads ambiguous words in plain prose as ordinary words', () => {
+    const { skills } = scorer.extractRequirements(
+      'Go to market with us! Rest assured, we express our ideas in the spring. ' +
+      'Node of our network, you will spark campaigns, rust away nothing and be swift. See section C. ML experience is a plus.'
+    );
+    expect(skills).toEqual(['machine-learning']);
+  });
+
+  it('keeps Spring and Express when the context names the framework', () => {
+    const { skills } = scorer.extractRequirements('Backend with Java, Spring Boot and Express on Node.js.');
+    expect(skills).toEqual(expect.arrayContaining(['java', 'spring', 'express']));
+  });
+});
+
+describe('LocalMatchScorer.explain', () => {
+  it('is deterministic and reports matched and missing skills', () => {
+    const job: any = { title: 'Backend Engineer', description: 'Go services on Kubernetes.', requirements: { skills: ['Go', 'Kubernetes', 'Rust'], experience: 3 } };
+    const first = scorer.explain(resume, job);
+    expect(scorer.explain(resume, job)).toEqual(first);
+    expect(first.skills).toMatchObject({ matched: ['Go', 'Kubernetes'], missing: ['Rust'], score: 67 });
+    expect(first.experience).toEqual({ requiredYears: 3, years: 6, score: 100 });
+    expect(first.score).toBeGreaterThan(0);
+    expect(first.score).toBeLessThanOrEqual(100);
+  });
+
+  it('scores an unrelated job lower', () => {
+    const related: any = { title: 'Go Engineer', description: 'Build Go APIs on Kubernetes with PostgreSQL.' };
+    const unrelated: any = { title: 'Brand Manager', description: 'Lead brand campaigns and media buying.' };
+    expect(scorer.explain(resume, related).score).toBeGreaterThan(scorer.explain(resume, unrelated).score);
+  });
+});
@@ -0,0 +1,105 @@
+import { exportJsonResume, importJsonResume, JSON_RESUME_SCHEMA, JsonResumeDocument } from '../../../src/core/resume/JsonResume';
+
+const DOCUMENT: JsonResumeDocument = {
+  $schema: JSON_RESUME_SCHEMA,
+  basics: {
+    name: 'Jane Doe',
+    label: 'Backend Engineer',
+    email: 'jane@example.com',
+    url: 'https://jane.dev',
+    summary: 'Builds reliable systems.',
+    location: { city: 'Berlin', countryCode: 'DE' },
+    profiles: [
+      { network: 'GitHub', username: 'janedoe', url: 'https://github.com/janedoe' },
+      { network: 'Mastodon', url: 'https://hachyderm.io/@jane' },
+    ],
+  },
+  work: [
+    { name: 'Acme', position: 'Engineer', url: 'https://acme.com', startDate: '2020-01', highlights: ['Cut latency by 40%'] },
+    { name: 'Globex', position: 'Intern', startDate: '2018-06', endDate: '2019-08' },
+  ],
+  education: [{ institution: 'TU Berlin', area: 'Computer Science', studyType: 'BSc', startDate: '2014', endDate: '2018', score: '3.8', courses: ['Compilers'] }],
+  projects: [{ name: 'faj', description: 'Job search CLI', keywords: ['TypeScript'], roles: ['Maintainer'] }],
+  skills: [
+    { name: 'Backend', level: 'Expert', keywords: ['Go', 'PostgreSQL'] },
+    { name: 'Docker' },
+  ],
+  languages: [{ language: 'English', fluency: 'Native speaker' }],
+  volunteer: [{ organization: 'Code Club', position: 'Mentor' }],
+};
+
+// What ResumeManager stores after an import
+function toResume(document: JsonResumeDocument): any {
+  const { basicInfo, content, extras } = importJsonResume(document);
+  return { basicInfo, content, metadata: { jsonResume: extras } };
+}
+
+describe('importJsonResume', () => {
+  it('maps sections onto FAJ fields', () => {
+    const { basicInfo, content } = importJsonResume(DOCUMENT);
+    expect(basicInfo).toMatchObject({
+      name: 'Jane Doe',
+      portfolioUrl: 'https://jane.dev',
+      location: 'Berlin, DE',
+      githubUrl: 'https://github.com/janedoe',
+      languages: ['English'],
+    });
+    expect(content.summary).toBe('Builds reliable systems.');
+    expect(content.experience).toEqual([
+      { company: 'Acme', title: 'Engineer', startDate: '2020-01', highlights: ['Cut latency by 40%'], current: true },
+      { company: 'Globex', title: 'Intern', startDate: '2018-06', endDate: '2019-08', current: false },
+    ]);
+    expect(content.education?.[0]).toMatchObject({ degree: 'BSc', field: 'Computer Science', gpa: 3.8 });
+    expect(content.projects?.[0]).toMatchObject({ technologies: ['TypeScript'], role: 'Maintainer' });
+    expect(content.skills).toEqual([
+      { name: 'Go', level: 'Expert', category: 'Backend' },
+      { name: 'PostgreSQL', level: 'Expert', category: 'Backend' },
+      { name: 'Docker', category: 'Docker' },
+    ]);
+  });
+
+  it('lists the fields FAJ has no place for', () => {
+    expect(importJsonResume(DOCUMENT).unmapped).toEqual([
+      'volunteer',
+      'basics.label',
+      'basics.location',
+      'basics.profiles[1]',
+      'work[0].url',
+      'education[0].courses',
+      'languages[0].fluency',
+    ]);
+  });
+
+  it('rejects anything that is not a document', () => {
+    expect(() => importJsonResume([] as any)).toThrow('Not a JSON Resume document');
+  });
+});
+
+describe('exportJsonResume', () => {
+  it('gives back an imported document unchanged', () => {
+    const { document, unmapped } = exportJsonResume(toResume(DOCUMENT));
+    expect(document).toEqual(DOCUMENT);
+    expect(unmapped).toEqual([]);
+  });
+
+  it('keeps FAJ-only fields under x-faj so importing again restores them', () => {
+    const resume: any = {
+      basicInfo: { name: 'Jane Doe', birthDate: '1990-01-01' },
+      content: {
+        summary: 'Builds reliable systems.',
+        experience: [{ id: 'e1', company: 'Acme', title: 'Engineer', startDate: '2020-01', endDate: '2021-01', current: true, technologies: ['Go'] }],
+        education: [{ institution: 'TU Berlin', degree: 'BSc', field: 'CS', startDate: '2014', endDate: '2018', gpa: 4 }],
+        skills: [{ name: 'Go', category: 'Backend', years: 5 }],
+        certifications: [{ name: 'CKA', issuer: 'CNCF', issueDate: '2021-05' }],
+        customSections: [{ title: 'Talks', items: ['GopherCon'] }],
+      },
+    };
+    const { document, unmapped } = exportJsonResume(resume);
+    expect(unmapped).toEqual(['basicInfo.birthDate', 'experience[0].technologies', 'skills[0].years', 'content.customSections']);
+    expect(document.work?.[0]).not.toHaveProperty('endDate');
+
+    const reimported = importJsonResume(JSON.parse(JSON.stringify(document)));
+    expect(reimported.basicInfo).toEqual(resume.basicInfo);
+    expect(reimported.content).toEqual(resume.content);
+  });
+});
@@ -0,0 +1,82 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { diffFields } from '../../../src/core/resume/FieldDiff';
+import { ResumeHistory } from '../../../src/core/resume/ResumeHistory';
+
+describe('diffFields', () => {
+  it('reports changed, added and removed fields by path', () => {
+    expect(diffFields({ summary: 'a', title: 'x', gone: 'y' }, { summary: 'b', title: 'x', added: 'z' })).toEqual([
+      { path: 'summary', before: 'a', after: 'b' },
+      { path: 'gone', before: 'y' },
+      { path: 'added', after: 'z' },
+    ]);
+  });
+
+  it('treats empty values as absent and compares plain lists whole', () => {
+    expect(diffFields({ a: '', b: [], c: null }, {})).toEqual([]);
+    expect(diffFields({ highlights: ['x', 'y'] }, { highlights: ['x', 'z'] })).toEqual([
+      { path: 'highlights', before: ['x', 'y'], after: ['x', 'z'] },
+    ]);
+  });
+
+  it('compares lists of objects item by item, or reports inserted items whole', () => {
+    const a = { company: 'Acme' };
+    const b = { company: 'Globex' };
+    expect(diffFields({ experience: [a, b] }, { experience: [a, { company: 'Initech' }] })).toEqual([
+      { path: 'experience[1].company', before: 'Globex', after: 'Initech' },
+    ]);
+    expect(diffFields({ experience: [a, b] }, { experience: [{ company: 'New' }, a, b] })).toEqual([
+      { path: 'experience[0]', after: { company: 'New' } },
+    ]);
+  });
+});
+
+describe('ResumeHistory', () => {
+  let dir: string;
+  let history: ResumeHistory;
+  const resume = (summary: string, extra: Record<string, unknown> = {}): any => ({
+    id: 'r1',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    content: { summary },
+    ...extra,
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'faj-history-'));
+    history = new ResumeHistory(path.join(dir, 'resume.history.jsonl'));
+  });
+
+  afterEach(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('records the previous resume first, then numbers versions in order', async () => {
+    const first = await history.record(resume('new'), 'update', undefined, resume('old', { version: 3 }));
+    expect(first?.version).toBe(4);
+
+    const versions = await history.list();
+    expect(versions.map((s) => [s.version, s.operation, s.resume.content.summary])).toEqual([
+      [3, 'initial', 'old'],
+      [4, 'update', 'new'],
+    ]);
+    expect((await history.latest())?.version).toBe(4);
+    expect((await history.get(3))?.resume.content.summary).toBe('old');
+  });
+
+  it('skips saves that change only bookkeeping fields', async () => {
+    await history.record(resume('same'), 'create');
+    expect(await history.record(resume('same', { updatedAt: '2025-01-01', metadata: { x: 1 } }), 'edit')).toBeNull();
+    expect(await history.list()).toHaveLength(1);
+  });
+
+  it('ignores a line cut short by a crash', async () => {
+    await history.record(resume('one'), 'create');
+    await fs.appendFile(path.join(dir, 'resume.history.jsonl'), '{"version": 2, "resu');
+    expect((await history.list()).map((s) => s.version)).toEqual([1]);
+  });
+
+  it('diffs content, not ids or timestamps', () => {
+    expect(ResumeHistory.diff(resume('a'), resume('b', { id: 'r2', version: 9 }))).toEqual([
+      { path: 'content.summary', before: 'a', after: 'b' },
+    ]);
+  });
+});
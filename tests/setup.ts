@@ -0,0 +1,2 @@
+// Keep expected warnings from cluttering the test output
+process.env.FAJ_QUIET = '1';
@@ -0,0 +1,35 @@
+import { extractDocxText } from '../../src/utils/DocxText';
+import { buildZip } from '../helpers/zip';
+
+function docx(body: string): Buffer {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`;
+  return buildZip({ '[Content_Types].xml': '<Types/>', 'word/document.xml': xml });
+}
+
+describe('extractDocxText', () => {
+  it('reads one line per paragraph, joining runs', () => {
+    const text = extractDocxText(docx(
+      '<w:p><w:r><w:t>Jane </w:t></w:r><w:r><w:t xml:space="preserve">Doe</w:t></w:r></w:p>' +
+      '<w:p></w:p>' +
+      '<w:p><w:r><w:t>Experience</w:t></w:r></w:p>'
+    ));
+    expect(text).toBe('Jane Doe\nExperience');
+  });
+
+  it('marks list paragraphs and keeps tabs and breaks', () => {
+    const text = extractDocxText(docx(
+      '<w:p><w:pPr><w:numPr><w:ilvl w:val="0"/></w:numPr></w:pPr><w:r><w:t>Shipped the API</w:t></w:r></w:p>' +
+      '<w:p><w:r><w:t>Engineer</w:t><w:tab/><w:t>2020 - 2022</w:t><w:br/><w:t>Acme</w:t></w:r></w:p>'
+    ));
+    expect(text).toBe('• Shipped the API\nEngineer\t2020 - 2022\nAcme');
+  });
+
+  it('decodes XML entities', () => {
+    expect(extractDocxText(docx('<w:p><w:r><w:t>R&amp;D &lt;team&gt; &#233;&#x4e2d;</w:t></w:r></w:p>'))).toBe('R&D <team> é中');
+  });
+
+  it('rejects archives without a document body', () => {
+    expect(() => extractDocxText(buildZip({ 'a.txt': 'x' }))).toThrow('Not a Word document (.docx)');
+    expect(() => extractDocxText(Buffer.from('plain text'))).toThrow('Not a Word document (.docx)');
+  });
+});
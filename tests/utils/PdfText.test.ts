@@ -0,0 +1,42 @@
+import PDFDocument from 'pdfkit';
+import { PDFDocument as LibDocument, StandardFonts } from 'pdf-lib';
+import { extractPdfText } from '../../src/utils/PdfText';
+
+function pdfkitFile(pages: string[][], compress: boolean): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ compress });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+    pages.forEach((lines, i) => {
+      if (i > 0) doc.addPage();
+      lines.forEach((line) => doc.text(line));
+    });
+    doc.end();
+  });
+}
+
+describe('extractPdfText', () => {
+  it('reads the lines of every page, compressed or not', async () => {
+    for (const compress of [true, false]) {
+      const text = extractPdfText(await pdfkitFile([['Jane Doe', 'Senior Engineer – Acme'], ['Education']], compress));
+      expect(text).toBe('Jane Doe\nSenior Engineer – Acme\n\nEducation');
+    }
+  });
+
+  it('reads files that keep their objects in object streams', async () => {
+    const doc = await LibDocument.create();
+    const font = await doc.embedFont(StandardFonts.Helvetica);
+    const page = doc.addPage();
+    page.drawText('Skills', { x: 50, y: 700, font });
+    page.drawText('TypeScript, Go', { x: 50, y: 680, font });
+    const data = Buffer.from(await doc.save({ useObjectStreams: true }));
+
+    expect(extractPdfText(data)).toBe('Skills\nTypeScript, Go');
+  });
+
+  it('rejects data that is not a PDF', () => {
+    expect(() => extractPdfText(Buffer.from('PK\u0003\u0004 not a pdf'))).toThrow('Not a PDF file');
+  });
+});
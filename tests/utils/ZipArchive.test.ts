@@ -0,0 +1,34 @@
+import { ZipArchive } from '../../src/utils/ZipArchive';
+import { buildZip } from '../helpers/zip';
+
+describe('ZipArchive', () => {
+  it('reads deflated and stored entries', () => {
+    for (const stored of [false, true]) {
+      const zip = ZipArchive.fromBuffer(buildZip({ 'a.txt': 'hello', 'dir/b.csv': 'x,y\n1,2' }, { stored }));
+      expect(zip.names()).toEqual(['a.txt', 'dir/b.csv']);
+      expect(zip.readText('a.txt')).toBe('hello');
+      expect(zip.readText('dir/b.csv')).toBe('x,y\n1,2');
+    }
+  });
+
+  it('finds entries by file name regardless of folder and case', () => {
+    const zip = ZipArchive.fromBuffer(buildZip({ 'Basic_LinkedInDataExport/Positions.csv': 'x' }));
+    expect(zip.find('positions.csv')).toBe('Basic_LinkedInDataExport/Positions.csv');
+    expect(zip.find('education.csv')).toBeNull();
+  });
+
+  it('strips a byte order mark and returns null for missing entries', () => {
+    const zip = ZipArchive.fromBuffer(buildZip({ 'bom.csv': '\ufeffName' }));
+    expect(zip.readText('bom.csv')).toBe('Name');
+    expect(zip.read('missing.csv')).toBeNull();
+  });
+
+  it('keeps UTF-8 names and content', () => {
+    const zip = ZipArchive.fromBuffer(buildZip({ '简历.txt': '清华大学' }));
+    expect(zip.readText('简历.txt')).toBe('清华大学');
+  });
+
+  it('rejects data that is not a ZIP archive', () => {
+    expect(() => ZipArchive.fromBuffer(Buffer.from('%PDF-1.4 not a zip at all, just some bytes'))).toThrow('Not a ZIP archive');
+  });
+});